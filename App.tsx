@@ -1,9 +1,22 @@
 
 import React, { useState, useEffect, Suspense, lazy, useRef } from 'react';
-import { ContentType, SummaryPoint, Quiz, QuizResult, QuizConfig, ToastNotification, AppSettings, LessonSession, TaskModels, Flashcard, QuestionType } from './types';
+import { ContentType, SummaryPoint, Quiz, QuizResult, QuizConfig, ToastNotification, AppSettings, LessonSession, TaskModels, Flashcard, QuestionType, Question, DifficultyLevel, ReviewGrade, ChatThread, AssignmentRecord, XPSource, XPEvent, Exam, PlanTask } from './types';
 import Toast from './components/Toast';
-import { BookOpen, LayoutDashboard, BrainCircuit, MessageSquare, Settings, History, Library as LibraryIcon, Loader2, Trophy, Flame, Star, ChevronLeft, ChevronRight, Maximize2, Minimize2, Menu, X, Home, Palette, Check, RotateCcw, User } from 'lucide-react';
+import { BookOpen, LayoutDashboard, BrainCircuit, MessageSquare, Settings, History, Library as LibraryIcon, Loader2, Trophy, Flame, Star, ChevronLeft, ChevronRight, Maximize2, Minimize2, Menu, X, Home, Palette, Check, RotateCcw, User, Layers, StopCircle, Search, GraduationCap, CalendarDays } from 'lucide-react';
 import { soundManager } from './utils/soundEffects';
+import { withCardIds, gradeCardIn } from './utils/spacedRepetition';
+import { getSessionThreads } from './utils/chatThreads';
+import * as DB from './utils/db';
+import { addToBank, assembleQuizFromBank } from './utils/questionBank';
+import { formatScore } from './utils/quizFormat';
+import { QuizCheckpoint, loadQuizCheckpoint, clearQuizCheckpoint } from './utils/quizCheckpoint';
+import { profileKey, getActiveProfile, leaveProfile } from './utils/profiles';
+import { buildAssignment, createAssignmentPackage, createResultFile } from './utils/classroom';
+import { downloadBlob } from './utils/zip';
+import { checkStreak, applyXP, createXPEvent, findNewAchievements } from './utils/gamification';
+import { dayKey } from './utils/calendar';
+import { setTaskDone, completeMatchingTask } from './utils/studyPlanner';
+import { DEFAULT_LESSON_TITLE, extractLessonTitle, LessonPlacement } from './utils/curriculum';
 
 // Lazy load heavy components
 const InputSection = lazy(() => import('./components/InputSection'));
@@ -14,6 +27,13 @@ const ChatAssistant = lazy(() => import('./components/ChatAssistant'));
 const Library = lazy(() => import('./components/Library'));
 const SettingsModal = lazy(() => import('./components/SettingsModal'));
 const HistorySidebar = lazy(() => import('./components/HistorySidebar'));
+const ReviewSession = lazy(() => import('./components/ReviewSession'));
+const SearchPalette = lazy(() => import('./components/SearchPalette'));
+const ClassroomView = lazy(() => import('./components/ClassroomView'));
+const StudyPlanner = lazy(() => import('./components/StudyPlanner'));
+const TodayPlan = lazy(() => import('./components/TodayPlan'));
+
+const PLAN_QUIZ_SIZE = 10; // Questions drawn from the bank for a plan's practice quiz
 
 // Loading Fallback
 const LoadingFallback = () => (
@@ -91,45 +111,9 @@ const COLOR_PALETTES: Record<string, any> = {
   }
 };
 
-// Welcome Modal Component
-const WelcomeModal = ({ onComplete }: { onComplete: (name: string) => void }) => {
-    const [name, setName] = useState('');
-
-    return (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
-            <div className="bg-white dark:bg-gray-900 rounded-3xl p-8 max-w-md w-full text-center shadow-2xl animate-in zoom-in-95 border border-gray-200 dark:border-gray-700">
-                <div className="w-20 h-20 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-6 text-primary-600">
-                    <User className="w-10 h-10" />
-                </div>
-                <h2 className="text-2xl font-black text-gray-900 dark:text-white mb-2">مرحباً بك في فصيح!</h2>
-                <p className="text-gray-500 mb-6">للحصول على أفضل تجربة تعليمية، أخبرنا ما هو اسمك؟</p>
-                
-                <input 
-                    type="text" 
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="اكتب اسمك هنا..."
-                    className="w-full p-4 rounded-xl border-2 border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 text-center text-lg font-bold outline-none focus:border-primary-500 mb-6"
-                    autoFocus
-                />
-                
-                <button 
-                    onClick={() => {
-                        if (name.trim()) onComplete(name.trim());
-                    }}
-                    disabled={!name.trim()}
-                    className="w-full py-4 bg-primary-600 text-white rounded-xl font-bold text-lg shadow-lg hover:bg-primary-700 disabled:opacity-50 transition-all"
-                >
-                    ابدأ الرحلة التعليمية
-                </button>
-            </div>
-        </div>
-    );
-};
-
 function App() {
   // --- State ---
-  const [activeView, setActiveView] = useState<'STUDY' | 'EXAM' | 'PROFILE' | 'LIBRARY'>('STUDY');
+  const [activeView, setActiveView] = useState<'STUDY' | 'EXAM' | 'PROFILE' | 'LIBRARY' | 'CLASSROOM' | 'PLANNER'>('STUDY');
   
   // Layout State
   const [isChatOpen, setIsChatOpen] = useState(true);
@@ -139,12 +123,14 @@ function App() {
 
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [showWelcomeModal, setShowWelcomeModal] = useState(false);
 
   const [settings, setSettings] = useState<AppSettings>(() => {
-    const saved = localStorage.getItem('faseeh_settings');
-    if (saved) return JSON.parse(saved);
+    // The name always comes from the profile picked at startup (see ProfilePicker)
+    const studentName = getActiveProfile()?.name;
+    const saved = localStorage.getItem(profileKey('faseeh_settings'));
+    if (saved) return { ...JSON.parse(saved), studentName };
     return {
+      studentName,
       theme: 'dark',
       colorTheme: 'teal', // Default color
       apiKeys: [],
@@ -159,38 +145,27 @@ function App() {
       userStats: {
         xp: 0,
         level: 1,
-        streak: 0,
-        lastLoginDate: new Date().toDateString()
+        streak: 0
       }
     };
   });
 
-  // Check for student name on mount
-  useEffect(() => {
-      if (!settings.studentName) {
-          setShowWelcomeModal(true);
-      }
-  }, []);
-
-  // Gamification Logic (Simple Check)
+  // Streak: days missed since the last day of study spend a freeze each, or break the streak
   useEffect(() => {
-      const today = new Date().toDateString();
-      if (settings.userStats.lastLoginDate !== today) {
-          setSettings(prev => ({
-              ...prev,
-              userStats: {
-                  ...prev.userStats,
-                  streak: prev.userStats.streak + 1,
-                  lastLoginDate: today
-              }
-          }));
-          addToast('success', '🔥 مذهل! يوم جديد من التعلم المستمر.');
+      const { stats, freezesUsed, lostStreak } = checkStreak(settings.userStats);
+      setSettings(prev => ({ ...prev, userStats: stats }));
+      if (freezesUsed > 0) {
+          addToast('info', `❄️ حافظت على سلسلتك باستخدام ${freezesUsed} من أيام الحماية`);
+      } else if (lostStreak > 0) {
+          addToast('info', `انقطعت سلسلة ${lostStreak} يوم. ابدأ سلسلة جديدة اليوم!`);
+      } else if (stats.streak > 0 && stats.lastActiveDate !== dayKey()) {
+          addToast('success', `🔥 سلسلة ${stats.streak} يوم! تعلّم اليوم لتستمر.`);
       }
   }, []);
 
   // Apply Theme and Colors
   useEffect(() => {
-    localStorage.setItem('faseeh_settings', JSON.stringify(settings));
+    localStorage.setItem(profileKey('faseeh_settings'), JSON.stringify(settings));
     
     // Apply Dark/Light Mode
     if (settings.theme === 'dark') {
@@ -210,58 +185,69 @@ function App() {
 
   }, [settings]);
 
-  const handleNameSubmit = (name: string) => {
-      setSettings(prev => ({ ...prev, studentName: name }));
-      setShowWelcomeModal(false);
-      addToast('success', `مرحباً ${name}! سعيد بوجودك.`);
+  // Read after the ledger write, when the award that triggered the check has been rendered
+  const userStatsRef = useRef(settings.userStats);
+  userStatsRef.current = settings.userStats;
+
+  const unlockAchievements = async () => {
+      const unlocked = findNewAchievements(await DB.getXPLedger(), userStatsRef.current);
+      if (unlocked.length === 0) return;
+      const now = new Date().toISOString();
+      setSettings(prev => ({
+          ...prev,
+          userStats: {
+              ...prev.userStats,
+              achievements: { ...prev.userStats.achievements, ...Object.fromEntries(unlocked.map(a => [a.id, now])) }
+          }
+      }));
+      unlocked.forEach(a => addToast('success', `${a.icon} إنجاز جديد: ${a.title}`));
       soundManager.play('SUCCESS');
   };
 
-  const addXP = (amount: number) => {
+  // Every award is recorded in the XP ledger, which the dashboard's goals and the achievements are computed from
+  const addXP = (source: XPSource, amount: number, details?: Pick<XPEvent, 'label' | 'percent'>) => {
       setSettings(prev => {
-          const newXP = prev.userStats.xp + amount;
-          const nextLevelXP = prev.userStats.level * 1000;
-          let newLevel = prev.userStats.level;
-          
-          if (newXP >= nextLevelXP) {
-              newLevel += 1;
-              addToast('success', `🎉 مبروك! لقد وصلت للمستوى ${newLevel}`);
+          const userStats = applyXP(prev.userStats, amount);
+          if (userStats.level > prev.userStats.level) {
+              addToast('success', `🎉 مبروك! لقد وصلت للمستوى ${userStats.level}`);
               soundManager.play('SUCCESS');
           }
-
-          return {
-              ...prev,
-              userStats: {
-                  ...prev.userStats,
-                  xp: newXP,
-                  level: newLevel
-              }
-          };
+          return { ...prev, userStats };
       });
+      DB.appendXPEvent(createXPEvent(source, amount, details))
+        .then(unlockAchievements)
+        .catch(error => console.error('Failed to record XP', error));
   };
 
   // History Sidebar State
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
-  const [lessonSessions, setLessonSessions] = useState<LessonSession[]>(() => {
-    const saved = localStorage.getItem('faseeh_sessions');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [sessionCount, setSessionCount] = useState(0);
+  const [activeSession, setActiveSession] = useState<LessonSession | null>(null);
+  const [dueCardsCount, setDueCardsCount] = useState(0);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [libraryTarget, setLibraryTarget] = useState<{ bookId: string; page: number } | null>(null);
   
   // Content State
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isStreamingLesson, setIsStreamingLesson] = useState(false);
+  // Progress of chunked (map-reduce) generation over long lessons; only shown when there is more than one chunk
+  const [taskProgress, setTaskProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const processingAbortRef = useRef<AbortController | null>(null);
   const [processedContent, setProcessedContent] = useState<string>('');
   const [summary, setSummary] = useState<SummaryPoint[]>([]);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [isGeneratingFlashcards, setIsGeneratingFlashcards] = useState(false);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
 
   // Quiz State
   const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null);
-  const [quizHistory, setQuizHistory] = useState<QuizResult[]>(() => {
-    const saved = localStorage.getItem('faseeh_quiz_history');
-    return saved ? JSON.parse(saved) : [];
-  });
+  // An attempt left unfinished by a reload, offered back on startup
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<QuizCheckpoint | null>(() => loadQuizCheckpoint());
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<QuizCheckpoint | null>(null);
 
   const [toasts, setToasts] = useState<ToastNotification[]>([]);
 
@@ -312,13 +298,71 @@ function App() {
   };
 
   // --- Effects ---
+  // Sessions & quiz history live in IndexedDB (see utils/db.ts); only counters are kept in memory
+  const refreshSessionStats = async () => {
+    try {
+      const [count, due] = await Promise.all([DB.countSessions(), DB.countDueCards()]);
+      setSessionCount(count);
+      setDueCardsCount(due);
+    } catch (error) {
+      console.error('Failed to load sessions', error);
+    }
+  };
+
   useEffect(() => {
-    localStorage.setItem('faseeh_quiz_history', JSON.stringify(quizHistory));
-  }, [quizHistory]);
+    refreshSessionStats();
+  }, []);
+
+  // Keep the active session in sync with the editor so edits and flashcard schedules survive a reload.
+  // Writes are debounced; flushActiveSession() forces a pending write before reading sessions back.
+  const pendingSaveRef = useRef<{ timer: number; session: LessonSession } | null>(null);
 
+  const flushActiveSession = async () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingSaveRef.current = null;
+    try {
+      await DB.saveSession(pending.session);
+    } catch (error) {
+      console.error('Failed to save session', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!activeSession) return;
+    const session: LessonSession = {
+      ...activeSession,
+      content: processedContent,
+      summary,
+      flashcards,
+      messages: [], // Superseded by chatThreads (see getSessionThreads)
+      chatThreads,
+      activeThreadId: activeThreadId || undefined
+    };
+    if (pendingSaveRef.current) {
+      // Switching lessons: write the previous one out now instead of dropping its pending edits
+      if (pendingSaveRef.current.session.id !== session.id) flushActiveSession();
+      else window.clearTimeout(pendingSaveRef.current.timer);
+    }
+    const timer = window.setTimeout(async () => {
+      await flushActiveSession();
+      refreshSessionStats();
+    }, 500);
+    pendingSaveRef.current = { timer, session };
+  }, [activeSession, processedContent, summary, flashcards, chatThreads, activeThreadId]);
+
+  // Global search shortcut (Ctrl+K / Cmd+K)
   useEffect(() => {
-    localStorage.setItem('faseeh_sessions', JSON.stringify(lessonSessions));
-  }, [lessonSessions]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   useEffect(() => {
     const handleClickOutside = () => setIsColorMenuOpen(false);
@@ -337,17 +381,9 @@ function App() {
     setToasts(prev => prev.filter(t => t.id !== id));
   };
 
-  const getApiKeyForTask = (task: keyof TaskModels) => {
-      const keys = settings.apiKeys;
-      if (!keys || keys.length === 0) return undefined;
-      return keys[Math.floor(Math.random() * keys.length)];
-  };
-  
-  const getConfigForTask = (task: keyof TaskModels) => {
-    return {
-      apiKey: getApiKeyForTask(task),
-      model: settings.taskModels[task] || settings.activeModel
-    };
+  const getConfigForTask = async (task: keyof TaskModels) => {
+    const { resolveTaskConfig } = await import('./services/llmProviders');
+    return resolveTaskConfig(settings, task);
   };
 
   // --- Handlers ---
@@ -356,53 +392,108 @@ function App() {
       setChatTriggerMessage(`اشرح لي هذا النص: "${text}"`);
   };
 
+  // Streams the lesson into the editor as it is written; cancelling keeps whatever arrived so far
   const handleProcessContent = async (type: ContentType, data: string, mimeType?: string) => {
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
     setIsProcessing(true);
+
+    let text = '';
+    let lastRender = 0;
     try {
       const Gemini = await import('./services/geminiService');
-      
-      const text = await Gemini.processContentToFusha(type, data, getConfigForTask('processing'), mimeType);
-      setProcessedContent(text);
-      setSummary([]);
-      setFlashcards([]);
+      const config = await getConfigForTask('processing');
+
+      for await (const partial of Gemini.streamContentToFusha(type, data, config, mimeType, controller.signal)) {
+        if (controller.signal.aborted) break;
+        if (!text) {
+          // First chunk: open a new lesson (the session sync effect persists it)
+          // Topic requests arrive wrapped with the custom instructions (see InputSection.wrapPayload)
+          const topic = type === ContentType.TOPIC ? (JSON.parse(data).content || JSON.parse(data)) : null;
+          const newSession: LessonSession = {
+            id: Date.now().toString(),
+            date: new Date().toISOString(),
+            title: topic?.lessonName || DEFAULT_LESSON_TITLE,
+            content: '',
+            summary: [],
+            messages: [],
+            subject: topic?.subject || undefined,
+            gradeLevel: topic?.gradeLevel || undefined,
+            curriculum: topic?.curriculum || undefined
+          };
+          setActiveSession(newSession);
+          setSummary([]);
+          setFlashcards([]);
+          setChatThreads([]);
+          setActiveThreadId(null);
+          setIsStreamingLesson(true);
+        }
+        text = partial;
+        // Re-parsing the whole markdown on every token is expensive, so render a few times per second
+        if (Date.now() - lastRender > 300) {
+          setProcessedContent(text);
+          lastRender = Date.now();
+        }
+      }
+
+      if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      setProcessedContent(text || "عذراً، لم أتمكن من معالجة المحتوى.");
+      titleFromHeading(text);
       addToast('success', 'تمت معالجة المحتوى بنجاح');
-      addXP(50);
+      addXP('LESSON', 50);
       soundManager.play('SUCCESS');
 
-      const newSession: LessonSession = {
-        id: Date.now().toString(),
-        date: new Date().toISOString(),
-        title: type === ContentType.TOPIC ? JSON.parse(data).lessonName : 'درس جديد',
-        content: text,
-        summary: [],
-        messages: []
-      };
-      setLessonSessions(prev => [newSession, ...prev]);
-
     } catch (error) {
-      console.error(error);
-      addToast('error', 'حدث خطأ أثناء المعالجة');
-      soundManager.play('ERROR');
+      if (text) {
+        setProcessedContent(text);
+        titleFromHeading(text);
+      }
+      if (controller.signal.aborted) {
+        addToast('info', text ? 'تم إيقاف الكتابة مع الاحتفاظ بالجزء المكتمل' : 'تم إلغاء المعالجة');
+      } else {
+        console.error(error);
+        addToast('error', 'حدث خطأ أثناء المعالجة');
+        soundManager.play('ERROR');
+      }
     } finally {
+      processingAbortRef.current = null;
+      setIsStreamingLesson(false);
       setIsProcessing(false);
     }
   };
 
+  // Lessons not made from the topic form have no name of their own until the model writes its first heading
+  const titleFromHeading = (markdown: string) => {
+    const title = extractLessonTitle(markdown);
+    if (title) setActiveSession(prev => prev && prev.title === DEFAULT_LESSON_TITLE ? { ...prev, title } : prev);
+  };
+
+  const reportProgress = (label: string) => (done: number, total: number) => {
+    if (total > 1) setTaskProgress({ label, done, total });
+  };
+
+  const handleCancelProcessing = () => {
+    soundManager.play('CLICK');
+    processingAbortRef.current?.abort();
+  };
+
   const handleGenerateSummary = async () => {
     if (!processedContent) return;
     setIsGeneratingSummary(true);
     try {
       const Gemini = await import('./services/geminiService');
-      const points = await Gemini.generateSummary(processedContent, getConfigForTask('summary'));
+      const points = await Gemini.generateSummary(processedContent, await getConfigForTask('summary'), reportProgress('إنشاء الملخص'));
       setSummary(points);
       addToast('success', 'تم إنشاء الملخص');
-      addXP(30);
+      addXP('SUMMARY', 30);
       soundManager.play('SUCCESS');
     } catch (error) {
       addToast('error', 'فشل في إنشاء الملخص');
       soundManager.play('ERROR');
     } finally {
       setIsGeneratingSummary(false);
+      setTaskProgress(null);
     }
   };
 
@@ -411,16 +502,17 @@ function App() {
     setIsGeneratingFlashcards(true);
     try {
       const Gemini = await import('./services/geminiService');
-      const cards = await Gemini.generateFlashcards(processedContent, getConfigForTask('summary'));
-      setFlashcards(cards);
+      const cards = await Gemini.generateFlashcards(processedContent, await getConfigForTask('summary'), reportProgress('إنشاء البطاقات'));
+      setFlashcards(withCardIds(cards));
       addToast('success', 'تم إنشاء البطاقات');
-      addXP(30);
+      addXP('FLASHCARDS', 30);
       soundManager.play('SUCCESS');
     } catch (error) {
       addToast('error', 'فشل في إنشاء البطاقات');
       soundManager.play('ERROR');
     } finally {
       setIsGeneratingFlashcards(false);
+      setTaskProgress(null);
     }
   };
 
@@ -432,9 +524,16 @@ function App() {
     setIsGeneratingQuiz(true);
     try {
       const Gemini = await import('./services/geminiService');
-      const quiz = await Gemini.generateQuiz(processedContent, config, getConfigForTask('quiz'));
-      setCurrentQuiz(quiz);
+      const generate = config.mode === 'ADAPTIVE' ? Gemini.generateAdaptiveQuiz : Gemini.generateQuiz;
+      const quiz = await generate(processedContent, config, await getConfigForTask('quiz'), reportProgress('إعداد الاختبار'));
+      setCurrentQuiz(activeSession ? { ...quiz, lessonId: activeSession.id, lessonTitle: activeSession.title } : quiz);
       setActiveView('EXAM');
+      addToBank(quiz.questions, {
+        lessonId: activeSession?.id,
+        lessonTitle: activeSession?.title,
+        subject: activeSession?.subject,
+        difficulty: config.difficulty
+      }, 'GENERATED').catch(error => console.error('Failed to save questions to the bank', error));
       addToast('success', 'تم إعداد الاختبار');
       soundManager.play('SUCCESS');
     } catch (error) {
@@ -442,13 +541,171 @@ function App() {
       soundManager.play('ERROR');
     } finally {
       setIsGeneratingQuiz(false);
+      setTaskProgress(null);
     }
   };
 
+  // Adaptive quizzes ask for more questions when a difficulty level runs out mid-quiz
+  const handleGenerateQuestions = async (difficulty: DifficultyLevel): Promise<Question[]> => {
+    if (!processedContent) throw new Error('يجب توفر محتوى الدرس أولاً');
+    const Gemini = await import('./services/geminiService');
+    return Gemini.generateQuestionsAtLevel(processedContent, difficulty, await getConfigForTask('quiz'));
+  };
+
   const handleQuizComplete = (result: QuizResult) => {
-    setQuizHistory(prev => [result, ...prev]);
-    addXP(result.score * 10); // 10 XP per point
-    addToast('info', `تم إنهاء الاختبار. النتيجة: ${result.score}/${result.total}`);
+    DB.saveQuizResult(result).catch(error => {
+      console.error(error);
+      addToast('error', 'تعذر حفظ نتيجة الاختبار');
+    });
+    addXP('QUIZ', Math.round(result.score * 10), { // 10 XP per point
+      label: result.quizSnapshot?.title,
+      percent: result.total ? Math.round((result.score / result.total) * 100) : 0
+    });
+    addToast('info', `تم إنهاء الاختبار. النتيجة: ${formatScore(result.score)}/${result.total}`);
+    const planQuiz = planQuizRef.current;
+    const isPlanQuiz = !!planQuiz && !!result.quizSnapshot?.questions.some(q => planQuiz.questionIds.includes(q.id));
+    if (isPlanQuiz) planQuizRef.current = null;
+    const lessonId = result.quizSnapshot?.lessonId;
+    completePlanTasks((task, exam) => task.kind === 'QUIZ' && (isPlanQuiz
+      ? exam.id === planQuiz!.examId && task.id === planQuiz!.taskId
+      : !!lessonId && task.lessonId === lessonId));
+    const assignmentId = result.quizSnapshot?.assignmentId;
+    if (assignmentId) {
+      // The latest attempt is the one the student exports for the teacher
+      DB.getAssignment(assignmentId)
+        .then(record => record && DB.saveAssignment({ ...record, submission: result }))
+        .catch(error => console.error('Failed to record the assignment submission', error));
+    }
+  };
+
+  // --- Study Planner ---
+  const [exams, setExams] = useState<Exam[]>([]);
+  const examsRef = useRef(exams);
+  examsRef.current = exams;
+  // The bank quiz a plan task started; finishing it ticks that task off
+  const planQuizRef = useRef<{ examId: string; taskId: string; questionIds: number[] } | null>(null);
+
+  useEffect(() => {
+    DB.getAllExams().then(setExams).catch(error => console.error('Failed to load exams', error));
+  }, []);
+
+  const handleSaveExam = async (exam: Exam) => {
+    await DB.saveExam(exam);
+    setExams(prev => [...prev.filter(e => e.id !== exam.id), exam].sort((a, b) => a.date.localeCompare(b.date)));
+  };
+
+  const handleDeleteExam = async (exam: Exam) => {
+    if (!confirm(`حذف امتحان "${exam.title}" وخطة مذاكرته؟`)) return;
+    try {
+      await DB.deleteExam(exam.id);
+      setExams(prev => prev.filter(e => e.id !== exam.id));
+    } catch (error) {
+      addToast('error', 'تعذر حذف الامتحان');
+    }
+  };
+
+  const handleTogglePlanTask = (exam: Exam, taskId: string, done: boolean) => {
+    if (done) soundManager.play('CLICK');
+    const current = examsRef.current.find(e => e.id === exam.id) || exam;
+    handleSaveExam(setTaskDone(current, taskId, done)).catch(() => addToast('error', 'تعذر حفظ خطة المذاكرة'));
+  };
+
+  // Work done elsewhere in the app (grading a lesson's cards, finishing a quiz on it) counts towards the plan
+  const completePlanTasks = (match: (task: PlanTask, exam: Exam) => boolean) => {
+    completeMatchingTask(examsRef.current, match).forEach(exam => {
+      handleSaveExam(exam).catch(error => console.error('Failed to update the study plan', error));
+    });
+  };
+
+  const handleOpenPlanTask = async (exam: Exam, task: PlanTask) => {
+    soundManager.play('CLICK');
+    try {
+      if (task.kind === 'READ_BOOK' && task.bookId) {
+        setLibraryTarget({ bookId: task.bookId, page: task.pages?.[0] || 1 });
+        setActiveView('LIBRARY');
+        return;
+      }
+      if (task.kind === 'QUIZ') {
+        const lessonIds = task.lessonId ? [task.lessonId] : exam.lessonIds;
+        const entries = (await DB.getAllBankQuestions()).filter(entry => entry.lessonId && lessonIds.includes(entry.lessonId));
+        const quiz = await assembleQuizFromBank(entries, PLAN_QUIZ_SIZE);
+        if (quiz) {
+          planQuizRef.current = { examId: exam.id, taskId: task.id, questionIds: quiz.questions.map(q => q.id) };
+          setCurrentQuiz(quiz);
+          setActiveView('EXAM');
+          return;
+        }
+        addToast('info', task.lessonId ? 'لا توجد أسئلة محفوظة لهذا الدرس بعد، أنشئ اختباراً منه' : 'لا توجد أسئلة محفوظة لدروس هذا الامتحان بعد');
+        if (!task.lessonId) return;
+      }
+      // Lessons open in the study view, where their flashcards are reviewed and new quizzes generated
+      const session = task.lessonId ? await DB.getSession(task.lessonId) : null;
+      if (!session) {
+        addToast('error', 'الدرس لم يعد محفوظاً');
+        return;
+      }
+      restoreSession(session);
+      if (task.kind === 'QUIZ') setActiveView('EXAM');
+    } catch (error) {
+      console.error(error);
+      addToast('error', 'تعذر فتح المهمة');
+    }
+  };
+
+  // --- Classroom ---
+  const handleCreateAssignment = async (quiz: Quiz) => {
+    try {
+      // The open lesson (and its cards) only goes along when the quiz was made from it
+      const session = activeSession && quiz.lessonId === activeSession.id ? activeSession : null;
+      const assignment = buildAssignment(session, quiz, flashcards, settings.studentName || 'المعلم');
+      const { blob, fileName, teacherKey } = await createAssignmentPackage(assignment);
+      await DB.saveAssignment({ id: assignment.id, date: assignment.createdAt, role: 'ISSUED', assignment, teacherKey });
+      downloadBlob(blob, fileName);
+      addToast('success', 'تم تصدير الواجب، أرسل الملف إلى طلابك');
+      soundManager.play('SUCCESS');
+    } catch (error) {
+      console.error(error);
+      addToast('error', 'تعذر إنشاء الواجب');
+      soundManager.play('ERROR');
+    }
+  };
+
+  const handleStartAssignment = async (record: AssignmentRecord) => {
+    soundManager.play('CLICK');
+    const session = record.sessionId ? await DB.getSession(record.sessionId).catch(() => null) : null;
+    if (session) restoreSession(session); // Lets the student reopen the lesson and ask the assistant after the quiz
+    setCurrentQuiz({ ...record.assignment.quiz, assignmentId: record.id, lessonId: session?.id, lessonTitle: session?.title });
+    setActiveView('EXAM');
+  };
+
+  const handleExportAssignmentResult = async (result: QuizResult) => {
+    const assignmentId = result.quizSnapshot?.assignmentId;
+    const record = assignmentId ? await DB.getAssignment(assignmentId).catch(() => null) : null;
+    if (!record) {
+      addToast('error', 'الواجب لم يعد محفوظاً على هذا الجهاز');
+      return;
+    }
+    const { blob, fileName } = createResultFile(record, settings.studentName || 'طالب', result);
+    downloadBlob(blob, fileName);
+    addToast('success', 'تم تصدير النتيجة، أرسل الملف إلى معلمك');
+  };
+
+  const resumeQuiz = () => {
+    // Re-read in case another attempt has been checkpointed since startup
+    const checkpoint = loadQuizCheckpoint();
+    setPendingCheckpoint(null);
+    if (!checkpoint) {
+      addToast('error', 'تعذر استئناف الاختبار');
+      return;
+    }
+    soundManager.play('CLICK');
+    setResumeCheckpoint(checkpoint);
+    setActiveView('EXAM');
+  };
+
+  const discardCheckpoint = () => {
+    clearQuizCheckpoint();
+    setPendingCheckpoint(null);
   };
 
   const handleRetakeQuiz = (result: QuizResult) => {
@@ -472,6 +729,13 @@ function App() {
     }
   };
 
+  const handlePracticeQuiz = (quiz: Quiz) => {
+    soundManager.play('CLICK');
+    setCurrentQuiz(quiz);
+    setActiveView('EXAM');
+    addToast('info', 'اختبار تدريبي من الأسئلة التي أخطأت فيها أكثر');
+  };
+
   const handleLibraryImageProcess = async (images: string[]) => {
       setActiveView('STUDY');
       handleProcessContent(ContentType.IMAGE, images as any);
@@ -481,26 +745,147 @@ function App() {
       setActiveView('STUDY');
       setIsProcessing(true);
       setTimeout(() => {
+         setActiveSession(null);
          setProcessedContent(text);
          setSummary([]); 
          setFlashcards([]);
+         setChatThreads([]);
+         setActiveThreadId(null);
          setIsProcessing(false);
          addToast('success', 'تم استيراد النص بنجاح');
       }, 500);
   };
 
   const restoreSession = (session: LessonSession) => {
+      setActiveSession(session);
       setProcessedContent(session.content);
       setSummary(session.summary || []);
-      setFlashcards(session.flashcards || []);
+      setFlashcards(withCardIds(session.flashcards || [])); // Cards saved before ids get theirs here; the sync effect stores them
+      const threads = getSessionThreads(session);
+      setChatThreads(threads);
+      setActiveThreadId(session.activeThreadId || threads[threads.length - 1]?.id || null);
       setActiveView('STUDY');
       addToast('info', `تم استرجاع درس: ${session.title}`);
   };
 
-  const deleteSession = (id: string) => {
-      if(confirm('هل أنت متأكد من حذف هذا الدرس؟')) {
-          setLessonSessions(prev => prev.filter(s => s.id !== id));
+  const deleteSession = async (id: string): Promise<boolean> => {
+      if (!confirm('هل أنت متأكد من حذف هذا الدرس؟')) return false;
+      if (id === activeSession?.id) {
+          setActiveSession(null);
+          if (pendingSaveRef.current) {
+              window.clearTimeout(pendingSaveRef.current.timer);
+              pendingSaveRef.current = null;
+          }
       }
+      try {
+          await DB.deleteSession(id);
+          refreshSessionStats();
+          return true;
+      } catch (error) {
+          console.error(error);
+          addToast('error', 'تعذر حذف الدرس');
+          return false;
+      }
+  };
+
+  // The open lesson is written back on every edit, so it must carry its new place in the tree too
+  const handleMoveLessons = async (placements: LessonPlacement[]) => {
+      await flushActiveSession();
+      await DB.saveLessonPlacements(placements);
+      const moved = placements.find(p => p.id === activeSession?.id);
+      if (moved) setActiveSession(prev => prev && prev.id === moved.id ? { ...prev, ...moved } : prev);
+  };
+
+  const openHistory = async () => {
+      await flushActiveSession();
+      setIsHistoryOpen(true);
+  };
+
+  // Pending edits are written first so the search index sees the open lesson as it is on screen
+  const openSearch = async () => {
+      await flushActiveSession();
+      setIsSearchOpen(true);
+  };
+
+  const handleSearchOpenLesson = async (sessionId: string) => {
+      if (sessionId === activeSession?.id) {
+          setActiveView('STUDY');
+          return;
+      }
+      try {
+          const session = await DB.getSession(sessionId);
+          if (session) restoreSession(session);
+      } catch (error) {
+          console.error(error);
+          addToast('error', 'تعذر فتح الدرس');
+      }
+  };
+
+  const handleSearchOpenBookPage = (bookId: string, page: number) => {
+      setLibraryTarget({ bookId, page });
+      setActiveView('LIBRARY');
+  };
+
+  const openReview = async () => {
+      soundManager.play('CLICK');
+      await flushActiveSession();
+      setIsReviewOpen(true);
+  };
+
+  // Spaced repetition: grade a card from the open lesson
+  const handleGradeCard = (card: Flashcard, grade: ReviewGrade) => {
+      setFlashcards(prev => gradeCardIn(prev, card, grade));
+      addXP('REVIEW', grade === 'AGAIN' ? 2 : 5);
+      if (activeSession) completePlanTasks(task => task.kind === 'REVIEW' && task.lessonId === activeSession.id);
+  };
+
+  // CSV/TSV decks are appended to the open lesson; cards it already has are left out
+  const handleImportFlashcards = async (file: File) => {
+      try {
+          const { importFlashcardFile } = await import('./utils/flashcardInterchange');
+          const { cards, skipped } = await importFlashcardFile(file);
+          const key = (card: Flashcard) => `${card.front.trim()}\n${card.back.trim()}`;
+          const existing = new Set(flashcards.map(key));
+          const added = cards.filter(card => !existing.has(key(card)));
+          setFlashcards(prev => [...prev, ...withCardIds(added)]);
+          const notes = [skipped > 0 ? `تم تجاهل ${skipped} صف غير مكتمل` : '', cards.length > added.length ? `${cards.length - added.length} بطاقة مكررة` : ''].filter(Boolean);
+          addToast(added.length ? 'success' : 'info', `تم استيراد ${added.length} بطاقة${notes.length ? ` (${notes.join('، ')})` : ''}`);
+          if (added.length) soundManager.play('SUCCESS');
+      } catch (error: any) {
+          addToast('error', error?.message || 'تعذر استيراد البطاقات');
+          soundManager.play('ERROR');
+      }
+  };
+
+  // Spaced repetition: grade a card from the cross-lesson review queue
+  // Grades are written one after another so quick successive reviews of the same lesson don't overwrite each other
+  const reviewWriteQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const handleReviewGrade = (sessionId: string, card: Flashcard, grade: ReviewGrade) => {
+      if (sessionId === activeSession?.id) {
+          // The sync effect writes the active lesson's cards back to the database
+          handleGradeCard(card, grade);
+          return;
+      }
+      reviewWriteQueue.current = reviewWriteQueue.current.then(async () => {
+          const session = await DB.getSession(sessionId);
+          if (!session) return;
+          await DB.saveSession({
+              ...session,
+              flashcards: gradeCardIn(session.flashcards || [], card, grade)
+          });
+      }).catch(error => {
+          console.error(error);
+          addToast('error', 'تعذر حفظ نتيجة المراجعة');
+      });
+      addXP('REVIEW', grade === 'AGAIN' ? 2 : 5);
+      completePlanTasks(task => task.kind === 'REVIEW' && task.lessonId === sessionId);
+  };
+
+  const closeReview = async () => {
+      setIsReviewOpen(false);
+      await reviewWriteQueue.current;
+      refreshSessionStats();
   };
 
   const handleResetApp = () => {
@@ -509,6 +894,14 @@ function App() {
       }
   };
 
+  // Each profile has its own databases and keys, so switching starts the app over from the picker
+  const handleSwitchProfile = () => {
+      if(confirm('تبديل الملف الشخصي؟ سيتم فقدان العمل غير المحفوظ.')) {
+          leaveProfile();
+          window.location.reload();
+      }
+  };
+
   // Navigation Handler
   const handleNavigate = (view: typeof activeView) => {
       soundManager.play('CLICK');
@@ -539,8 +932,6 @@ function App() {
 
   return (
     <div className="h-screen bg-gray-50 dark:bg-dark-bg text-gray-900 dark:text-gray-100 font-sans transition-colors duration-300 flex flex-col overflow-hidden">
-      
-      {showWelcomeModal && <WelcomeModal onComplete={handleNameSubmit} />}
 
       {/* HEADER & GAMIFICATION BAR */}
       <header className="h-16 flex-shrink-0 bg-white dark:bg-dark-card border-b border-gray-200 dark:border-dark-border shadow-sm z-30">
@@ -563,7 +954,9 @@ function App() {
                           { id: 'STUDY', icon: BookOpen, label: 'الدرس' },
                           { id: 'LIBRARY', icon: LibraryIcon, label: 'المكتبة' },
                           { id: 'EXAM', icon: BrainCircuit, label: 'الاختبارات' },
+                          { id: 'PLANNER', icon: CalendarDays, label: 'الخطة' },
                           { id: 'PROFILE', icon: LayoutDashboard, label: 'لوحتي' },
+                          { id: 'CLASSROOM', icon: GraduationCap, label: 'الفصل' },
                       ].map(item => (
                           <button
                               key={item.id}
@@ -602,6 +995,15 @@ function App() {
                   </div>
 
                   <div className="flex items-center gap-2">
+
+                       <button
+                          onClick={handleSwitchProfile}
+                          className="flex items-center gap-2 p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-primary-600 dark:hover:bg-gray-800 transition-colors"
+                          title="تبديل الملف الشخصي"
+                       >
+                           <User className="w-5 h-5" />
+                           <span className="hidden lg:block text-sm font-bold max-w-[8rem] truncate">{settings.studentName}</span>
+                       </button>
                        
                        <button 
                           onClick={handleResetApp}
@@ -663,12 +1065,31 @@ function App() {
                        </div>
 
                        <button 
-                         onClick={() => setIsHistoryOpen(true)} 
+                         onClick={openSearch} 
+                         className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                         title="بحث شامل (Ctrl+K)"
+                       >
+                           <Search className="w-5 h-5" />
+                       </button>
+                       <button 
+                         onClick={openReview} 
+                         className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative"
+                         title="مراجعة البطاقات المستحقة"
+                       >
+                           <Layers className="w-5 h-5" />
+                           {dueCardsCount > 0 && (
+                               <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 bg-pink-500 text-white text-[10px] font-black rounded-full flex items-center justify-center border border-white dark:border-gray-800">
+                                   {dueCardsCount > 99 ? '99+' : dueCardsCount}
+                               </span>
+                           )}
+                       </button>
+                       <button 
+                         onClick={openHistory} 
                          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative"
                          title="سجل الدروس"
                        >
                            <History className="w-5 h-5" />
-                           {lessonSessions.length > 0 && <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full border border-white dark:border-gray-800"></span>}
+                           {sessionCount > 0 && <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full border border-white dark:border-gray-800"></span>}
                        </button>
                        <button 
                          onClick={() => setIsSettingsOpen(true)} 
@@ -690,7 +1111,31 @@ function App() {
             <Suspense fallback={<LoadingFallback />}>
               {activeView === 'STUDY' && (
                 <div className={`mx-auto space-y-6 md:space-y-8 pb-20 transition-all duration-500 ease-in-out ${contentMaxWidthClass}`}>
+                    {exams.length > 0 && (
+                        <TodayPlan
+                            exams={exams}
+                            onToggleTask={handleTogglePlanTask}
+                            onOpenTask={handleOpenPlanTask}
+                            onOpenPlanner={() => handleNavigate('PLANNER')}
+                        />
+                    )}
+
                     <InputSection onProcess={handleProcessContent} isProcessing={isProcessing} />
+
+                    {isProcessing && (
+                        <div className="sticky top-0 z-10 flex items-center justify-between gap-4 bg-white/90 dark:bg-gray-800/90 backdrop-blur border border-primary-100 dark:border-gray-700 rounded-2xl px-5 py-3 shadow-sm animate-in fade-in">
+                            <div className="flex items-center gap-3 text-sm font-bold text-gray-700 dark:text-gray-200">
+                                <Loader2 className="w-5 h-5 animate-spin text-primary-500" />
+                                {isStreamingLesson ? 'جاري كتابة الدرس...' : 'جاري تجهيز الدرس...'}
+                            </div>
+                            <button
+                                onClick={handleCancelProcessing}
+                                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 font-bold text-sm transition-colors"
+                            >
+                                <StopCircle className="w-4 h-4" /> إيقاف
+                            </button>
+                        </div>
+                    )}
                     
                     {processedContent ? (
                         <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -703,7 +1148,12 @@ function App() {
                                 flashcards={flashcards}
                                 onGenerateFlashcards={handleGenerateFlashcards}
                                 isGeneratingFlashcards={isGeneratingFlashcards}
+                                onGradeCard={handleGradeCard}
+                                onImportFlashcards={handleImportFlashcards}
+                                lessonTitle={activeSession?.title}
+                                isStreaming={isStreamingLesson}
                                 onExplainSelection={handleExplainSelection}
+                                studentName={settings.studentName}
                             />
                         </div>
                     ) : (
@@ -722,6 +1172,8 @@ function App() {
                     <Library 
                         onProcessPages={handleLibraryImageProcess}
                         onExtractText={handleLibraryTextExtract}
+                        openTarget={libraryTarget}
+                        onOpenTargetHandled={() => setLibraryTarget(null)}
                     />
                  </div>
               )}
@@ -730,10 +1182,19 @@ function App() {
                 <div className="max-w-5xl mx-auto py-2 md:py-6">
                     <QuizSystem 
                       onGenerateQuiz={handleGenerateQuiz}
+                      onGenerateQuestions={handleGenerateQuestions}
+                      lessonId={activeSession?.id}
+                      lessonTitle={activeSession?.title}
+                      lessonSubject={activeSession?.subject}
                       isGenerating={isGeneratingQuiz}
                       quiz={currentQuiz}
                       onQuizComplete={handleQuizComplete}
+                      getAnalysisConfig={() => getConfigForTask('quiz')}
                       studentName={settings.studentName}
+                      resumeCheckpoint={resumeCheckpoint}
+                      onResumeHandled={() => setResumeCheckpoint(null)}
+                      onCreateAssignment={settings.teacherMode ? handleCreateAssignment : undefined}
+                      onExportAssignmentResult={handleExportAssignmentResult}
                     />
                 </div>
               )}
@@ -741,8 +1202,34 @@ function App() {
               {activeView === 'PROFILE' && (
                 <div className="max-w-6xl mx-auto py-2 md:py-6">
                     <Dashboard 
-                      history={quizHistory} 
                       onRetakeQuiz={handleRetakeQuiz}
+                      onPracticeQuiz={handlePracticeQuiz}
+                      userStats={settings.userStats}
+                      onUpdateUserStats={(patch) => setSettings(prev => ({ ...prev, userStats: { ...prev.userStats, ...patch } }))}
+                    />
+                </div>
+              )}
+
+              {activeView === 'PLANNER' && (
+                <div className="max-w-6xl mx-auto py-2 md:py-6">
+                    <StudyPlanner
+                      exams={exams}
+                      onSaveExam={handleSaveExam}
+                      onDeleteExam={handleDeleteExam}
+                      onToggleTask={handleTogglePlanTask}
+                      onOpenTask={handleOpenPlanTask}
+                    />
+                </div>
+              )}
+
+              {activeView === 'CLASSROOM' && (
+                <div className="max-w-6xl mx-auto py-2 md:py-6">
+                    <ClassroomView
+                      teacherMode={!!settings.teacherMode}
+                      onToggleTeacherMode={(teacherMode) => setSettings(prev => ({ ...prev, teacherMode }))}
+                      studentName={settings.studentName}
+                      onStartAssignment={handleStartAssignment}
+                      onLessonsChanged={refreshSessionStats}
                     />
                 </div>
               )}
@@ -775,6 +1262,11 @@ function App() {
                             <ChatAssistant 
                                 context={processedContent} 
                                 settings={settings} 
+                                lessonTitle={activeSession?.title}
+                                threads={chatThreads}
+                                activeThreadId={activeThreadId}
+                                onUpdateThreads={setChatThreads}
+                                onSelectThread={setActiveThreadId}
                                 triggerMessage={chatTriggerMessage}
                                 onClearTrigger={() => setChatTriggerMessage(null)}
                             />
@@ -826,7 +1318,9 @@ function App() {
                 { id: 'STUDY', icon: BookOpen, label: 'الدرس الحالي' },
                 { id: 'LIBRARY', icon: LibraryIcon, label: 'المكتبة الرقمية' },
                 { id: 'EXAM', icon: BrainCircuit, label: 'الاختبارات' },
+                { id: 'PLANNER', icon: CalendarDays, label: 'خطة المذاكرة' },
                 { id: 'PROFILE', icon: LayoutDashboard, label: 'لوحتي الشخصية' },
+                { id: 'CLASSROOM', icon: GraduationCap, label: 'الفصل والواجبات' },
             ].map((item) => (
                 <button
                   key={item.id}
@@ -869,6 +1363,36 @@ function App() {
 
       {/* Overlays */}
       <Toast notifications={toasts} removeToast={removeToast} />
+
+      {pendingCheckpoint && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-4 animate-in fade-in slide-in-from-top-4">
+          <p className="font-bold text-gray-800 dark:text-gray-100">لديك اختبار لم يكتمل</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 truncate">
+            {pendingCheckpoint.quiz.title} · {new Date(pendingCheckpoint.savedAt).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' })}
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button onClick={resumeQuiz} className="flex-1 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center justify-center gap-2 transition-colors">
+              <RotateCcw className="w-4 h-4" /> استئناف
+            </button>
+            <button onClick={discardCheckpoint} className="flex-1 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm transition-colors">
+              تجاهل
+            </button>
+          </div>
+        </div>
+      )}
+
+      {taskProgress && (
+        <div className="fixed bottom-6 left-6 z-40 w-72 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-4 animate-in fade-in slide-in-from-bottom-4">
+          <div className="flex justify-between items-center text-sm font-bold text-gray-700 dark:text-gray-200 mb-2">
+            <span className="flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin text-primary-500" /> {taskProgress.label}</span>
+            <span className="text-xs text-gray-400">{taskProgress.done}/{taskProgress.total}</span>
+          </div>
+          <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-primary-500 transition-all duration-300" style={{ width: `${(taskProgress.done / taskProgress.total) * 100}%` }}></div>
+          </div>
+          <p className="text-[11px] text-gray-400 mt-2">الدرس طويل، تتم معالجته على أجزاء</p>
+        </div>
+      )}
       
       {isSettingsOpen && (
         <Suspense fallback={null}>
@@ -886,9 +1410,28 @@ function App() {
           <HistorySidebar 
             isOpen={isHistoryOpen}
             onClose={() => setIsHistoryOpen(false)}
-            sessions={lessonSessions}
             onSelectSession={restoreSession}
             onDeleteSession={deleteSession}
+            onMoveLessons={handleMoveLessons}
+          />
+        </Suspense>
+      )}
+
+      {isReviewOpen && (
+        <Suspense fallback={null}>
+          <ReviewSession 
+            onGrade={handleReviewGrade}
+            onClose={closeReview}
+          />
+        </Suspense>
+      )}
+
+      {isSearchOpen && (
+        <Suspense fallback={null}>
+          <SearchPalette 
+            onClose={() => setIsSearchOpen(false)}
+            onOpenLesson={handleSearchOpenLesson}
+            onOpenBookPage={handleSearchOpenBookPage}
           />
         </Suspense>
       )}
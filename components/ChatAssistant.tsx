@@ -1,13 +1,22 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, AppSettings } from '../types';
-import { Send, Bot, User, Loader2, Mic, MicOff, Volume2, StopCircle, Sparkles, Zap, Radio, Image as ImageIcon, X } from 'lucide-react';
+import { ChatMessage, ChatThread, AppSettings } from '../types';
+import { Send, Bot, User, Loader2, Mic, MicOff, Volume2, StopCircle, Sparkles, Zap, Radio, Image as ImageIcon, X, Plus, Edit2, Eraser, Trash2, Download } from 'lucide-react';
 import * as Gemini from '../services/geminiService';
+import { resolveTaskConfig, LLMMessage, LLMPart } from '../services/llmProviders';
+import { keyManager } from '../services/keyManager';
+import { createThread, appendMessage, downloadThread } from '../utils/chatThreads';
 import { GoogleGenAI, Modality } from '@google/genai';
 
 interface ChatAssistantProps {
   context: string;
   settings: AppSettings;
+  lessonTitle?: string;
+  // Conversations are owned by the lesson (App persists them with the session)
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onUpdateThreads: (update: (threads: ChatThread[]) => ChatThread[]) => void;
+  onSelectThread: (threadId: string | null) => void;
   triggerMessage?: string | null; // To receive external triggers
   onClearTrigger?: () => void;
 }
@@ -22,16 +31,27 @@ function floatTo16BitPCM(input: Float32Array) {
     return output;
 }
 
-const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, triggerMessage, onClearTrigger }) => {
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ 
+  context, 
+  settings, 
+  lessonTitle,
+  threads, 
+  activeThreadId, 
+  onUpdateThreads, 
+  onSelectThread, 
+  triggerMessage, 
+  onClearTrigger 
+}) => {
   // Text Chat State
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: `مرحباً ${settings.studentName || 'يا بطل'}! أنا "فصيح"، مساعدك الذكي. يمكنك سؤالي أو تحديد أي نص في الدرس لشرحه، كما يمكنك إرسال صور لسؤالك عنها.`,
-      timestamp: new Date()
-    }
-  ]);
+  const activeThread = threads.find(t => t.id === activeThreadId) || null;
+  const messages = activeThread?.messages || [];
+  // Greeting is only displayed, never stored or sent as history
+  const welcomeMessage: ChatMessage = {
+    id: 'welcome',
+    role: 'model',
+    text: `مرحباً ${settings.studentName || 'يا بطل'}! أنا "فصيح"، مساعدك الذكي. يمكنك سؤالي أو تحديد أي نص في الدرس لشرحه، كما يمكنك إرسال صور لسؤالك عنها.`,
+    timestamp: new Date()
+  };
   const [input, setInput] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | null>(null); // base64
   const [isLoading, setIsLoading] = useState(false);
@@ -51,12 +71,10 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
   const wsRef = useRef<any>(null); 
   const nextStartTimeRef = useRef(0);
 
-  const getActiveConfig = () => {
-    const apiKey = settings.apiKeys.length > 0 
-      ? settings.apiKeys[Math.floor(Math.random() * settings.apiKeys.length)] 
-      : undefined;
-    return { apiKey, model: settings.activeModel };
-  };
+  const getActiveConfig = () => resolveTaskConfig(settings, 'chat');
+
+  // Live voice only exists on Gemini, regardless of the provider chosen for text chat
+  const getLiveApiKey = () => keyManager.pickKey(settings.apiKeys);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -131,7 +149,16 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    // Replies are appended to the thread the question was asked in, even if the student switches threads meanwhile
+    let threadId = activeThread?.id;
+    if (!threadId) {
+      const thread = createThread();
+      threadId = thread.id;
+      onUpdateThreads(prev => [...prev, thread]);
+      onSelectThread(thread.id);
+    }
+    const targetThreadId = threadId;
+    onUpdateThreads(prev => appendMessage(prev, targetThreadId, userMsg));
     setInput('');
     
     // Keep image for API call but clear from UI input immediately
@@ -142,8 +169,8 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
 
     try {
       // Prepare history for AI (map internal messages to Gemini history format)
-      const historyForAi = messages.map(m => {
-         const parts: any[] = [{ text: m.text }];
+      const historyForAi: LLMMessage[] = messages.map(m => {
+         const parts: LLMPart[] = [{ text: m.text }];
          if (m.image) {
              // Add image to history parts if exists
              parts.push({ inlineData: { mimeType: 'image/jpeg', data: m.image.split(',')[1] } });
@@ -174,7 +201,7 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
         text: responseText,
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, botMsg]);
+      onUpdateThreads(prev => appendMessage(prev, targetThreadId, botMsg));
 
       if (autoSpeak) {
           speakText(responseText);
@@ -186,20 +213,46 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
         text: 'عذراً، حدث خطأ في الاتصال.',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMsg]);
+      onUpdateThreads(prev => appendMessage(prev, targetThreadId, errorMsg));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // --- THREAD MANAGEMENT ---
+  const handleNewThread = () => {
+      const thread = createThread();
+      onUpdateThreads(prev => [...prev, thread]);
+      onSelectThread(thread.id);
+  };
+
+  const handleRenameThread = () => {
+      if (!activeThread) return;
+      const title = prompt('اسم المحادثة:', activeThread.title);
+      if (!title?.trim()) return;
+      onUpdateThreads(prev => prev.map(t => t.id === activeThread.id ? { ...t, title: title.trim() } : t));
+  };
+
+  const handleClearThread = () => {
+      if (!activeThread || !confirm('مسح جميع رسائل هذه المحادثة؟')) return;
+      onUpdateThreads(prev => prev.map(t => t.id === activeThread.id ? { ...t, messages: [] } : t));
+  };
+
+  const handleDeleteThread = () => {
+      if (!activeThread || !confirm(`حذف المحادثة "${activeThread.title}"؟`)) return;
+      const remaining = threads.filter(t => t.id !== activeThread.id);
+      onUpdateThreads(prev => prev.filter(t => t.id !== activeThread.id));
+      onSelectThread(remaining.length > 0 ? remaining[remaining.length - 1].id : null);
+  };
+
   // --- LIVE VOICE LOGIC ---
   const startLiveSession = async () => {
     try {
         setLiveStatus('اتصال...');
-        const config = getActiveConfig();
-        if (!config.apiKey) throw new Error("API Key required");
+        const apiKey = getLiveApiKey();
+        if (!apiKey) throw new Error("API Key required");
 
-        const client = new GoogleGenAI({ apiKey: config.apiKey });
+        const client = new GoogleGenAI({ apiKey });
         
         const stream = await navigator.mediaDevices.getUserMedia({ audio: {
             sampleRate: 16000,
@@ -356,6 +409,27 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
         </div>
       </div>
 
+      {/* Thread Bar */}
+      {!isLiveMode && (
+        <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 bg-white/60 dark:bg-gray-900/40 flex items-center gap-1">
+            <select
+                value={activeThreadId || ''}
+                onChange={(e) => onSelectThread(e.target.value || null)}
+                className="flex-1 min-w-0 text-xs bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500"
+            >
+                {threads.length === 0 && <option value="">محادثة جديدة</option>}
+                {threads.map(t => (
+                    <option key={t.id} value={t.id}>{t.title} ({t.messages.length})</option>
+                ))}
+            </select>
+            <button onClick={handleNewThread} className="p-1.5 text-gray-400 hover:text-primary-500 rounded-lg" title="محادثة جديدة"><Plus className="w-4 h-4" /></button>
+            <button onClick={handleRenameThread} disabled={!activeThread} className="p-1.5 text-gray-400 hover:text-blue-500 rounded-lg disabled:opacity-30" title="إعادة تسمية"><Edit2 className="w-4 h-4" /></button>
+            <button onClick={() => activeThread && downloadThread(activeThread, lessonTitle)} disabled={!activeThread || messages.length === 0} className="p-1.5 text-gray-400 hover:text-green-500 rounded-lg disabled:opacity-30" title="تصدير المحادثة"><Download className="w-4 h-4" /></button>
+            <button onClick={handleClearThread} disabled={!activeThread || messages.length === 0} className="p-1.5 text-gray-400 hover:text-amber-500 rounded-lg disabled:opacity-30" title="مسح الرسائل"><Eraser className="w-4 h-4" /></button>
+            <button onClick={handleDeleteThread} disabled={!activeThread} className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg disabled:opacity-30" title="حذف المحادثة"><Trash2 className="w-4 h-4" /></button>
+        </div>
+      )}
+
       {/* Content Area */}
       {isLiveMode ? (
           <div className="flex-1 flex flex-col items-center justify-center bg-gradient-to-b from-transparent to-gray-50/50 dark:to-gray-900/50 relative overflow-hidden">
@@ -383,7 +457,7 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, settings, trigge
           <>
             {/* Text Messages */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
-                {messages.map((msg) => (
+                {[welcomeMessage, ...messages].map((msg) => (
                 <div
                     key={msg.id}
                     className={`flex items-start gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
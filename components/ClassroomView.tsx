@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AssignmentRecord, ClassResult } from '../types';
+import { Loader2, GraduationCap, ClipboardList, Upload, Download, Play, Trash2, KeyRound, ChevronDown, ChevronUp, Users, Check, X } from 'lucide-react';
+import * as DB from '../utils/db';
+import { readAssignmentPackage, readResultFile, createResultFile, getTeacherFingerprint, sessionFromAssignment, CLASSROOM_FILE_ACCEPT } from '../utils/classroom';
+import { downloadBlob } from '../utils/zip';
+import { formatScore } from '../utils/quizFormat';
+import { soundManager } from '../utils/soundEffects';
+
+interface ClassroomViewProps {
+  teacherMode: boolean;
+  onToggleTeacherMode: (teacherMode: boolean) => void;
+  studentName?: string;
+  onStartAssignment: (record: AssignmentRecord) => void;
+  onLessonsChanged: () => void; // An imported assignment adds its lesson to the history
+}
+
+// One assignment's column in the gradebook; results can outlive the issued record (deleted, or restored from a backup)
+interface GradebookGroup {
+  id: string;
+  title: string;
+  issued?: AssignmentRecord;
+  results: ClassResult[];
+}
+
+const percentOf = (score: number, total: number) => (total ? Math.round((score / total) * 100) : 0);
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ar-EG', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const tabClass = (active: boolean) =>
+  `flex items-center gap-2 px-5 py-2 rounded-lg font-bold text-sm transition-all duration-200 ${active ? 'bg-white dark:bg-gray-700 text-primary-600 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`;
+
+const fileButtonClass = 'px-5 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 shadow-lg shadow-primary-500/30 cursor-pointer transition-colors';
+
+const ClassroomView: React.FC<ClassroomViewProps> = ({ teacherMode, onToggleTeacherMode, studentName, onStartAssignment, onLessonsChanged }) => {
+  const [records, setRecords] = useState<AssignmentRecord[] | null>(null);
+  const [classResults, setClassResults] = useState<ClassResult[]>([]);
+  const [fingerprint, setFingerprint] = useState('');
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [expandedResultId, setExpandedResultId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reload = async () => {
+    try {
+      const [assignments, results] = await Promise.all([DB.getAllAssignments(), DB.getAllClassResults()]);
+      setRecords(assignments);
+      setClassResults(results);
+    } catch (error) {
+      console.error(error);
+      setRecords([]);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  useEffect(() => {
+    if (teacherMode && !fingerprint) getTeacherFingerprint().then(setFingerprint).catch(error => console.error(error));
+  }, [teacherMode]);
+
+  const received = (records || []).filter(r => r.role === 'RECEIVED');
+
+  const groups = useMemo(() => {
+    const byId = new Map<string, GradebookGroup>();
+    (records || []).filter(r => r.role === 'ISSUED').forEach(issued => {
+      byId.set(issued.id, { id: issued.id, title: issued.assignment.title, issued, results: [] });
+    });
+    classResults.forEach(result => {
+      const group = byId.get(result.assignmentId) || { id: result.assignmentId, title: result.assignmentTitle, results: [] };
+      group.results.push(result);
+      byId.set(result.assignmentId, group);
+    });
+    return Array.from(byId.values());
+  }, [records, classResults]);
+
+  const selectedGroup = groups.find(g => g.id === selectedGroupId) || groups[0];
+
+  // --- Student ---
+
+  const handleImportAssignment = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const { assignment, teacherKey } = await readAssignmentPackage(file);
+      const existing = await DB.getAssignment(assignment.id);
+      const session = sessionFromAssignment(assignment);
+      if (session && !(await DB.getSession(session.id))) {
+        await DB.saveSession(session);
+        onLessonsChanged();
+      }
+      await DB.saveAssignment({
+        id: assignment.id,
+        date: existing?.date || new Date().toISOString(),
+        role: 'RECEIVED',
+        assignment,
+        teacherKey,
+        sessionId: session?.id,
+        submission: existing?.submission
+      });
+      soundManager.play('SUCCESS');
+      await reload();
+    } catch (err: any) {
+      soundManager.play('ERROR');
+      alert(err.message || 'تعذر استيراد الواجب');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExportResult = (record: AssignmentRecord) => {
+    if (!record.submission) return;
+    const { blob, fileName } = createResultFile(record, studentName || 'طالب', record.submission);
+    downloadBlob(blob, fileName);
+    soundManager.play('SUCCESS');
+  };
+
+  const handleDeleteAssignment = async (record: AssignmentRecord) => {
+    if (!confirm(`حذف الواجب "${record.assignment.title}"؟`)) return;
+    try {
+      await DB.deleteAssignment(record.id);
+      await reload();
+    } catch (error) {
+      alert('تعذر حذف الواجب');
+    }
+  };
+
+  // --- Teacher ---
+
+  const handleImportResults = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const imported: ClassResult[] = [];
+    const errors: string[] = [];
+    try {
+      const teacherKey = fingerprint || await getTeacherFingerprint();
+      for (const file of files) {
+        try {
+          imported.push(await readResultFile(file, teacherKey));
+        } catch (err: any) {
+          errors.push(`${file.name}: ${err.message}`);
+        }
+      }
+      if (imported.length > 0) {
+        await DB.saveClassResults(imported);
+        setSelectedGroupId(imported[0].assignmentId);
+        await reload();
+        soundManager.play('SUCCESS');
+      }
+      if (errors.length > 0) alert(`تم استيراد ${imported.length} نتيجة، وتعذر استيراد:\n${errors.join('\n')}`);
+    } catch (err) {
+      alert('تعذر استيراد النتائج');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDeleteResult = async (result: ClassResult) => {
+    if (!confirm(`حذف نتيجة "${result.studentName}" من سجل الدرجات؟`)) return;
+    try {
+      await DB.deleteClassResult(result.id);
+      await reload();
+    } catch (error) {
+      alert('تعذر حذف النتيجة');
+    }
+  };
+
+  if (!records) {
+    return <div className="flex justify-center py-20"><Loader2 className="w-10 h-10 animate-spin text-primary-500" /></div>;
+  }
+
+  const renderStudent = () => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <p className="text-gray-500 dark:text-gray-400 font-medium">افتح ملف الواجب الذي أرسله المعلم، ثم صدّر نتيجتك بعد حل الاختبار وأرسلها إليه.</p>
+        <label className={`${fileButtonClass} ${isImporting ? 'opacity-60 pointer-events-none' : ''}`}>
+          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} استيراد واجب
+          <input type="file" accept={CLASSROOM_FILE_ACCEPT} onChange={handleImportAssignment} className="hidden" />
+        </label>
+      </div>
+
+      {received.length === 0 && (
+        <div className="text-center py-16 text-gray-400">
+          <ClipboardList className="w-12 h-12 mx-auto mb-3" />
+          <p className="font-medium">لا توجد واجبات بعد</p>
+        </div>
+      )}
+
+      {received.map(record => (
+        <div key={record.id} className="bg-white dark:bg-gray-800 p-5 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-md flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-bold text-lg text-gray-900 dark:text-white truncate">{record.assignment.title}</h3>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>المعلم: {record.assignment.teacherName}</span>
+              <span className="flex items-center gap-1" title="قارن هذه البصمة بما يعرضه المعلم"><KeyRound className="w-3.5 h-3.5" /> <span className="font-mono" dir="ltr">{record.teacherKey}</span></span>
+              <span>{record.assignment.quiz.questions.length} سؤال</span>
+              {record.assignment.flashcards.length > 0 && <span>{record.assignment.flashcards.length} بطاقة</span>}
+            </div>
+          </div>
+          {record.submission ? (
+            <span className="px-3 py-1.5 rounded-lg bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 text-sm font-bold whitespace-nowrap">
+              تم الحل: {formatScore(record.submission.score)} / {record.submission.total}
+            </span>
+          ) : (
+            <span className="px-3 py-1.5 rounded-lg bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 text-sm font-bold whitespace-nowrap">لم يُحل بعد</span>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => onStartAssignment(record)} className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 transition-colors">
+              <Play className="w-4 h-4" /> {record.submission ? 'إعادة الحل' : 'ابدأ'}
+            </button>
+            {record.submission && (
+              <button onClick={() => handleExportResult(record)} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-xl font-bold text-sm flex items-center gap-2 transition-colors">
+                <Download className="w-4 h-4" /> تصدير النتيجة
+              </button>
+            )}
+            <button onClick={() => handleDeleteAssignment(record)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-xl transition-colors" title="حذف الواجب">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderTeacher = () => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          <p className="font-medium">أرسل اختباراً كواجب من شاشة معاينة الاختبار، ثم استورد هنا ملفات النتائج التي يرسلها الطلاب.</p>
+          {fingerprint && <p className="flex items-center gap-1 mt-1"><KeyRound className="w-3.5 h-3.5" /> بصمة توقيعك: <span className="font-mono font-bold text-gray-700 dark:text-gray-200" dir="ltr">{fingerprint}</span></p>}
+        </div>
+        <label className={`${fileButtonClass} ${isImporting ? 'opacity-60 pointer-events-none' : ''}`}>
+          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} استيراد نتائج الطلاب
+          <input type="file" accept={CLASSROOM_FILE_ACCEPT} multiple onChange={handleImportResults} className="hidden" />
+        </label>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-16 text-gray-400">
+          <Users className="w-12 h-12 mx-auto mb-3" />
+          <p className="font-medium">لم ترسل أي واجب بعد</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            {groups.map(group => (
+              <button
+                key={group.id}
+                onClick={() => { setSelectedGroupId(group.id); setExpandedResultId(null); }}
+                className={`w-full text-right p-4 rounded-xl border-2 transition-colors ${selectedGroup?.id === group.id ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20' : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-300 dark:hover:border-gray-600'}`}
+              >
+                <span className="block font-bold text-gray-900 dark:text-white truncate">{group.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {group.issued ? formatDate(group.issued.date) : 'واجب غير محفوظ على هذا الجهاز'} • {new Set(group.results.map(r => r.studentName)).size} طالب
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {selectedGroup && (
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-md overflow-hidden">
+              <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                <h3 className="font-bold text-gray-900 dark:text-white">{selectedGroup.title}</h3>
+                {selectedGroup.results.length > 0 && (
+                  <span className="text-sm font-bold text-gray-500 dark:text-gray-400">
+                    متوسط الفصل: {Math.round(selectedGroup.results.reduce((sum, r) => sum + percentOf(r.result.score, r.result.total), 0) / selectedGroup.results.length)}%
+                  </span>
+                )}
+              </div>
+              {selectedGroup.results.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-10">لم تُستورد نتائج لهذا الواجب بعد</p>
+              ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {[...selectedGroup.results].sort((a, b) => a.studentName.localeCompare(b.studentName, 'ar')).map(entry => (
+                    <div key={entry.id}>
+                      <div className="flex items-center gap-3 p-4">
+                        <button onClick={() => setExpandedResultId(expandedResultId === entry.id ? null : entry.id)} className="flex-1 flex items-center gap-3 text-right">
+                          {expandedResultId === entry.id ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                          <span className="flex-1 font-bold text-gray-800 dark:text-gray-100 truncate">{entry.studentName}</span>
+                          <span className="text-xs text-gray-400">{formatDate(entry.date)}</span>
+                          <span className={`font-black w-24 text-left ${percentOf(entry.result.score, entry.result.total) >= 50 ? 'text-green-600' : 'text-red-500'}`}>
+                            {formatScore(entry.result.score)} / {entry.result.total}
+                          </span>
+                        </button>
+                        <button onClick={() => handleDeleteResult(entry)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors" title="حذف النتيجة">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {expandedResultId === entry.id && (
+                        <ul className="px-6 pb-4 space-y-2 text-sm">
+                          {entry.result.details.map((detail, i) => (
+                            <li key={i} className="flex items-start gap-2">
+                              {detail.isCorrect ? <Check className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" /> : <X className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />}
+                              <span className="flex-1 text-gray-700 dark:text-gray-300">{detail.questionText}</span>
+                              {!detail.isCorrect && !!detail.credit && <span className="text-xs font-bold text-amber-600">{formatScore(detail.credit)}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto py-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-2xl font-black text-gray-900 dark:text-white flex items-center gap-2"><GraduationCap className="w-7 h-7 text-primary-500" /> الفصل</h2>
+        <div className="flex items-center gap-1 bg-gray-100 dark:bg-gray-800/50 p-1 rounded-xl">
+          <button onClick={() => onToggleTeacherMode(false)} className={tabClass(!teacherMode)}><ClipboardList className="w-4 h-4" /> واجباتي</button>
+          <button onClick={() => onToggleTeacherMode(true)} className={tabClass(teacherMode)}><Users className="w-4 h-4" /> وضع المعلم</button>
+        </div>
+      </div>
+      {teacherMode ? renderTeacher() : renderStudent()}
+    </div>
+  );
+};
+
+export default ClassroomView;
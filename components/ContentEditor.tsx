@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { SummaryPoint, Flashcard } from '../types';
+import { SummaryPoint, Flashcard, ReviewGrade } from '../types';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import TextAlign from '@tiptap/extension-text-align';
@@ -10,11 +10,15 @@ import {
   Edit2, Save, List, BookOpen, Loader2, Volume2, Copy, Check, 
   Bold, Italic, Heading, Quote, AlignRight, AlignCenter, AlignLeft, 
   Undo, Redo, StopCircle, Sparkles, Type, Layers, RotateCw, GitGraph,
-  ZoomIn, ZoomOut, Move, Maximize, RefreshCw, HelpCircle
+  ZoomIn, ZoomOut, Move, Maximize, RefreshCw, HelpCircle, Download, Upload
 } from 'lucide-react';
 import { soundManager } from '../utils/soundEffects';
 import ExportMenu from './ExportMenu';
+import { REVIEW_GRADES, isCardDue, previewIntervals, formatInterval } from '../utils/spacedRepetition';
+import { FlashcardFormat, FLASHCARD_FORMATS, FLASHCARD_IMPORT_ACCEPT, downloadFlashcards } from '../utils/flashcardInterchange';
 import * as Gemini from '../services/geminiService';
+import { resolveTaskConfig } from '../services/llmProviders';
+import { profileKey } from '../utils/profiles';
 
 // Declare mermaid global
 declare const mermaid: any;
@@ -34,7 +38,12 @@ interface ContentEditorProps {
   flashcards?: Flashcard[];
   onGenerateFlashcards?: () => void;
   isGeneratingFlashcards?: boolean;
+  onGradeCard?: (card: Flashcard, grade: ReviewGrade) => void;
+  onImportFlashcards?: (file: File) => void; // CSV/TSV deck appended to this lesson's cards
+  lessonTitle?: string; // Deck name and tag of exported flashcards
+  isStreaming?: boolean; // Lesson is still being written; editing is locked until it finishes
   onExplainSelection?: (text: string) => void; // New callback
+  studentName?: string;
 }
 
 const ContentEditor: React.FC<ContentEditorProps> = ({
@@ -46,7 +55,12 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
   flashcards = [],
   onGenerateFlashcards,
   isGeneratingFlashcards,
-  onExplainSelection
+  onGradeCard,
+  onImportFlashcards,
+  lessonTitle,
+  isStreaming = false,
+  onExplainSelection,
+  studentName
 }) => {
   const [activeTab, setActiveTab] = useState<'content' | 'summary' | 'flashcards' | 'mindmap'>('content');
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -57,6 +71,7 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
   // Mind Map State
   const [mindMapCode, setMindMapCode] = useState('');
   const [isGeneratingMindMap, setIsGeneratingMindMap] = useState(false);
+  const [mindMapProgress, setMindMapProgress] = useState<{ done: number; total: number } | null>(null);
   const mindMapRef = useRef<HTMLDivElement>(null);
   const mindMapContainerRef = useRef<HTMLDivElement>(null);
   
@@ -68,6 +83,7 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
 
   // State for Flashcard Flips (track flipped index)
   const [flippedCards, setFlippedCards] = useState<number[]>([]);
+  const [exportingCardsFormat, setExportingCardsFormat] = useState<FlashcardFormat | null>(null);
 
   // Initialize TipTap Editor
   const editor = useEditor({
@@ -96,6 +112,10 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
     }
   }, [formattedText, editor]);
 
+  useEffect(() => {
+    if (editor) editor.setEditable(!isStreaming);
+  }, [isStreaming, editor]);
+
   // Load TTS voices
   useEffect(() => {
     const loadVoices = () => {
@@ -177,13 +197,10 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
       setIsGeneratingMindMap(true);
       try {
           const text = editor ? editor.getText() : formattedText;
-          const settings = JSON.parse(localStorage.getItem('faseeh_settings') || '{}');
-          const config = { 
-              apiKey: settings.apiKeys?.[0], 
-              model: settings.activeModel || 'gemini-2.5-flash' 
-          };
+          const settings = JSON.parse(localStorage.getItem(profileKey('faseeh_settings')) || '{}');
+          const config = resolveTaskConfig({ apiKeys: [], activeModel: 'gemini-2.5-flash', ...settings }, 'summary');
           
-          const code = await Gemini.generateMindMap(text, config);
+          const code = await Gemini.generateMindMap(text, config, (done, total) => setMindMapProgress({ done, total }));
           setMindMapCode(code);
           soundManager.play('SUCCESS');
       } catch (error) {
@@ -191,6 +208,7 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
           soundManager.play('ERROR');
       } finally {
           setIsGeneratingMindMap(false);
+          setMindMapProgress(null);
       }
   };
 
@@ -277,6 +295,24 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleExportFlashcards = async (format: FlashcardFormat) => {
+    soundManager.play('CLICK');
+    setExportingCardsFormat(format);
+    try {
+      await downloadFlashcards([{ title: lessonTitle || 'بطاقات', cards: flashcards }], format, 'Flashcards');
+    } catch (err: any) {
+      alert(err?.message || 'حدث خطأ أثناء التصدير.');
+    } finally {
+      setExportingCardsFormat(null);
+    }
+  };
+
+  const handleFlashcardFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && onImportFlashcards) onImportFlashcards(file);
+  };
+
   const toggleCardFlip = (index: number) => {
     soundManager.play('HOVER'); // Soft sound for flip
     setFlippedCards(prev => 
@@ -370,6 +406,7 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
             content={activeTab === 'content' ? turndownService.turndown(editor.getHTML()) : (activeTab === 'summary' ? JSON.stringify(summary) : JSON.stringify(flashcards))}
             isSummary={activeTab === 'summary'}
             summaryData={summary}
+            studentName={studentName}
           />
 
           {activeTab === 'content' && (
@@ -573,8 +610,38 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
                             >
                             {isGeneratingFlashcards ? <span className="flex gap-2"><Loader2 className="animate-spin" /> جاري الإنشاء...</span> : 'توليد البطاقات'}
                             </button>
+                            {onImportFlashcards && (
+                                <label className="mt-4 inline-flex items-center gap-2 text-sm font-bold text-gray-500 hover:text-pink-600 cursor-pointer transition-colors">
+                                    <Upload className="w-4 h-4" /> أو استيراد بطاقات من ملف CSV / TSV
+                                    <input type="file" accept={FLASHCARD_IMPORT_ACCEPT} onChange={handleFlashcardFile} className="hidden" />
+                                </label>
+                            )}
                         </div>
                      ) : (
+                         <>
+                         <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                             <span className="text-sm font-bold text-gray-500 dark:text-gray-400">{flashcards.length} بطاقة</span>
+                             <div className="flex flex-wrap items-center gap-2">
+                                 {(Object.keys(FLASHCARD_FORMATS) as FlashcardFormat[]).map(format => (
+                                     <button
+                                        key={format}
+                                        onClick={() => handleExportFlashcards(format)}
+                                        disabled={!!exportingCardsFormat}
+                                        title={FLASHCARD_FORMATS[format].hint}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 hover:bg-pink-50 hover:text-pink-600 transition-all disabled:opacity-50"
+                                     >
+                                         {exportingCardsFormat === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                                         {FLASHCARD_FORMATS[format].label}
+                                     </button>
+                                 ))}
+                                 {onImportFlashcards && (
+                                     <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-pink-50 dark:bg-pink-900/20 text-pink-600 border border-pink-100 dark:border-pink-800 hover:bg-pink-100 cursor-pointer transition-all">
+                                         <Upload className="w-3.5 h-3.5" /> استيراد
+                                         <input type="file" accept={FLASHCARD_IMPORT_ACCEPT} onChange={handleFlashcardFile} className="hidden" />
+                                     </label>
+                                 )}
+                             </div>
+                         </div>
                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                              {flashcards.map((card, idx) => (
                                  <div 
@@ -596,6 +663,11 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
                                                 <Sparkles className="w-4 h-4" />
                                              </button>
                                              <span className="absolute top-4 right-4 text-xs font-bold text-pink-500 bg-pink-50 dark:bg-pink-900/20 px-2 py-1 rounded">سؤال {idx + 1}</span>
+                                             {card.schedule && (
+                                                 <span className={`absolute top-12 right-4 text-[10px] font-bold px-2 py-0.5 rounded ${isCardDue(card) ? 'text-orange-600 bg-orange-50 dark:bg-orange-900/20' : 'text-green-600 bg-green-50 dark:bg-green-900/20'}`}>
+                                                     {isCardDue(card) ? 'مستحقة للمراجعة' : `بعد ${formatInterval(new Date(card.schedule.dueDate).getTime() - Date.now())}`}
+                                                 </span>
+                                             )}
                                              <h3 className="text-xl font-bold text-gray-800 dark:text-white leading-relaxed">{card.front}</h3>
                                              <div className="absolute bottom-4 text-gray-400 text-sm flex items-center gap-1">
                                                  <RotateCw className="w-4 h-4" /> اضغط للقلب
@@ -614,11 +686,31 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
                                                 <Sparkles className="w-4 h-4" />
                                              </button>
                                              <p className="text-lg font-medium leading-relaxed">{card.back}</p>
+                                             {onGradeCard && flippedCards.includes(idx) && (
+                                                 <div className="absolute bottom-3 inset-x-3 grid grid-cols-4 gap-1.5">
+                                                     {REVIEW_GRADES.map(({ grade, label }) => (
+                                                         <button
+                                                            key={grade}
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                soundManager.play(grade === 'AGAIN' ? 'WRONG' : 'CLICK');
+                                                                onGradeCard(card, grade);
+                                                                setFlippedCards(prev => prev.filter(i => i !== idx));
+                                                            }}
+                                                            className="py-1.5 rounded-lg bg-white/20 hover:bg-white/40 backdrop-blur-sm text-xs font-bold flex flex-col items-center transition-all"
+                                                         >
+                                                             <span>{label}</span>
+                                                             <span className="text-[9px] opacity-80">{formatInterval(previewIntervals(card)[grade])}</span>
+                                                         </button>
+                                                     ))}
+                                                 </div>
+                                             )}
                                          </div>
                                      </div>
                                  </div>
                              ))}
                          </div>
+                         </>
                      )}
                       <style>{` .perspective { perspective: 1000px; } .preserve-3d { transform-style: preserve-3d; } .backface-hidden { backface-visibility: hidden; } .rotate-y-180 { transform: rotateY(180deg); } `}</style>
                 </div>
@@ -657,7 +749,7 @@ const ContentEditor: React.FC<ContentEditorProps> = ({
                         disabled={isGeneratingMindMap}
                         className="px-10 py-4 bg-blue-600 text-white rounded-xl font-bold shadow-xl shadow-blue-500/20 hover:bg-blue-700 transition-all flex items-center gap-2"
                     >
-                        {isGeneratingMindMap ? <span className="flex gap-2"><Loader2 className="animate-spin" /> جاري الرسم...</span> : 'رسم المخطط الذهني'}
+                        {isGeneratingMindMap ? <span className="flex gap-2"><Loader2 className="animate-spin" /> جاري الرسم...{mindMapProgress && mindMapProgress.total > 1 && ` (${mindMapProgress.done}/${mindMapProgress.total})`}</span> : 'رسم المخطط الذهني'}
                     </button>
                 </div>
              ) : (
@@ -1,28 +1,108 @@
 
-import React from 'react';
-import { QuizResult } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Quiz, QuizResult, UserStats, XPEvent } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { TrendingUp, Award, Clock, RotateCcw, UserCircle, BookOpen, Trophy } from 'lucide-react';
+import { TrendingUp, Award, Clock, RotateCcw, UserCircle, BookOpen, Trophy, Loader2, Target, Dumbbell, PieChart, Timer, Flame, Snowflake, Medal, Zap } from 'lucide-react';
 import ExportMenu from './ExportMenu';
+import { getQuizResultsPage, getQuizStats, getQuizScoreHistory, getQuizAttemptRecords, getStoredQuestions, getXPLedger } from '../utils/db';
+import { analyzeQuizHistory, buildPracticeQuiz, practiceQuizSize, QuizAnalytics, AccuracyStat } from '../utils/quizAnalytics';
+import { formatScore } from '../utils/quizFormat';
+import { ACHIEVEMENTS, XP_SOURCE_LABELS, WEEKLY_XP_GOAL_OPTIONS, DEFAULT_WEEKLY_XP_GOAL, MAX_STREAK_FREEZES, FREEZE_EVERY_DAYS, weeklyGoals } from '../utils/gamification';
+
+const PAGE_SIZE = 20;
 
 interface DashboardProps {
-  history: QuizResult[];
   onRetakeQuiz?: (result: QuizResult) => void;
+  onPracticeQuiz?: (quiz: Quiz) => void; // Opens a quiz built from the weakest concepts
+  userStats?: UserStats;
+  onUpdateUserStats?: (patch: Partial<UserStats>) => void; // Weekly goal and streak freeze preferences
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ history, onRetakeQuiz }) => {
+const RECENT_XP_EVENTS = 8;
+
+const accuracyColor = (accuracy: number) => accuracy >= 75 ? 'bg-green-500' : accuracy >= 50 ? 'bg-amber-500' : 'bg-red-500';
+
+const AccuracyBars: React.FC<{ stats: AccuracyStat[] }> = ({ stats }) => (
+  <div className="space-y-3">
+    {stats.map(stat => (
+      <div key={stat.key}>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="font-bold text-gray-700 dark:text-gray-200 truncate ml-2">{stat.label}</span>
+          <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">{stat.accuracy}% <span className="text-xs">({formatScore(stat.correct)}/{stat.total})</span></span>
+        </div>
+        <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${accuracyColor(stat.accuracy)}`} style={{ width: `${stat.accuracy}%` }} />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const Dashboard: React.FC<DashboardProps> = ({ onRetakeQuiz, onPracticeQuiz, userStats, onUpdateUserStats }) => {
+  // Quiz history is paged in from IndexedDB; totals come from a cursor over the full store
+  const [history, setHistory] = useState<QuizResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stats, setStats] = useState({ count: 0, averagePercent: 0 });
+  const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [scores, setScores] = useState<Pick<QuizResult, 'date' | 'score' | 'total'>[]>([]);
+  const [ledger, setLedger] = useState<XPEvent[]>([]);
+  const [isStartingPractice, setIsStartingPractice] = useState(false);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    try {
+      const page = await getQuizResultsPage(history.length, PAGE_SIZE);
+      setHistory(prev => [...prev, ...page.items]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load quiz history', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMore();
+    getQuizStats().then(setStats).catch(err => console.error('Failed to load quiz stats', err));
+    getQuizScoreHistory().then(setScores).catch(err => console.error('Failed to load the score history', err));
+    // Question-level analytics need every attempt, not just the loaded page
+    getQuizAttemptRecords()
+      .then(records => setAnalytics(analyzeQuizHistory(records)))
+      .catch(err => console.error('Failed to load quiz analytics', err));
+    getXPLedger().then(setLedger).catch(err => console.error('Failed to load the XP ledger', err));
+  }, []);
+
+  const practiceSize = analytics ? practiceQuizSize(analytics.weakAreas) : 0;
+
+  // The weak areas' questions are only read from the stored snapshots once practice is started
+  const startPractice = async () => {
+    if (!analytics || !onPracticeQuiz) return;
+    setIsStartingPractice(true);
+    try {
+      const keys = new Set(analytics.weakAreas.flatMap(area => area.questionKeys));
+      const quiz = buildPracticeQuiz(analytics.weakAreas, await getStoredQuestions(keys));
+      if (quiz) onPracticeQuiz(quiz);
+      else alert('تعذر العثور على أسئلة نقاط الضعف في الاختبارات المحفوظة.');
+    } catch (error) {
+      console.error('Failed to load practice questions', error);
+      alert('حدث خطأ أثناء تحميل أسئلة التدريب.');
+    } finally {
+      setIsStartingPractice(false);
+    }
+  };
+  const goals = weeklyGoals(ledger, userStats?.weeklyXPGoal || DEFAULT_WEEKLY_XP_GOAL);
   
-  const chartData = history.map((res, idx) => ({
+  // The whole history, not just the loaded page; oldest to newest
+  const chartData = scores.map((res, idx) => ({
     name: `اختبار ${idx + 1}`,
     score: Math.round((res.score / res.total) * 100),
     date: new Date(res.date).toLocaleDateString('ar-EG')
-  })).reverse(); // Show oldest to newest
+  }));
 
-  const averageScore = history.length > 0 
-    ? Math.round(history.reduce((acc, curr) => acc + (curr.score / curr.total) * 100, 0) / history.length)
-    : 0;
+  const averageScore = stats.averagePercent;
 
-  const totalQuizzes = history.length;
+  const totalQuizzes = stats.count;
 
   // Strict Grading Logic
   const getProgressLabel = (avg: number) => {
@@ -75,6 +155,122 @@ const Dashboard: React.FC<DashboardProps> = ({ history, onRetakeQuiz }) => {
             </div>
         </div>
 
+        {/* Streak, weekly goals & achievements */}
+        {userStats && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2">
+                  <Flame className="w-5 h-5 text-orange-500" /> سلسلة الدراسة
+                </h3>
+                <div className="flex items-end gap-2 mb-4">
+                  <span className="text-5xl font-black text-orange-500">{userStats.streak}</span>
+                  <span className="text-gray-500 dark:text-gray-400 font-bold mb-1">يوم متتالٍ</span>
+                </div>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mb-2">
+                  <span>أطول سلسلة</span>
+                  <span className="font-bold">{userStats.bestStreak || userStats.streak} يوم</span>
+                </div>
+                <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-300 mb-4">
+                  <span className="flex items-center gap-1"><Snowflake className="w-4 h-4 text-sky-500" /> أيام الحماية</span>
+                  <span className="font-bold">{userStats.streakFreezes || 0} / {MAX_STREAK_FREEZES}</span>
+                </div>
+                {onUpdateUserStats && (
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={userStats.useStreakFreezes !== false}
+                      onChange={(e) => onUpdateUserStats({ useStreakFreezes: e.target.checked })}
+                      className="w-4 h-4 accent-primary-600"
+                    />
+                    استخدم يوم حماية تلقائياً إذا فاتني يوم
+                  </label>
+                )}
+                <p className="text-xs text-gray-400 mt-2">تحصل على يوم حماية كل {FREEZE_EVERY_DAYS} أيام متتالية من الدراسة.</p>
+              </div>
+
+              <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <div className="flex justify-between items-center gap-4 mb-6">
+                  <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+                    <Target className="w-5 h-5 text-primary-500" /> أهداف هذا الأسبوع
+                  </h3>
+                  {onUpdateUserStats && (
+                    <select
+                      value={userStats.weeklyXPGoal || DEFAULT_WEEKLY_XP_GOAL}
+                      onChange={(e) => onUpdateUserStats({ weeklyXPGoal: Number(e.target.value) })}
+                      className="p-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors"
+                      title="هدف نقاط الخبرة الأسبوعي"
+                    >
+                      {WEEKLY_XP_GOAL_OPTIONS.map(option => <option key={option} value={option}>{option} XP</option>)}
+                    </select>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                  {goals.map(goal => {
+                    const percent = Math.min(100, Math.round((goal.current / goal.target) * 100));
+                    return (
+                      <div key={goal.id}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-bold text-gray-700 dark:text-gray-200">{goal.label}</span>
+                          <span className="text-gray-500 dark:text-gray-400">{goal.current} / {goal.target}</span>
+                        </div>
+                        <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                          <div className={`h-full rounded-full ${percent >= 100 ? 'bg-green-500' : 'bg-primary-500'}`} style={{ width: `${percent}%` }} />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6 flex items-center gap-2">
+                  <Medal className="w-5 h-5 text-amber-500" /> الإنجازات ({Object.keys(userStats.achievements || {}).length}/{ACHIEVEMENTS.length})
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {ACHIEVEMENTS.map(achievement => {
+                    const unlockedAt = userStats.achievements?.[achievement.id];
+                    return (
+                      <div
+                        key={achievement.id}
+                        className={`p-3 rounded-xl border text-center transition-colors ${unlockedAt ? 'border-amber-200 dark:border-amber-800/50 bg-amber-50 dark:bg-amber-900/20' : 'border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 opacity-50 grayscale'}`}
+                        title={unlockedAt ? `حصلت عليه في ${new Date(unlockedAt).toLocaleDateString('ar-EG')}` : 'لم يُفتح بعد'}
+                      >
+                        <div className="text-3xl mb-1">{achievement.icon}</div>
+                        <p className="font-bold text-sm text-gray-800 dark:text-gray-100">{achievement.title}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{achievement.description}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6 flex items-center gap-2">
+                  <Zap className="w-5 h-5 text-primary-500" /> آخر النقاط المكتسبة
+                </h3>
+                {ledger.length === 0 ? (
+                  <p className="text-center text-gray-400 py-6">لم تكسب نقاطاً بعد</p>
+                ) : (
+                  <div className="space-y-3">
+                    {ledger.slice(0, RECENT_XP_EVENTS).map(event => (
+                      <div key={event.id} className="flex justify-between items-center gap-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-bold text-gray-800 dark:text-gray-100 truncate">{event.label || XP_SOURCE_LABELS[event.source]}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(event.date).toLocaleString('ar-EG', { dateStyle: 'short', timeStyle: 'short' })}</p>
+                        </div>
+                        <span className="font-black text-primary-600 dark:text-primary-400 whitespace-nowrap">+{event.amount} XP</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm flex items-center gap-4 transition-colors">
@@ -143,13 +339,148 @@ const Dashboard: React.FC<DashboardProps> = ({ history, onRetakeQuiz }) => {
             </div>
         )}
 
+        {/* Per-question analytics */}
+        {analytics && analytics.answered > 0 && (
+          <div className="space-y-6">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                <div>
+                  <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+                    <Target className="w-5 h-5 text-red-500" /> المفاهيم التي تحتاج إلى مراجعة
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">من {analytics.answered} إجابة في كل الاختبارات • الدقة العامة {analytics.accuracy}%</p>
+                </div>
+                {onPracticeQuiz && practiceSize > 0 && (
+                  <button
+                    onClick={startPractice}
+                    disabled={isStartingPractice}
+                    className="flex items-center justify-center gap-2 px-5 py-2.5 bg-red-500 hover:bg-red-600 disabled:opacity-60 text-white rounded-xl font-bold shadow-lg shadow-red-500/20 text-sm transition-all active:scale-95"
+                  >
+                    {isStartingPractice ? <Loader2 className="w-4 h-4 animate-spin" /> : <Dumbbell className="w-4 h-4" />} تدرب على نقاط الضعف ({practiceSize} سؤال)
+                  </button>
+                )}
+              </div>
+              {analytics.weakAreas.length === 0 ? (
+                <p className="text-center text-gray-400 py-6">لا توجد نقاط ضعف واضحة حالياً، أحسنت!</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {analytics.weakAreas.map(area => (
+                    <div key={area.key} className="p-4 rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+                      <div className="flex justify-between items-start gap-3">
+                        <div className="min-w-0">
+                          <p className="font-bold text-gray-800 dark:text-gray-100 line-clamp-2">{area.label}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{area.lessonTitle}</p>
+                        </div>
+                        <span className={`text-sm font-black whitespace-nowrap ${area.accuracy >= 50 ? 'text-amber-600' : 'text-red-500'}`}>{area.accuracy}%</span>
+                      </div>
+                      <div className="flex justify-between items-center mt-3 text-xs text-gray-500 dark:text-gray-400">
+                        <span>{formatScore(area.correct)} صحيحة من {area.total}</span>
+                        <span className={area.lastCorrect ? 'text-green-600' : 'text-red-500'}>{area.lastCorrect ? 'آخر محاولة صحيحة' : 'آخر محاولة خاطئة'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6 flex items-center gap-2">
+                  <PieChart className="w-5 h-5 text-primary-500" /> الدقة حسب نوع السؤال
+                </h3>
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.byType}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="label" stroke="#9ca3af" fontSize={11} />
+                      <YAxis stroke="#9ca3af" fontSize={12} unit="%" domain={[0, 100]} />
+                      <Tooltip formatter={(value: number) => [`${value}%`, 'الدقة']} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }} />
+                      <Bar dataKey="accuracy" fill="#0d9488" radius={[6, 6, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6">تطور الدقة أسبوعياً</h3>
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={analytics.trend}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="label" stroke="#9ca3af" fontSize={11} />
+                      <YAxis stroke="#9ca3af" fontSize={12} unit="%" domain={[0, 100]} />
+                      <Tooltip formatter={(value: number) => [`${value}%`, 'الدقة']} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }} />
+                      <Line type="monotone" dataKey="accuracy" stroke="#6366f1" strokeWidth={3} dot={{ fill: '#6366f1', strokeWidth: 2 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {analytics.byDifficulty.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                  <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6">الدقة حسب مستوى الصعوبة</h3>
+                  <AccuracyBars stats={analytics.byDifficulty} />
+                </div>
+              )}
+
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6 flex items-center gap-2">
+                  <BookOpen className="w-5 h-5 text-primary-500" /> الدقة حسب الدرس
+                </h3>
+                <AccuracyBars stats={analytics.byLesson} />
+              </div>
+            </div>
+
+            {analytics.timing.timed > 0 && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                  <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-1 flex items-center gap-2">
+                    <Timer className="w-5 h-5 text-primary-500" /> الدقة حسب زمن الإجابة
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">متوسط الوقت لكل سؤال {analytics.timing.averageSeconds} ث ({analytics.timing.timed} إجابة)</p>
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={analytics.timing.byTime}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                        <XAxis dataKey="label" stroke="#9ca3af" fontSize={11} />
+                        <YAxis stroke="#9ca3af" fontSize={12} unit="%" domain={[0, 100]} />
+                        <Tooltip formatter={(value: number) => [`${value}%`, 'الدقة']} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }} />
+                        <Bar dataKey="accuracy" fill="#6366f1" radius={[6, 6, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm transition-colors">
+                  <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-6 flex items-center gap-2">
+                    <Clock className="w-5 h-5 text-amber-500" /> الأسئلة الأبطأ
+                  </h3>
+                  <div className="space-y-3">
+                    {analytics.timing.slowest.map((question, i) => (
+                      <div key={i} className="flex justify-between items-start gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-900/40 border border-gray-100 dark:border-gray-700">
+                        <div className="min-w-0">
+                          <p className="font-bold text-sm text-gray-800 dark:text-gray-100 line-clamp-2">{question.text}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{question.lessonTitle} • {question.attempts} محاولة • الدقة {question.accuracy}%</p>
+                        </div>
+                        <span className="text-sm font-black text-amber-600 whitespace-nowrap">{question.averageSeconds} ث</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* History List */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm overflow-hidden transition-colors">
           <div className="px-6 py-4 bg-gray-50 dark:bg-gray-900 border-b border-gray-100 dark:border-gray-700">
             <h3 className="font-bold text-gray-700 dark:text-gray-200">سجل الاختبارات المفصل</h3>
           </div>
           <div className="divide-y divide-gray-100 dark:divide-gray-700">
-            {history.length === 0 ? (
+            {history.length === 0 && isLoading ? (
+                <div className="p-8 flex justify-center"><Loader2 className="w-8 h-8 animate-spin text-primary-500" /></div>
+            ) : history.length === 0 ? (
                 <div className="p-8 text-center text-gray-400">السجل فارغ</div>
             ) : history.map((res) => (
               <div key={res.id} className="px-6 py-4 flex justify-between items-center hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
@@ -166,7 +497,7 @@ const Dashboard: React.FC<DashboardProps> = ({ history, onRetakeQuiz }) => {
                         <span className={`block text-lg font-black ${
                             (res.score / res.total) >= 0.5 ? 'text-green-600' : 'text-red-500'
                         }`}>
-                            {res.score} / {res.total}
+                            {formatScore(res.score)} / {res.total}
                         </span>
                         <span className="text-xs text-gray-400">الدرجة</span>
                     </div>
@@ -183,6 +514,15 @@ const Dashboard: React.FC<DashboardProps> = ({ history, onRetakeQuiz }) => {
               </div>
             ))}
           </div>
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={isLoading}
+              className="w-full py-3 border-t border-gray-100 dark:border-gray-700 text-sm font-bold text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-primary-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'عرض المزيد'}
+            </button>
+          )}
         </div>
       </div>
     </div>
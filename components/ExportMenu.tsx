@@ -1,7 +1,12 @@
 
 import React, { useState } from 'react';
-import { Download, FileText, Image as ImageIcon, FileType, MousePointerClick, GraduationCap, User } from 'lucide-react';
+import { Download, FileText, Image as ImageIcon, FileType, MousePointerClick, GraduationCap, User, BookOpen } from 'lucide-react';
 import { soundManager } from '../utils/soundEffects';
+import { createLessonDocx, createSummaryDocx, createQuizDocx } from '../utils/docxExport';
+import { createLessonEpub } from '../utils/epubExport';
+import { createLessonPdf, createSummaryPdf, createQuizPdf } from '../utils/pdfExport';
+import { downloadBlob } from '../utils/zip';
+import { QuizFormat, QUIZ_FORMATS, isQuizFormat, downloadQuiz } from '../utils/quizInterchange';
 import { Quiz, SummaryPoint } from '../types';
 import ReactMarkdown from 'react-markdown';
 import { createRoot } from 'react-dom/client';
@@ -15,11 +20,12 @@ interface ExportMenuProps {
   type?: 'LESSON' | 'QUIZ' | 'REPORT';
   isSummary?: boolean;
   summaryData?: SummaryPoint[];
+  studentName?: string; // Shown in the PDF page header of notes and reports
 }
 
 declare global {
   interface Window {
-    html2pdf: any;
+    html2pdf: any; // Rasterized fallback when the vector PDF can't be built (e.g. the Arabic font is unreachable)
     html2canvas: any;
   }
 }
@@ -30,7 +36,8 @@ const ExportMenu: React.FC<ExportMenuProps> = ({
   quizData, 
   type = 'LESSON',
   isSummary,
-  summaryData
+  summaryData,
+  studentName
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
@@ -315,11 +322,57 @@ const ExportMenu: React.FC<ExportMenuProps> = ({
 </html>`;
   };
 
-  const handleExport = async (format: 'pdf' | 'jpg' | 'interactive_html', mode: 'STUDENT' | 'TEACHER' | 'STANDARD' = 'STANDARD') => {
+  const hasDocumentText = !!content || !!summaryData?.length;
+  const documentTitle = quizData ? quizData.title : (filename || 'مستند');
+
+  // Files written from the markdown/quiz data itself (DOCX, EPUB, LMS formats), so text stays selectable and editable
+  const exportDocument = async (format: 'docx' | 'epub' | QuizFormat, mode: 'STUDENT' | 'TEACHER' | 'STANDARD') => {
+    if (isQuizFormat(format)) {
+      if (quizData) await downloadQuiz(quizData, format, filename);
+      return;
+    }
+    const summaryMarkdown = () => (summaryData || []).map((item, i) => `## ${i + 1}. ${item.point}\n\n${item.explanation}`).join('\n\n');
+    let blob: Blob;
+    if (format === 'epub') {
+      blob = await createLessonEpub(documentTitle, isSummary && summaryData ? summaryMarkdown() : content || '');
+    } else if (type === 'QUIZ' && quizData) {
+      blob = await createQuizDocx(quizData, mode === 'TEACHER' ? 'TEACHER' : 'STUDENT');
+    } else if (isSummary && summaryData) {
+      blob = await createSummaryDocx(documentTitle, summaryData);
+    } else {
+      blob = await createLessonDocx(documentTitle, content || '');
+    }
+    downloadBlob(blob, `${filename}${type === 'QUIZ' ? `_${mode.toLowerCase()}` : ''}.${format}`);
+  };
+
+  const exportVectorPdf = async (mode: 'STUDENT' | 'TEACHER' | 'STANDARD') => {
+    let blob: Blob;
+    if (type === 'QUIZ' && quizData) {
+      blob = await createQuizPdf({ title: documentTitle, mode: mode === 'TEACHER' ? 'TEACHER' : 'STUDENT' }, quizData);
+    } else if (isSummary && summaryData) {
+      blob = await createSummaryPdf({ title: documentTitle, mode, studentName }, summaryData);
+    } else {
+      blob = await createLessonPdf({ title: documentTitle, mode, studentName }, content || '');
+    }
+    downloadBlob(blob, `${filename}_${mode.toLowerCase()}.pdf`);
+  };
+
+  const handleExport = async (format: 'pdf' | 'jpg' | 'interactive_html' | 'docx' | 'epub' | QuizFormat, mode: 'STUDENT' | 'TEACHER' | 'STANDARD' = 'STANDARD') => {
     soundManager.play('CLICK');
     setIsExporting(true);
     setIsOpen(false);
 
+    if (format === 'docx' || format === 'epub' || isQuizFormat(format)) {
+      try {
+        await exportDocument(format, mode);
+      } catch (err) {
+        alert('حدث خطأ أثناء التصدير.');
+      } finally {
+        setIsExporting(false);
+      }
+      return;
+    }
+
     if (format === 'interactive_html' && quizData) {
       const htmlContent = generateInteractiveQuizHTML(quizData);
       const blob = new Blob([htmlContent], { type: 'text/html' });
@@ -331,6 +384,17 @@ const ExportMenu: React.FC<ExportMenuProps> = ({
       return;
     }
 
+    // Charts-only views (the dashboard) have no text to lay out and keep the screenshot PDF
+    if (format === 'pdf' && (hasDocumentText || quizData)) {
+      try {
+        await exportVectorPdf(mode);
+        setIsExporting(false);
+        return;
+      } catch (err) {
+        console.warn('Vector PDF export failed, falling back to the rasterized PDF', err);
+      }
+    }
+
     const container = document.createElement('div');
     container.style.position = 'fixed';
     container.style.top = '-10000px';
@@ -384,10 +448,28 @@ const ExportMenu: React.FC<ExportMenuProps> = ({
                         <div className="w-8 h-8 bg-green-100 text-green-500 rounded flex items-center justify-center"><GraduationCap className="w-4 h-4" /></div>
                         <div><span className="font-bold block text-sm">PDF (نسخة المعلم)</span><span className="text-xs opacity-60">أسئلة + إجابات</span></div>
                     </button>
+                    <button onClick={() => handleExport('docx', 'STUDENT')} className="flex items-center gap-3 w-full px-4 py-3 hover:bg-gray-50 text-right rounded-lg">
+                        <div className="w-8 h-8 bg-sky-100 text-sky-600 rounded flex items-center justify-center"><FileType className="w-4 h-4" /></div>
+                        <div><span className="font-bold block text-sm">Word (نسخة الطالب)</span><span className="text-xs opacity-60">ملف قابل للتعديل</span></div>
+                    </button>
+                    <button onClick={() => handleExport('docx', 'TEACHER')} className="flex items-center gap-3 w-full px-4 py-3 hover:bg-gray-50 text-right rounded-lg">
+                        <div className="w-8 h-8 bg-sky-100 text-sky-600 rounded flex items-center justify-center"><FileType className="w-4 h-4" /></div>
+                        <div><span className="font-bold block text-sm">Word (نسخة المعلم)</span><span className="text-xs opacity-60">مع نموذج الإجابة</span></div>
+                    </button>
                     <button onClick={() => handleExport('interactive_html')} className="flex items-center gap-3 w-full px-4 py-3 hover:bg-gray-50 text-right rounded-lg">
                         <div className="w-8 h-8 bg-teal-100 text-teal-500 rounded flex items-center justify-center"><MousePointerClick className="w-4 h-4" /></div>
                         <div><span className="font-bold block text-sm">HTML تفاعلي</span><span className="text-xs opacity-60">ملف ويب يعمل بدون نت</span></div>
                     </button>
+                    <div className="border-t border-gray-100 dark:border-gray-700 mt-1 pt-2 px-2">
+                        <span className="text-xs font-bold text-gray-400 block mb-2">لأنظمة إدارة التعلم (LMS)</span>
+                        <div className="grid grid-cols-3 gap-1">
+                            {(Object.keys(QUIZ_FORMATS) as QuizFormat[]).map(format => (
+                                <button key={format} onClick={() => handleExport(format)} className="px-2 py-2 text-xs font-bold rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-indigo-50 hover:text-indigo-600">
+                                    {QUIZ_FORMATS[format].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
                 </>
             ) : (
                 <>
@@ -399,6 +481,18 @@ const ExportMenu: React.FC<ExportMenuProps> = ({
                          <div className="w-8 h-8 bg-purple-100 text-purple-500 rounded flex items-center justify-center"><ImageIcon className="w-4 h-4" /></div>
                          <span className="font-bold text-sm">حفظ كصورة JPG</span>
                     </button>
+                    {hasDocumentText && (
+                      <>
+                        <button onClick={() => handleExport('docx')} className="flex items-center gap-3 w-full px-4 py-3 hover:bg-gray-50 text-right rounded-lg">
+                             <div className="w-8 h-8 bg-sky-100 text-sky-600 rounded flex items-center justify-center"><FileType className="w-4 h-4" /></div>
+                             <div><span className="font-bold block text-sm">ملف Word</span><span className="text-xs opacity-60">نص قابل للتعديل (DOCX)</span></div>
+                        </button>
+                        <button onClick={() => handleExport('epub')} className="flex items-center gap-3 w-full px-4 py-3 hover:bg-gray-50 text-right rounded-lg">
+                             <div className="w-8 h-8 bg-amber-100 text-amber-600 rounded flex items-center justify-center"><BookOpen className="w-4 h-4" /></div>
+                             <div><span className="font-bold block text-sm">كتاب إلكتروني EPUB</span><span className="text-xs opacity-60">للقراءة على الأجهزة اللوحية</span></div>
+                        </button>
+                      </>
+                    )}
                 </>
             )}
           </div>
@@ -1,75 +1,355 @@
 
-import React from 'react';
-import { LessonSession } from '../types';
-import { X, Clock, ChevronLeft, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { CurriculumUnit, LessonSession } from '../types';
+import { X, FolderTree, ChevronLeft, ChevronDown, Trash2, Loader2, Layers, Download, GripVertical, Pencil, Plus, FolderPlus } from 'lucide-react';
+import { getSession, getAllSessions, getLessonOutlines, getBestQuizPercents, getAllUnits, saveUnits, deleteUnit } from '../utils/db';
+import { FlashcardFormat, FLASHCARD_FORMATS, downloadFlashcards } from '../utils/flashcardInterchange';
+import { buildCurriculumTree, placeLesson, placeUnit, createUnit, lessonTitle, LessonOutline, LessonPlacement, LessonTarget, UNSORTED_SUBJECT, UNSORTED_SUBJECT_LABEL } from '../utils/curriculum';
 
 interface HistorySidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  sessions: LessonSession[];
   onSelectSession: (session: LessonSession) => void;
-  onDeleteSession: (id: string) => void;
+  onDeleteSession: (id: string) => Promise<boolean>; // Resolves true if the session was removed
+  onMoveLessons: (placements: LessonPlacement[]) => Promise<void>; // Saves new subjects/units/positions; App keeps the open lesson in sync
 }
 
-const HistorySidebar: React.FC<HistorySidebarProps> = ({ 
-  isOpen, 
-  onClose, 
-  sessions, 
+type Dragging = { kind: 'LESSON' | 'UNIT'; id: string };
+
+const ProgressBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 h-1.5 bg-gray-100 dark:bg-gray-600 rounded-full overflow-hidden">
+      <div className="h-full bg-primary-500 rounded-full transition-all" style={{ width: `${percent}%` }} />
+    </div>
+    <span className="text-[11px] font-bold text-gray-500 dark:text-gray-400 w-8 text-left">{percent}%</span>
+  </div>
+);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  onClose,
   onSelectSession,
-  onDeleteSession 
+  onDeleteSession,
+  onMoveLessons
 }) => {
+  const [sessions, setSessions] = useState<LessonOutline[]>([]);
+  const [units, setUnits] = useState<CurriculumUnit[]>([]);
+  const [bestScores, setBestScores] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState<Dragging | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<FlashcardFormat | null>(null);
+
+  // Outlines and best scores only; a lesson is read in full when it is opened
+  const load = async () => {
+    try {
+      const [outlines, allUnits, best] = await Promise.all([getLessonOutlines(), getAllUnits(), getBestQuizPercents()]);
+      setSessions(outlines);
+      setUnits(allUnits);
+      setBestScores(best);
+    } catch (error) {
+      console.error('Failed to load sessions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const tree = useMemo(() => buildCurriculumTree(sessions, units, bestScores), [sessions, units, bestScores]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      const session = await getSession(id);
+      if (!session) throw new Error('missing');
+      onSelectSession(session);
+      onClose();
+    } catch (error) {
+      alert('تعذر فتح الدرس');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await onDeleteSession(id)) {
+      setSessions(prev => prev.filter(s => s.id !== id));
+    }
+  };
+
+  const toggleSubject = (subject: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(subject)) next.delete(subject);
+      else next.add(subject);
+      return next;
+    });
+  };
+
+  // --- Units ---
+
+  const storeUnits = async (changed: CurriculumUnit[]) => {
+    setUnits(prev => [...prev.filter(unit => !changed.some(c => c.id === unit.id)), ...changed]);
+    try {
+      await saveUnits(changed);
+    } catch (error) {
+      alert('تعذر حفظ الوحدة');
+      load();
+    }
+  };
+
+  const handleAddSubject = () => {
+    const subject = prompt('اسم المادة:')?.trim();
+    if (!subject) return;
+    const title = prompt('اسم أول وحدة في المادة:', 'الوحدة الأولى')?.trim();
+    if (title) storeUnits([createUnit(subject, title, units)]);
+  };
+
+  const handleAddUnit = (subject: string) => {
+    const title = prompt('اسم الوحدة:')?.trim();
+    if (title) storeUnits([createUnit(subject, title, units)]);
+  };
+
+  const handleRenameUnit = (unit: CurriculumUnit) => {
+    const title = prompt('اسم الوحدة:', unit.title)?.trim();
+    if (title && title !== unit.title) storeUnits([{ ...unit, title }]);
+  };
+
+  // The unit's lessons stay in the subject, after the units
+  const handleDeleteUnit = async (unit: CurriculumUnit) => {
+    if (!confirm(`حذف وحدة "${unit.title}"؟ ستبقى دروسها في المادة.`)) return;
+    const placements = sessions.filter(s => s.unitId === unit.id).map(s => ({ id: s.id, subject: s.subject, unitId: undefined, order: undefined }));
+    try {
+      if (placements.length) await moveLessons(placements);
+      await deleteUnit(unit.id);
+      setUnits(prev => prev.filter(u => u.id !== unit.id));
+    } catch (error) {
+      alert('تعذر حذف الوحدة');
+    }
+  };
+
+  // --- Drag and Drop ---
+
+  const moveLessons = async (placements: LessonPlacement[]) => {
+    setSessions(prev => prev.map(session => {
+      const placement = placements.find(p => p.id === session.id);
+      return placement ? { ...session, ...placement } : session;
+    }));
+    await onMoveLessons(placements);
+  };
+
+  const startDrag = (e: React.DragEvent, next: Dragging) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', next.id); // Firefox only starts a drag that carries data
+    setDragging(next);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropKey(null);
+  };
+
+  // Lessons can be dropped on a subject, a unit or another lesson; units only on another unit of the same subject
+  const dropProps = (key: string, accepts: (drag: Dragging) => boolean, onDrop: (drag: Dragging) => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging || !accepts(dragging)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (dropKey !== key) setDropKey(key);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const drag = dragging;
+      endDrag();
+      if (drag && accepts(drag)) onDrop(drag);
+    }
+  });
+
+  const dropLesson = (lessonId: string, target: LessonTarget) => {
+    const placements = placeLesson(tree, lessonId, target);
+    if (!placements.length) return;
+    moveLessons(placements).catch(() => {
+      alert('تعذر نقل الدرس');
+      load();
+    });
+  };
+
+  const isLesson = (drag: Dragging) => drag.kind === 'LESSON';
+  const isUnitOf = (subject: string) => (drag: Dragging) => drag.kind === 'UNIT' && units.find(u => u.id === drag.id)?.subject === subject;
+  const highlight = (key: string) => dropKey === key ? 'ring-2 ring-primary-400 ring-offset-1 dark:ring-offset-gray-800' : '';
+
+  // Every lesson's cards in one file (the tree only holds outlines)
+  const handleExportAllFlashcards = async (format: FlashcardFormat) => {
+    setExportingFormat(format);
+    try {
+      const all = await getAllSessions();
+      const decks = all.map(session => ({ title: lessonTitle(session), cards: session.flashcards || [] }));
+      await downloadFlashcards(decks, format, 'Faseeh_Flashcards');
+    } catch (error: any) {
+      alert(error?.message || 'حدث خطأ أثناء التصدير.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   return (
     <>
       {/* Overlay */}
       {isOpen && (
-        <div 
+        <div
           className="fixed inset-0 bg-black/30 backdrop-blur-sm z-40 transition-opacity"
           onClick={onClose}
         />
       )}
-      
+
       {/* Sidebar */}
       <div className={`fixed top-0 right-0 h-full w-80 bg-white dark:bg-gray-800 shadow-2xl transform transition-transform duration-300 ease-in-out z-50 flex flex-col ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
         <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900">
           <h2 className="font-bold text-lg text-gray-800 dark:text-white flex items-center gap-2">
-            <Clock className="w-5 h-5 text-primary-500" />
-            سجل الدروس
+            <FolderTree className="w-5 h-5 text-primary-500" />
+            المنهج والدروس
           </h2>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
-            <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button onClick={handleAddSubject} className="p-1.5 text-gray-500 hover:text-primary-600 hover:bg-primary-50 dark:text-gray-400 dark:hover:bg-primary-900/20 rounded-lg transition-colors" title="مادة جديدة">
+              <FolderPlus className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4 space-y-3">
-          {sessions.length === 0 ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-8 h-8 animate-spin text-primary-500" />
+            </div>
+          ) : tree.length === 0 ? (
             <div className="text-center py-10 text-gray-400 dark:text-gray-500">
               <p>لا يوجد دروس محفوظة بعد</p>
             </div>
           ) : (
-            sessions.map((session) => (
-              <div 
-                key={session.id}
-                className="group relative bg-white dark:bg-gray-700 border border-gray-100 dark:border-gray-600 rounded-xl p-4 hover:shadow-md transition-all hover:border-primary-200 dark:hover:border-primary-500 cursor-pointer"
-                onClick={() => { onSelectSession(session); onClose(); }}
-              >
-                <h3 className="font-bold text-gray-800 dark:text-gray-100 line-clamp-2 mb-2 text-sm">
-                  {session.title || "درس بدون عنوان"}
-                </h3>
-                <div className="flex justify-between items-end">
-                  <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-600 px-2 py-1 rounded-md">
-                    {new Date(session.date).toLocaleDateString('ar-EG')}
-                  </span>
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }}
-                    className="opacity-0 group-hover:opacity-100 p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full transition-all"
+            tree.map(({ subject, units: unitNodes, lessonCount, progress }) => {
+              const isCollapsed = collapsed.has(subject);
+              const hasUnits = unitNodes.some(node => node.unit);
+              return (
+                <div key={subject || 'unsorted'} className="space-y-2">
+                  <div
+                    className={`rounded-xl p-3 bg-gray-50 dark:bg-gray-900/60 transition-shadow ${highlight(`subject:${subject}`)}`}
+                    {...dropProps(`subject:${subject}`, isLesson, drag => dropLesson(drag.id, { subject }))}
                   >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => toggleSubject(subject)} className="flex-1 flex items-center gap-1.5 text-right min-w-0">
+                        {isCollapsed ? <ChevronLeft className="w-4 h-4 text-gray-400 flex-shrink-0" /> : <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                        <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{subject === UNSORTED_SUBJECT ? UNSORTED_SUBJECT_LABEL : subject}</span>
+                        <span className="text-xs text-gray-400 flex-shrink-0">({lessonCount})</span>
+                      </button>
+                      {subject !== UNSORTED_SUBJECT && (
+                        <button onClick={() => handleAddUnit(subject)} className="p-1 text-gray-400 hover:text-primary-600 rounded transition-colors" title="وحدة جديدة">
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    {lessonCount > 0 && <div className="mt-2"><ProgressBar percent={progress} /></div>}
+                  </div>
+
+                  {!isCollapsed && unitNodes.map(({ unit, lessons, progress: unitProgress }) => {
+                    const unitKey = unit ? `unit:${unit.id}` : `loose:${subject}`;
+                    return (
+                      <div key={unitKey} className={unit || hasUnits ? 'pr-3 space-y-2' : 'space-y-2'}>
+                        {unit ? (
+                          <div
+                            draggable
+                            onDragStart={(e) => startDrag(e, { kind: 'UNIT', id: unit.id })}
+                            onDragEnd={endDrag}
+                            className={`group flex items-center gap-1.5 px-2 py-1.5 rounded-lg border-r-4 border-primary-300 dark:border-primary-700 bg-white dark:bg-gray-800 transition-shadow ${dragging?.id === unit.id ? 'opacity-50' : ''} ${highlight(unitKey)}`}
+                            {...dropProps(unitKey, drag => isLesson(drag) || (isUnitOf(subject)(drag) && drag.id !== unit.id), drag =>
+                              drag.kind === 'UNIT'
+                                ? storeUnits(placeUnit(units, drag.id, unit.id))
+                                : dropLesson(drag.id, { subject, unitId: unit.id })
+                            )}
+                          >
+                            <GripVertical className="w-4 h-4 text-gray-300 cursor-grab flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-bold text-gray-700 dark:text-gray-200 truncate">{unit.title}</p>
+                              {lessons.length > 0 && <ProgressBar percent={unitProgress} />}
+                            </div>
+                            <button onClick={() => handleRenameUnit(unit)} className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-primary-600 rounded transition-all" title="إعادة تسمية">
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => handleDeleteUnit(unit)} className="opacity-0 group-hover:opacity-100 p-1 text-red-400 hover:text-red-600 rounded transition-all" title="حذف الوحدة">
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        ) : hasUnits && (
+                          <p className="text-xs font-bold text-gray-400 px-2">دروس خارج الوحدات</p>
+                        )}
+
+                        {unit && lessons.length === 0 && (
+                          <p className="text-xs text-gray-400 px-2">اسحب الدروس إلى هنا</p>
+                        )}
+
+                        {lessons.map(({ lesson, progress: lessonPercent }) => (
+                          <div
+                            key={lesson.id}
+                            draggable
+                            onDragStart={(e) => startDrag(e, { kind: 'LESSON', id: lesson.id })}
+                            onDragEnd={endDrag}
+                            className={`group relative bg-white dark:bg-gray-700 border border-gray-100 dark:border-gray-600 rounded-xl p-3 hover:shadow-md transition-all hover:border-primary-200 dark:hover:border-primary-500 cursor-pointer ${dragging?.id === lesson.id ? 'opacity-50' : ''} ${highlight(`lesson:${lesson.id}`)}`}
+                            onClick={() => handleOpen(lesson.id)}
+                            {...dropProps(`lesson:${lesson.id}`, drag => isLesson(drag) && drag.id !== lesson.id, drag =>
+                              dropLesson(drag.id, { subject, unitId: unit?.id, beforeId: lesson.id })
+                            )}
+                          >
+                            <h3 className="font-bold text-gray-800 dark:text-gray-100 line-clamp-2 mb-2 text-sm">
+                              {lesson.title}
+                            </h3>
+                            <ProgressBar percent={lessonPercent} />
+                            <div className="flex justify-between items-end mt-2">
+                              <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-600 px-2 py-1 rounded-md">
+                                {new Date(lesson.date).toLocaleDateString('ar-EG')}
+                              </span>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDelete(lesson.id); }}
+                                className="opacity-0 group-hover:opacity-100 p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full transition-all"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
+
+        {sessions.length > 0 && (
+          <div className="p-4 border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+            <span className="text-xs font-bold text-gray-500 dark:text-gray-400 flex items-center gap-1.5 mb-2">
+              <Layers className="w-4 h-4 text-pink-500" /> تصدير بطاقات كل الدروس
+            </span>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(FLASHCARD_FORMATS) as FlashcardFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExportAllFlashcards(format)}
+                  disabled={!!exportingFormat}
+                  title={FLASHCARD_FORMATS[format].hint}
+                  className="py-2 rounded-lg text-xs font-bold bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-pink-300 hover:text-pink-600 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+                >
+                  {exportingFormat === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                  {FLASHCARD_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </>
   );
@@ -4,6 +4,7 @@ import { ContentType } from '../types';
 import { FileText, Image as ImageIcon, Youtube, Type, Upload, Loader2, Link, Sparkles, PenTool, Save, Trash2, ChevronDown, ChevronUp, Settings, RotateCcw, Mic, Square, Clock } from 'lucide-react';
 import * as YouTubeService from '../services/youtubeService';
 import { soundManager } from '../utils/soundEffects';
+import { profileKey } from '../utils/profiles';
 
 interface InputSectionProps {
   onProcess: (type: ContentType, data: string, mimeType?: string) => void;
@@ -55,7 +56,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isProcessing })
   // Load saved preferences on mount
   useEffect(() => {
     // Topic Prefs
-    const savedPrefs = localStorage.getItem('faseeh_topic_prefs');
+    const savedPrefs = localStorage.getItem(profileKey('faseeh_topic_prefs'));
     if (savedPrefs) {
       const parsed = JSON.parse(savedPrefs);
       setTopicData(prev => ({
@@ -67,7 +68,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isProcessing })
     }
 
     // Prompt Prefs
-    const savedPrompts = localStorage.getItem('faseeh_custom_prompts');
+    const savedPrompts = localStorage.getItem(profileKey('faseeh_custom_prompts'));
     if (savedPrompts) {
         const parsed = JSON.parse(savedPrompts);
         setCustomInstructions(parsed.positive || defaultCustomInstructions);
@@ -80,7 +81,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isProcessing })
   }, []);
 
   const handleSavePrompts = () => {
-      localStorage.setItem('faseeh_custom_prompts', JSON.stringify({
+      localStorage.setItem(profileKey('faseeh_custom_prompts'), JSON.stringify({
           positive: customInstructions,
           negative: negativeInstructions
       }));
@@ -121,7 +122,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isProcessing })
     if (!topicData.lessonName || !topicData.subject) return;
 
     // Save preferences
-    localStorage.setItem('faseeh_topic_prefs', JSON.stringify({
+    localStorage.setItem(profileKey('faseeh_topic_prefs'), JSON.stringify({
       gradeLevel: topicData.gradeLevel,
       subject: topicData.subject,
       curriculum: topicData.curriculum
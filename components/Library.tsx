@@ -21,14 +21,36 @@ if (pdfjs.GlobalWorkerOptions) {
 // Safely extract getDocument function
 const getDocument = pdfjs.getDocument || (pdfjs.default && pdfjs.default.getDocument);
 
+// Pages rendered as images per load; a search jump opens the window containing the target page
+const PAGES_PER_LOAD = 50;
+
+// Extracts and stores the text of every page so the book shows up in global search
+const indexBookText = async (pdf: any, bookId: string) => {
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    pages.push(textContent.items.map((item: any) => item.str).join(' '));
+  }
+  await DB.saveBookPages(bookId, pages);
+};
+
+export interface LibraryOpenTarget {
+  bookId: string;
+  page: number; // 1-based
+}
+
 interface LibraryProps {
   onProcessPages: (images: string[]) => void;
   onExtractText: (text: string) => void;
+  openTarget?: LibraryOpenTarget | null; // Set by global search to open a book at a page
+  onOpenTargetHandled?: () => void;
 }
 
-const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
+const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText, openTarget, onOpenTargetHandled }) => {
   // Data State
   const [books, setBooks] = useState<Book[]>([]);
+  const [isDataLoaded, setIsDataLoaded] = useState(false); // Set once the first loadData has finished, even if it failed
   const [folders, setFolders] = useState<Folder[]>([]);
   
   // View State
@@ -38,6 +60,7 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
   
   // Selection & Processing State
   const [bookPages, setBookPages] = useState<string[]>([]);
+  const [pageOffset, setPageOffset] = useState(0); // bookPages[0] is PDF page pageOffset + 1
   const [selectedPages, setSelectedPages] = useState<number[]>([]);
   const [isLoadingBook, setIsLoadingBook] = useState(false);
   
@@ -58,6 +81,20 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
     loadData();
   }, []);
 
+  // Jump requested from global search
+  useEffect(() => {
+    if (!openTarget) return;
+    const book = books.find(b => b.id === openTarget.bookId);
+    if (!book && !isDataLoaded) return; // Wait for loadData
+    onOpenTargetHandled?.();
+    if (!book) {
+      alert("لم يعد هذا الكتاب موجوداً في المكتبة.");
+      return;
+    }
+    setCurrentFolder(folders.find(f => f.id === book.folderId) || null);
+    openBook(book, openTarget.page);
+  }, [openTarget, books, isDataLoaded]);
+
   // Keyboard navigation for reader
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -91,6 +128,8 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
       setFolders(loadedFolders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
     } catch (e) {
       console.error("Failed to load library data", e);
+    } finally {
+      setIsDataLoaded(true);
     }
   };
 
@@ -177,6 +216,7 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
         await DB.saveBook(newBook, file);
         setBooks(prev => [newBook, ...prev]);
         soundManager.play('SUCCESS');
+        indexBookText(pdf, newBook.id).catch(err => console.error("Failed to index book text", err));
       }
     } catch (error) {
       console.error("Upload failed", error);
@@ -198,12 +238,15 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
     if (activeBook?.id === id) setActiveBook(null);
   };
 
-  const openBook = async (book: Book) => {
+  const openBook = async (book: Book, targetPage?: number) => {
     soundManager.play('CLICK');
+    const offset = targetPage ? Math.floor((targetPage - 1) / PAGES_PER_LOAD) * PAGES_PER_LOAD : 0;
     setActiveBook(book);
     setIsLoadingBook(true);
     setBookPages([]);
     setSelectedPages([]);
+    setPageOffset(offset);
+    setViewingPageIndex(null);
 
     if (!getDocument) {
       setIsLoadingBook(false);
@@ -220,10 +263,15 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
       const loadingTask = getDocument({ data: arrayBuffer });
       const pdf = await loadingTask.promise;
       
+      // Books added before search existed get their text indexed the first time they are opened
+      if (!(await DB.hasBookPages(book.id))) {
+        indexBookText(pdf, book.id).catch(err => console.error("Failed to index book text", err));
+      }
+
       const renderedPages: string[] = [];
-      const limit = Math.min(pdf.numPages, 50); 
+      const limit = Math.min(pdf.numPages, offset + PAGES_PER_LOAD);
 
-      for (let i = 1; i <= limit; i++) {
+      for (let i = offset + 1; i <= limit; i++) {
         const page = await pdf.getPage(i);
         const viewport = page.getViewport({ scale: 2.0 });
         const canvas = document.createElement('canvas');
@@ -239,6 +287,9 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
       }
 
       setBookPages(renderedPages);
+      if (targetPage && targetPage - 1 - offset < renderedPages.length) {
+        openReader(targetPage - 1 - offset);
+      }
     } catch (error) {
       console.error("Error opening book", error);
       alert("فشل في فتح الكتاب");
@@ -280,13 +331,13 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
 
         for (const pageIndex of sortedPages) {
             // Pages are 1-indexed in PDF.js
-            const page = await pdf.getPage(pageIndex + 1);
+            const page = await pdf.getPage(pageOffset + pageIndex + 1);
             const textContent = await page.getTextContent();
             // join items with space
             const pageText = textContent.items.map((item: any) => item.str).join(' ');
             
             if (pageText.trim()) {
-               fullText += `\n\n--- صفحة ${pageIndex + 1} ---\n${pageText}`;
+               fullText += `\n\n--- صفحة ${pageOffset + pageIndex + 1} ---\n${pageText}`;
             }
         }
 
@@ -336,7 +387,7 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
              <div className="flex justify-between items-center p-4 bg-black/40 text-white z-50">
                 <div className="flex items-center gap-4">
                    <h3 className="font-bold text-lg">{activeBook.title}</h3>
-                   <span className="bg-gray-700 px-3 py-1 rounded-full text-sm font-mono">{viewingPageIndex + 1} / {bookPages.length}</span>
+                   <span className="bg-gray-700 px-3 py-1 rounded-full text-sm font-mono">{pageOffset + viewingPageIndex + 1} / {activeBook.totalPages}</span>
                 </div>
                 <div className="flex items-center gap-2">
                    <button onClick={handleZoomOut} className="p-2 hover:bg-white/10 rounded-full"><ZoomOut className="w-5 h-5" /></button>
@@ -349,7 +400,7 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
              </div>
              <div className="flex-1 overflow-auto flex items-center justify-center p-4 cursor-grab active:cursor-grabbing relative">
                 <button onClick={handlePrevPage} disabled={viewingPageIndex <= 0} className="absolute left-4 top-1/2 -translate-y-1/2 p-3 bg-black/50 hover:bg-black/70 text-white rounded-full disabled:opacity-20 transition-all z-40"><ChevronLeft className="w-8 h-8 rtl:rotate-180" /></button>
-                <img src={bookPages[viewingPageIndex]} alt={`Page ${viewingPageIndex + 1}`} style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }} className="max-w-full max-h-full shadow-2xl object-contain bg-white" />
+                <img src={bookPages[viewingPageIndex]} alt={`Page ${pageOffset + viewingPageIndex + 1}`} style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }} className="max-w-full max-h-full shadow-2xl object-contain bg-white" />
                 <button onClick={handleNextPage} disabled={viewingPageIndex >= bookPages.length - 1} className="absolute right-4 top-1/2 -translate-y-1/2 p-3 bg-black/50 hover:bg-black/70 text-white rounded-full disabled:opacity-20 transition-all z-40"><ChevronRight className="w-8 h-8 rtl:rotate-180" /></button>
              </div>
              <div className="bg-black/60 p-4 flex justify-center">
@@ -393,8 +444,8 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                {bookPages.map((imgSrc, idx) => (
                  <div key={idx} onClick={() => togglePageSelection(idx)} className={`relative group rounded-xl overflow-hidden border-2 transition-all duration-200 shadow-sm ${selectedPages.includes(idx) ? 'border-primary-500 ring-4 ring-primary-500/20 transform scale-[1.02]' : 'border-gray-200 dark:border-gray-700 hover:border-primary-300'}`}>
-                   <img src={imgSrc} alt={`Page ${idx + 1}`} className="w-full h-auto object-cover" />
-                   <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-center py-2 text-sm font-bold backdrop-blur-sm z-10">صفحة {idx + 1}</div>
+                   <img src={imgSrc} alt={`Page ${pageOffset + idx + 1}`} className="w-full h-auto object-cover" />
+                   <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-center py-2 text-sm font-bold backdrop-blur-sm z-10">صفحة {pageOffset + idx + 1}</div>
                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 z-20">
                         <button onClick={(e) => { e.stopPropagation(); openReader(idx); }} className="p-3 bg-white text-gray-900 rounded-full hover:bg-primary-500 hover:text-white transition-colors shadow-lg transform hover:scale-110" title="قراءة مكبرة"><Eye className="w-6 h-6" /></button>
                    </div>
@@ -402,7 +453,7 @@ const Library: React.FC<LibraryProps> = ({ onProcessPages, onExtractText }) => {
                  </div>
                ))}
              </div>
-             {activeBook.totalPages > 50 && <div className="text-center py-8 text-gray-500"><p className="bg-yellow-50 dark:bg-yellow-900/20 inline-block px-4 py-2 rounded-lg text-sm text-yellow-700 dark:text-yellow-400">ملاحظة: يتم عرض أول 50 صفحة فقط لضمان سرعة التطبيق.</p></div>}
+             {activeBook.totalPages > PAGES_PER_LOAD && <div className="text-center py-8 text-gray-500"><p className="bg-yellow-50 dark:bg-yellow-900/20 inline-block px-4 py-2 rounded-lg text-sm text-yellow-700 dark:text-yellow-400">ملاحظة: يتم عرض {PAGES_PER_LOAD} صفحة فقط (من {pageOffset + 1} إلى {pageOffset + bookPages.length}) لضمان سرعة التطبيق.</p></div>}
           </div>
         )}
       </div>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { PlanTask, PlanTaskKind } from '../types';
+import { BookOpen, Library as LibraryIcon, Layers, BrainCircuit, CheckCircle2, Circle, ChevronLeft } from 'lucide-react';
+import { PLAN_TASK_LABELS } from '../utils/studyPlanner';
+import { dateOfDay } from '../utils/calendar';
+
+interface PlanTaskRowProps {
+  task: PlanTask;
+  isOverdue?: boolean;
+  examTitle?: string; // Shown when tasks from several exams are listed together
+  onToggle: (done: boolean) => void;
+  onOpen: () => void;
+}
+
+const KIND_ICONS: Record<PlanTaskKind, React.FC<{ className?: string }>> = {
+  STUDY_LESSON: BookOpen,
+  READ_BOOK: LibraryIcon,
+  REVIEW: Layers,
+  QUIZ: BrainCircuit
+};
+
+const PlanTaskRow: React.FC<PlanTaskRowProps> = ({ task, isOverdue, examTitle, onToggle, onOpen }) => {
+  const Icon = KIND_ICONS[task.kind];
+  const isDone = !!task.completedAt;
+
+  return (
+    <div className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${isDone ? 'border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40' : isOverdue ? 'border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30' : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'}`}>
+      <button
+        onClick={() => onToggle(!isDone)}
+        className={`flex-shrink-0 transition-colors ${isDone ? 'text-green-600' : 'text-gray-300 hover:text-primary-500'}`}
+        title={isDone ? 'إلغاء الإنجاز' : 'تم'}
+      >
+        {isDone ? <CheckCircle2 className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
+      </button>
+      <Icon className="w-5 h-5 text-primary-500 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className={`font-bold text-sm truncate ${isDone ? 'text-gray-400 line-through' : 'text-gray-800 dark:text-gray-100'}`}>
+          {PLAN_TASK_LABELS[task.kind]}: {task.title}
+        </p>
+        {(examTitle || isOverdue) && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {examTitle}{examTitle && isOverdue && ' • '}{isOverdue && <span className="text-red-500 font-bold">متأخرة من {dateOfDay(task.date).toLocaleDateString('ar-EG', { weekday: 'long' })}</span>}
+          </p>
+        )}
+      </div>
+      {!isDone && (
+        <button onClick={onOpen} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-colors whitespace-nowrap">
+          ابدأ <ChevronLeft className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PlanTaskRow;
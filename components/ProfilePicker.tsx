@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { StudentProfile } from '../types';
+import { User, UserPlus, Lock, Trash2, ArrowRight, Loader2 } from 'lucide-react';
+import { getProfiles, createProfile, deleteProfile, verifyPin } from '../utils/profiles';
+import * as DB from '../utils/db';
+import { soundManager } from '../utils/soundEffects';
+
+interface ProfilePickerProps {
+  onSelect: (profile: StudentProfile) => void;
+}
+
+// A profile waiting for its PIN, to open it or to delete it
+interface PendingAction {
+  profile: StudentProfile;
+  action: 'OPEN' | 'DELETE';
+}
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+const inputClass = 'w-full p-4 rounded-xl border-2 border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 text-center text-lg font-bold outline-none focus:border-primary-500 dark:text-white';
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ onSelect }) => {
+  const [profiles, setProfiles] = useState<StudentProfile[]>(() => getProfiles());
+  const [isCreating, setIsCreating] = useState(() => getProfiles().length === 0);
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const removeProfile = async (profile: StudentProfile) => {
+    if (!confirm(`حذف الملف الشخصي "${profile.name}"؟ سيتم حذف دروسه واختباراته ومكتبته نهائياً.`)) return;
+    setIsBusy(true);
+    try {
+      await DB.deleteProfileDatabase(profile.id);
+      deleteProfile(profile);
+      setProfiles(getProfiles());
+      setPending(null);
+    } catch (err) {
+      alert('تعذر حذف الملف الشخصي');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const requestAction = (profile: StudentProfile, action: PendingAction['action']) => {
+    soundManager.play('CLICK');
+    setError('');
+    if (profile.pinHash) {
+      setPin('');
+      setPending({ profile, action });
+    } else if (action === 'OPEN') {
+      onSelect(profile);
+    } else {
+      removeProfile(profile);
+    }
+  };
+
+  const submitPin = async () => {
+    if (!pending) return;
+    if (!(await verifyPin(pending.profile, pin))) {
+      soundManager.play('ERROR');
+      setError('الرمز السري غير صحيح');
+      setPin('');
+      return;
+    }
+    if (pending.action === 'OPEN') onSelect(pending.profile);
+    else removeProfile(pending.profile);
+  };
+
+  const submitNewProfile = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (newPin && !PIN_PATTERN.test(newPin)) {
+      setError('الرمز السري من 4 إلى 8 أرقام');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const profile = await createProfile(name, newPin || undefined);
+      soundManager.play('SUCCESS');
+      onSelect(profile);
+    } catch (err: any) {
+      setError(err.message || 'تعذر إنشاء الملف الشخصي');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const backToList = () => {
+    setPending(null);
+    setIsCreating(false);
+    setError('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-gray-50 dark:bg-dark-bg p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-gray-900 rounded-3xl p-8 max-w-md w-full text-center shadow-2xl animate-in zoom-in-95 border border-gray-200 dark:border-gray-700">
+        <div className="w-20 h-20 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-6 text-primary-600">
+          {pending ? <Lock className="w-10 h-10" /> : <User className="w-10 h-10" />}
+        </div>
+
+        {pending ? (
+          <>
+            <h2 className="text-2xl font-black text-gray-900 dark:text-white mb-2">{pending.profile.name}</h2>
+            <p className="text-gray-500 mb-6">{pending.action === 'OPEN' ? 'أدخل الرمز السري للدخول' : 'أدخل الرمز السري لتأكيد الحذف'}</p>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => e.key === 'Enter' && submitPin()}
+              className={`${inputClass} tracking-[0.5em] mb-4`}
+              autoFocus
+            />
+            {error && <p className="text-sm font-bold text-red-500 mb-4">{error}</p>}
+            <button
+              onClick={submitPin}
+              disabled={!pin || isBusy}
+              className="w-full py-4 bg-primary-600 text-white rounded-xl font-bold text-lg shadow-lg hover:bg-primary-700 disabled:opacity-50 transition-all mb-3"
+            >
+              {pending.action === 'OPEN' ? 'دخول' : 'حذف الملف الشخصي'}
+            </button>
+            <button onClick={backToList} className="text-sm font-bold text-gray-500 hover:text-primary-600 flex items-center gap-1 mx-auto">
+              <ArrowRight className="w-4 h-4" /> رجوع
+            </button>
+          </>
+        ) : isCreating ? (
+          <>
+            <h2 className="text-2xl font-black text-gray-900 dark:text-white mb-2">{profiles.length === 0 ? 'مرحباً بك في فصيح!' : 'ملف شخصي جديد'}</h2>
+            <p className="text-gray-500 mb-6">للحصول على أفضل تجربة تعليمية، أخبرنا ما هو اسمك؟</p>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="اكتب اسمك هنا..."
+              className={`${inputClass} mb-3`}
+              autoFocus
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => e.key === 'Enter' && submitNewProfile()}
+              placeholder="رمز سري (اختياري)"
+              className={`${inputClass} mb-4`}
+            />
+            {error && <p className="text-sm font-bold text-red-500 mb-4">{error}</p>}
+            <button
+              onClick={submitNewProfile}
+              disabled={!newName.trim() || isBusy}
+              className="w-full py-4 bg-primary-600 text-white rounded-xl font-bold text-lg shadow-lg hover:bg-primary-700 disabled:opacity-50 transition-all mb-3"
+            >
+              {isBusy ? <Loader2 className="w-6 h-6 animate-spin mx-auto" /> : 'ابدأ الرحلة التعليمية'}
+            </button>
+            {profiles.length > 0 && (
+              <button onClick={backToList} className="text-sm font-bold text-gray-500 hover:text-primary-600 flex items-center gap-1 mx-auto">
+                <ArrowRight className="w-4 h-4" /> رجوع
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-black text-gray-900 dark:text-white mb-6">من يدرس الآن؟</h2>
+            <div className="space-y-2 mb-4 max-h-80 overflow-y-auto custom-scrollbar">
+              {profiles.map(profile => (
+                <div key={profile.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => requestAction(profile, 'OPEN')}
+                    disabled={isBusy}
+                    className="flex-1 flex items-center gap-3 p-4 rounded-xl border-2 border-gray-200 dark:border-gray-700 hover:border-primary-500 hover:bg-primary-50 dark:hover:bg-primary-900/20 font-bold text-gray-800 dark:text-gray-100 transition-colors text-right"
+                  >
+                    <span className="w-10 h-10 rounded-full bg-primary-100 text-primary-700 flex items-center justify-center font-black flex-shrink-0">{profile.name.charAt(0)}</span>
+                    <span className="flex-1 truncate">{profile.name}</span>
+                    {profile.pinHash && <Lock className="w-4 h-4 text-gray-400" />}
+                  </button>
+                  <button
+                    onClick={() => requestAction(profile, 'DELETE')}
+                    disabled={isBusy}
+                    className="p-3 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-xl transition-colors"
+                    title="حذف الملف الشخصي"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => { setIsCreating(true); setNewName(''); setNewPin(''); setError(''); }}
+              className="w-full py-3 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl text-gray-500 dark:text-gray-400 hover:border-primary-500 hover:text-primary-600 font-bold flex items-center justify-center gap-2 transition-colors"
+            >
+              <UserPlus className="w-5 h-5" /> إضافة ملف شخصي
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePicker;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BankQuestion, DifficultyLevel, QuestionType, Quiz } from '../types';
+import { Loader2, Trash2, Search, Library, Play } from 'lucide-react';
+import * as DB from '../utils/db';
+import { filterBank, bankFacets, assembleQuizFromBank, BankFilter } from '../utils/questionBank';
+import { QUESTION_TYPE_LABELS, DIFFICULTY_LABELS } from '../utils/quizFormat';
+import { soundManager } from '../utils/soundEffects';
+
+interface QuestionBankPanelProps {
+  defaultLessonId?: string;
+  onAssemble: (quiz: Quiz) => void;
+}
+
+const SOURCE_LABELS: Record<BankQuestion['source'], string> = {
+  GENERATED: 'مولد',
+  MANUAL: 'يدوي',
+  IMPORTED: 'مستورد'
+};
+
+const LIST_LIMIT = 50; // Rows shown under the filters; the quiz still draws from every match
+
+const selectClass = 'p-2.5 rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors';
+
+const QuestionBankPanel: React.FC<QuestionBankPanelProps> = ({ defaultLessonId, onAssemble }) => {
+  const [entries, setEntries] = useState<BankQuestion[] | null>(null);
+  const [filter, setFilter] = useState<BankFilter>({});
+  const [count, setCount] = useState(10);
+  const [isAssembling, setIsAssembling] = useState(false);
+
+  useEffect(() => {
+    DB.getAllBankQuestions()
+      .then(all => {
+        setEntries(all);
+        // Start on the open lesson when it already has questions in the bank
+        if (defaultLessonId && all.some(entry => entry.lessonId === defaultLessonId)) setFilter({ lessonId: defaultLessonId });
+      })
+      .catch(error => {
+        console.error(error);
+        setEntries([]);
+      });
+  }, []);
+
+  const facets = useMemo(() => bankFacets(entries || []), [entries]);
+  const matches = useMemo(() => filterBank(entries || [], filter), [entries, filter]);
+
+  const updateFilter = (patch: BankFilter) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('حذف هذا السؤال من بنك الأسئلة؟')) return;
+    try {
+      await DB.deleteBankQuestion(id);
+      setEntries(prev => (prev || []).filter(entry => entry.id !== id));
+    } catch (error) {
+      alert('تعذر حذف السؤال');
+    }
+  };
+
+  const handleAssemble = async () => {
+    setIsAssembling(true);
+    try {
+      const quiz = await assembleQuizFromBank(matches, count);
+      if (!quiz) {
+        alert('لا توجد أسئلة مطابقة للتصفية');
+        return;
+      }
+      soundManager.play('SUCCESS');
+      onAssemble(quiz);
+    } catch (error) {
+      alert('تعذر تجميع الاختبار من بنك الأسئلة');
+    } finally {
+      setIsAssembling(false);
+    }
+  };
+
+  if (!entries) {
+    return <div className="flex justify-center py-10"><Loader2 className="w-8 h-8 animate-spin text-primary-500" /></div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <Library className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+        <p className="text-gray-500 dark:text-gray-400 font-medium">بنك الأسئلة فارغ. تُحفظ فيه تلقائياً الأسئلة المولدة واليدوية والمستوردة.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-in fade-in">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <select value={filter.lessonId || ''} onChange={(e) => updateFilter({ lessonId: e.target.value || undefined })} className={selectClass}>
+          <option value="">كل الدروس</option>
+          {facets.lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.title} ({lesson.count})</option>)}
+        </select>
+        <select value={filter.subject || ''} onChange={(e) => updateFilter({ subject: e.target.value || undefined })} className={selectClass} disabled={facets.subjects.length === 0}>
+          <option value="">كل المواد</option>
+          {facets.subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+        </select>
+        <select value={filter.difficulty || ''} onChange={(e) => updateFilter({ difficulty: (e.target.value || undefined) as DifficultyLevel | undefined })} className={selectClass}>
+          <option value="">كل المستويات</option>
+          {Object.values(DifficultyLevel).map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+        </select>
+        <select value={filter.type || ''} onChange={(e) => updateFilter({ type: (e.target.value || undefined) as QuestionType | undefined })} className={selectClass}>
+          <option value="">كل الأنواع</option>
+          {Object.values(QuestionType).map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+        </select>
+      </div>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={filter.search || ''}
+          onChange={(e) => updateFilter({ search: e.target.value || undefined })}
+          placeholder="ابحث في نص السؤال أو المفهوم..."
+          className="w-full p-2.5 pr-9 rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm outline-none focus:border-primary-500 dark:text-white transition-colors"
+        />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2">
+        {matches.slice(0, LIST_LIMIT).map(entry => (
+          <div key={entry.id} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+            <div className="flex-1 min-w-0">
+              <p className="font-bold text-sm text-gray-800 dark:text-gray-100 leading-relaxed">{entry.question.text}</p>
+              <div className="flex flex-wrap gap-1.5 mt-1.5 text-[11px] font-bold">
+                <span className="px-2 py-0.5 rounded-full bg-primary-50 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300">{QUESTION_TYPE_LABELS[entry.type]}</span>
+                {entry.difficulty && <span className="px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">{DIFFICULTY_LABELS[entry.difficulty]}</span>}
+                {entry.lessonTitle && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{entry.lessonTitle}</span>}
+                {entry.subject && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{entry.subject}</span>}
+                <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">{SOURCE_LABELS[entry.source]}{entry.timesUsed > 0 ? ` · استُخدم ${entry.timesUsed}` : ''}</span>
+              </div>
+            </div>
+            <button onClick={() => handleDelete(entry.id)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors" title="حذف من البنك">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {matches.length === 0 && <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">لا توجد أسئلة مطابقة للتصفية</p>}
+        {matches.length > LIST_LIMIT && <p className="text-center text-xs text-gray-400 py-2">و{matches.length - LIST_LIMIT} سؤالاً آخر</p>}
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-center gap-3 pt-2">
+        <div className="flex items-center gap-2 text-sm font-bold text-gray-600 dark:text-gray-300">
+          عدد الأسئلة
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, matches.length)}
+            value={count}
+            onChange={(e) => setCount(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-20 p-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-center font-bold focus:border-primary-500 outline-none dark:bg-gray-800 dark:text-white"
+          />
+          <span className="text-gray-400 font-medium">من {matches.length}</span>
+        </div>
+        <button
+          onClick={handleAssemble}
+          disabled={isAssembling || matches.length === 0}
+          className="flex-1 w-full py-3 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg shadow-primary-500/30 disabled:opacity-50 transition-colors"
+        >
+          {isAssembling ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />} تجميع الاختبار والانتقال للمعاينة
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPanel;
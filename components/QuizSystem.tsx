@@ -1,28 +1,50 @@
-import React, { useState, useEffect } from 'react';
-import { QuestionType, Quiz, Question, QuizResult, QuizConfig, DifficultyLevel } from '../types';
-import { Loader2, Play, Plus, ArrowLeft, Timer, X, RotateCcw, Sparkles, Save, Trash2, Edit2, FileText, Printer, Home, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { QuestionType, Quiz, Question, QuizResult, QuizConfig, DifficultyLevel, ScoringRules, MatchingScoring, OrderingScoring, AIConfig } from '../types';
+import { Loader2, Play, Plus, ArrowLeft, Timer, X, RotateCcw, Sparkles, Save, Trash2, Edit2, FileText, Printer, Home, ArrowRight, Upload, Gauge, Pause, Clock, GraduationCap, Download } from 'lucide-react';
 import { soundManager } from '../utils/soundEffects';
 import ExportMenu from './ExportMenu';
 import * as Gemini from '../services/geminiService';
+import { gradeQuestion, scoreQuestion, DEFAULT_SIMILARITY_THRESHOLD, DEFAULT_SCORING } from '../utils/grading';
+import { importQuizFile, QUIZ_IMPORT_ACCEPT } from '../utils/quizInterchange';
+import { DIFFICULTY_LABELS, MATCHING_SCORING_LABELS, ORDERING_SCORING_LABELS, NEGATIVE_MARKING_OPTIONS, formatScore } from '../utils/quizFormat';
+import { addToBank } from '../utils/questionBank';
+import QuestionBankPanel from './QuestionBankPanel';
+import { AdaptiveState, estimateAbility, isEstimateConfident, pickQuestion, ABILITY_LABELS, ADAPTIVE_LIMITS } from '../utils/adaptiveTesting';
+import { QuizCheckpoint, saveQuizCheckpoint, clearQuizCheckpoint } from '../utils/quizCheckpoint';
 
 interface QuizSystemProps {
   onGenerateQuiz: (config: QuizConfig) => Promise<void>;
+  onGenerateQuestions?: (difficulty: DifficultyLevel) => Promise<Question[]>; // Tops up an adaptive quiz's pool
   isGenerating: boolean;
   quiz: Quiz | null;
   onQuizComplete: (result: QuizResult) => void;
+  getAnalysisConfig: () => Promise<AIConfig>; // Provider, model and keys for the automatic analysis after a quiz
   studentName?: string;
+  lessonId?: string; // Open lesson; manual questions are filed under it in the question bank
+  lessonTitle?: string;
+  lessonSubject?: string;
+  resumeCheckpoint?: QuizCheckpoint | null;
+  onResumeHandled?: () => void;
+  onCreateAssignment?: (quiz: Quiz) => void; // Teacher mode: sign the previewed quiz and hand it out as an assignment
+  onExportAssignmentResult?: (result: QuizResult) => void;
 }
 
-const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, quiz, onQuizComplete, studentName }) => {
+type TimerSettings = Omit<QuizCheckpoint['timer'], 'timeLeft'>;
+
+const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, onGenerateQuestions, isGenerating, quiz, onQuizComplete, getAnalysisConfig, studentName, lessonId, lessonTitle, lessonSubject, resumeCheckpoint, onResumeHandled, onCreateAssignment, onExportAssignmentResult }) => {
   // --- STATE ---
   const [mode, setMode] = useState<'SETUP' | 'PREVIEW' | 'TAKING' | 'REVIEW'>('SETUP');
-  const [setupTab, setSetupTab] = useState<'CUSTOM' | 'COMPREHENSIVE' | 'MANUAL'>('COMPREHENSIVE');
+  const [setupTab, setSetupTab] = useState<'CUSTOM' | 'COMPREHENSIVE' | 'ADAPTIVE' | 'MANUAL' | 'BANK'>('COMPREHENSIVE');
   
   // Setup Config
   const [difficulty, setDifficulty] = useState<DifficultyLevel>(DifficultyLevel.MEDIUM);
   const [enableTimer, setEnableTimer] = useState(false);
+  const [timerMode, setTimerMode] = useState<'TOTAL' | 'PER_QUESTION'>('TOTAL');
   const [timerDuration, setTimerDuration] = useState<number>(10); // Minutes
+  const [questionTimeLimit, setQuestionTimeLimit] = useState<number>(60); // Seconds
   const [instantFeedback, setInstantFeedback] = useState(false);
+  const [similarityThreshold, setSimilarityThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [scoring, setScoring] = useState<ScoringRules>(DEFAULT_SCORING);
   const [typeCounts, setTypeCounts] = useState<Record<QuestionType, number>>({
       [QuestionType.TRUE_FALSE]: 5,
       [QuestionType.MULTIPLE_CHOICE]: 5,
@@ -41,6 +63,13 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
   const [timeLeft, setTimeLeft] = useState(0);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [showAnswerForCurrent, setShowAnswerForCurrent] = useState(false);
+  const [adaptive, setAdaptive] = useState<AdaptiveState | null>(null);
+  const [isFetchingNext, setIsFetchingNext] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pauseCount, setPauseCount] = useState(0);
+  // Milliseconds each question has been on screen; refs so the last question's time is in place when submitQuiz runs
+  const clockRef = useRef<{ questionId: number | null; since: number; spent: Record<number, number> }>({ questionId: null, since: 0, spent: {} });
+  const timedOutRef = useRef<Set<number>>(new Set());
 
   // Review State
   const [currentResult, setCurrentResult] = useState<QuizResult | null>(null);
@@ -50,32 +79,119 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
   // Manual Builder Modal State
   const [isManualModalOpen, setIsManualModalOpen] = useState(false);
   const [manualQ, setManualQ] = useState<Partial<Question>>({ type: QuestionType.MULTIPLE_CHOICE, options: ['', '', '', ''] });
+  const [manualAcceptedInput, setManualAcceptedInput] = useState(''); // Comma separated synonyms for short answers
+  const [isImporting, setIsImporting] = useState(false);
 
   // Sync generated quiz to localQuiz when it arrives
   useEffect(() => {
-      if (quiz) {
+      if (resumeCheckpoint) return; // The restored attempt takes precedence over the last generated quiz
+      if (quiz?.assignmentId) {
+          startAssignment(quiz); // Runs as the teacher set it up, without the preview's editing tools
+      } else if (quiz?.config?.mode === 'ADAPTIVE') {
+          startAdaptiveQuiz(quiz); // The questions aren't fixed, so there is nothing to preview
+      } else if (quiz) {
           setLocalQuiz(quiz);
           setMode('PREVIEW'); // Move to Preview instead of Taking directly
       }
   }, [quiz]);
 
-  // Timer Effect
+  const activeQuestion = mode === 'TAKING' && localQuiz
+      ? (adaptive ? adaptive.asked[adaptive.asked.length - 1] : localQuiz.questions[currentQuestionIndex])
+      : undefined;
+  const isClockStopped = isPaused || isFetchingNext;
+
+  // Timer Effect (stands still while paused or while the next adaptive question is generated)
   useEffect(() => {
-      let interval: any;
-      if (isTimerRunning && timeLeft > 0) {
-          interval = setInterval(() => {
-              setTimeLeft(prev => {
-                  if (prev <= 1) {
-                      clearInterval(interval);
-                      submitQuiz(); // Auto submit
-                      return 0;
-                  }
-                  return prev - 1;
-              });
-          }, 1000);
+      if (!isTimerRunning || isClockStopped) return;
+      if (timeLeft <= 0) {
+          handleTimeUp();
+          return;
       }
-      return () => clearInterval(interval);
-  }, [isTimerRunning, timeLeft]);
+      const timeout = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
+      return () => clearTimeout(timeout);
+  }, [isTimerRunning, isClockStopped, timeLeft]);
+
+  const stopClock = () => {
+      const clock = clockRef.current;
+      if (clock.questionId === null) return;
+      clock.spent[clock.questionId] = (clock.spent[clock.questionId] || 0) + Date.now() - clock.since;
+      clock.questionId = null;
+  };
+
+  // Per-question time: runs while a question is on screen and the quiz isn't paused
+  useEffect(() => {
+      if (!activeQuestion || isClockStopped) return;
+      clockRef.current.questionId = activeQuestion.id;
+      clockRef.current.since = Date.now();
+      return stopClock;
+  }, [activeQuestion?.id, isClockStopped]);
+
+  // Restore an attempt saved before a reload, with the countdown picking up where it stopped
+  useEffect(() => {
+      if (!resumeCheckpoint) return;
+      const saved = resumeCheckpoint;
+      setLocalQuiz(saved.quiz);
+      setAdaptive(saved.adaptive);
+      setAllAnswers(saved.answers);
+      setCurrentQuestionIndex(saved.currentQuestionIndex);
+      setEnableTimer(saved.timer.enabled);
+      setTimerMode(saved.timer.mode);
+      setTimerDuration(saved.timer.duration);
+      setQuestionTimeLimit(saved.timer.questionTimeLimit);
+      setTimeLeft(saved.timer.timeLeft);
+      setIsTimerRunning(saved.timer.enabled);
+      setInstantFeedback(saved.instantFeedback);
+      setSimilarityThreshold(saved.similarityThreshold);
+      if (saved.scoring) setScoring(saved.scoring);
+      setPauseCount(saved.pauses);
+      setIsPaused(true); // Give the student a moment before the clock starts again
+      setShowAnswerForCurrent(false);
+      setAiAnalysis('');
+      clockRef.current = { questionId: null, since: 0, spent: { ...saved.spent } };
+      timedOutRef.current = new Set(saved.timedOut);
+      setMode('TAKING');
+      onResumeHandled?.();
+  }, [resumeCheckpoint]);
+
+  // Time spent so far, including the question currently on screen
+  const spentSoFar = () => {
+      const { questionId, since, spent } = clockRef.current;
+      return questionId === null ? { ...spent } : { ...spent, [questionId]: (spent[questionId] || 0) + Date.now() - since };
+  };
+
+  const writeCheckpoint = () => {
+      if (mode !== 'TAKING' || !localQuiz) return;
+      saveQuizCheckpoint({
+          quiz: localQuiz,
+          answers: allAnswers,
+          currentQuestionIndex,
+          adaptive,
+          timer: { enabled: enableTimer, mode: timerMode, duration: timerDuration, questionTimeLimit, timeLeft },
+          instantFeedback,
+          similarityThreshold,
+          scoring,
+          pauses: pauseCount,
+          spent: spentSoFar(),
+          timedOut: Array.from(timedOutRef.current)
+      });
+  };
+  const writeCheckpointRef = useRef(writeCheckpoint);
+  writeCheckpointRef.current = writeCheckpoint;
+
+  // Checkpoint on every answer and move (and every few seconds of countdown)
+  useEffect(() => {
+      writeCheckpointRef.current();
+  }, [mode, allAnswers, currentQuestionIndex, adaptive, isPaused, Math.floor(timeLeft / 5)]);
+
+  // ...and once more, to the second, when the tab is closed or the exam view is left
+  useEffect(() => {
+      const onPageHide = () => writeCheckpointRef.current();
+      window.addEventListener('pagehide', onPageHide);
+      return () => {
+          window.removeEventListener('pagehide', onPageHide);
+          writeCheckpointRef.current();
+      };
+  }, []);
 
   const formatTime = (sec: number) => {
       const m = Math.floor(sec / 60);
@@ -92,8 +208,12 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
         mode: setupTab === 'MANUAL' ? 'MANUAL_ONLY' : setupTab as any,
         difficulty,
         enableTimer,
+        timerMode,
         timerDuration,
-        instantFeedback
+        questionTimeLimit,
+        instantFeedback,
+        similarityThreshold,
+        scoring
     });
     // Note: setMode('PREVIEW') happens in useEffect when quiz prop updates
   };
@@ -102,81 +222,237 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
       // Initialize empty quiz for manual building
       setLocalQuiz({
           title: 'اختبار يدوي',
-          questions: []
+          questions: [],
+          lessonId,
+          lessonTitle
       });
       setMode('PREVIEW');
   };
 
+  const handleAssembleFromBank = (assembled: Quiz) => {
+      setLocalQuiz(assembled);
+      setMode('PREVIEW');
+  };
+
+  // QTI / Moodle XML / GIFT files from an LMS open in the preview, ready to edit or run
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setIsImporting(true);
+      try {
+          const { quiz: imported, skipped } = await importQuizFile(file);
+          setLocalQuiz(imported);
+          setMode('PREVIEW');
+          soundManager.play('SUCCESS');
+          addToBank(imported.questions, {}, 'IMPORTED').catch(error => console.error('Failed to save questions to the bank', error));
+          if (skipped > 0) alert(`تم استيراد ${imported.questions.length} سؤال، وتخطي ${skipped} سؤال من أنواع غير مدعومة.`);
+      } catch (err: any) {
+          alert(err.message || 'تعذر استيراد الملف');
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
   const startQuiz = () => {
       if (!localQuiz || localQuiz.questions.length === 0) {
           alert("لا يوجد أسئلة لبدء الاختبار");
           return;
       }
       soundManager.play('CLICK');
+      setAdaptive(null);
+      beginTaking();
+  };
+
+  const beginTaking = (timer: TimerSettings = { enabled: enableTimer, mode: timerMode, duration: timerDuration, questionTimeLimit }) => {
       setMode('TAKING');
       setCurrentQuestionIndex(0);
       setAllAnswers({});
       setShowAnswerForCurrent(false);
       setAiAnalysis('');
+      setIsPaused(false);
+      setPauseCount(0);
+      clockRef.current = { questionId: null, since: 0, spent: {} };
+      timedOutRef.current = new Set();
       
-      if (enableTimer) {
-          setTimeLeft(timerDuration * 60);
+      if (timer.enabled) {
+          setTimeLeft(timer.mode === 'PER_QUESTION' ? timer.questionTimeLimit : timer.duration * 60);
           setIsTimerRunning(true);
       }
   };
 
+  // The setup screen's settings travel with an assignment, so every student sits the same quiz
+  const withCurrentSettings = (q: Quiz): Quiz => ({
+      ...q,
+      config: {
+          typeCounts: {},
+          difficulty,
+          ...q.config,
+          enableTimer,
+          timerMode,
+          timerDuration,
+          questionTimeLimit,
+          instantFeedback,
+          similarityThreshold: q.config?.similarityThreshold ?? similarityThreshold,
+          scoring: q.config?.scoring ?? scoring
+      }
+  });
+
+  const startAssignment = (assigned: Quiz) => {
+      const config = assigned.config;
+      const timer: TimerSettings = {
+          enabled: !!config?.enableTimer,
+          mode: config?.timerMode || 'TOTAL',
+          duration: config?.timerDuration ?? 10,
+          questionTimeLimit: config?.questionTimeLimit ?? 60
+      };
+      setEnableTimer(timer.enabled);
+      setTimerMode(timer.mode);
+      setTimerDuration(timer.duration);
+      setQuestionTimeLimit(timer.questionTimeLimit);
+      setInstantFeedback(!!config?.instantFeedback);
+      if (config?.mode === 'ADAPTIVE') {
+          startAdaptiveQuiz(assigned, timer);
+      } else {
+          setLocalQuiz(assigned);
+          setAdaptive(null);
+          beginTaking(timer);
+      }
+  };
+
+  // In per-question mode every question starts with a full countdown
+  const resetQuestionTimer = () => {
+      if (enableTimer && timerMode === 'PER_QUESTION') setTimeLeft(questionTimeLimit);
+  };
+
+  const goToNextQuestion = () => {
+      setCurrentQuestionIndex(currentQuestionIndex + 1);
+      setShowAnswerForCurrent(false);
+      resetQuestionTimer();
+  };
+
+  // Whole-quiz countdown: submit. Per-question countdown: the question counts as unanswered-in-time and the quiz moves on
+  const handleTimeUp = () => {
+      if (timerMode !== 'PER_QUESTION' || !activeQuestion || !localQuiz) {
+          submitQuiz();
+          return;
+      }
+      timedOutRef.current.add(activeQuestion.id);
+      if (adaptive) {
+          confirmAdaptiveAnswer();
+      } else if (currentQuestionIndex < localQuiz.questions.length - 1) {
+          goToNextQuestion();
+      } else {
+          submitQuiz();
+      }
+  };
+
+  const togglePause = () => {
+      soundManager.play('CLICK');
+      if (!isPaused) setPauseCount(count => count + 1);
+      setIsPaused(!isPaused);
+  };
+
+  // Adaptive quizzes start at MEDIUM and move between levels with the ability estimate after every answer
+  const startAdaptiveQuiz = (pooled: Quiz, timer?: TimerSettings) => {
+      const estimate = estimateAbility([]);
+      const first = pickQuestion(pooled.questions, new Set(), estimate.level);
+      if (!first) {
+          alert("لا يوجد أسئلة لبدء الاختبار");
+          return;
+      }
+      setLocalQuiz(pooled);
+      setAdaptive({ pool: pooled.questions, asked: [first], responses: [], estimate });
+      beginTaking(timer);
+  };
+
+  const confirmAdaptiveAnswer = async () => {
+      if (!adaptive || !localQuiz) return;
+      const current = adaptive.asked[adaptive.asked.length - 1];
+      const threshold = localQuiz.config?.similarityThreshold ?? similarityThreshold;
+      const responses = [...adaptive.responses, {
+          difficulty: current.difficulty || DifficultyLevel.MEDIUM,
+          isCorrect: gradeQuestion(current, allAnswers[current.id], threshold)
+      }];
+      const estimate = estimateAbility(responses);
+      let state: AdaptiveState = { ...adaptive, responses, estimate };
+      soundManager.play('CLICK');
+
+      if (!isEstimateConfident(estimate)) {
+          const askedIds = new Set(state.asked.map(q => q.id));
+          let next = pickQuestion(state.pool, askedIds, estimate.level);
+          // Nothing left at the target level: generate more before settling for a neighbouring one
+          if (next?.difficulty !== estimate.level && onGenerateQuestions) {
+              setIsFetchingNext(true);
+              try {
+                  const baseId = Date.now();
+                  const extra = (await onGenerateQuestions(estimate.level)).map((q, i) => ({ ...q, id: baseId + i }));
+                  state = { ...state, pool: [...state.pool, ...extra] };
+                  next = pickQuestion(state.pool, askedIds, estimate.level);
+              } catch (e) {
+                  console.error(e);
+              } finally {
+                  setIsFetchingNext(false);
+              }
+          }
+          if (next) {
+              setAdaptive({ ...state, asked: [...state.asked, next] });
+              setCurrentQuestionIndex(state.asked.length);
+              resetQuestionTimer();
+              return;
+          }
+      }
+      setAdaptive(state);
+      submitQuiz(state);
+  };
+
   const handleAnswerChange = (qId: number, val: any) => {
       setAllAnswers(prev => ({ ...prev, [qId]: val }));
-      if (instantFeedback) setShowAnswerForCurrent(true);
+      if (instantFeedback && !adaptive) setShowAnswerForCurrent(true);
       soundManager.play('CLICK');
   };
 
-  const submitQuiz = async () => {
+  const submitQuiz = async (finalAdaptive: AdaptiveState | null = adaptive) => {
     setIsTimerRunning(false);
+    stopClock();
+    clearQuizCheckpoint();
     if (!localQuiz) return;
     
-    let correctCount = 0;
-    const resultDetails = localQuiz.questions.map(q => {
+    // An adaptive quiz is scored on the questions answered so far (the timer can end it mid-question)
+    const questions = finalAdaptive ? finalAdaptive.asked.slice(0, finalAdaptive.responses.length) : localQuiz.questions;
+    let points = 0;
+    const threshold = localQuiz.config?.similarityThreshold ?? similarityThreshold;
+    const rules = localQuiz.config?.scoring ?? scoring;
+    const spent = clockRef.current.spent;
+    const resultDetails = questions.map(q => {
       const studentAns = allAnswers[q.id];
-      let isCorrect = false;
-
-      // Grading Logic
-      if (q.type === QuestionType.ORDERING) {
-          if (Array.isArray(studentAns) && Array.isArray(q.correctAnswer)) {
-             isCorrect = JSON.stringify(studentAns) === JSON.stringify(q.correctAnswer);
-          }
-      } else if (q.type === QuestionType.MATCHING) {
-          if (q.matches && typeof studentAns === 'object') {
-              const allMatch = q.matches.every(m => studentAns[m.left] === m.right);
-              isCorrect = allMatch;
-          }
-      } else {
-           const cleanStudent = String(studentAns || '').trim().toLowerCase().replace(/[.,]/g,"");
-           const cleanCorrect = String(q.correctAnswer).trim().toLowerCase().replace(/[.,]/g,"");
-           if (q.type === QuestionType.TRUE_FALSE) {
-               isCorrect = cleanStudent === cleanCorrect || (cleanStudent === 'صواب' && cleanCorrect === 'true');
-           } else {
-               isCorrect = cleanStudent === cleanCorrect;
-           }
-      }
+      // Written answers are normalized (Arabic spelling variants, synonyms, small typos) in utils/grading.ts;
+      // matching and ordering can earn partial credit, wrong choices can cost points
+      const { credit, isCorrect } = scoreQuestion(q, studentAns, threshold, rules);
 
-      if (isCorrect) correctCount++;
+      points += credit;
       return {
         questionText: q.text,
         userAnswer: JSON.stringify(studentAns),
         correctAnswer: typeof q.correctAnswer === 'object' ? JSON.stringify(q.correctAnswer) : String(q.correctAnswer),
         isCorrect,
-        explanation: q.explanation
+        credit,
+        explanation: q.explanation,
+        timeSpent: spent[q.id] !== undefined ? Math.round(spent[q.id] / 100) / 10 : undefined,
+        timedOut: timedOutRef.current.has(q.id) || undefined
       };
     });
 
     const result: QuizResult = {
       id: Date.now().toString(),
       date: new Date().toISOString(),
-      score: correctCount,
-      total: localQuiz.questions.length,
+      score: Math.max(0, Math.round(points * 100) / 100), // Negative marking never takes the quiz below zero
+      total: questions.length,
       details: resultDetails,
-      quizSnapshot: localQuiz
+      quizSnapshot: finalAdaptive ? { ...localQuiz, questions } : localQuiz,
+      ability: finalAdaptive?.estimate,
+      duration: Math.round(Object.values(spent).reduce((sum, ms) => sum + ms, 0) / 1000),
+      pauses: pauseCount
     };
 
     setCurrentResult(result);
@@ -186,7 +462,7 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
     // Auto Analyze
     setIsAnalyzing(true);
     try {
-        const analysis = await Gemini.analyzeQuizPerformance(result, studentName || '', { model: 'gemini-2.5-flash' });
+        const analysis = await Gemini.analyzeQuizPerformance(result, studentName || '', await getAnalysisConfig());
         setAiAnalysis(analysis);
     } catch(e) { setAiAnalysis("تعذر إجراء التحليل الذكي حالياً."); }
     setIsAnalyzing(false);
@@ -196,7 +472,8 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
   const addManualQuestion = () => {
       if (!manualQ.text || !manualQ.correctAnswer) return;
       const newId = (localQuiz?.questions.length || 0) + Date.now();
-      const newQuestion = { ...manualQ, id: newId } as Question;
+      const acceptedAnswers = manualQ.type !== QuestionType.SHORT_ANSWER ? [] : manualAcceptedInput.split(/[,،]/).map(a => a.trim()).filter(Boolean);
+      const newQuestion = { ...manualQ, id: newId, acceptedAnswers: acceptedAnswers.length ? acceptedAnswers : undefined } as Question;
       
       if (localQuiz) {
           setLocalQuiz({ ...localQuiz, questions: [...localQuiz.questions, newQuestion] });
@@ -205,7 +482,27 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
       }
       setIsManualModalOpen(false);
       setManualQ({ type: QuestionType.MULTIPLE_CHOICE, options: ['', '', '', ''] });
+      setManualAcceptedInput('');
       soundManager.play('SUCCESS');
+
+      // Manual questions outlive the quiz in the question bank
+      const quizLesson = localQuiz?.lessonId ? localQuiz : { lessonId, lessonTitle };
+      addToBank([newQuestion], {
+          lessonId: quizLesson.lessonId,
+          lessonTitle: quizLesson.lessonTitle,
+          subject: quizLesson.lessonId === lessonId ? lessonSubject : undefined,
+          difficulty: localQuiz?.config?.difficulty || difficulty
+      }, 'MANUAL')
+          .then(({ duplicates }) => { if (duplicates > 0) alert('تمت إضافة السؤال للاختبار، لكن يوجد سؤال مشابه له في بنك الأسئلة فلم يُحفظ مرة أخرى.'); })
+          .catch(error => console.error('Failed to save question to the bank', error));
+  };
+
+  const updateQuestionScoring = (id: number, patch: ScoringRules) => {
+      if (!localQuiz) return;
+      setLocalQuiz({
+          ...localQuiz,
+          questions: localQuiz.questions.map(q => q.id === id ? { ...q, scoring: { ...q.scoring, ...patch } } : q)
+      });
   };
 
   const deleteQuestion = (id: number) => {
@@ -293,6 +590,7 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                    </h2>
                    
                    {/* Difficulty */}
+                   {setupTab !== 'ADAPTIVE' && setupTab !== 'BANK' && (
                    <div className="mb-8">
                        <label className="block font-bold mb-3 text-lg text-gray-700 dark:text-gray-300">مستوى الصعوبة</label>
                        <div className="flex gap-4">
@@ -306,11 +604,12 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                                     : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 hover:bg-primary-50/50 dark:hover:bg-gray-700/70 hover:border-primary-300'
                                 }`}
                                >
-                                   {lvl === DifficultyLevel.EASY ? 'سهل' : lvl === DifficultyLevel.MEDIUM ? 'متوسط' : 'صعب'}
+                                   {DIFFICULTY_LABELS[lvl]}
                                </button>
                            ))}
                        </div>
                    </div>
+                   )}
 
                    {/* Options */}
                    <div className="flex flex-col md:flex-row gap-6 mb-8">
@@ -323,16 +622,35 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                                </div>
                            </label>
                            {enableTimer && (
-                               <div className="flex items-center gap-3 mt-3 mr-10 animate-in fade-in">
-                                   <input 
-                                     type="number" 
-                                     min="1" 
-                                     max="180"
-                                     value={timerDuration}
-                                     onChange={(e) => setTimerDuration(parseInt(e.target.value))}
-                                     className="w-24 p-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-center font-bold text-lg focus:border-primary-500 dark:focus:border-primary-400 outline-none dark:bg-gray-800 dark:text-white transition-colors"
-                                   />
-                                   <span className="text-gray-500 dark:text-gray-400 font-bold">دقيقة</span>
+                               <div className="mt-3 mr-10 space-y-3 animate-in fade-in">
+                                   <div className="flex gap-2">
+                                       {([['TOTAL', 'للاختبار كاملاً'], ['PER_QUESTION', 'لكل سؤال']] as const).map(([value, label]) => (
+                                           <button key={value} onClick={() => setTimerMode(value)} className={`px-3 py-1.5 rounded-lg text-sm font-bold transition-colors ${timerMode === value ? 'bg-primary-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700'}`}>{label}</button>
+                                       ))}
+                                   </div>
+                                   <div className="flex items-center gap-3">
+                                       {timerMode === 'TOTAL' ? (
+                                           <input 
+                                             type="number" 
+                                             min="1" 
+                                             max="180"
+                                             value={timerDuration}
+                                             onChange={(e) => setTimerDuration(parseInt(e.target.value))}
+                                             className="w-24 p-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-center font-bold text-lg focus:border-primary-500 dark:focus:border-primary-400 outline-none dark:bg-gray-800 dark:text-white transition-colors"
+                                           />
+                                       ) : (
+                                           <input 
+                                             type="number" 
+                                             min="5" 
+                                             max="600"
+                                             step="5"
+                                             value={questionTimeLimit}
+                                             onChange={(e) => setQuestionTimeLimit(parseInt(e.target.value))}
+                                             className="w-24 p-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-center font-bold text-lg focus:border-primary-500 dark:focus:border-primary-400 outline-none dark:bg-gray-800 dark:text-white transition-colors"
+                                           />
+                                       )}
+                                       <span className="text-gray-500 dark:text-gray-400 font-bold">{timerMode === 'TOTAL' ? 'دقيقة' : 'ثانية لكل سؤال'}</span>
+                                   </div>
                                </div>
                            )}
                        </div>
@@ -346,11 +664,53 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                        </label>
                    </div>
 
+                   {/* Written answer tolerance */}
+                   <div className="p-5 border-2 border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 rounded-2xl mb-8">
+                       <div className="flex justify-between items-center mb-2">
+                           <span className="font-bold text-gray-800 dark:text-gray-200">التسامح مع الأخطاء الإملائية في الإجابات المكتوبة</span>
+                           <span className="font-mono text-sm font-bold text-primary-600 dark:text-primary-400">{Math.round(similarityThreshold * 100)}%</span>
+                       </div>
+                       <input 
+                         type="range" min={0.6} max={1} step={0.05} 
+                         value={similarityThreshold} 
+                         onChange={(e) => setSimilarityThreshold(Number(e.target.value))} 
+                         className="w-full accent-primary-600" 
+                       />
+                       <span className="text-xs text-gray-500 dark:text-gray-400">نسبة التطابق المطلوبة لقبول الإجابة القصيرة (100% = تطابق تام بعد تجاهل التشكيل والهمزات و"ال")</span>
+                   </div>
+
+                   {/* Partial credit and negative marking (questions can override these in the preview) */}
+                   <div className="p-5 border-2 border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 rounded-2xl mb-8">
+                       <span className="block font-bold text-gray-800 dark:text-gray-200 mb-3">طريقة احتساب الدرجات</span>
+                       <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                           <label className="flex flex-col gap-1 text-xs font-bold text-gray-500 dark:text-gray-400">
+                               أسئلة التوصيل
+                               <select value={scoring.matching} onChange={(e) => setScoring({ ...scoring, matching: e.target.value as MatchingScoring })} className="p-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                   {Object.entries(MATCHING_SCORING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                               </select>
+                           </label>
+                           <label className="flex flex-col gap-1 text-xs font-bold text-gray-500 dark:text-gray-400">
+                               أسئلة الترتيب
+                               <select value={scoring.ordering} onChange={(e) => setScoring({ ...scoring, ordering: e.target.value as OrderingScoring })} className="p-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                   {Object.entries(ORDERING_SCORING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                               </select>
+                           </label>
+                           <label className="flex flex-col gap-1 text-xs font-bold text-gray-500 dark:text-gray-400">
+                               خصم الإجابة الخاطئة (اختيار من متعدد)
+                               <select value={scoring.negativeMarking} onChange={(e) => setScoring({ ...scoring, negativeMarking: Number(e.target.value) })} className="p-2 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                   {NEGATIVE_MARKING_OPTIONS.map(value => <option key={value} value={value}>{value === 0 ? 'بدون خصم' : `${formatScore(value)} من الدرجة`}</option>)}
+                               </select>
+                           </label>
+                       </div>
+                   </div>
+
                    {/* Type Selection */}
                    <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-2xl mb-8 border border-gray-200 dark:border-gray-700 shadow-inner">
                        <div className="flex gap-2 mb-6 overflow-x-auto pb-2 border-b border-gray-200 dark:border-gray-700/50">
                            <button onClick={() => setSetupTab('COMPREHENSIVE')} className={`px-6 py-2 rounded-full font-bold whitespace-nowrap transition-all duration-200 text-sm ${setupTab === 'COMPREHENSIVE' ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>شامل (تلقائي)</button>
                            <button onClick={() => setSetupTab('CUSTOM')} className={`px-6 py-2 rounded-full font-bold whitespace-nowrap transition-all duration-200 text-sm ${setupTab === 'CUSTOM' ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>مخصص (تحديد العدد)</button>
+                           <button onClick={() => setSetupTab('ADAPTIVE')} className={`px-6 py-2 rounded-full font-bold whitespace-nowrap transition-all duration-200 text-sm ${setupTab === 'ADAPTIVE' ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>تكيفي</button>
+                           <button onClick={() => setSetupTab('BANK')} className={`px-6 py-2 rounded-full font-bold whitespace-nowrap transition-all duration-200 text-sm ${setupTab === 'BANK' ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>من بنك الأسئلة</button>
                            <button onClick={() => setSetupTab('MANUAL')} className={`px-6 py-2 rounded-full font-bold whitespace-nowrap transition-all duration-200 text-sm ${setupTab === 'MANUAL' ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}>يدوي بالكامل</button>
                        </div>
 
@@ -369,23 +729,40 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                            </div>
                        )}
 
+                       {setupTab === 'ADAPTIVE' && (
+                           <div className="text-center py-8 animate-in fade-in">
+                               <Gauge className="w-12 h-12 text-primary-400 mx-auto mb-4" />
+                               <p className="text-gray-600 dark:text-gray-300 font-medium max-w-lg mx-auto leading-relaxed">يبدأ الاختبار بسؤال متوسط الصعوبة، ثم يختار كل سؤال تالٍ أسهل أو أصعب حسب إجاباتك، وينتهي عندما يتحدد مستواك بدقة كافية ({ADAPTIVE_LIMITS.minQuestions} إلى {ADAPTIVE_LIMITS.maxQuestions} سؤالاً).</p>
+                           </div>
+                       )}
+
+                       {setupTab === 'BANK' && <QuestionBankPanel defaultLessonId={lessonId} onAssemble={handleAssembleFromBank} />}
+
                         {setupTab === 'MANUAL' && (
                            <div className="text-center py-10">
                                <Edit2 className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
                                <p className="text-gray-500 dark:text-gray-400 mb-6 font-medium">صمم اختبارك بنفسك! أضف الأسئلة وحدد الإجابات يدوياً.</p>
-                               <button onClick={handleStartManual} className="px-8 py-3 bg-white dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 rounded-xl hover:border-primary-500 hover:text-primary-600 dark:hover:border-primary-400 dark:hover:text-primary-400 font-bold transition-all shadow-md">ابدأ نموذج فارغ</button>
+                               <div className="flex flex-wrap justify-center gap-3">
+                                   <button onClick={handleStartManual} className="px-8 py-3 bg-white dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 rounded-xl hover:border-primary-500 hover:text-primary-600 dark:hover:border-primary-400 dark:hover:text-primary-400 font-bold transition-all shadow-md">ابدأ نموذج فارغ</button>
+                                   <label className={`px-8 py-3 bg-white dark:bg-gray-700 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl hover:border-primary-500 hover:text-primary-600 dark:hover:border-primary-400 dark:hover:text-primary-400 font-bold transition-all shadow-md flex items-center gap-2 cursor-pointer ${isImporting ? 'opacity-60 pointer-events-none' : ''}`}>
+                                       {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                                       استيراد من ملف
+                                       <input type="file" accept={QUIZ_IMPORT_ACCEPT} onChange={handleImportFile} className="hidden" />
+                                   </label>
+                               </div>
+                               <p className="text-xs text-gray-400 dark:text-gray-500 mt-3">يدعم QTI 2.1 و Moodle XML و GIFT</p>
                            </div>
                        )}
                    </div>
 
-                   {setupTab !== 'MANUAL' && (
+                   {setupTab !== 'MANUAL' && setupTab !== 'BANK' && (
                         <button 
                             onClick={handleGenerate}
                             disabled={isGenerating}
                             className="w-full py-5 bg-gradient-to-r from-primary-600 to-primary-500 hover:from-primary-700 hover:to-primary-600 text-white rounded-2xl font-black text-xl shadow-2xl shadow-primary-500/40 dark:shadow-primary-700/30 flex items-center justify-center gap-3 transform active:scale-[0.98] transition-all duration-200"
                         >
                             {isGenerating ? <Loader2 className="animate-spin w-6 h-6" /> : <Sparkles className="w-6 h-6" />} 
-                            {setupTab === 'CUSTOM' ? 'توليد الأسئلة والانتقال للمعاينة' : 'توليد اختبار ذكي شامل'}
+                            {setupTab === 'CUSTOM' ? 'توليد الأسئلة والانتقال للمعاينة' : setupTab === 'ADAPTIVE' ? 'توليد اختبار تكيفي' : 'توليد اختبار ذكي شامل'}
                         </button>
                    )}
                </div>
@@ -413,6 +790,16 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                    </div>
                    <div className="flex gap-3 w-full md:w-auto">
                        <ExportMenu filename={`Quiz_${localQuiz.title}`} type="QUIZ" quizData={localQuiz} />
+                       {onCreateAssignment && (
+                           <button
+                             onClick={() => onCreateAssignment(withCurrentSettings(localQuiz))}
+                             disabled={localQuiz.questions.length === 0}
+                             className="px-4 py-3 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 hover:border-primary-500 hover:text-primary-600 dark:hover:text-primary-400 text-gray-700 dark:text-gray-200 rounded-xl font-bold flex items-center gap-2 disabled:opacity-50 transition-colors"
+                             title="تصدير الاختبار كواجب موقّع للطلاب"
+                           >
+                               <GraduationCap className="w-5 h-5" /> إرسال كواجب
+                           </button>
+                       )}
                        <button 
                          onClick={startQuiz}
                          className="flex-1 md:flex-none px-8 py-3 bg-green-600 hover:bg-green-700 text-white rounded-xl font-bold shadow-lg shadow-green-600/30 flex items-center justify-center gap-2 transition-all transform active:scale-98"
@@ -441,6 +828,29 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                                    </div>
                                    
                                    <div className="text-sm text-gray-500 dark:text-gray-400 pl-8">
+                                       {(q.type === QuestionType.MATCHING || q.type === QuestionType.ORDERING || q.type === QuestionType.MULTIPLE_CHOICE) && (
+                                           <label className="flex items-center gap-2 mb-2 text-xs font-bold">
+                                               التصحيح:
+                                               {q.type === QuestionType.MATCHING && (
+                                                   <select value={q.scoring?.matching || ''} onChange={(e) => updateQuestionScoring(q.id, { matching: (e.target.value || undefined) as MatchingScoring | undefined })} className="px-2 py-1 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                                       <option value="">حسب إعداد الاختبار</option>
+                                                       {Object.entries(MATCHING_SCORING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                                   </select>
+                                               )}
+                                               {q.type === QuestionType.ORDERING && (
+                                                   <select value={q.scoring?.ordering || ''} onChange={(e) => updateQuestionScoring(q.id, { ordering: (e.target.value || undefined) as OrderingScoring | undefined })} className="px-2 py-1 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                                       <option value="">حسب إعداد الاختبار</option>
+                                                       {Object.entries(ORDERING_SCORING_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                                   </select>
+                                               )}
+                                               {q.type === QuestionType.MULTIPLE_CHOICE && (
+                                                   <select value={q.scoring?.negativeMarking ?? ''} onChange={(e) => updateQuestionScoring(q.id, { negativeMarking: e.target.value === '' ? undefined : Number(e.target.value) })} className="px-2 py-1 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-primary-500 transition-colors">
+                                                       <option value="">حسب إعداد الاختبار</option>
+                                                       {NEGATIVE_MARKING_OPTIONS.map(value => <option key={value} value={value}>{value === 0 ? 'بدون خصم' : `خصم ${formatScore(value)}`}</option>)}
+                                                   </select>
+                                               )}
+                                           </label>
+                                       )}
                                        {q.type === QuestionType.MULTIPLE_CHOICE && (
                                            <div className="flex gap-2 flex-wrap mt-2">
                                                {q.options?.map((opt, idx) => (
@@ -524,6 +934,24 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                                         />
                                     </div>
                                 )}
+                                {manualQ.type === QuestionType.SHORT_ANSWER && (
+                                    <div className="space-y-3 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-xl border border-gray-200 dark:border-gray-700">
+                                        <label className="block text-sm font-bold text-green-600 dark:text-green-400">الإجابة الصحيحة</label>
+                                        <input 
+                                            placeholder="الإجابة الصحيحة..."
+                                            value={manualQ.correctAnswer as string || ''}
+                                            onChange={e => setManualQ({...manualQ, correctAnswer: e.target.value})}
+                                            className="w-full p-3 border-2 border-green-200 dark:border-green-600 rounded-lg focus:border-green-500 dark:focus:border-green-400 outline-none dark:bg-gray-800 dark:text-gray-100 transition-colors"
+                                        />
+                                        <label className="block text-sm font-bold text-gray-600 dark:text-gray-300">إجابات أخرى مقبولة (مفصولة بفاصلة)</label>
+                                        <input 
+                                            placeholder="مرادف 1، مرادف 2..."
+                                            value={manualAcceptedInput}
+                                            onChange={e => setManualAcceptedInput(e.target.value)}
+                                            className="w-full p-3 border rounded-lg dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100 focus:border-primary-400 outline-none transition-colors"
+                                        />
+                                    </div>
+                                )}
                                 {manualQ.type === QuestionType.TRUE_FALSE && (
                                     <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-xl border border-gray-200 dark:border-gray-700">
                                         <label className="block text-sm font-bold mb-2 text-gray-700 dark:text-gray-300">الإجابة الصحيحة</label>
@@ -562,8 +990,10 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
   }
 
   if (mode === 'TAKING' && localQuiz) {
-      const q = localQuiz.questions[currentQuestionIndex];
-      const progress = ((currentQuestionIndex + 1) / localQuiz.questions.length) * 100;
+      const q = adaptive ? adaptive.asked[adaptive.asked.length - 1] : localQuiz.questions[currentQuestionIndex];
+      const progress = adaptive
+          ? (adaptive.responses.length / ADAPTIVE_LIMITS.maxQuestions) * 100
+          : ((currentQuestionIndex + 1) / localQuiz.questions.length) * 100;
 
       return (
           <div className="max-w-3xl mx-auto pb-20">
@@ -571,19 +1001,33 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
               <div className="flex justify-between items-center mb-6">
                   <div className="flex items-center gap-3">
                       <button 
-                        onClick={() => {if(confirm('هل أنت متأكد من الخروج؟ سيتم فقدان التقدم الحالي.')) setMode('SETUP')}} 
+                        onClick={() => {if(confirm('هل أنت متأكد من الخروج؟ سيتم فقدان التقدم الحالي.')) { setIsTimerRunning(false); clearQuizCheckpoint(); setMode('SETUP'); }}} 
                         className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-red-100 hover:text-red-500 dark:hover:bg-red-900/50 dark:text-gray-300 transition-colors transform active:scale-95"
                         title="إلغاء وخروج"
                       >
                           <X className="w-5 h-5" />
                       </button>
+                      <button 
+                        onClick={togglePause} 
+                        className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-primary-100 hover:text-primary-600 dark:hover:bg-primary-900/50 dark:text-gray-300 transition-colors transform active:scale-95"
+                        title={isPaused ? 'استئناف' : 'إيقاف مؤقت'}
+                      >
+                          {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                      </button>
                       {enableTimer && (
-                          <div className={`flex items-center gap-2 font-mono text-xl font-bold px-4 py-2 rounded-xl shadow-md border transition-all duration-500 ${timeLeft < 60 ? 'bg-red-50 dark:bg-red-950/50 border-red-200 text-red-600 dark:text-red-400 animate-pulse' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200'}`}>
+                          <div className={`flex items-center gap-2 font-mono text-xl font-bold px-4 py-2 rounded-xl shadow-md border transition-all duration-500 ${timeLeft < (timerMode === 'PER_QUESTION' ? 10 : 60) && !isPaused ? 'bg-red-50 dark:bg-red-950/50 border-red-200 text-red-600 dark:text-red-400 animate-pulse' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200'}`}>
                               <Timer className="w-5 h-5" /> {formatTime(timeLeft)}
                           </div>
                       )}
                   </div>
-                  <div className="text-sm font-bold text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-lg">سؤال {currentQuestionIndex + 1} من {localQuiz.questions.length}</div>
+                  {adaptive ? (
+                      <div className="flex items-center gap-2">
+                          <span className="text-xs font-bold text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/50 px-3 py-1 rounded-lg">{DIFFICULTY_LABELS[q.difficulty || DifficultyLevel.MEDIUM]}</span>
+                          <span className="text-sm font-bold text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-lg">سؤال {adaptive.asked.length}</span>
+                      </div>
+                  ) : (
+                      <div className="text-sm font-bold text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded-lg">سؤال {currentQuestionIndex + 1} من {localQuiz.questions.length}</div>
+                  )}
               </div>
 
               {/* Progress Bar */}
@@ -593,6 +1037,16 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
 
               {/* Question Card */}
               <div className="bg-white dark:bg-gray-800 p-8 rounded-[2rem] shadow-2xl border-t-4 border-primary-500/50 dark:border-primary-400/50 dark:shadow-primary-900/20 min-h-[400px] flex flex-col relative overflow-hidden transition-all duration-300">
+                  {/* The question is hidden while paused so the pause can't be used as extra thinking time */}
+                  {isPaused && (
+                      <div className="absolute inset-0 z-20 bg-white/95 dark:bg-gray-800/95 backdrop-blur-md flex flex-col items-center justify-center gap-4 animate-in fade-in">
+                          <Pause className="w-12 h-12 text-primary-500" />
+                          <p className="text-xl font-black text-gray-800 dark:text-gray-100">الاختبار متوقف مؤقتاً</p>
+                          <button onClick={togglePause} className="px-8 py-3 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-primary-500/30 transition-colors">
+                              <Play className="w-5 h-5" /> استئناف
+                          </button>
+                      </div>
+                  )}
                   <span className="absolute top-6 left-6 text-xs font-bold bg-primary-50 dark:bg-primary-900 text-primary-600 dark:text-primary-300 px-3 py-1.5 rounded-full border border-primary-100 dark:border-primary-800/50 tracking-wide">
                       {q.type === QuestionType.MULTIPLE_CHOICE ? 'اختيار من متعدد' : q.type}
                   </span>
@@ -638,7 +1092,7 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                   </div>
 
                   {/* Instant Feedback */}
-                  {instantFeedback && showAnswerForCurrent && (
+                  {instantFeedback && showAnswerForCurrent && !adaptive && (
                       <div className="mt-8 p-5 bg-blue-50 dark:bg-blue-950/40 rounded-2xl border border-blue-200 dark:border-blue-900/50 animate-in fade-in slide-in-from-bottom-2">
                           <p className="font-bold text-blue-800 dark:text-blue-300 mb-2 text-lg flex items-center gap-2">💡 الإجابة الصحيحة:</p>
                           <p className="text-blue-700 dark:text-blue-200 font-medium text-lg">{typeof q.correctAnswer === 'object' ? 'انظر الترتيب/التوصيل الصحيح' : String(q.correctAnswer)}</p>
@@ -648,25 +1102,40 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
               </div>
 
               {/* Navigation */}
+              {adaptive ? (
+              <div className="flex justify-end mt-8 items-center">
+                  <button 
+                    onClick={confirmAdaptiveAnswer} 
+                    disabled={isFetchingNext || isPaused}
+                    className="px-10 py-4 rounded-2xl bg-primary-600 text-white font-bold text-lg hover:bg-primary-700 shadow-xl shadow-primary-500/30 flex items-center gap-3 transform active:scale-95 transition-all duration-200 disabled:opacity-60"
+                  >
+                      {isFetchingNext ? <><Loader2 className="w-5 h-5 animate-spin" /> جاري تحضير السؤال التالي...</> : <>تأكيد الإجابة <ArrowLeft className="w-5 h-5" /></>}
+                  </button>
+              </div>
+              ) : (
               <div className="flex justify-between mt-8 items-center">
-                  <button onClick={() => setCurrentQuestionIndex(Math.max(0, currentQuestionIndex - 1))} disabled={currentQuestionIndex === 0} className="px-6 py-3 rounded-xl text-gray-500 dark:text-gray-400 font-bold hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors transform active:scale-95">السابق</button>
+                  {/* Going back would restart a per-question countdown */}
+                  <button onClick={() => setCurrentQuestionIndex(Math.max(0, currentQuestionIndex - 1))} disabled={currentQuestionIndex === 0 || (enableTimer && timerMode === 'PER_QUESTION') || isPaused} className="px-6 py-3 rounded-xl text-gray-500 dark:text-gray-400 font-bold hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors transform active:scale-95">السابق</button>
                   
                   {currentQuestionIndex < localQuiz.questions.length - 1 ? (
                       <button 
-                        onClick={() => {setCurrentQuestionIndex(currentQuestionIndex + 1); setShowAnswerForCurrent(false); soundManager.play('CLICK');}} 
+                        onClick={() => {goToNextQuestion(); soundManager.play('CLICK');}} 
+                        disabled={isPaused}
                         className="px-10 py-4 rounded-2xl bg-primary-600 text-white font-bold text-lg hover:bg-primary-700 shadow-xl shadow-primary-500/30 flex items-center gap-3 transform active:scale-95 transition-all duration-200"
                       >
                           السؤال التالي <ArrowLeft className="w-5 h-5" />
                       </button>
                   ) : (
                       <button 
-                        onClick={submitQuiz} 
+                        onClick={() => submitQuiz()} 
+                        disabled={isPaused}
                         className="px-10 py-4 rounded-2xl bg-green-600 text-white font-bold text-lg hover:bg-green-700 shadow-xl shadow-green-500/30 flex items-center gap-2 transform active:scale-95 transition-all duration-200"
                       >
                           <Check className="w-5 h-5" /> تسليم الاختبار
                       </button>
                   )}
               </div>
+              )}
           </div>
       );
   }
@@ -688,12 +1157,30 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
                    <div className="relative z-10">
                        <div className="w-40 h-40 mx-auto bg-gray-50 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4 shadow-inner border-4 border-white dark:border-gray-800">
                             <div className="text-7xl font-black bg-gradient-to-br from-primary-600 to-purple-600 text-transparent bg-clip-text">
-                                {Math.round((currentResult.score / currentResult.total) * 100)}%
+                                {currentResult.total ? Math.round((currentResult.score / currentResult.total) * 100) : 0}%
                             </div>
                        </div>
                        
                        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">{studentName ? `أداء رائع يا ${studentName}!` : 'نتيجة الاختبار'}</h3>
-                       <p className="text-gray-500 dark:text-gray-400 text-lg font-medium mb-6">أجبت بشكل صحيح على {currentResult.score} من أصل {currentResult.total} سؤال</p>
+                       <p className="text-gray-500 dark:text-gray-400 text-lg font-medium mb-6">حصلت على {formatScore(currentResult.score)} من أصل {currentResult.total} درجة</p>
+
+                       {currentResult.duration !== undefined && (
+                           <div className="flex flex-wrap items-center justify-center gap-3 mb-6 text-sm font-bold text-gray-600 dark:text-gray-300">
+                               <span className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg"><Clock className="w-4 h-4" /> الوقت: {formatTime(currentResult.duration)}</span>
+                               {currentResult.total > 0 && <span className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg">متوسط السؤال: {Math.round(currentResult.duration / currentResult.total)} ث</span>}
+                               {!!currentResult.pauses && <span className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg"><Pause className="w-4 h-4" /> توقف {currentResult.pauses} مرة</span>}
+                           </div>
+                       )}
+
+                       {currentResult.ability && (
+                           <div className="flex items-center justify-center gap-4 mb-6 p-4 bg-primary-50 dark:bg-primary-900/30 rounded-2xl border border-primary-200 dark:border-primary-800/50">
+                               <Gauge className="w-8 h-8 text-primary-600 dark:text-primary-400" />
+                               <div className="text-right">
+                                   <span className="block font-black text-lg text-primary-800 dark:text-primary-200">مستواك المقدر: {ABILITY_LABELS[currentResult.ability.level]}</span>
+                                   <span className="text-sm text-gray-600 dark:text-gray-400 font-mono" dir="ltr">θ = {currentResult.ability.theta.toFixed(2)} ± {currentResult.ability.standardError.toFixed(2)}</span>
+                               </div>
+                           </div>
+                       )}
                        
                        {/* AI Analysis (Changed indigo to a theme-consistent blue) */}
                        <div className="bg-blue-50 dark:bg-blue-950/40 p-6 rounded-2xl border border-blue-200 dark:border-blue-900/50 text-right shadow-lg">
@@ -710,40 +1197,59 @@ const QuizSystem: React.FC<QuizSystemProps> = ({ onGenerateQuiz, isGenerating, q
               </div>
               
               <div className="flex justify-end gap-3 mb-8">
-                   <ExportMenu filename={`Report_${localQuiz?.title}`} type="REPORT" content={aiAnalysis} quizData={localQuiz || undefined} />
+                   {onExportAssignmentResult && currentResult.quizSnapshot?.assignmentId && (
+                       <button onClick={() => onExportAssignmentResult(currentResult)} className="px-5 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 shadow-lg shadow-primary-500/30 transition-colors">
+                           <Download className="w-4 h-4" /> تصدير النتيجة للمعلم
+                       </button>
+                   )}
+                   <ExportMenu filename={`Report_${localQuiz?.title}`} type="REPORT" content={aiAnalysis} quizData={currentResult.quizSnapshot || localQuiz || undefined} studentName={studentName} />
               </div>
 
               {/* Detailed Review */}
               <div className="space-y-6">
-                  {currentResult.details.map((detail, idx) => (
-                      <div key={idx} className={`p-6 rounded-2xl border-2 shadow-md transition-all duration-300 ${detail.isCorrect ? 'border-green-300 bg-green-50 dark:bg-green-950/40' : 'border-red-300 bg-red-50 dark:bg-red-950/40'}`}>
-                          <div className="flex items-start gap-4">
-                              <span className={`w-10 h-10 rounded-xl flex items-center justify-center text-white font-black text-lg flex-shrink-0 shadow-lg ${detail.isCorrect ? 'bg-green-600' : 'bg-red-600'}`}>
-                                  {detail.isCorrect ? <Check className="w-6 h-6" /> : <X className="w-6 h-6" />}
-                              </span>
-                              <div className="flex-1">
-                                  <h3 className="font-bold text-lg mb-3 text-gray-900 dark:text-white">{detail.questionText}</h3>
-                                  
-                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                                      <div className={`p-3 rounded-xl border-2 ${detail.isCorrect ? 'bg-green-100 dark:bg-green-900/50 border-green-400 text-green-800 dark:text-green-300' : 'bg-red-100 dark:bg-red-900/50 border-red-400 text-red-800 dark:text-red-300'}`}>
-                                          <span className="block text-xs font-bold opacity-70 mb-1">إجابتك:</span>
-                                          <span className="font-bold break-all">{detail.userAnswer}</span>
-                                      </div>
-                                      {!detail.isCorrect && (
-                                          <div className="p-3 rounded-xl border-2 bg-green-100 dark:bg-green-900/50 border-green-400 text-green-800 dark:text-green-300">
-                                              <span className="block text-xs font-bold opacity-70 mb-1">الإجابة الصحيحة:</span>
-                                              <span className="font-bold break-all">{detail.correctAnswer}</span>
+                  {currentResult.details.map((detail, idx) => {
+                      const isPartial = !detail.isCorrect && (detail.credit || 0) > 0;
+                      return (
+                          <div key={idx} className={`p-6 rounded-2xl border-2 shadow-md transition-all duration-300 ${detail.isCorrect ? 'border-green-300 bg-green-50 dark:bg-green-950/40' : isPartial ? 'border-amber-300 bg-amber-50 dark:bg-amber-950/40' : 'border-red-300 bg-red-50 dark:bg-red-950/40'}`}>
+                              <div className="flex items-start gap-4">
+                                  <span className={`w-10 h-10 rounded-xl flex items-center justify-center text-white font-black text-lg flex-shrink-0 shadow-lg ${detail.isCorrect ? 'bg-green-600' : isPartial ? 'bg-amber-500' : 'bg-red-600'}`}>
+                                      {detail.isCorrect ? <Check className="w-6 h-6" /> : <X className="w-6 h-6" />}
+                                  </span>
+                                  <div className="flex-1">
+                                      <h3 className="font-bold text-lg mb-3 text-gray-900 dark:text-white">{detail.questionText}</h3>
+                                      {(detail.timeSpent !== undefined || detail.timedOut || (!detail.isCorrect && !!detail.credit)) && (
+                                          <div className="flex gap-2 mb-3 text-xs font-bold">
+                                              {!detail.isCorrect && !!detail.credit && (
+                                                  <span className={`px-2 py-1 rounded-lg ${isPartial ? 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' : 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'}`}>
+                                                      {isPartial ? `درجة جزئية: ${formatScore(detail.credit)}` : `خصم ${formatScore(-detail.credit)}`}
+                                                  </span>
+                                              )}
+                                              {detail.timeSpent !== undefined && <span className="flex items-center gap-1 px-2 py-1 bg-white/70 dark:bg-gray-800/70 rounded-lg text-gray-600 dark:text-gray-300"><Clock className="w-3.5 h-3.5" /> {detail.timeSpent} ث</span>}
+                                              {detail.timedOut && <span className="px-2 py-1 bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 rounded-lg">انتهى وقت السؤال</span>}
                                           </div>
                                       )}
-                                  </div>
+                                  
+                                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                                          <div className={`p-3 rounded-xl border-2 ${detail.isCorrect ? 'bg-green-100 dark:bg-green-900/50 border-green-400 text-green-800 dark:text-green-300' : 'bg-red-100 dark:bg-red-900/50 border-red-400 text-red-800 dark:text-red-300'}`}>
+                                              <span className="block text-xs font-bold opacity-70 mb-1">إجابتك:</span>
+                                              <span className="font-bold break-all">{detail.userAnswer}</span>
+                                          </div>
+                                          {!detail.isCorrect && (
+                                              <div className="p-3 rounded-xl border-2 bg-green-100 dark:bg-green-900/50 border-green-400 text-green-800 dark:text-green-300">
+                                                  <span className="block text-xs font-bold opacity-70 mb-1">الإجابة الصحيحة:</span>
+                                                  <span className="font-bold break-all">{detail.correctAnswer}</span>
+                                              </div>
+                                          )}
+                                      </div>
 
-                                  <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 text-sm leading-relaxed shadow-inner">
-                                      <strong className="text-primary-600 dark:text-primary-400 block mb-1">الشرح:</strong> {detail.explanation}
+                                      <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 text-sm leading-relaxed shadow-inner">
+                                          <strong className="text-primary-600 dark:text-primary-400 block mb-1">الشرح:</strong> {detail.explanation}
+                                      </div>
                                   </div>
                               </div>
                           </div>
-                      </div>
-                  ))}
+                      );
+                  })}
               </div>
 
               <div className="fixed bottom-8 left-0 right-0 flex justify-center gap-4 z-30 pointer-events-none">
@@ -0,0 +1,134 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { X, Layers, RotateCw, CheckCircle, Eye, Loader2 } from 'lucide-react';
+import { soundManager } from '../utils/soundEffects';
+import { getAllSessions } from '../utils/db';
+import { REVIEW_GRADES, collectDueCards, gradeCard, previewIntervals, formatInterval, DueCard } from '../utils/spacedRepetition';
+
+interface ReviewSessionProps {
+  onGrade: (sessionId: string, card: Flashcard, grade: ReviewGrade) => void;
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  AGAIN: 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400',
+  HARD: 'bg-orange-50 text-orange-600 border-orange-200 hover:bg-orange-100 dark:bg-orange-900/20 dark:border-orange-800 dark:text-orange-400',
+  GOOD: 'bg-green-50 text-green-600 border-green-200 hover:bg-green-100 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400',
+  EASY: 'bg-blue-50 text-blue-600 border-blue-200 hover:bg-blue-100 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400'
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ onGrade, onClose }) => {
+  // Snapshot the queue when the session opens; graded cards leave it, "Again" cards go to the back
+  const [queue, setQueue] = useState<DueCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    getAllSessions()
+      .then(sessions => setQueue(collectDueCards(sessions)))
+      .catch(err => console.error('Failed to load review queue', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const current = queue[0];
+  const intervals = useMemo(() => current ? previewIntervals(current.card) : null, [current]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    soundManager.play(grade === 'AGAIN' ? 'WRONG' : 'CLICK');
+    onGrade(current.sessionId, current.card, grade);
+    setReviewedCount(prev => prev + 1);
+    setIsRevealed(false);
+    setQueue(prev => {
+      const [head, ...rest] = prev;
+      return grade === 'AGAIN' ? [...rest, { ...head, card: gradeCard(head.card, grade) }] : rest;
+    });
+    if (queue.length === 1 && grade !== 'AGAIN') soundManager.play('SUCCESS');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-md animate-in fade-in">
+      <div className="bg-white dark:bg-dark-card rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden border border-gray-200 dark:border-dark-border flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-300">
+
+        {/* Header */}
+        <div className="p-5 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-900/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-pink-100 dark:bg-pink-900/30 text-pink-600">
+              <Layers className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-extrabold text-lg text-gray-800 dark:text-white">مراجعة البطاقات المستحقة</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">تمت مراجعة {reviewedCount} • متبقي {queue.length}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+          {isLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-10 h-10 animate-spin text-pink-500" />
+            </div>
+          ) : !current ? (
+            <div className="text-center py-16">
+              <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+              <h3 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-2">لا توجد بطاقات مستحقة</h3>
+              <p className="text-gray-500">أحسنت! عد لاحقاً لمراجعة البطاقات في موعدها.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="text-xs font-bold text-gray-400 flex justify-between">
+                <span className="bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded-lg truncate max-w-[70%]">{current.sessionTitle}</span>
+                <span className="text-pink-500">{current.card.schedule ? `أخطاء سابقة: ${current.card.schedule.lapses}` : 'بطاقة جديدة'}</span>
+              </div>
+
+              <div className="min-h-[12rem] bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 flex items-center justify-center text-center">
+                <h3 className="text-xl font-bold text-gray-800 dark:text-white leading-relaxed">{current.card.front}</h3>
+              </div>
+
+              {isRevealed ? (
+                <>
+                  <div className="bg-gradient-to-br from-pink-500 to-purple-600 text-white rounded-2xl shadow-xl p-6 text-center animate-in fade-in">
+                    <p className="text-lg font-medium leading-relaxed">{current.card.back}</p>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {REVIEW_GRADES.map(btn => (
+                      <button
+                        key={btn.grade}
+                        onClick={() => handleGrade(btn.grade)}
+                        className={`py-3 rounded-xl border-2 font-bold flex flex-col items-center gap-1 transition-all active:scale-95 ${GRADE_STYLES[btn.grade]}`}
+                      >
+                        <span>{btn.label}</span>
+                        {intervals && <span className="text-[10px] font-medium opacity-70">{formatInterval(intervals[btn.grade])}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={() => { soundManager.play('HOVER'); setIsRevealed(true); }}
+                  className="w-full py-4 bg-pink-600 text-white rounded-xl font-bold shadow-xl shadow-pink-500/20 hover:bg-pink-700 transition-all flex items-center justify-center gap-2"
+                >
+                  <Eye className="w-5 h-5" /> إظهار الإجابة
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {current && (
+          <div className="px-6 py-3 border-t border-gray-100 dark:border-gray-700 text-xs text-gray-400 flex items-center gap-1">
+            <RotateCw className="w-3 h-3" /> البطاقات التي تختار لها "مرة أخرى" ستعود في نهاية الجلسة
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, X, Loader2, BookOpen, List, Layers, MessageSquare, Library as LibraryIcon } from 'lucide-react';
+import { getSearchIndex, SearchIndex, SearchResult, SearchResultKind } from '../utils/searchIndex';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const KIND_META: Record<SearchResultKind, { label: string; icon: React.ElementType; className: string }> = {
+  lesson: { label: 'درس', icon: BookOpen, className: 'text-primary-600 bg-primary-50 dark:bg-primary-900/20' },
+  summary: { label: 'ملخص', icon: List, className: 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' },
+  flashcard: { label: 'بطاقة', icon: Layers, className: 'text-pink-600 bg-pink-50 dark:bg-pink-900/20' },
+  chat: { label: 'محادثة', icon: MessageSquare, className: 'text-violet-600 bg-violet-50 dark:bg-violet-900/20' },
+  book: { label: 'كتاب', icon: LibraryIcon, className: 'text-amber-600 bg-amber-50 dark:bg-amber-900/20' }
+};
+
+interface SearchPaletteProps {
+  onClose: () => void;
+  onOpenLesson: (sessionId: string) => void;
+  onOpenBookPage: (bookId: string, page: number) => void;
+}
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ onClose, onOpenLesson, onOpenBookPage }) => {
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    getSearchIndex()
+      .then(setIndex)
+      .catch(error => console.error('Failed to build search index', error));
+  }, []);
+
+  useEffect(() => {
+    if (!index) return;
+    const timer = window.setTimeout(() => {
+      setResults(index.search(query));
+      setSelected(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, index]);
+
+  // Keep the highlighted row visible while navigating with the arrow keys
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const openResult = (result: SearchResult) => {
+    const { doc } = result;
+    if (doc.kind === 'book' && doc.bookId && doc.page) onOpenBookPage(doc.bookId, doc.page);
+    else if (doc.sessionId) onOpenLesson(doc.sessionId);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[selected]) {
+      openResult(results[selected]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-black/50 backdrop-blur-sm p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-100 dark:border-gray-700 overflow-hidden animate-in zoom-in-95"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-gray-100 dark:border-gray-700">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="ابحث في الدروس والملخصات والبطاقات والمحادثات والكتب..."
+            className="flex-1 bg-transparent outline-none text-gray-800 dark:text-white text-lg"
+            autoFocus
+          />
+          {!index && <Loader2 className="w-5 h-5 animate-spin text-primary-500" />}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto custom-scrollbar p-2">
+          {query.trim() && index && results.length === 0 && (
+            <p className="text-center py-10 text-gray-400 dark:text-gray-500">لا توجد نتائج مطابقة</p>
+          )}
+          {!query.trim() && (
+            <p className="text-center py-10 text-gray-400 dark:text-gray-500 text-sm">
+              اكتب كلمة للبحث (لا يهم التشكيل أو شكل الهمزة) · <kbd className="font-mono">Ctrl+K</kbd>
+            </p>
+          )}
+          {results.map((result, i) => {
+            const meta = KIND_META[result.doc.kind];
+            const Icon = meta.icon;
+            return (
+              <button
+                key={result.doc.id}
+                data-index={i}
+                onClick={() => openResult(result)}
+                onMouseEnter={() => setSelected(i)}
+                className={`w-full text-right flex items-start gap-3 p-3 rounded-xl transition-colors ${
+                  i === selected ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                }`}
+              >
+                <span className={`p-2 rounded-lg shrink-0 ${meta.className}`}>
+                  <Icon className="w-4 h-4" />
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-2 text-sm font-bold text-gray-800 dark:text-white">
+                    <span className="truncate">{result.doc.title}</span>
+                    <span className="text-[11px] font-normal text-gray-400 shrink-0">
+                      {meta.label}{result.doc.page ? ` · صفحة ${result.doc.page}` : ''}
+                    </span>
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-2 leading-relaxed">{result.snippet}</span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -1,8 +1,46 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppSettings } from '../types';
-import { X, Plus, Trash2, Moon, Sun, Key, Cpu, Save, Edit2, Check, AlertTriangle, ListPlus, BrainCircuit, MessageSquare, FileText, List, ExternalLink, Info } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, LLMProviderId, OpenAICompatibleSettings, TaskModels } from '../types';
+import { X, Plus, Trash2, Moon, Sun, Key, Cpu, Save, Edit2, Check, AlertTriangle, ListPlus, BrainCircuit, MessageSquare, FileText, List, ExternalLink, Info, Server, RotateCcw, Archive, Download, Upload, Loader2 } from 'lucide-react';
 import { soundManager } from '../utils/soundEffects';
+import { keyManager, KeyStatus } from '../services/keyManager';
+import { downloadBackup, importBackup, ImportMode, ImportReport, COLLECTION_LABELS } from '../utils/backup';
+import { SnapshotCollection } from '../utils/db';
+
+const DEFAULT_OPENAI_SETTINGS: OpenAICompatibleSettings = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  taskModels: { processing: '', summary: '', quiz: '', chat: '' }
+};
+
+const KEY_STATUS_STYLES: Record<KeyStatus, { label: string; className: string }> = {
+  healthy: { label: 'سليم', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  cooldown: { label: 'متوقف مؤقتاً', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  invalid: { label: 'مرفوض', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' }
+};
+
+// Per-key health line: status badge, remaining cooldown, usage counts and last error
+const KeyHealthInfo: React.FC<{ apiKey: string; now: number }> = ({ apiKey, now }) => {
+  const health = keyManager.getHealth(apiKey);
+  const status = keyManager.getStatus(apiKey, now);
+  const style = KEY_STATUS_STYLES[status];
+  const minutesLeft = status === 'cooldown' && health.cooldownUntil
+    ? Math.max(1, Math.ceil((health.cooldownUntil - now) / 60000))
+    : 0;
+
+  return (
+    <div className="flex items-center gap-2 mt-1.5 text-[11px] font-sans flex-wrap">
+      <span className={`px-2 py-0.5 rounded-full font-bold ${style.className}`}>
+        {style.label}{minutesLeft > 0 && ` (${minutesLeft} د)`}
+      </span>
+      <span className="text-green-600 dark:text-green-400">✓ {health.successCount}</span>
+      <span className="text-red-500 dark:text-red-400">✗ {health.failureCount}</span>
+      {health.lastError && status !== 'healthy' && (
+        <span className="text-gray-400 truncate max-w-[14rem]" title={health.lastError}>{health.lastError}</span>
+      )}
+    </div>
+  );
+};
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -18,7 +56,16 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
   const [newModelInput, setNewModelInput] = useState('');
   const [editingKeyIndex, setEditingKeyIndex] = useState<number | null>(null);
   const [editingKeyValue, setEditingKeyValue] = useState('');
-  const [activeTab, setActiveTab] = useState<'general' | 'keys' | 'models'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'keys' | 'models' | 'backup'>('general');
+  const [healthNow, setHealthNow] = useState(Date.now());
+
+  // Backup State
+  const [includeApiKeys, setIncludeApiKeys] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const backupFileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -30,10 +77,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }
   }, [isOpen, settings]);
 
+  // Re-render key health on every report and once a minute so cooldown countdowns advance
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'keys') return;
+    const refresh = () => setHealthNow(Date.now());
+    const unsubscribe = keyManager.subscribe(refresh);
+    const timer = setInterval(refresh, 30000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [isOpen, activeTab]);
+
   if (!isOpen) return null;
 
   const handleSaveAll = () => {
     soundManager.play('SUCCESS');
+    keyManager.prune(localSettings.apiKeys);
     onUpdateSettings(localSettings);
     onClose();
   };
@@ -86,6 +146,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }
   };
 
+  const handleResetKeyHealth = (key?: string) => {
+    soundManager.play('CLICK');
+    keyManager.reset(key);
+  };
+
   const startEditingKey = (index: number, currentValue: string) => {
     setEditingKeyIndex(index);
     setEditingKeyValue(currentValue);
@@ -101,6 +166,49 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }
   };
 
+  // --- Backup Logic ---
+  const handleExportBackup = async () => {
+    soundManager.play('CLICK');
+    setIsBackupBusy(true);
+    setBackupError(null);
+    try {
+      await downloadBackup(includeApiKeys);
+      soundManager.play('SUCCESS');
+    } catch (error: any) {
+      console.error(error);
+      setBackupError(error?.message || 'تعذر إنشاء النسخة الاحتياطية');
+      soundManager.play('ERROR');
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (backupFileRef.current) backupFileRef.current.value = '';
+    if (!file) return;
+    if (importMode === 'replace' && !confirm('سيتم حذف جميع الدروس والكتب والنتائج الحالية واستبدالها بمحتوى النسخة الاحتياطية. هل أنت متأكد؟')) return;
+
+    setIsBackupBusy(true);
+    setBackupError(null);
+    setImportReport(null);
+    try {
+      const report = await importBackup(file, importMode, localSettings);
+      if (report.settings) {
+        setLocalSettings(report.settings);
+        onUpdateSettings(report.settings);
+      }
+      setImportReport(report);
+      soundManager.play('SUCCESS');
+    } catch (error: any) {
+      console.error(error);
+      setBackupError(error?.message || 'تعذر استيراد النسخة الاحتياطية');
+      soundManager.play('ERROR');
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
   // --- Models Logic ---
   const handleAddModel = () => {
     if (newModelInput.trim()) {
@@ -128,6 +236,38 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }));
   };
 
+  // --- Provider Logic ---
+  const openAISettings = localSettings.openAICompatible || DEFAULT_OPENAI_SETTINGS;
+
+  const getTaskProvider = (task: keyof TaskModels): LLMProviderId => localSettings.taskProviders?.[task] || 'gemini';
+
+  const updateTaskProvider = (task: keyof TaskModels, provider: LLMProviderId) => {
+    soundManager.play('CLICK');
+    setLocalSettings(prev => ({
+      ...prev,
+      taskProviders: {
+        processing: 'gemini',
+        summary: 'gemini',
+        quiz: 'gemini',
+        chat: 'gemini',
+        ...prev.taskProviders,
+        [task]: provider
+      },
+      openAICompatible: prev.openAICompatible || DEFAULT_OPENAI_SETTINGS
+    }));
+  };
+
+  const updateOpenAISettings = (changes: Partial<OpenAICompatibleSettings>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      openAICompatible: { ...(prev.openAICompatible || DEFAULT_OPENAI_SETTINGS), ...changes }
+    }));
+  };
+
+  const updateOpenAITaskModel = (task: keyof TaskModels, model: string) => {
+    updateOpenAISettings({ taskModels: { ...openAISettings.taskModels, [task]: model } });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-md transition-opacity">
       <div className="bg-white dark:bg-dark-card rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden border border-gray-200 dark:border-dark-border flex flex-col h-[85vh] animate-in zoom-in-95 duration-300">
@@ -150,6 +290,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
               { id: 'general', label: 'عام والمظهر', icon: Sun },
               { id: 'keys', label: 'مفاتيح API', icon: Key },
               { id: 'models', label: 'تخصيص النماذج', icon: Cpu },
+              { id: 'backup', label: 'النسخ الاحتياطي', icon: Archive },
             ].map(tab => (
               <button
                 key={tab.id}
@@ -175,6 +316,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
               { id: 'general', label: 'عام', icon: Sun },
               { id: 'keys', label: 'مفاتيح API', icon: Key },
               { id: 'models', label: 'النماذج', icon: Cpu },
+              { id: 'backup', label: 'النسخ', icon: Archive },
             ].map(tab => (
               <button
                 key={tab.id}
@@ -228,9 +370,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                    <h4 className="text-lg font-bold text-gray-800 dark:text-white flex items-center gap-2">
                     <Key className="w-5 h-5 text-primary-500" /> إدارة مفاتيح API
                   </h4>
-                  <button onClick={handleRemoveAllKeys} className="text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-1 rounded-lg text-sm font-bold transition-colors">
-                    حذف الكل
-                  </button>
+                  <div className="flex gap-1">
+                    <button onClick={() => handleResetKeyHealth()} className="text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 px-3 py-1 rounded-lg text-sm font-bold transition-colors flex items-center gap-1">
+                      <RotateCcw className="w-4 h-4" /> إعادة تفعيل الكل
+                    </button>
+                    <button onClick={handleRemoveAllKeys} className="text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 px-3 py-1 rounded-lg text-sm font-bold transition-colors">
+                      حذف الكل
+                    </button>
+                  </div>
                 </div>
 
                 {/* Instructions Banner */}
@@ -291,7 +438,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 <div className="space-y-2 max-h-60 overflow-y-auto custom-scrollbar pr-2">
                   {localSettings.apiKeys.map((key, idx) => (
                     <div key={idx} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700 group hover:border-primary-300 transition-all">
-                      <div className="flex-1 font-mono text-xs text-gray-600 dark:text-gray-300 truncate">
+                      <div className="flex-1 min-w-0 font-mono text-xs text-gray-600 dark:text-gray-300 truncate">
                         {editingKeyIndex === idx ? (
                           <input 
                             type="text" 
@@ -301,7 +448,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                             autoFocus
                           />
                         ) : (
-                          key
+                          <>
+                            <div className="truncate">{key}</div>
+                            <KeyHealthInfo apiKey={key} now={healthNow} />
+                          </>
                         )}
                       </div>
                       <div className="flex gap-1">
@@ -310,6 +460,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                         ) : (
                           <button onClick={() => startEditingKey(idx, key)} className="p-2 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg"><Edit2 className="w-4 h-4" /></button>
                         )}
+                        {keyManager.getStatus(key, healthNow) !== 'healthy' && (
+                          <button onClick={() => handleResetKeyHealth(key)} title="إعادة تفعيل المفتاح" className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"><RotateCcw className="w-4 h-4" /></button>
+                        )}
                         <button onClick={() => handleRemoveKey(idx)} className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"><Trash2 className="w-4 h-4" /></button>
                       </div>
                     </div>
@@ -344,6 +497,34 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                               <p className="text-xs text-gray-500">{task.desc}</p>
                            </div>
                         </div>
+                        <div className="flex gap-2 mt-2">
+                           {([
+                             { id: 'gemini', label: 'Google Gemini' },
+                             { id: 'openai', label: 'خادم متوافق مع OpenAI' },
+                           ] as { id: LLMProviderId; label: string }[]).map(provider => (
+                             <button
+                               key={provider.id}
+                               onClick={() => updateTaskProvider(task.key as keyof TaskModels, provider.id)}
+                               className={`px-3 py-1 rounded-full text-[11px] font-bold border transition-all ${
+                                 getTaskProvider(task.key as keyof TaskModels) === provider.id
+                                 ? 'bg-gray-800 dark:bg-gray-200 text-white dark:text-gray-900 border-transparent'
+                                 : 'border-gray-200 dark:border-gray-700 text-gray-500 hover:border-gray-400'
+                               }`}
+                             >
+                               {provider.label}
+                             </button>
+                           ))}
+                        </div>
+                        {getTaskProvider(task.key as keyof TaskModels) === 'openai' ? (
+                          <input
+                            type="text"
+                            value={openAISettings.taskModels[task.key as keyof TaskModels]}
+                            onChange={(e) => updateOpenAITaskModel(task.key as keyof TaskModels, e.target.value)}
+                            placeholder="اسم النموذج على الخادم (مثلاً llama3.1 أو gpt-4o-mini)"
+                            className="w-full mt-2 p-2.5 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white outline-none focus:border-primary-500 font-mono text-xs"
+                            dir="ltr"
+                          />
+                        ) : (
                         <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
                            {allModels.map(model => (
                              <button
@@ -360,10 +541,34 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                              </button>
                            ))}
                         </div>
+                        )}
                      </div>
                    ))}
                 </div>
 
+                <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-3">
+                   <h4 className="font-bold text-sm text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                     <Server className="w-4 h-4 text-primary-500" /> الخادم المتوافق مع OpenAI
+                   </h4>
+                   <p className="text-xs text-gray-500">يعمل مع OpenAI وOpenRouter والخوادم المحلية مثل Ollama وllama.cpp وLM Studio.</p>
+                   <input
+                     type="text"
+                     value={openAISettings.baseUrl}
+                     onChange={(e) => updateOpenAISettings({ baseUrl: e.target.value })}
+                     placeholder="http://localhost:11434/v1"
+                     className="w-full p-3 rounded-xl border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white outline-none focus:border-primary-500 font-mono text-sm"
+                     dir="ltr"
+                   />
+                   <input
+                     type="password"
+                     value={openAISettings.apiKey || ''}
+                     onChange={(e) => updateOpenAISettings({ apiKey: e.target.value })}
+                     placeholder="مفتاح API (اختياري للخوادم المحلية)"
+                     className="w-full p-3 rounded-xl border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white outline-none focus:border-primary-500 font-mono text-sm"
+                     dir="ltr"
+                   />
+                </div>
+
                 <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
                    <h4 className="font-bold text-sm mb-3 text-gray-700 dark:text-gray-300">إضافة نموذج مخصص للقائمة</h4>
                    <div className="flex gap-2">
@@ -381,6 +586,92 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 </div>
               </section>
             )}
+
+            {activeTab === 'backup' && (
+              <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+                <h4 className="text-lg font-bold text-gray-800 dark:text-white flex items-center gap-2">
+                  <Archive className="w-5 h-5 text-primary-500" /> النسخ الاحتياطي والاستعادة
+                </h4>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  ملف واحد يضم الإعدادات والدروس والمحادثات ونتائج الاختبارات والمجلدات والكتب (بما فيها ملفات PDF)، لنقل بياناتك إلى جهاز آخر.
+                </p>
+
+                {backupError && (
+                  <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm font-bold flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 shrink-0" /> {backupError}
+                  </div>
+                )}
+
+                <div className="p-5 rounded-2xl border border-gray-200 dark:border-gray-700 space-y-4">
+                  <h5 className="font-bold text-gray-800 dark:text-white">تصدير</h5>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={includeApiKeys} onChange={(e) => setIncludeApiKeys(e.target.checked)} className="w-4 h-4 accent-primary-600" />
+                    تضمين مفاتيح API في الملف (لا تشارك الملف مع أحد عند تفعيل هذا الخيار)
+                  </label>
+                  <button onClick={handleExportBackup} disabled={isBackupBusy} className="btn-primary py-2 px-6 text-sm flex items-center gap-2 disabled:opacity-50">
+                    {isBackupBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} تنزيل نسخة احتياطية
+                  </button>
+                </div>
+
+                <div className="p-5 rounded-2xl border border-gray-200 dark:border-gray-700 space-y-4">
+                  <h5 className="font-bold text-gray-800 dark:text-white">استيراد</h5>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {([
+                      { id: 'merge', label: 'دمج', hint: 'إضافة الجديد مع الإبقاء على بياناتك الحالية' },
+                      { id: 'replace', label: 'استبدال', hint: 'حذف البيانات الحالية واستعادة النسخة كما هي' }
+                    ] as { id: ImportMode; label: string; hint: string }[]).map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => setImportMode(option.id)}
+                        className={`flex-1 text-right p-3 rounded-xl border-2 transition-all ${
+                          importMode === option.id ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20' : 'border-gray-200 dark:border-gray-700'
+                        }`}
+                      >
+                        <span className="block font-bold text-sm text-gray-800 dark:text-white">{option.label}</span>
+                        <span className="block text-xs text-gray-500 mt-1">{option.hint}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <input type="file" accept=".zip,application/zip" ref={backupFileRef} onChange={handleImportBackup} className="hidden" />
+                  <button onClick={() => backupFileRef.current?.click()} disabled={isBackupBusy} className="bg-gray-800 dark:bg-gray-700 text-white py-2 px-6 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-gray-900 transition-colors disabled:opacity-50">
+                    {isBackupBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} اختيار ملف النسخة الاحتياطية
+                  </button>
+                </div>
+
+                {importReport && (
+                  <div className="p-5 rounded-2xl bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800/30 space-y-3">
+                    <h5 className="font-bold text-green-800 dark:text-green-300 flex items-center gap-2">
+                      <Check className="w-5 h-5" /> تم الاستيراد ({importReport.mode === 'replace' ? 'استبدال' : 'دمج'}) من نسخة بتاريخ {new Date(importReport.manifest.createdAt).toLocaleString('ar-EG')}
+                    </h5>
+                    <ul className="text-sm text-gray-700 dark:text-gray-300 grid grid-cols-2 gap-1">
+                      {(Object.keys(importReport.added) as SnapshotCollection[]).filter(c => c !== 'bookFiles' && c !== 'bookPages' && !importReport.untouched.includes(c)).map(c => (
+                        <li key={c}>{COLLECTION_LABELS[c]}: {importReport.added[c]}</li>
+                      ))}
+                    </ul>
+                    {importReport.untouched.length > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        النسخة من إصدار أقدم لا يحتوي على: {importReport.untouched.map(c => COLLECTION_LABELS[c]).join('، ')}، فبقيت كما هي.
+                      </p>
+                    )}
+                    {importReport.conflicts.length > 0 && (
+                      <div className="text-sm">
+                        <p className="font-bold text-amber-700 dark:text-amber-400 mb-1">
+                          {importReport.conflicts.length} عنصر موجود مسبقاً بمحتوى مختلف، تم الإبقاء على النسخة الحالية:
+                        </p>
+                        <ul className="max-h-32 overflow-y-auto custom-scrollbar text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+                          {importReport.conflicts.map(conflict => (
+                            <li key={`${conflict.collection}:${conflict.id}`}>• {COLLECTION_LABELS[conflict.collection]}: {conflict.label}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <button onClick={() => window.location.reload()} className="btn-primary py-2 px-6 text-sm">
+                      إعادة تحميل المنصة لعرض البيانات المستعادة
+                    </button>
+                  </div>
+                )}
+              </section>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { Book, Exam, PlanTask } from '../types';
+import { CalendarDays, Plus, Trash2, Edit2, RotateCcw, Loader2, AlertTriangle } from 'lucide-react';
+import PlanTaskRow from './PlanTaskRow';
+import * as DB from '../utils/db';
+import { buildPlan, createExam, planProgress, daysUntilExam, PlanMaterial } from '../utils/studyPlanner';
+import { dayKey, shiftDay, dateOfDay } from '../utils/calendar';
+import { LessonOutline } from '../utils/curriculum';
+import { soundManager } from '../utils/soundEffects';
+
+interface StudyPlannerProps {
+  exams: Exam[];
+  onSaveExam: (exam: Exam) => Promise<void>;
+  onDeleteExam: (exam: Exam) => void;
+  onToggleTask: (exam: Exam, taskId: string, done: boolean) => void;
+  onOpenTask: (exam: Exam, task: PlanTask) => void;
+}
+
+interface ExamForm {
+  id?: string; // Set when editing an existing exam
+  title: string;
+  date: string;
+  lessonIds: string[];
+  bookIds: string[];
+}
+
+const inputClass = 'w-full p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 font-bold text-gray-800 dark:text-gray-100 outline-none focus:border-primary-500 transition-colors';
+
+const dayLabel = (day: string, today: string) => {
+  if (day === today) return 'اليوم';
+  if (day === shiftDay(today, 1)) return 'غداً';
+  return dateOfDay(day).toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long' });
+};
+
+const toggleId = (ids: string[], id: string) => ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id];
+
+const StudyPlanner: React.FC<StudyPlannerProps> = ({ exams, onSaveExam, onDeleteExam, onToggleTask, onOpenTask }) => {
+  const [lessons, setLessons] = useState<LessonOutline[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<ExamForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = dayKey();
+
+  useEffect(() => {
+    Promise.all([DB.getLessonOutlines(), DB.getAllBooks()])
+      .then(([outlines, allBooks]) => {
+        setLessons(outlines.sort((a, b) => b.date.localeCompare(a.date))); // Newest first
+        setBooks(allBooks);
+      })
+      .catch(error => console.error('Failed to load lessons and books', error));
+  }, []);
+
+  const selected = exams.find(exam => exam.id === selectedId) || exams.find(exam => exam.date >= today) || exams[0];
+
+  // Lessons or books deleted since the exam was planned simply drop out
+  const materialFor = (lessonIds: string[], bookIds: string[]): PlanMaterial => ({
+    lessons: lessonIds.map(id => lessons.find(lesson => lesson.id === id)).filter((lesson): lesson is LessonOutline => !!lesson),
+    books: bookIds.map(id => books.find(book => book.id === id)).filter((book): book is Book => !!book)
+  });
+
+  const openForm = (exam?: Exam) => {
+    soundManager.play('CLICK');
+    setForm(exam
+      ? { id: exam.id, title: exam.title, date: exam.date, lessonIds: exam.lessonIds, bookIds: exam.bookIds }
+      : { title: '', date: shiftDay(today, 7), lessonIds: [], bookIds: [] });
+  };
+
+  const save = async (exam: Exam) => {
+    setIsSaving(true);
+    try {
+      await onSaveExam(exam);
+      setSelectedId(exam.id);
+      setForm(null);
+      soundManager.play('SUCCESS');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitForm = async () => {
+    if (!form) return;
+    const title = form.title.trim();
+    const material = materialFor(form.lessonIds, form.bookIds);
+    if (!title || !form.date) return;
+    if (material.lessons.length + material.books.length === 0) {
+      alert('اختر درساً أو كتاباً واحداً على الأقل');
+      return;
+    }
+    try {
+      const existing = exams.find(exam => exam.id === form.id);
+      await save(existing
+        ? { ...existing, title, date: form.date, lessonIds: form.lessonIds, bookIds: form.bookIds, plan: buildPlan(form.date, material, existing.plan) }
+        : createExam(title, form.date, material));
+    } catch (err: any) {
+      alert(err.message || 'تعذر إنشاء الخطة');
+    }
+  };
+
+  // Open tasks (missed days included) are spread again from today; completed ones stay where they were
+  const replan = async (exam: Exam) => {
+    try {
+      await save({ ...exam, plan: buildPlan(exam.date, materialFor(exam.lessonIds, exam.bookIds), exam.plan) });
+    } catch (err: any) {
+      alert(err.message || 'تعذرت إعادة الجدولة');
+    }
+  };
+
+  const renderForm = (current: ExamForm) => (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm space-y-5">
+      <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100">{current.id ? 'تعديل الامتحان' : 'امتحان جديد'}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input value={current.title} onChange={(e) => setForm({ ...current, title: e.target.value })} placeholder="اسم المادة أو الامتحان" className={inputClass} autoFocus />
+        <input type="date" value={current.date} min={shiftDay(today, 1)} onChange={(e) => setForm({ ...current, date: e.target.value })} className={inputClass} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm font-bold text-gray-600 dark:text-gray-300 mb-2">الدروس ({current.lessonIds.length})</p>
+          <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 p-2 rounded-xl border border-gray-100 dark:border-gray-700">
+            {lessons.length === 0 && <p className="text-sm text-gray-400 p-2">لا توجد دروس محفوظة</p>}
+            {lessons.map(lesson => (
+              <label key={lesson.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer text-sm text-gray-700 dark:text-gray-200">
+                <input type="checkbox" checked={current.lessonIds.includes(lesson.id)} onChange={() => setForm({ ...current, lessonIds: toggleId(current.lessonIds, lesson.id) })} className="w-4 h-4 accent-primary-600" />
+                <span className="truncate">{lesson.title || 'درس بدون عنوان'}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-bold text-gray-600 dark:text-gray-300 mb-2">كتب المكتبة ({current.bookIds.length})</p>
+          <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 p-2 rounded-xl border border-gray-100 dark:border-gray-700">
+            {books.length === 0 && <p className="text-sm text-gray-400 p-2">لا توجد كتب في المكتبة</p>}
+            {books.map(book => (
+              <label key={book.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer text-sm text-gray-700 dark:text-gray-200">
+                <input type="checkbox" checked={current.bookIds.includes(book.id)} onChange={() => setForm({ ...current, bookIds: toggleId(current.bookIds, book.id) })} className="w-4 h-4 accent-primary-600" />
+                <span className="flex-1 truncate">{book.title}</span>
+                <span className="text-xs text-gray-400">{book.totalPages} ص</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button onClick={() => setForm(null)} className="px-5 py-2.5 rounded-xl font-bold text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">إلغاء</button>
+        <button
+          onClick={submitForm}
+          disabled={!current.title.trim() || !current.date || isSaving}
+          className="px-6 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 disabled:opacity-50 transition-colors"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />} {current.id ? 'حفظ وإعادة الجدولة' : 'إنشاء الخطة'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPlan = (exam: Exam) => {
+    const progress = planProgress(exam.plan, today);
+    const daysLeft = daysUntilExam(exam, today);
+    const days = Array.from(new Set(exam.plan.map(task => task.date)));
+
+    return (
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm space-y-6">
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <h3 className="text-xl font-black text-gray-900 dark:text-white">{exam.title}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {dateOfDay(exam.date).toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+              {' • '}{daysLeft > 0 ? `بعد ${daysLeft} يوم` : daysLeft === 0 ? 'اليوم' : 'انتهى'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {daysLeft > 0 && (
+              <button onClick={() => replan(exam)} disabled={isSaving} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg transition-colors" title="إعادة توزيع المهام المتبقية بدءاً من اليوم">
+                <RotateCcw className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={() => openForm(exam)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg transition-colors" title="تعديل">
+              <Edit2 className="w-5 h-5" />
+            </button>
+            <button onClick={() => onDeleteExam(exam)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors" title="حذف الامتحان وخطته">
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-bold text-gray-700 dark:text-gray-200">أنجزت {progress.completed} من {progress.total} مهمة</span>
+            <span className="text-gray-500 dark:text-gray-400">{progress.percent}%</span>
+          </div>
+          <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full rounded-full bg-primary-500 transition-all duration-500" style={{ width: `${progress.percent}%` }} />
+          </div>
+          {progress.overdue > 0 && daysLeft > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 mt-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/50 text-sm">
+              <span className="flex items-center gap-2 font-bold text-amber-700 dark:text-amber-300"><AlertTriangle className="w-4 h-4" /> متأخر بـ {progress.overdue} مهمة</span>
+              <button onClick={() => replan(exam)} disabled={isSaving} className="font-bold text-amber-700 dark:text-amber-300 hover:underline">أعد الجدولة من اليوم</button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-5">
+          {days.map(day => (
+            <div key={day}>
+              <p className={`text-sm font-bold mb-2 ${day === today ? 'text-primary-600 dark:text-primary-400' : 'text-gray-500 dark:text-gray-400'}`}>{dayLabel(day, today)}</p>
+              <div className="space-y-2">
+                {exam.plan.filter(task => task.date === day).map(task => (
+                  <PlanTaskRow
+                    key={task.id}
+                    task={task}
+                    isOverdue={day < today}
+                    onToggle={(done) => onToggleTask(exam, task.id, done)}
+                    onOpen={() => onOpenTask(exam, task)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-2xl font-black text-gray-900 dark:text-white flex items-center gap-2"><CalendarDays className="w-7 h-7 text-primary-500" /> خطة المذاكرة</h2>
+        <button onClick={() => openForm()} className="px-5 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 shadow-lg shadow-primary-500/30 transition-colors">
+          <Plus className="w-4 h-4" /> امتحان جديد
+        </button>
+      </div>
+
+      {form && renderForm(form)}
+
+      {exams.length === 0 && !form ? (
+        <div className="text-center py-16 text-gray-400">
+          <CalendarDays className="w-12 h-12 mx-auto mb-3" />
+          <p className="font-medium">سجّل موعد امتحانك القادم ودروسه لنبني لك خطة يومية</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {exams.map(exam => {
+              const progress = planProgress(exam.plan, today);
+              const daysLeft = daysUntilExam(exam, today);
+              return (
+                <button
+                  key={exam.id}
+                  onClick={() => setSelectedId(exam.id)}
+                  className={`w-full text-right p-4 rounded-xl border-2 transition-colors ${selected?.id === exam.id ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20' : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-300 dark:hover:border-gray-600'} ${daysLeft < 0 ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="font-bold text-gray-900 dark:text-white truncate">{exam.title}</span>
+                    <span className={`text-xs font-bold whitespace-nowrap ${daysLeft >= 0 && daysLeft <= 3 ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {daysLeft > 0 ? `${daysLeft} يوم` : daysLeft === 0 ? 'اليوم' : 'انتهى'}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden mt-3">
+                    <div className="h-full rounded-full bg-primary-500" style={{ width: `${progress.percent}%` }} />
+                  </div>
+                  {progress.overdue > 0 && daysLeft > 0 && <p className="text-xs font-bold text-amber-600 mt-2">{progress.overdue} مهمة متأخرة</p>}
+                </button>
+              );
+            })}
+          </div>
+          <div className="lg:col-span-2">
+            {selected && renderPlan(selected)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyPlanner;
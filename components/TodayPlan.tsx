@@ -0,0 +1,62 @@
+import React from 'react';
+import { Exam, PlanTask } from '../types';
+import { CalendarDays, ChevronLeft } from 'lucide-react';
+import PlanTaskRow from './PlanTaskRow';
+import { tasksDue, daysUntilExam } from '../utils/studyPlanner';
+import { dayKey } from '../utils/calendar';
+
+interface TodayPlanProps {
+  exams: Exam[];
+  onToggleTask: (exam: Exam, taskId: string, done: boolean) => void;
+  onOpenTask: (exam: Exam, task: PlanTask) => void;
+  onOpenPlanner: () => void;
+}
+
+// Today's slice of every study plan, shown above the lesson input
+const TodayPlan: React.FC<TodayPlanProps> = ({ exams, onToggleTask, onOpenTask, onOpenPlanner }) => {
+  const today = dayKey();
+  const due = tasksDue(exams, today);
+  const nextExam = exams.find(exam => exam.date >= today);
+  if (!nextExam) return null;
+
+  const open = due.filter(({ task }) => !task.completedAt).length;
+  const daysLeft = daysUntilExam(nextExam, today);
+  const showExamTitles = new Set(due.map(({ exam }) => exam.id)).size > 1;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm p-5 transition-colors">
+      <div className="flex justify-between items-center gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-primary-500" /> خطة اليوم
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {daysLeft === 0 ? `امتحان ${nextExam.title} اليوم، بالتوفيق!` : `${daysLeft} يوم على امتحان ${nextExam.title}`}
+            {due.length > 0 && ` • ${open === 0 ? 'أنجزت مهام اليوم' : `${open} مهمة متبقية`}`}
+          </p>
+        </div>
+        <button onClick={onOpenPlanner} className="flex items-center gap-1 text-sm font-bold text-primary-600 dark:text-primary-400 hover:underline whitespace-nowrap">
+          الخطة كاملة <ChevronLeft className="w-4 h-4" />
+        </button>
+      </div>
+      {due.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-4">لا توجد مهام لليوم</p>
+      ) : (
+        <div className="space-y-2">
+          {due.map(({ exam, task }) => (
+            <PlanTaskRow
+              key={`${exam.id}:${task.id}`}
+              task={task}
+              isOverdue={task.date < today}
+              examTitle={showExamTitles ? exam.title : undefined}
+              onToggle={(done) => onToggleTask(exam, task.id, done)}
+              onOpen={() => onOpenTask(exam, task)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodayPlan;
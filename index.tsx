@@ -1,6 +1,24 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ProfilePicker from './components/ProfilePicker';
+import { StudentProfile } from './types';
+import { migrateLegacyProfile, resolveStartupProfile, activateProfile } from './utils/profiles';
+
+// Every profile has its own storage, so nothing of the app is mounted until we know who is studying
+const Root = () => {
+  const [profile, setProfile] = useState<StudentProfile | null>(() => {
+    migrateLegacyProfile();
+    const startup = resolveStartupProfile();
+    if (startup) activateProfile(startup.id);
+    return startup;
+  });
+
+  if (!profile) {
+    return <ProfilePicker onSelect={(picked) => { activateProfile(picked.id); setProfile(picked); }} />;
+  }
+  return <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +28,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
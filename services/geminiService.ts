@@ -1,21 +1,18 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ContentType, Quiz, QuizConfig, SummaryPoint, QuestionType, Flashcard, DifficultyLevel, QuizResult } from "../types";
+import { ContentType, Quiz, QuizConfig, Question, SummaryPoint, QuestionType, Flashcard, DifficultyLevel, QuizResult, AIConfig } from "../types";
+import { getProvider, JsonSchema, LLMPart, LLMMessage } from "./llmProviders";
+import { splitIntoChunks, mapWithConcurrency, distributeCount, ProgressCallback } from "../utils/textChunker";
+import { dedupeBy } from "../utils/arabic";
 
-const ENV_API_KEY = process.env.API_KEY || '';
+// جميع الدوال تمر عبر طبقة المزودين (Gemini أو خادم متوافق مع OpenAI) حسب config.provider
 
-const getClient = (apiKey?: string) => {
-  return new GoogleGenAI({ apiKey: apiKey || ENV_API_KEY });
-};
-
-export const processContentToFusha = async (
+// بناء طلب الدرس (المحتوى والأدوات) حسب نوع المدخلات، مشترك بين المعالجة العادية والبث المباشر
+const buildLessonRequest = (
   type: ContentType,
-  data: string | string[], 
-  config: { apiKey?: string; model: string },
+  data: string | string[],
   mimeType?: string
-): Promise<string> => {
-  const ai = getClient(config.apiKey);
-  let contents: any = [];
-  let tools: any[] = [];
+): { contents: LLMPart[]; useWebSearch: boolean } => {
+  let contents: LLMPart[] = [];
+  let useWebSearch = false;
 
   let actualData: any = data;
   let customInstructions = '';
@@ -108,7 +105,7 @@ export const processContentToFusha = async (
        استخدم Google Search لفهم الفيديو واكتب درساً شاملاً عنه، ملتزماً بالهيكلية المنهجية الخماسية.
        ${globalInstructionBlock}
      `;
-     tools = [{ googleSearch: {} }]; 
+     useWebSearch = true; 
      contents = [{ text: baseInstruction + "\n" + userPrompt }];
      
   } else if (type === ContentType.TEXT || type === ContentType.YOUTUBE) {
@@ -142,91 +139,152 @@ export const processContentToFusha = async (
       contents = [{ text: baseInstruction + "\n" + userPrompt }];
   }
 
-  const response = await ai.models.generateContent({
-    model: config.model,
-    contents: contents,
-    config: { temperature: 0.3, tools: tools.length > 0 ? tools : undefined }
-  });
+  return { contents, useWebSearch };
+};
 
-  return response.text || "عذراً، لم أتمكن من معالجة المحتوى.";
+export const processContentToFusha = async (
+  type: ContentType,
+  data: string | string[], 
+  config: AIConfig,
+  mimeType?: string
+): Promise<string> => {
+  const provider = getProvider(config);
+  const { contents, useWebSearch } = buildLessonRequest(type, data, mimeType);
+  const text = await provider.generateText(contents, { temperature: 0.3, useWebSearch });
+
+  return text || "عذراً، لم أتمكن من معالجة المحتوى.";
 };
 
-export const generateSummary = async (text: string, config: { apiKey?: string; model: string }): Promise<SummaryPoint[]> => {
-  const ai = getClient(config.apiKey);
-  const schema = {
-    type: Type.ARRAY,
+// نسخة البث المباشر: تعيد النص المتراكم حتى الآن مع كل دفعة، ويمكن إيقافها عبر signal
+export async function* streamContentToFusha(
+  type: ContentType,
+  data: string | string[],
+  config: AIConfig,
+  mimeType?: string,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const provider = getProvider(config);
+  const { contents, useWebSearch } = buildLessonRequest(type, data, mimeType);
+  let accumulated = '';
+
+  for await (const chunk of provider.generateTextStream(contents, { temperature: 0.3, useWebSearch, signal })) {
+    accumulated += chunk;
+    yield accumulated;
+  }
+}
+
+// ================= المعالجة المجزأة للنصوص الطويلة =================
+// النصوص الأطول من حجم القطعة تُقسم عند العناوين والفقرات، تُعالج كل قطعة على حدة (بتوازٍ محدود)،
+// ثم تُدمج النتائج مع حذف المكرر، بدلاً من قص النص وتجاهل نصفه الثاني.
+const CHUNK_CONCURRENCY = 3;
+const QUIZ_CHUNK_SIZE = 30000;
+
+const partLabel = (index: number, total: number) =>
+  total > 1 ? `(هذا هو الجزء ${index + 1} من ${total} من الدرس، ركز على ما ورد فيه فقط) ` : '';
+
+export const generateSummary = async (text: string, config: AIConfig, onProgress?: ProgressCallback): Promise<SummaryPoint[]> => {
+  const provider = getProvider(config);
+  const schema: JsonSchema = {
+    type: 'array',
     items: {
-      type: Type.OBJECT,
+      type: 'object',
       properties: {
-        point: { type: Type.STRING, description: "المصطلح أو النقطة الرئيسية" },
-        explanation: { type: Type.STRING, description: "الشرح الموجز والمباشر للقاعدة أو التعريف" }
+        point: { type: 'string', description: "المصطلح أو النقطة الرئيسية" },
+        explanation: { type: 'string', description: "الشرح الموجز والمباشر للقاعدة أو التعريف" }
       },
       required: ["point", "explanation"]
     }
   };
 
-  // البرومبت المُحسن للتلخيص: يربط الملخص بالخلاصة النهائية للدرس لضمان التركيز على ما يجب تذكره.
-  const response = await ai.models.generateContent({
-    model: config.model,
-    contents: `بصفتك مُقيماً للمحتوى، لخص أهم المفاهيم والقواعد الواردة في قسم "الخلاصة والمراجعة" بالدرس. يجب أن تكون النقاط هي الأهم للمراجعة السريعة والتحضير للاختبار. النص: ${text.substring(0, 20000)}`,
-    config: { responseMimeType: "application/json", responseSchema: schema }
-  });
+  const chunks = splitIntoChunks(text);
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, i) => {
+    // البرومبت المُحسن للتلخيص: يربط الملخص بالخلاصة النهائية للدرس لضمان التركيز على ما يجب تذكره.
+    const prompt = chunks.length === 1
+      ? `بصفتك مُقيماً للمحتوى، لخص أهم المفاهيم والقواعد الواردة في قسم "الخلاصة والمراجعة" بالدرس. يجب أن تكون النقاط هي الأهم للمراجعة السريعة والتحضير للاختبار. النص: ${chunk}`
+      : `بصفتك مُقيماً للمحتوى، ${partLabel(i, chunks.length)}لخص أهم المفاهيم والقواعد الواردة في هذا الجزء. يجب أن تكون النقاط هي الأهم للمراجعة السريعة والتحضير للاختبار. النص: ${chunk}`;
+    try {
+      return await provider.generateStructured<SummaryPoint[]>(prompt, schema);
+    } catch (e) {
+      if (e instanceof SyntaxError) return [];
+      throw e;
+    }
+  }, onProgress);
 
-  try { return JSON.parse(response.text || "[]"); } catch (e) { return []; }
+  return dedupeBy(results.flat(), p => p.point);
 };
 
-export const generateFlashcards = async (text: string, config: { apiKey?: string; model: string }): Promise<Flashcard[]> => {
-  const ai = getClient(config.apiKey);
-  const schema = {
-    type: Type.ARRAY,
+export const generateFlashcards = async (text: string, config: AIConfig, onProgress?: ProgressCallback): Promise<Flashcard[]> => {
+  const provider = getProvider(config);
+  const schema: JsonSchema = {
+    type: 'array',
     items: {
-      type: Type.OBJECT,
+      type: 'object',
       properties: {
-        front: { type: Type.STRING, description: "السؤال أو المصطلح الواضح" },
-        back: { type: Type.STRING, description: "الإجابة الدقيقة والمباشرة" }
+        front: { type: 'string', description: "السؤال أو المصطلح الواضح" },
+        back: { type: 'string', description: "الإجابة الدقيقة والمباشرة" }
       },
       required: ["front", "back"]
     }
   };
 
-  // البرومبت المُحسن للبطاقات: يتطلب توازناً بين التعريفات وأسئلة العلاقات والمقارنات.
-  const response = await ai.models.generateContent({
-    model: config.model,
-    contents: `أنشئ 20 بطاقة تعليمية (سؤال/مصطلح وإجابة/تعريف). ركز على: 1. تعريف المصطلحات الأساسية. 2. أسئلة حول الأمثلة التطبيقية. 3. أسئلة المقارنة أو العلاقات بين المفاهيم. النص: ${text.substring(0, 20000)}`,
-    config: { responseMimeType: "application/json", responseSchema: schema }
-  });
+  const chunks = splitIntoChunks(text);
+  const counts = distributeCount(20, chunks.length);
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, i) => {
+    if (counts[i] === 0) return []; // More chunks than cards: the rest get none, so the deck stays at 20
+    // البرومبت المُحسن للبطاقات: يتطلب توازناً بين التعريفات وأسئلة العلاقات والمقارنات.
+    try {
+      return await provider.generateStructured<Flashcard[]>(
+        `${partLabel(i, chunks.length)}أنشئ ${counts[i]} بطاقة تعليمية (سؤال/مصطلح وإجابة/تعريف). ركز على: 1. تعريف المصطلحات الأساسية. 2. أسئلة حول الأمثلة التطبيقية. 3. أسئلة المقارنة أو العلاقات بين المفاهيم. النص: ${chunk}`,
+        schema
+      );
+    } catch (e) {
+      if (e instanceof SyntaxError) return [];
+      throw e;
+    }
+  }, onProgress);
 
-  try { return JSON.parse(response.text || "[]"); } catch (e) { return []; }
+  return dedupeBy(results.flat(), c => c.front);
 };
 
-export const generateMindMap = async (text: string, config: { apiKey?: string; model: string }): Promise<string> => {
-    const ai = getClient(config.apiKey);
+export const generateMindMap = async (text: string, config: AIConfig, onProgress?: ProgressCallback): Promise<string> => {
+    const provider = getProvider(config);
+    const chunks = splitIntoChunks(text);
+
+    // للنصوص الطويلة: نستخرج مخططاً نقطياً لكل جزء أولاً، ثم نبني المخطط الذهني من المخططات المجمعة
+    let source = chunks[0] || '';
+    if (chunks.length > 1) {
+        const outlines = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) => provider.generateText(
+            `${partLabel(i, chunks.length)}استخرج المفاهيم الرئيسية والفرعية في هذا النص كقائمة نقطية هرمية موجزة (بدون شرح). النص: ${chunk}`,
+            { temperature: 0.2 }
+        ), (done, total) => onProgress?.(done, total + 1));
+        source = outlines.join('\n');
+    }
+
     // البرومبت المُحسن للمخطط الذهني: يطلب هيكلة منطقية للـ Mermaid
-    const response = await ai.models.generateContent({
-        model: config.model,
-        contents: `أنشئ كود Mermaid.js (mindmap) باللغة العربية. يجب أن يمثل المخطط التسلسل الهرمي للمفاهيم في الدرس، مع استخدام كلمات ربط قوية (مثل: يؤدي إلى، يتكون من، مثال على). النص: ${text.substring(0, 20000)}`,
-        config: { temperature: 0.2 }
-    });
-    let code = response.text || "";
+    const code = await provider.generateText(
+        `أنشئ كود Mermaid.js (mindmap) باللغة العربية. يجب أن يمثل المخطط التسلسل الهرمي للمفاهيم في الدرس، مع استخدام كلمات ربط قوية (مثل: يؤدي إلى، يتكون من، مثال على). النص: ${source}`,
+        { temperature: 0.2 }
+    );
+    if (chunks.length > 1) onProgress?.(chunks.length + 1, chunks.length + 1);
     return code.replace(/```mermaid/g, "").replace(/```/g, "").trim();
 };
 
-export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfig: { apiKey?: string; model: string }): Promise<Quiz> => {
-  const ai = getClient(aiConfig.apiKey);
+export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfig: AIConfig, onProgress?: ProgressCallback): Promise<Quiz> => {
+  const provider = getProvider(aiConfig);
   
-  const schema = {
-    type: Type.OBJECT,
+  const schema: JsonSchema = {
+    type: 'object',
     properties: {
-      title: { type: Type.STRING },
+      title: { type: 'string' },
       questions: {
-        type: Type.ARRAY,
+        type: 'array',
         items: {
-          type: Type.OBJECT,
+          type: 'object',
           properties: {
-            id: { type: Type.INTEGER },
-            text: { type: Type.STRING },
+            id: { type: 'integer' },
+            text: { type: 'string' },
             type: { 
-                type: Type.STRING, 
+                type: 'string', 
                 enum: [
                     QuestionType.TRUE_FALSE, 
                     QuestionType.MULTIPLE_CHOICE, 
@@ -236,18 +294,20 @@ export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfi
                     QuestionType.MATCHING
                 ] 
             },
-            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+            options: { type: 'array', items: { type: 'string' } },
             matches: { 
-                type: Type.ARRAY, 
+                type: 'array', 
                 items: { 
-                    type: Type.OBJECT, 
-                    properties: { left: {type: Type.STRING}, right: {type: Type.STRING} } 
+                    type: 'object', 
+                    properties: { left: {type: 'string'}, right: {type: 'string'} } 
                 } 
             },
-            correctAnswer: { type: Type.STRING }, 
-            explanation: { type: Type.STRING }
+            correctAnswer: { type: 'string' }, 
+            acceptedAnswers: { type: 'array', items: { type: 'string' } },
+            explanation: { type: 'string' },
+            concept: { type: 'string' }
           },
-          required: ["id", "text", "type", "correctAnswer", "explanation"]
+          required: ["id", "text", "type", "correctAnswer", "explanation", "concept"]
         }
       }
     },
@@ -260,7 +320,7 @@ export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfi
       [DifficultyLevel.HARD]: "أسئلة صعبة تتطلب استنتاجاً وتحليلاً عميقاً وحل مشكلات غير مباشرة (مستوى التحليل والتقييم)."
   }[quizConfig.difficulty];
 
-  let prompt = `
+  const basePrompt = `
     قم بإنشاء اختبار تعليمي بناءً على النص المقدم.
     **توجيه الاختبار:** يجب أن تغطي الأسئلة الأهداف التعليمية (Phase 1) وقسم الأنشطة والتطبيق العملي (Phase 4). يجب أن تكون صياغة السؤال واضحة وغير ملتبسة.
     مستوى الصعوبة: ${difficultyPrompt}
@@ -270,6 +330,8 @@ export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfi
     2. ${QuestionType.FILL_BLANKS}: ضع الجملة في 'text' مع وضع [____] مكان الكلمة الناقصة. الكلمة الناقصة تكون في 'correctAnswer'.
     3. ${QuestionType.ORDERING}: ضع السؤال في 'text'. ضع الخطوات *مرتبة بشكل صحيح* في مصفوفة JSON stringified داخل 'correctAnswer'. ضع الخطوات *مبعثرة* في 'options'.
     4. ${QuestionType.MATCHING}: ضع السؤال في 'text'. عبئ مصفوفة 'matches' بالأزواج الصحيحة (left, right).
+    5. ${QuestionType.SHORT_ANSWER} و ${QuestionType.FILL_BLANKS}: اجعل 'correctAnswer' قصيرة (كلمة أو عبارة)، وضع في 'acceptedAnswers' الصيغ الأخرى الصحيحة (مرادفات، جمع/مفرد، رقم بدل الكلمة).
+    6. لكل سؤال: ضع في 'concept' اسم المفهوم أو الموضوع الفرعي الذي يقيسه (من كلمتين إلى أربع كلمات)، واستخدم نفس التسمية حرفياً للأسئلة التي تقيس المفهوم نفسه.
     
     هام جداً:
     إذا كان عدد الأسئلة المطلوب كبيراً مقارنة بحجم النص:
@@ -280,37 +342,90 @@ export const generateQuiz = async (text: string, quizConfig: QuizConfig, aiConfi
     المطلوب:
   `;
 
-  if (quizConfig.mode === 'COMPREHENSIVE') {
-      prompt += `
-      أنشئ 20 سؤالاً متنوعاً وشاملاً يغطي جميع جوانب الدرس. نوع بين الاختياري، صح وخطأ، وأكمل الفراغ.
-      `;
-  } else {
-      const reqs = [];
-      Object.entries(quizConfig.typeCounts).forEach(([type, count]) => {
-          if(count > 0) reqs.push(`${count} أسئلة من نوع ${type}`);
+  // توزيع عدد الأسئلة المطلوب على أجزاء النص
+  const chunks = splitIntoChunks(text, QUIZ_CHUNK_SIZE);
+  const comprehensiveCounts = distributeCount(20, chunks.length);
+  const typeCountsPerChunk: Partial<Record<QuestionType, number>>[] = chunks.map(() => ({}));
+  Object.entries(quizConfig.typeCounts).forEach(([type, count]) => {
+      distributeCount(count || 0, chunks.length).forEach((n, i) => {
+          if (n > 0) typeCountsPerChunk[i][type as QuestionType] = n;
       });
-      prompt += `أنشئ الأسئلة التالية بالضبط: ${reqs.join("، ")}.`;
-  }
-  
-  prompt += `\nالنص: ${text.substring(0, 30000)}`;
-
-  const response = await ai.models.generateContent({
-    model: aiConfig.model,
-    contents: prompt,
-    config: { responseMimeType: "application/json", responseSchema: schema, temperature: 0.4 }
   });
 
+  const buildPrompt = (chunk: string, i: number) => {
+      let prompt = basePrompt + partLabel(i, chunks.length);
+      if (quizConfig.mode === 'COMPREHENSIVE') {
+          if (comprehensiveCounts[i] === 0) return null; // More chunks than questions: the rest get none
+          prompt += `
+      أنشئ ${comprehensiveCounts[i]} سؤالاً متنوعاً وشاملاً يغطي جميع جوانب ${chunks.length > 1 ? 'هذا الجزء' : 'الدرس'}. نوع بين الاختياري، صح وخطأ، وأكمل الفراغ.
+      `;
+      } else {
+          const reqs: string[] = [];
+          Object.entries(typeCountsPerChunk[i]).forEach(([type, count]) => {
+              if (count && count > 0) reqs.push(`${count} أسئلة من نوع ${type}`);
+          });
+          if (reqs.length === 0) return null;
+          prompt += `أنشئ الأسئلة التالية بالضبط: ${reqs.join("، ")}.`;
+      }
+      return prompt + `\nالنص: ${chunk}`;
+  };
+
   try {
-    const data = JSON.parse(response.text || "{}");
-    return data as Quiz;
+    const quizzes = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, i) => {
+        const prompt = buildPrompt(chunk, i);
+        if (!prompt) return null;
+        return provider.generateStructured<Quiz>(prompt, schema, { temperature: 0.4 });
+    }, onProgress);
+
+    const valid = quizzes.filter((q): q is Quiz => !!q && Array.isArray(q.questions));
+    if (valid.length === 0) throw new Error("Empty quiz");
+    const questions = dedupeBy(valid.flatMap(q => q.questions), q => q.text).map((q, idx) => ({ ...q, id: idx + 1 }));
+    return { title: valid[0].title, questions, config: quizConfig };
   } catch (e) {
     console.error("Failed to parse quiz JSON", e);
     throw new Error("فشل في إنشاء الاختبار");
   }
 };
 
-export const analyzeQuizPerformance = async (result: QuizResult, studentName: string, aiConfig: { apiKey?: string; model: string }): Promise<string> => {
-    const ai = getClient(aiConfig.apiKey);
+// الاختبار التكيفي يستخدم أسئلة تُصحَّح آلياً فقط، حتى يُحدَّث تقدير المستوى بعد كل إجابة
+const ADAPTIVE_TYPE_COUNTS: Partial<Record<QuestionType, number>> = {
+  [QuestionType.MULTIPLE_CHOICE]: 4,
+  [QuestionType.TRUE_FALSE]: 2,
+  [QuestionType.FILL_BLANKS]: 2
+};
+
+/** أسئلة إضافية بمستوى صعوبة محدد، يطلبها الاختبار التكيفي عندما تنفد أسئلة هذا المستوى. */
+export const generateQuestionsAtLevel = async (
+  text: string,
+  difficulty: DifficultyLevel,
+  aiConfig: AIConfig,
+  onProgress?: ProgressCallback
+): Promise<Question[]> => {
+  const quiz = await generateQuiz(text, { typeCounts: ADAPTIVE_TYPE_COUNTS, mode: 'CUSTOM', difficulty }, aiConfig, onProgress);
+  return quiz.questions.map(q => ({ ...q, difficulty }));
+};
+
+/** مخزون أسئلة بالمستويات الثلاثة؛ يختار منه الاختبار التكيفي السؤال التالي حسب تقدير مستوى الطالب. */
+export const generateAdaptiveQuiz = async (text: string, quizConfig: QuizConfig, aiConfig: AIConfig, onProgress?: ProgressCallback): Promise<Quiz> => {
+  const levels = [DifficultyLevel.MEDIUM, DifficultyLevel.EASY, DifficultyLevel.HARD];
+  const pools: Question[][] = [];
+  let title = '';
+  for (let i = 0; i < levels.length; i++) {
+    const quiz = await generateQuiz(
+      text,
+      { ...quizConfig, typeCounts: ADAPTIVE_TYPE_COUNTS, mode: 'CUSTOM', difficulty: levels[i] },
+      aiConfig,
+      onProgress && ((done, total) => onProgress(i * total + done, levels.length * total))
+    );
+    title = title || quiz.title;
+    pools.push(quiz.questions.map(q => ({ ...q, difficulty: levels[i] })));
+  }
+  const questions = dedupeBy(pools.flat(), q => q.text).map((q, idx) => ({ ...q, id: idx + 1 }));
+  return { title, questions, config: { ...quizConfig, mode: 'ADAPTIVE', difficulty: DifficultyLevel.MEDIUM } };
+};
+
+export const analyzeQuizPerformance = async (result: QuizResult, studentName: string, aiConfig: AIConfig): Promise<string> => {
+    const provider = getProvider(aiConfig);
     
     // البرومبت المُحسن للتحليل: يركز على الفجوات المفاهيمية وتقديم خطة مراجعة محددة.
     const prompt = `
@@ -331,28 +446,22 @@ export const analyzeQuizPerformance = async (result: QuizResult, studentName: st
     اجعل الرد موجزاً وذا قيمة عالية، لا يتجاوز 120 كلمة.
     `;
 
-    const response = await ai.models.generateContent({
-        model: aiConfig.model,
-        contents: prompt
-    });
+    const text = await provider.generateText(prompt);
 
-    return response.text || "أحسنت المحاولة! راجع الدرس مرة أخرى لتعزيز المعلومات.";
+    return text || "أحسنت المحاولة! راجع الدرس مرة أخرى لتعزيز المعلومات.";
 };
 
 export const chatWithLesson = async (
     context: string, 
     message: string, 
     studentName: string, 
-    config: { apiKey?: string; model: string }, 
-    history: any[] = [],
+    config: AIConfig, 
+    history: LLMMessage[] = [],
     image?: { data: string, mimeType: string }
 ) => {
-  const ai = getClient(config.apiKey);
+  const provider = getProvider(config);
   // التعليمات المُحسنة للشات: تركز على أسلوب المعلم الخبير (Socratic Method)
-  const chat = ai.chats.create({
-    model: config.model,
-    config: { 
-        systemInstruction: `
+  const systemInstruction = `
         أنت مدرس خصوصي خبير يدعى "فصيح". 
         اسم الطالب هو "${studentName || 'يا بطل'}". خاطبه باسمه دائماً وكن ودوداً وصبوراً.
         مهمتك هي شرح أي مفهوم يصعب عليه فهمه.
@@ -362,22 +471,13 @@ export const chatWithLesson = async (
         2. عند الشرح، استخدم التشبيهات والأمثلة الواقعية.
         3. كن مختصراً في البداية، ثم تعمق في التفاصيل إذا طلب الطالب ذلك.
         4. المرجع الأساسي لشرحك هو الدرس الحالي: ${context.substring(0, 20000)}
-        ` 
-    },
-    history: history
-  });
+        `;
   
-  let msgContent: any = { text: message };
+  const parts: LLMPart[] = [{ text: message }];
   
   if (image) {
-      msgContent = {
-          parts: [
-              { text: message },
-              { inlineData: { mimeType: image.mimeType, data: image.data } }
-          ]
-      };
+      parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } });
   }
 
-  const result = await chat.sendMessage({ message: msgContent });
-  return result.text;
+  return provider.chat(history, parts, { systemInstruction });
 };
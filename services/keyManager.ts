@@ -0,0 +1,176 @@
+/**
+ * مدير مفاتيح API
+ * يتتبع صحة كل مفتاح (النجاح، الأخطاء، الحظر المؤقت)، ويدور بين المفاتيح السليمة،
+ * ويعيد نفس الطلب على المفتاح التالي عند نفاد الحصة أو رفض المفتاح مع انتظار تصاعدي.
+ */
+
+const STORAGE_KEY = 'faseeh_key_health';
+const BASE_COOLDOWN_MS = 60 * 1000;        // أول حظر مؤقت عند تجاوز الحد: دقيقة
+const MAX_COOLDOWN_MS = 60 * 60 * 1000;    // أقصى حظر مؤقت: ساعة
+const FORBIDDEN_COOLDOWN_MS = 10 * 60 * 1000; // رفض الصلاحية (403) قد يخص نموذجاً واحداً، فيُوقف المفتاح مؤقتاً فقط
+const BASE_BACKOFF_MS = 500;
+
+export type KeyStatus = 'healthy' | 'cooldown' | 'invalid';
+
+export interface KeyHealth {
+  successCount: number;
+  failureCount: number;
+  rateLimitStreak: number; // مرات تجاوز الحد المتتالية، تحدد مدة الحظر التالي
+  cooldownUntil?: number;
+  invalid?: boolean;
+  lastError?: string;
+  lastUsed?: number;
+}
+
+type FailureKind = 'auth' | 'forbidden' | 'rate_limit' | 'server' | 'other';
+
+// تصنيف الخطأ حسب رمز HTTP أو نص الرسالة (أخطاء Gemini تحمل status، وأخطاء fetch تحمل الرمز في الرسالة)
+const classifyError = (error: any): FailureKind => {
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const message = String(error?.message || error || '');
+
+  if (status === 401 || /API key not valid|API_KEY_INVALID|\(401\)/i.test(message)) return 'auth';
+  if (status === 403 || /PERMISSION_DENIED|\(403\)/i.test(message)) return 'forbidden';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|\(429\)/i.test(message)) return 'rate_limit';
+  if ((status !== undefined && status >= 500) || /\(5\d\d\)|UNAVAILABLE|INTERNAL/i.test(message)) return 'server';
+  return 'other';
+};
+
+const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class KeyManager {
+  private health: Record<string, KeyHealth> = {};
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      try {
+        this.health = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      } catch (e) {
+        this.health = {};
+      }
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.health));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private entry(key: string): KeyHealth {
+    if (!this.health[key]) {
+      this.health[key] = { successCount: 0, failureCount: 0, rateLimitStreak: 0 };
+    }
+    return this.health[key];
+  }
+
+  getHealth(key: string): KeyHealth {
+    return this.health[key] || { successCount: 0, failureCount: 0, rateLimitStreak: 0 };
+  }
+
+  getStatus(key: string, now: number = Date.now()): KeyStatus {
+    const h = this.health[key];
+    if (!h) return 'healthy';
+    if (h.invalid) return 'invalid';
+    if (h.cooldownUntil && h.cooldownUntil > now) return 'cooldown';
+    return 'healthy';
+  }
+
+  // المفاتيح السليمة أولاً (الأقل استخداماً مؤخراً)، ثم المحظورة مؤقتاً حسب قرب انتهاء الحظر. المفاتيح المرفوضة تُستبعد.
+  orderKeys(keys: string[], now: number = Date.now()): string[] {
+    const unique = Array.from(new Set(keys.filter(Boolean)));
+    const healthy = unique
+      .filter(k => this.getStatus(k, now) === 'healthy')
+      .sort((a, b) => (this.getHealth(a).lastUsed || 0) - (this.getHealth(b).lastUsed || 0));
+    const cooling = unique
+      .filter(k => this.getStatus(k, now) === 'cooldown')
+      .sort((a, b) => (this.getHealth(a).cooldownUntil || 0) - (this.getHealth(b).cooldownUntil || 0));
+    return [...healthy, ...cooling];
+  }
+
+  pickKey(keys: string[]): string | undefined {
+    return this.orderKeys(keys)[0];
+  }
+
+  reportSuccess(key: string) {
+    const h = this.entry(key);
+    h.successCount += 1;
+    h.rateLimitStreak = 0;
+    h.cooldownUntil = undefined;
+    h.lastUsed = Date.now();
+    this.persist();
+  }
+
+  reportFailure(key: string, error: any): FailureKind {
+    const kind = classifyError(error);
+    const h = this.entry(key);
+    h.failureCount += 1;
+    h.lastUsed = Date.now();
+    h.lastError = String(error?.message || error || '').substring(0, 200);
+
+    if (kind === 'auth') {
+      h.invalid = true;
+    } else if (kind === 'forbidden') {
+      h.cooldownUntil = Date.now() + FORBIDDEN_COOLDOWN_MS;
+    } else if (kind === 'rate_limit') {
+      h.cooldownUntil = Date.now() + Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** h.rateLimitStreak);
+      h.rateLimitStreak += 1;
+    }
+    this.persist();
+    return kind;
+  }
+
+  // إعادة تفعيل مفتاح (أو كل المفاتيح) بعد تصحيحه يدوياً
+  reset(key?: string) {
+    if (key) delete this.health[key];
+    else this.health = {};
+    this.persist();
+  }
+
+  // إزالة سجلات المفاتيح التي حُذفت من الإعدادات
+  prune(keys: string[]) {
+    const keep = new Set(keys);
+    Object.keys(this.health).forEach(k => { if (!keep.has(k)) delete this.health[k]; });
+    this.persist();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * ينفذ الطلب بمفتاح سليم، وعند الفشل بسبب المفتاح (رفض/حصة) أو الخادم ينتقل للمفتاح التالي
+   * مع انتظار تصاعدي. بدون مفاتيح يُنفذ الطلب مرة واحدة بمفتاح البيئة (undefined)،
+   * أما إذا كانت كل المفاتيح المحفوظة مرفوضة فيفشل الطلب برسالة واضحة بدلاً من الرجوع لمفتاح البيئة.
+   */
+  async run<T>(keys: string[] | undefined, task: (key: string | undefined) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!keys?.some(Boolean)) return task(undefined);
+    const ordered = this.orderKeys(keys);
+    if (ordered.length === 0) {
+      throw new Error('كل مفاتيح API المحفوظة مرفوضة. راجعها أو أعد تفعيلها من تبويب "مفاتيح API" في الإعدادات.');
+    }
+
+    let lastError: any = null;
+    for (let attempt = 0; attempt < ordered.length; attempt++) {
+      const key = ordered[attempt];
+      try {
+        const result = await task(key);
+        this.reportSuccess(key);
+        return result;
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+        lastError = error;
+        const kind = this.reportFailure(key, error);
+        // أخطاء المحتوى أو التحليل لن تُحل بتغيير المفتاح
+        if (kind === 'other') throw error;
+        if (attempt < ordered.length - 1) await sleep(BASE_BACKOFF_MS * 2 ** attempt);
+      }
+    }
+    throw lastError;
+  }
+}
+
+export const keyManager = new KeyManager();
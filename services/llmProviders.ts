@@ -0,0 +1,302 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { AIConfig, AppSettings, TaskModels, LLMProviderId } from "../types";
+import { keyManager } from "./keyManager";
+
+/**
+ * طبقة مزودي النماذج اللغوية
+ * واجهة موحدة (نص، مخرجات منظمة JSON، محادثة، وسائط متعددة) مع تنفيذين:
+ * Gemini عبر @google/genai، وأي خادم متوافق مع OpenAI (Ollama، llama.cpp، OpenRouter...)
+ */
+
+const ENV_API_KEY = process.env.API_KEY || '';
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }; // data بصيغة Base64 بدون بادئة data:
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+// مخطط JSON محايد، يتحول لصيغة كل مزود عند الطلب
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface GenerateOptions {
+  systemInstruction?: string;
+  temperature?: number;
+  useWebSearch?: boolean; // مدعوم في Gemini فقط، ويتم تجاهله في بقية المزودين
+  signal?: AbortSignal; // لإلغاء الطلب الجاري
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  generateText(input: string | LLMPart[], options?: GenerateOptions): Promise<string>;
+  // يعيد النص على دفعات (الجزء الجديد فقط في كل دفعة) فور وصولها من الخادم
+  generateTextStream(input: string | LLMPart[], options?: GenerateOptions): AsyncGenerator<string>;
+  generateStructured<T>(input: string | LLMPart[], schema: JsonSchema, options?: GenerateOptions): Promise<T>;
+  chat(history: LLMMessage[], message: string | LLMPart[], options?: GenerateOptions): Promise<string>;
+}
+
+const toParts = (input: string | LLMPart[]): LLMPart[] => typeof input === 'string' ? [{ text: input }] : input;
+
+// يزيل أسوار الكود (```json) التي تضيفها بعض النماذج المحلية حول JSON
+const parseJsonResponse = <T>(raw: string): T => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim();
+  return JSON.parse(cleaned) as T;
+};
+
+// ================= Gemini =================
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  required: schema.required
+});
+
+// كل طلب يمر عبر keyManager: يختار مفتاحاً سليماً وينتقل للتالي عند نفاد الحصة أو رفض المفتاح
+class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  private keys: string[];
+  private model: string;
+
+  constructor(config: AIConfig) {
+    this.keys = config.apiKeys || (config.apiKey ? [config.apiKey] : []);
+    this.model = config.model;
+  }
+
+  private client(apiKey?: string) {
+    return new GoogleGenAI({ apiKey: apiKey || ENV_API_KEY });
+  }
+
+  private buildConfig(options: GenerateOptions = {}) {
+    return {
+      systemInstruction: options.systemInstruction,
+      temperature: options.temperature,
+      tools: options.useWebSearch ? [{ googleSearch: {} }] : undefined,
+      abortSignal: options.signal
+    };
+  }
+
+  async generateText(input: string | LLMPart[], options?: GenerateOptions): Promise<string> {
+    const response = await keyManager.run(this.keys, key => this.client(key).models.generateContent({
+      model: this.model,
+      contents: input,
+      config: this.buildConfig(options)
+    }), options?.signal);
+    return response.text || '';
+  }
+
+  // التبديل بين المفاتيح ممكن فقط قبل وصول أول دفعة من البث
+  async *generateTextStream(input: string | LLMPart[], options?: GenerateOptions): AsyncGenerator<string> {
+    const stream = await keyManager.run(this.keys, key => this.client(key).models.generateContentStream({
+      model: this.model,
+      contents: input,
+      config: this.buildConfig(options)
+    }), options?.signal);
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async generateStructured<T>(input: string | LLMPart[], schema: JsonSchema, options?: GenerateOptions): Promise<T> {
+    const response = await keyManager.run(this.keys, key => this.client(key).models.generateContent({
+      model: this.model,
+      contents: input,
+      config: {
+        ...this.buildConfig(options),
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema)
+      }
+    }), options?.signal);
+    return parseJsonResponse<T>(response.text || '');
+  }
+
+  async chat(history: LLMMessage[], message: string | LLMPart[], options?: GenerateOptions): Promise<string> {
+    const result = await keyManager.run(this.keys, key => {
+      const chat = this.client(key).chats.create({
+        model: this.model,
+        config: this.buildConfig(options),
+        history
+      });
+      return chat.sendMessage({ message: toParts(message) });
+    }, options?.signal);
+    return result.text || '';
+  }
+}
+
+// ================= OpenAI-compatible =================
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+const toOpenAIContent = (parts: LLMPart[]): string | OpenAIContentPart[] => {
+  if (parts.every(p => 'text' in p)) {
+    return parts.map(p => (p as { text: string }).text).join('\n');
+  }
+  return parts.map((part): OpenAIContentPart => {
+    if ('text' in part) return { type: 'text', text: part.text };
+    const { mimeType, data } = part.inlineData;
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    if (mimeType.startsWith('audio/')) {
+      const format = mimeType.includes('wav') ? 'wav' : 'mp3';
+      return { type: 'input_audio', input_audio: { data, format } };
+    }
+    throw new Error(`نوع الوسائط ${mimeType} غير مدعوم لدى هذا المزود`);
+  });
+};
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+
+  constructor(config: AIConfig) {
+    if (!config.baseUrl) throw new Error('يجب تحديد عنوان الخادم (Base URL) للمزود المتوافق مع OpenAI');
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+  }
+
+  private async request(messages: OpenAIMessage[], options: GenerateOptions = {}, extraBody: object = {}): Promise<Response> {
+    const allMessages: OpenAIMessage[] = options.systemInstruction
+      ? [{ role: 'system', content: options.systemInstruction }, ...messages]
+      : messages;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: allMessages,
+        temperature: options.temperature,
+        ...extraBody
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${detail.substring(0, 300)}`);
+    }
+    return response;
+  }
+
+  private async complete(messages: OpenAIMessage[], options: GenerateOptions = {}, responseFormat?: object): Promise<string> {
+    const response = await this.request(messages, options, { response_format: responseFormat });
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+
+  generateText(input: string | LLMPart[], options?: GenerateOptions): Promise<string> {
+    return this.complete([{ role: 'user', content: toOpenAIContent(toParts(input)) }], options);
+  }
+
+  // قراءة استجابة Server-Sent Events سطراً بسطر (data: {...})
+  async *generateTextStream(input: string | LLMPart[], options?: GenerateOptions): AsyncGenerator<string> {
+    const response = await this.request([{ role: 'user', content: toOpenAIContent(toParts(input)) }], options, { stream: true });
+    if (!response.body) throw new Error('الخادم لا يدعم البث المباشر');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (e) {
+          // سطر غير مكتمل أو تعليق من الخادم
+        }
+      }
+    }
+  }
+
+  async generateStructured<T>(input: string | LLMPart[], schema: JsonSchema, options?: GenerateOptions): Promise<T> {
+    const raw = await this.complete(
+      [{ role: 'user', content: toOpenAIContent(toParts(input)) }],
+      options,
+      { type: 'json_schema', json_schema: { name: 'response', schema } }
+    );
+    return parseJsonResponse<T>(raw);
+  }
+
+  chat(history: LLMMessage[], message: string | LLMPart[], options?: GenerateOptions): Promise<string> {
+    const messages: OpenAIMessage[] = history.map(m => ({
+      role: m.role === 'model' ? 'assistant' : 'user',
+      content: toOpenAIContent(m.parts)
+    }));
+    messages.push({ role: 'user', content: toOpenAIContent(toParts(message)) });
+    return this.complete(messages, options);
+  }
+}
+
+export const getProvider = (config: AIConfig): LLMProvider => {
+  return config.provider === 'openai' ? new OpenAICompatibleProvider(config) : new GeminiProvider(config);
+};
+
+// تحديد المزود والنموذج والمفتاح لكل مهمة حسب الإعدادات
+export const resolveTaskConfig = (settings: AppSettings, task: keyof TaskModels): AIConfig => {
+  const provider = settings.taskProviders?.[task] || 'gemini';
+
+  if (provider === 'openai' && settings.openAICompatible) {
+    const openAI = settings.openAICompatible;
+    return {
+      provider,
+      baseUrl: openAI.baseUrl,
+      apiKey: openAI.apiKey,
+      model: openAI.taskModels?.[task] || ''
+    };
+  }
+
+  return {
+    provider: 'gemini',
+    apiKeys: settings.apiKeys || [],
+    model: settings.taskModels?.[task] || settings.activeModel
+  };
+};
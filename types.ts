@@ -19,9 +19,29 @@ export interface SummaryPoint {
   explanation: string;
 }
 
+export type ReviewGrade = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
+
+export interface CardSchedule {
+  ease: number; // SM-2 ease factor
+  interval: number; // in days
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  dueDate: string; // ISO date
+  lastReviewed?: string;
+}
+
 export interface Flashcard {
+  id?: string; // Missing on cards saved before ids were assigned; those are matched by their front text
   front: string;
   back: string;
+  schedule?: CardSchedule; // Missing until the card is reviewed for the first time
+  tags?: string[]; // Kept from imported decks (CSV/TSV); exports add the lesson title tag
+}
+
+// One lesson's cards as they leave the app (Anki package, CSV/TSV)
+export interface FlashcardDeck {
+  title: string;
+  cards: Flashcard[];
 }
 
 export enum QuestionType {
@@ -39,13 +59,27 @@ export enum DifficultyLevel {
   HARD = 'HARD'
 }
 
+export type MatchingScoring = 'ALL_OR_NOTHING' | 'PROPORTIONAL';
+export type OrderingScoring = 'ALL_OR_NOTHING' | 'LONGEST_SUBSEQUENCE' | 'KENDALL_TAU';
+
+// How partly right answers earn credit (see scoreQuestion in utils/grading.ts); unset fields fall back to the quiz, then the defaults
+export interface ScoringRules {
+  matching?: MatchingScoring;
+  ordering?: OrderingScoring;
+  negativeMarking?: number; // 0-1, share of a point taken off a wrong multiple-choice answer (blank answers cost nothing)
+}
+
 export interface QuizConfig {
   typeCounts: Partial<Record<QuestionType, number>>;
-  mode?: 'CUSTOM' | 'COMPREHENSIVE' | 'MANUAL_ONLY';
+  mode?: 'CUSTOM' | 'COMPREHENSIVE' | 'MANUAL_ONLY' | 'ADAPTIVE';
   difficulty: DifficultyLevel;
   enableTimer?: boolean;
-  timerDuration?: number; // in minutes
+  timerMode?: 'TOTAL' | 'PER_QUESTION'; // Defaults to TOTAL
+  timerDuration?: number; // in minutes (TOTAL)
+  questionTimeLimit?: number; // in seconds (PER_QUESTION)
   instantFeedback?: boolean;
+  similarityThreshold?: number; // 0-1, minimum similarity for written answers (see utils/grading.ts)
+  scoring?: ScoringRules;
 }
 
 export interface Question {
@@ -55,29 +89,64 @@ export interface Question {
   options?: string[]; // For MCQ (choices), MATCHING (right column items), ORDERING (shuffled items)
   matches?: { left: string; right: string }[]; // For MATCHING pair definition
   correctAnswer: string | boolean | string[]; // string[] for Ordering (correct sequence)
+  acceptedAnswers?: string[]; // Other correct wordings for SHORT_ANSWER / FILL_BLANKS
   explanation: string;
+  concept?: string; // Short topic label from the generator; groups questions in the weak-area analytics
+  difficulty?: DifficultyLevel; // Set on adaptive quiz questions; others take the quiz's difficulty
+  scoring?: ScoringRules; // Overrides the quiz's rules for this question
 }
 
 export interface Quiz {
   title: string;
   questions: Question[];
   config?: QuizConfig;
+  lessonId?: string; // Lesson the quiz was generated from (kept in result snapshots for per-lesson analytics)
+  lessonTitle?: string;
+  assignmentId?: string; // Set when the quiz comes from a teacher's assignment; its result can be exported back
 }
 
 export interface QuizResult {
   id: string;
   date: string;
-  score: number;
+  score: number; // Sum of the question credits, so it can be fractional
   total: number;
   details: {
     questionText: string;
     userAnswer: string;
     correctAnswer: string;
-    isCorrect: boolean;
+    isCorrect: boolean; // Fully correct
+    credit?: number; // Points earned, from -negativeMarking to 1; missing for results saved before partial credit (1 or 0)
     explanation: string;
+    timeSpent?: number; // Seconds on screen, pauses excluded; missing for results saved before timing was recorded
+    timedOut?: boolean; // The per-question time limit ran out
   }[];
   quizSnapshot?: Quiz;
   aiAnalysis?: string; // New field for AI feedback
+  ability?: AbilityEstimate; // Final estimate of an adaptive quiz
+  duration?: number; // Seconds spent answering, pauses excluded
+  pauses?: number;
+}
+
+// Rasch ability estimate (see utils/adaptiveTesting.ts)
+export interface AbilityEstimate {
+  theta: number; // Ability on the logit scale; 0 matches a MEDIUM question
+  standardError: number;
+  level: DifficultyLevel; // Difficulty closest to the ability
+  answered: number;
+}
+
+// A question kept in the question bank for reuse; the tags are flat fields so the bank can be filtered without an API call
+export interface BankQuestion {
+  id: string;
+  date: string; // When it entered the bank
+  question: Question;
+  source: 'GENERATED' | 'MANUAL' | 'IMPORTED';
+  type: QuestionType;
+  difficulty?: DifficultyLevel;
+  lessonId?: string;
+  lessonTitle?: string;
+  subject?: string;
+  timesUsed: number; // Quizzes assembled from the bank that included it
 }
 
 export interface UserHistory {
@@ -92,6 +161,13 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  messages: ChatMessage[];
+}
+
 export interface ToastNotification {
   id: string;
   type: 'success' | 'error' | 'info';
@@ -105,11 +181,73 @@ export interface TaskModels {
   chat: string;
 }
 
+export type LLMProviderId = 'gemini' | 'openai';
+
+export type TaskProviders = Record<keyof TaskModels, LLMProviderId>;
+
+// Any server speaking the OpenAI chat-completions API (OpenAI, OpenRouter, Ollama, llama.cpp, LM Studio...)
+export interface OpenAICompatibleSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  taskModels: TaskModels;
+}
+
+// Resolved connection details for a single AI call
+export interface AIConfig {
+  model: string;
+  apiKey?: string;
+  apiKeys?: string[]; // Key pool for rotation/failover (Gemini); takes precedence over apiKey
+  provider?: LLMProviderId; // Defaults to 'gemini'
+  baseUrl?: string;
+}
+
 export interface UserStats {
   xp: number;
   level: number;
-  streak: number;
-  lastLoginDate: string;
+  streak: number; // Consecutive days with XP earned (see utils/gamification.ts)
+  lastLoginDate?: string; // Legacy: last visit as Date.toDateString(), read once to seed lastActiveDate
+  lastActiveDate?: string; // Local YYYY-MM-DD of the last day with XP
+  bestStreak?: number;
+  streakFreezes?: number; // Each one covers a single missed day
+  useStreakFreezes?: boolean; // Defaults to true
+  achievements?: Record<string, string>; // Achievement id -> ISO date unlocked
+  weeklyXPGoal?: number;
+}
+
+export type PlanTaskKind = 'STUDY_LESSON' | 'READ_BOOK' | 'REVIEW' | 'QUIZ';
+
+// One day's item in an exam's study plan (see utils/studyPlanner.ts)
+export interface PlanTask {
+  id: string; // Stable across re-planning, so completed work is recognised
+  date: string; // Local YYYY-MM-DD
+  kind: PlanTaskKind;
+  title: string;
+  lessonId?: string;
+  bookId?: string;
+  pages?: [number, number]; // READ_BOOK: first and last page
+  completedAt?: string; // ISO
+}
+
+export interface Exam {
+  id: string;
+  title: string;
+  date: string; // Local YYYY-MM-DD of the exam day
+  lessonIds: string[];
+  bookIds: string[];
+  createdAt: string;
+  plan: PlanTask[];
+}
+
+export type XPSource = 'LESSON' | 'SUMMARY' | 'FLASHCARDS' | 'QUIZ' | 'REVIEW';
+
+// One entry of the append-only XP ledger
+export interface XPEvent {
+  id: string;
+  date: string; // ISO
+  source: XPSource;
+  amount: number;
+  label?: string; // Quiz title
+  percent?: number; // QUIZ: score in percent
 }
 
 export interface AppSettings {
@@ -120,7 +258,54 @@ export interface AppSettings {
   activeModel: string;
   customModels: string[];
   taskModels: TaskModels;
+  taskProviders?: TaskProviders; // Missing entries use Gemini
+  openAICompatible?: OpenAICompatibleSettings;
   userStats: UserStats;
+  teacherMode?: boolean; // Shows the gradebook and lets quizzes be sent out as assignments
+}
+
+// A lesson, its quiz and flashcards as a teacher sends them to the class (see utils/classroom.ts)
+export interface Assignment {
+  id: string;
+  title: string;
+  teacherName: string;
+  createdAt: string;
+  lesson?: { // Missing when the quiz wasn't built from an open lesson (question bank, imported file)
+    title: string;
+    content: string;
+    summary: SummaryPoint[];
+    subject?: string;
+  };
+  quiz: Quiz;
+  flashcards: Flashcard[];
+}
+
+export interface AssignmentRecord {
+  id: string; // The assignment id
+  date: string; // When it was issued or imported
+  role: 'ISSUED' | 'RECEIVED';
+  assignment: Assignment;
+  teacherKey: string; // Fingerprint of the key that signed it, for comparing with the teacher's
+  sessionId?: string; // The lesson created from it on the student's device
+  submission?: QuizResult; // The student's latest attempt
+}
+
+// A student's result imported into the teacher's gradebook
+export interface ClassResult {
+  id: string;
+  date: string; // When the student submitted
+  assignmentId: string;
+  assignmentTitle: string;
+  studentName: string;
+  result: QuizResult;
+}
+
+// A student sharing the device; their settings, lessons, quiz history and library are stored apart (see utils/profiles.ts)
+export interface StudentProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  pinHash?: string; // SHA-256 of the optional PIN, salted with the profile id
 }
 
 export interface LessonSession {
@@ -130,8 +315,24 @@ export interface LessonSession {
   content: string;
   summary: SummaryPoint[];
   flashcards?: Flashcard[];
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Legacy single conversation; migrated into chatThreads when the lesson is opened
+  chatThreads?: ChatThread[];
+  activeThreadId?: string;
   mindMap?: string;
+  subject?: string; // From the topic form; tags the lesson's questions in the question bank
+  gradeLevel?: string;
+  curriculum?: string;
+  unitId?: string; // CurriculumUnit within the subject; lessons without one sit directly under the subject
+  order?: number; // Position among the lessons of the same unit; missing for lessons never reordered
+}
+
+// A unit groups a subject's lessons in the curriculum tree; subjects themselves are just the lessons' subject names
+export interface CurriculumUnit {
+  id: string;
+  subject: string;
+  title: string;
+  order: number;
+  createdAt: string;
 }
 
 export interface Folder {
@@ -154,3 +355,11 @@ export interface StoredBookFile {
   id: string;
   fileData: Blob;
 }
+
+// Extracted PDF text, one record per page, used by the search index
+export interface BookPageText {
+  id: string; // `${bookId}:${page}`
+  bookId: string;
+  page: number; // 1-based
+  text: string;
+}
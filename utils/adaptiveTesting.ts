@@ -0,0 +1,73 @@
+// Adaptive quizzes: a Rasch (one-parameter IRT) ability estimate picks the difficulty of the next question
+import { Question, DifficultyLevel, AbilityEstimate } from '../types';
+
+// Item difficulty on the ability scale for each generated level
+export const ITEM_DIFFICULTY: Record<DifficultyLevel, number> = {
+  [DifficultyLevel.EASY]: -1,
+  [DifficultyLevel.MEDIUM]: 0,
+  [DifficultyLevel.HARD]: 1
+};
+
+export const ADAPTIVE_LIMITS = {
+  minQuestions: 6,
+  maxQuestions: 15,
+  targetStandardError: 0.55 // The quiz ends once the estimate is this certain
+};
+
+export interface AdaptiveResponse {
+  difficulty: DifficultyLevel;
+  isCorrect: boolean;
+}
+
+// An adaptive attempt in progress: the generated pool and the questions drawn from it so far
+export interface AdaptiveState {
+  pool: Question[];
+  asked: Question[];
+  responses: AdaptiveResponse[];
+  estimate: AbilityEstimate;
+}
+
+// Expected a posteriori estimate over a grid with a standard normal prior: stays finite when every answer is
+// right (or wrong), which maximum likelihood doesn't
+const GRID = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1);
+
+const probabilityCorrect = (theta: number, difficulty: number) => 1 / (1 + Math.exp(difficulty - theta));
+
+export const estimateAbility = (responses: AdaptiveResponse[]): AbilityEstimate => {
+  const weights = GRID.map(theta =>
+    responses.reduce((weight, { difficulty, isCorrect }) => {
+      const p = probabilityCorrect(theta, ITEM_DIFFICULTY[difficulty]);
+      return weight * (isCorrect ? p : 1 - p);
+    }, Math.exp(-(theta * theta) / 2))
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const theta = GRID.reduce((sum, t, i) => sum + t * weights[i], 0) / total;
+  const variance = GRID.reduce((sum, t, i) => sum + (t - theta) ** 2 * weights[i], 0) / total;
+  return { theta: Number(theta.toFixed(2)), standardError: Number(Math.sqrt(variance).toFixed(2)), level: levelFor(theta), answered: responses.length };
+};
+
+// A Rasch item is most informative when its difficulty matches the ability, so take the closest level
+export function levelFor(theta: number): DifficultyLevel {
+  return (Object.keys(ITEM_DIFFICULTY) as DifficultyLevel[])
+    .reduce((best, level) => (Math.abs(ITEM_DIFFICULTY[level] - theta) < Math.abs(ITEM_DIFFICULTY[best] - theta) ? level : best));
+}
+
+export const isEstimateConfident = (estimate: AbilityEstimate): boolean =>
+  estimate.answered >= ADAPTIVE_LIMITS.maxQuestions ||
+  (estimate.answered >= ADAPTIVE_LIMITS.minQuestions && estimate.standardError <= ADAPTIVE_LIMITS.targetStandardError);
+
+/** Next unasked question at `level`, falling back to the nearest level that still has questions. */
+export const pickQuestion = (pool: Question[], askedIds: Set<number>, level: DifficultyLevel): Question | null => {
+  const remaining = pool.filter(q => !askedIds.has(q.id));
+  const byDistance = [...remaining].sort((a, b) =>
+    Math.abs(ITEM_DIFFICULTY[a.difficulty || DifficultyLevel.MEDIUM] - ITEM_DIFFICULTY[level]) -
+    Math.abs(ITEM_DIFFICULTY[b.difficulty || DifficultyLevel.MEDIUM] - ITEM_DIFFICULTY[level])
+  );
+  return byDistance[0] || null;
+};
+
+export const ABILITY_LABELS: Record<DifficultyLevel, string> = {
+  [DifficultyLevel.EASY]: 'مبتدئ',
+  [DifficultyLevel.MEDIUM]: 'متوسط',
+  [DifficultyLevel.HARD]: 'متقدم'
+};
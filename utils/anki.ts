@@ -0,0 +1,206 @@
+// Anki deck package (.apkg): a zipped SQLite collection (schema 11) written with sql.js
+import { Flashcard, FlashcardDeck } from '../types';
+import { getJSZip, escapeXml } from './zip';
+
+declare global {
+  interface Window {
+    initSqlJs: any;
+  }
+}
+
+const SQL_WASM_URL = 'https://cdn.jsdelivr.net/npm/sql.js@1.10.3/dist/sql-wasm.wasm';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+
+// Fixed so re-imported decks reuse the same note type instead of adding "Faseeh-1", "Faseeh-2"...
+const MODEL_ID = 1718000000000;
+const DEFAULT_DECK_ID = 1;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Both fields are marked right-to-left so Anki's editor lays them out correctly too
+const CARD_CSS = `.card { font-family: "Amiri", "Traditional Arabic", "Tahoma", sans-serif; font-size: 24px; line-height: 1.8; text-align: center; direction: rtl; color: #1f2937; background: #ffffff; }
+.back { color: #be185d; }
+.nightMode .card { color: #f3f4f6; background: #1f2937; }
+.nightMode .back { color: #f9a8d4; }`;
+
+let sqlModule: Promise<any> | null = null;
+
+// sql.js fetches its WebAssembly binary once per session; a failed download is retried on the next export
+const loadSql = (): Promise<any> => {
+  if (!window.initSqlJs) return Promise.reject(new Error('مكتبة قواعد البيانات غير محملة. يرجى تحديث الصفحة.'));
+  if (!sqlModule) {
+    sqlModule = window.initSqlJs({ locateFile: () => SQL_WASM_URL }).catch(() => {
+      sqlModule = null;
+      throw new Error('تعذر تحميل مكتبة قواعد البيانات. تحقق من الاتصال بالإنترنت.');
+    });
+  }
+  return sqlModule!;
+};
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Anki fields are HTML
+const toField = (text: string) => escapeXml(text.trim()).replace(/\r?\n/g, '<br>');
+
+// "::" nests decks in Anki, so lesson titles can't contain it
+const deckName = (title: string, parent?: string) => {
+  const name = title.replace(/::/g, ':').trim() || 'بطاقات';
+  return parent ? `${parent}::${name}` : name;
+};
+
+// Anki tags can't contain spaces; every exported card is also tagged with its lesson title
+const toAnkiTag = (text: string) => text.trim().replace(/\s+/g, '_').replace(/"/g, '');
+
+export const cardTags = (card: Flashcard, lessonTitle: string): string[] =>
+  Array.from(new Set([...(card.tags || []), lessonTitle].map(toAnkiTag).filter(Boolean)));
+
+const model = (deckId: number, now: number) => ({
+  id: MODEL_ID,
+  name: 'Faseeh (RTL)',
+  type: 0,
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '<div dir="rtl">{{Front}}</div>',
+    afmt: '{{FrontSide}}\n<hr id="answer">\n<div dir="rtl" class="back">{{Back}}</div>',
+    did: null,
+    bqfmt: '',
+    bafmt: ''
+  }],
+  flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: true, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'all', [0]]]
+});
+
+const deck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  desc: '',
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  collapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50
+});
+
+const DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  replayq: true,
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+  new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: true, order: 1 },
+  maxTaken: 60,
+  timer: 0,
+  autoplay: true,
+  mod: 0,
+  usn: 0,
+  dyn: false
+};
+
+// Cards already on a review interval keep it (due is in days from the collection's creation day);
+// unseen and relearning cards go in as new cards in lesson order
+const cardSchedule = (card: Flashcard, position: number, today: number) => {
+  const s = card.schedule;
+  if (!s || s.interval < 1) {
+    return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: s?.repetitions || 0, lapses: s?.lapses || 0 };
+  }
+  return {
+    type: 2,
+    queue: 2,
+    due: Math.max(0, Math.round((new Date(s.dueDate).getTime() - today) / DAY_MS)),
+    ivl: s.interval,
+    factor: Math.round(s.ease * 1000),
+    reps: s.repetitions,
+    lapses: s.lapses
+  };
+};
+
+/** Builds an .apkg with one Anki deck per lesson; several lessons become subdecks of `parentDeck`. */
+export const createAnkiPackage = async (decks: FlashcardDeck[], parentDeck?: string): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const startOfToday = new Date(new Date(now).setHours(0, 0, 0, 0)).getTime();
+    const deckIds = decks.map((_, i) => now + i);
+    const decksJson: Record<string, object> = { [DEFAULT_DECK_ID]: deck(DEFAULT_DECK_ID, 'Default', now) };
+    deckIds.forEach((id, i) => { decksJson[id] = deck(id, deckName(decks[i].title, parentDeck), now); });
+
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(startOfToday / 1000),
+      now,
+      now,
+      JSON.stringify({ activeDecks: [DEFAULT_DECK_ID], curDeck: DEFAULT_DECK_ID, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: MODEL_ID, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+      JSON.stringify({ [MODEL_ID]: model(deckIds[0] || DEFAULT_DECK_ID, now) }),
+      JSON.stringify(decksJson),
+      JSON.stringify({ 1: DECK_CONFIG }),
+      '{}'
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+    const modified = Math.floor(now / 1000);
+    let nextId = now;
+
+    for (let d = 0; d < decks.length; d++) {
+      const { title, cards } = decks[d];
+      for (let i = 0; i < cards.length; i++) {
+        const card = cards[i];
+        const id = nextId++;
+        const front = card.front.trim();
+        const tags = cardTags(card, title);
+        // The guid is derived from the content so importing the same deck again updates notes instead of duplicating them
+        const guid = (await sha1Hex(`${title}\n${front}`)).slice(0, 16);
+        const checksum = parseInt((await sha1Hex(front)).slice(0, 8), 16);
+        const schedule = cardSchedule(card, i, startOfToday);
+
+        insertNote.run([id, guid, MODEL_ID, modified, tags.length ? ` ${tags.join(' ')} ` : '', [toField(card.front), toField(card.back)].join(FIELD_SEPARATOR), front, checksum]);
+        insertCard.run([id, id, deckIds[d], modified, schedule.type, schedule.queue, schedule.due, schedule.ivl, schedule.factor, schedule.reps, schedule.lapses]);
+      }
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/apkg' });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeArabic, stripDefiniteArticle } from './arabic';
+
+describe('normalizeArabic', () => {
+  it('unifies the hamza forms of alef', () => {
+    expect(normalizeArabic('أحمد')).toBe('احمد');
+    expect(normalizeArabic('إسلام')).toBe('اسلام');
+    expect(normalizeArabic('آمن')).toBe('امن');
+  });
+
+  it('maps alef maqsura to yaa', () => {
+    expect(normalizeArabic('مستشفى')).toBe(normalizeArabic('مستشفي'));
+  });
+
+  it('strips diacritics (tashkeel)', () => {
+    expect(normalizeArabic('مَدْرَسَةٌ')).toBe(normalizeArabic('مدرسة'));
+  });
+
+  it('strips tatweel', () => {
+    expect(normalizeArabic('كـــتاب')).toBe('كتاب');
+  });
+
+  it('maps Arabic-Indic and Persian digits to ASCII', () => {
+    expect(normalizeArabic('٣')).toBe('3');
+    expect(normalizeArabic('٢٠٢٤')).toBe('2024');
+    expect(normalizeArabic('۷')).toBe('7');
+  });
+
+  it('drops punctuation and collapses whitespace', () => {
+    expect(normalizeArabic('  ما   هذا؟  ')).toBe('ما هذا');
+  });
+});
+
+describe('stripDefiniteArticle', () => {
+  it('removes the article alone or after a prefix', () => {
+    expect(stripDefiniteArticle('الماء')).toBe('ماء');
+    expect(stripDefiniteArticle('والكتاب')).toBe('كتاب');
+  });
+
+  it('leaves short words alone', () => {
+    expect(stripDefiniteArticle('الا')).toBe('الا');
+  });
+});
@@ -0,0 +1,54 @@
+// Arabic text helpers used for comparing text (deduplication, search, answer grading)
+
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const PUNCTUATION = /[.,!?؟،؛;:"'`«»()\[\]{}\-_*#>]/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g; // ٠-٩
+const PERSIAN_DIGITS = /[\u06F0-\u06F9]/g; // ۰-۹
+
+// Definite article alone or after a prefixed conjunction/preposition (longest first)
+const ARTICLE_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const MIN_STEM_LENGTH = 2;
+
+/**
+ * Folds the spelling variations that don't change meaning so two phrasings compare equal:
+ * strips diacritics and tatweel, unifies alef/hamza forms, taa marbuta and alef maqsura,
+ * maps Arabic-Indic digits to ASCII, drops punctuation and collapses whitespace.
+ */
+export const normalizeArabic = (text: string): string => {
+  return text
+    .replace(DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(PERSIAN_DIGITS, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/[إأآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+// "والكتاب" -> "كتاب"; expects a single normalized word, leaves short words alone
+export const stripDefiniteArticle = (word: string): string => {
+  for (const prefix of ARTICLE_PREFIXES) {
+    if (word.startsWith(prefix) && word.length - prefix.length >= MIN_STEM_LENGTH) {
+      return word.slice(prefix.length);
+    }
+  }
+  return word;
+};
+
+// Keeps the first item for every distinct normalized key
+export const dedupeBy = <T>(items: T[], getKey: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalizeArabic(getKey(item) || '');
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
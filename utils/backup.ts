@@ -0,0 +1,265 @@
+// Whole-platform backup of the active profile: its localStorage preferences and every IndexedDB store (PDF files included)
+// in one zip archive. Keys are archived under their base names, so a backup restores into any profile
+import { AppSettings, LessonSession, ChatThread } from '../types';
+import * as DB from './db';
+import { getJSZip, downloadBlob } from './zip';
+import { profileKey } from './profiles';
+
+export const BACKUP_FORMAT = 'faseeh-backup';
+// Bumped whenever a collection is added to the archive (see COLLECTION_SINCE):
+// 1 books, folders, sessions, quiz results and book pages; 2 question bank; 3 assignments and class results;
+// 4 XP ledger; 5 exams; 6 curriculum units
+export const BACKUP_VERSION = 6;
+
+const SETTINGS_KEY = 'faseeh_settings';
+// Sessions and quiz history used to live in localStorage too; exportSnapshot() migrates them into IndexedDB first
+const STORAGE_KEYS = [SETTINGS_KEY, 'faseeh_custom_prompts', 'faseeh_topic_prefs'];
+
+type RecordCollection = Exclude<DB.SnapshotCollection, 'bookFiles'>;
+
+const RECORD_COLLECTIONS: RecordCollection[] = ['books', 'folders', 'sessions', 'quizResults', 'bookPages', 'questionBank', 'assignments', 'classResults', 'xpLedger', 'exams', 'units'];
+
+// Archive version that first carried each collection; restoring an older archive leaves the newer collections as they are
+const COLLECTION_SINCE: Record<DB.SnapshotCollection, number> = {
+  books: 1, bookFiles: 1, folders: 1, sessions: 1, quizResults: 1, bookPages: 1,
+  questionBank: 2, assignments: 3, classResults: 3, xpLedger: 4, exams: 5, units: 6
+};
+
+// Minimal shape check per collection; anything failing it means the archive is not ours or is corrupted
+const REQUIRED_FIELDS: Record<RecordCollection, string[]> = {
+  books: ['id', 'title'],
+  folders: ['id', 'name'],
+  sessions: ['id', 'date', 'title', 'content'],
+  quizResults: ['id', 'date', 'score', 'total'],
+  bookPages: ['id', 'bookId', 'page', 'text'],
+  questionBank: ['id', 'date', 'question', 'type'],
+  assignments: ['id', 'date', 'role', 'assignment'],
+  classResults: ['id', 'date', 'assignmentId', 'studentName', 'result'],
+  xpLedger: ['id', 'date', 'source', 'amount'],
+  exams: ['id', 'date', 'title', 'plan'],
+  units: ['id', 'subject', 'title']
+};
+
+export const COLLECTION_LABELS: Record<DB.SnapshotCollection, string> = {
+  books: 'الكتب',
+  bookFiles: 'ملفات PDF',
+  folders: 'المجلدات',
+  sessions: 'الدروس',
+  quizResults: 'نتائج الاختبارات',
+  bookPages: 'نصوص صفحات الكتب',
+  questionBank: 'بنك الأسئلة',
+  assignments: 'الواجبات',
+  classResults: 'سجل درجات الفصل',
+  xpLedger: 'سجل نقاط الخبرة',
+  exams: 'الامتحانات وخطط المذاكرة',
+  units: 'وحدات المنهج'
+};
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  includesApiKeys: boolean;
+  counts: Record<DB.SnapshotCollection, number>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupConflict {
+  collection: DB.SnapshotCollection;
+  id: string;
+  label: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  manifest: BackupManifest;
+  added: Record<DB.SnapshotCollection, number>;
+  conflicts: BackupConflict[]; // Same id with different content; the local copy was kept (merge mode only)
+  untouched: DB.SnapshotCollection[]; // Collections newer than the archive, kept as they were even in replace mode
+  settings: AppSettings | null; // Settings to apply, null if the archive had none
+}
+
+const emptyCounts = (): Record<DB.SnapshotCollection, number> => ({
+  books: 0, bookFiles: 0, folders: 0, sessions: 0, quizResults: 0, bookPages: 0, questionBank: 0, assignments: 0, classResults: 0, xpLedger: 0, exams: 0, units: 0
+});
+
+// --- Export ---
+
+export const createBackup = async (includeApiKeys: boolean): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const snapshot = await DB.exportSnapshot();
+
+  const storage: Record<string, string> = {};
+  STORAGE_KEYS.forEach(key => {
+    const value = localStorage.getItem(profileKey(key));
+    if (value !== null) storage[key] = value;
+  });
+  if (!includeApiKeys && storage[SETTINGS_KEY]) {
+    const settings = JSON.parse(storage[SETTINGS_KEY]) as AppSettings;
+    storage[SETTINGS_KEY] = JSON.stringify({ ...settings, apiKeys: [], openAICompatible: settings.openAICompatible && { ...settings.openAICompatible, apiKey: '' } });
+  }
+
+  const counts = emptyCounts();
+  (Object.keys(counts) as DB.SnapshotCollection[]).forEach(c => { counts[c] = snapshot[c].length; });
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    includesApiKeys: includeApiKeys,
+    counts
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('storage.json', JSON.stringify(storage));
+  RECORD_COLLECTIONS.forEach(collection => {
+    zip.file(`data/${collection}.json`, JSON.stringify(snapshot[collection]));
+  });
+  snapshot.bookFiles.forEach(file => {
+    zip.file(`files/${file.id}.pdf`, file.fileData);
+  });
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+export const downloadBackup = async (includeApiKeys: boolean) => {
+  const blob = await createBackup(includeApiKeys);
+  downloadBlob(blob, `faseeh-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+};
+
+// --- Import ---
+
+const readJson = async (zip: any, path: string): Promise<any> => {
+  const entry = zip.file(path);
+  if (!entry) return undefined;
+  try {
+    return JSON.parse(await entry.async('string'));
+  } catch (e) {
+    throw new Error(`الملف ${path} داخل النسخة الاحتياطية تالف`);
+  }
+};
+
+const validateRecords = (collection: RecordCollection, records: any): any[] => {
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) throw new Error(`بيانات ${COLLECTION_LABELS[collection]} غير صالحة`);
+  records.forEach((record, i) => {
+    const missing = REQUIRED_FIELDS[collection].filter(field => record?.[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`العنصر رقم ${i + 1} في ${COLLECTION_LABELS[collection]} ينقصه: ${missing.join('، ')}`);
+    }
+  });
+  return records;
+};
+
+// JSON turns chat timestamps into strings
+const reviveSession = (session: LessonSession): LessonSession => {
+  const reviveThread = (thread: ChatThread): ChatThread => ({
+    ...thread,
+    messages: (thread.messages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) }))
+  });
+  return {
+    ...session,
+    messages: (session.messages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+    chatThreads: session.chatThreads?.map(reviveThread)
+  };
+};
+
+const recordLabel = (collection: DB.SnapshotCollection, record: any): string =>
+  record.title || record.name || record.question?.text || record.assignment?.title ||
+  (collection === 'classResults' ? `${record.studentName} - ${record.assignmentTitle}` : collection === 'bookPages' ? `صفحة ${record.page}` : record.date) || record.id;
+
+const mergeSettings = (local: AppSettings, incoming: AppSettings, mode: ImportMode): AppSettings => {
+  const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+  if (mode === 'replace') {
+    // An archive saved without keys must not wipe the keys on this machine
+    return { ...incoming, apiKeys: incoming.apiKeys?.length ? incoming.apiKeys : local.apiKeys };
+  }
+  return {
+    ...local,
+    apiKeys: union(local.apiKeys, incoming.apiKeys),
+    customModels: union(local.customModels, incoming.customModels)
+  };
+};
+
+/**
+ * Validates and applies an archive produced by createBackup().
+ * `replace` wipes local data first; `merge` adds records whose id is new and reports
+ * records that exist locally with different content as conflicts (the local copy wins).
+ * Settings are returned rather than written so the caller can apply them to live state.
+ */
+export const importBackup = async (file: Blob, mode: ImportMode, currentSettings: AppSettings): Promise<ImportReport> => {
+  const JSZip = getJSZip();
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error('الملف ليس نسخة احتياطية صالحة (ZIP)');
+  }
+
+  const manifest = await readJson(zip, 'manifest.json') as BackupManifest | undefined;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) throw new Error('الملف ليس نسخة احتياطية من منصة فصيح');
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new Error('هذه النسخة الاحتياطية من إصدار أحدث من المنصة. يرجى تحديث التطبيق أولاً.');
+  }
+
+  // Parse and validate everything before touching local data
+  const untouched = (Object.keys(COLLECTION_SINCE) as DB.SnapshotCollection[]).filter(c => COLLECTION_SINCE[c] > manifest.version);
+  const incoming: Partial<DB.DataSnapshot> = {};
+  for (const collection of RECORD_COLLECTIONS) {
+    if (untouched.includes(collection)) continue;
+    (incoming as any)[collection] = validateRecords(collection, await readJson(zip, `data/${collection}.json`));
+  }
+  incoming.sessions = incoming.sessions!.map(reviveSession);
+
+  const bookFiles: DB.DataSnapshot['bookFiles'] = [];
+  for (const book of incoming.books!) {
+    const entry = zip.file(`files/${book.id}.pdf`);
+    if (!entry) throw new Error(`ملف الكتاب "${book.title}" غير موجود في النسخة الاحتياطية`);
+    bookFiles.push({ id: book.id, fileData: new Blob([await entry.async('arraybuffer')], { type: 'application/pdf' }) });
+  }
+  incoming.bookFiles = bookFiles;
+
+  const storage = (await readJson(zip, 'storage.json') || {}) as Record<string, string>;
+  let settings: AppSettings | null = null;
+  if (storage[SETTINGS_KEY]) {
+    try {
+      settings = mergeSettings(currentSettings, JSON.parse(storage[SETTINGS_KEY]), mode);
+    } catch (e) {
+      throw new Error('إعدادات النسخة الاحتياطية تالفة');
+    }
+  }
+
+  const added = emptyCounts();
+  const conflicts: BackupConflict[] = [];
+  let toWrite: Partial<DB.DataSnapshot> = incoming;
+
+  if (mode === 'merge') {
+    const local = await DB.exportSnapshot();
+    toWrite = {};
+    (Object.keys(added) as DB.SnapshotCollection[]).forEach(collection => {
+      if (!incoming[collection]) return;
+      const localById = new Map<string, any>((local[collection] as { id: string }[]).map(r => [r.id, r] as [string, any]));
+      const fresh = incoming[collection]!.filter((record: any) => {
+        const existing = localById.get(record.id);
+        if (!existing) return true;
+        // Blobs can't be compared cheaply; a book's metadata conflict already covers its file
+        if (collection !== 'bookFiles' && JSON.stringify(existing) !== JSON.stringify(record)) {
+          conflicts.push({ collection, id: record.id, label: recordLabel(collection, record) });
+        }
+        return false;
+      });
+      (toWrite as any)[collection] = fresh;
+    });
+  }
+
+  await DB.writeSnapshot(toWrite, mode === 'replace');
+  (Object.keys(added) as DB.SnapshotCollection[]).forEach(c => { added[c] = (toWrite[c] || []).length; });
+
+  // Other preferences: replace overwrites, merge only fills what this machine doesn't have
+  STORAGE_KEYS.filter(key => key !== SETTINGS_KEY && storage[key] !== undefined).forEach(key => {
+    if (mode === 'replace' || localStorage.getItem(profileKey(key)) === null) localStorage.setItem(profileKey(key), storage[key]);
+  });
+
+  return { mode, manifest, added, conflicts, untouched, settings };
+};
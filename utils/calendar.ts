@@ -0,0 +1,14 @@
+// Calendar days as local YYYY-MM-DD keys, so a day ends at the student's midnight rather than UTC's
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dayKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Day keys parse as UTC midnight, so the difference is always a whole number of days
+export const daysBetween = (from: string, to: string): number => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const shiftDay = (key: string, days: number): string => new Date(Date.parse(key) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Local midnight of a day key, for display (new Date(key) alone would be UTC midnight)
+export const dateOfDay = (key: string): Date => new Date(`${key}T00:00:00`);
@@ -0,0 +1,54 @@
+// Tutoring conversations stored with each lesson (several named threads per lesson)
+import { ChatMessage, ChatThread, LessonSession } from '../types';
+
+export const DEFAULT_THREAD_TITLE = 'محادثة جديدة';
+const TITLE_MAX_LENGTH = 40;
+
+export const createThread = (title: string = DEFAULT_THREAD_TITLE): ChatThread => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  title,
+  createdAt: new Date().toISOString(),
+  messages: []
+});
+
+// Lessons saved before threads existed keep their conversation in `messages`; expose it as the first thread
+export const getSessionThreads = (session: LessonSession): ChatThread[] => {
+  if (session.chatThreads) return session.chatThreads;
+  if (!session.messages?.length) return [];
+  return [{ ...createThread('المحادثة الأولى'), createdAt: session.date, messages: session.messages }];
+};
+
+// A thread still carrying the default title is named after its first question
+export const titleFromMessage = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > TITLE_MAX_LENGTH ? `${clean.slice(0, TITLE_MAX_LENGTH)}…` : clean || DEFAULT_THREAD_TITLE;
+};
+
+export const appendMessage = (threads: ChatThread[], threadId: string, message: ChatMessage): ChatThread[] =>
+  threads.map(thread => {
+    if (thread.id !== threadId) return thread;
+    const isFirstQuestion = message.role === 'user' && thread.title === DEFAULT_THREAD_TITLE && !thread.messages.some(m => m.role === 'user');
+    return {
+      ...thread,
+      title: isFirstQuestion ? titleFromMessage(message.text) : thread.title,
+      messages: [...thread.messages, message]
+    };
+  });
+
+export const threadToMarkdown = (thread: ChatThread, lessonTitle?: string): string => {
+  const header = [`# ${thread.title}`, lessonTitle ? `الدرس: ${lessonTitle}` : '', `التاريخ: ${new Date(thread.createdAt).toLocaleString('ar-EG')}`]
+    .filter(Boolean)
+    .join('\n\n');
+  const body = thread.messages
+    .map(m => `**${m.role === 'user' ? 'الطالب' : 'فصيح'}:**\n\n${m.text}${m.image ? '\n\n_[صورة مرفقة]_' : ''}`)
+    .join('\n\n---\n\n');
+  return `${header}\n\n---\n\n${body}\n`;
+};
+
+export const downloadThread = (thread: ChatThread, lessonTitle?: string) => {
+  const blob = new Blob([threadToMarkdown(thread, lessonTitle)], { type: 'text/markdown;charset=utf-8' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${thread.title.replace(/[\\/:*?"<>|]/g, '_')}.md`;
+  link.click();
+};
@@ -0,0 +1,187 @@
+// Classroom exchange: signed assignment files a teacher sends out, and result files students send back
+import { Assignment, AssignmentRecord, ClassResult, Flashcard, LessonSession, Quiz, QuizResult } from '../types';
+import { profileKey } from './profiles';
+
+export const ASSIGNMENT_FORMAT = 'faseeh-assignment';
+export const RESULT_FORMAT = 'faseeh-assignment-result';
+const FORMAT_VERSION = 1;
+export const CLASSROOM_FILE_ACCEPT = '.json,application/json';
+
+const TEACHER_KEY = 'faseeh_teacher_key';
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * The assignment travels as the exact JSON string that was signed, so verifying never depends on
+ * how a parser orders keys. The signature proves the file wasn't edited after the teacher exported it;
+ * the key fingerprint lets the class check it came from their teacher.
+ */
+interface AssignmentPackage {
+  format: typeof ASSIGNMENT_FORMAT;
+  version: number;
+  payload: string;
+  publicKey: JsonWebKey;
+  signature: string; // Base64
+}
+
+interface ResultPackage {
+  format: typeof RESULT_FORMAT;
+  version: number;
+  assignmentId: string;
+  assignmentTitle: string;
+  teacherKey: string; // Fingerprint of the key that signed the assignment
+  studentName: string;
+  result: QuizResult;
+}
+
+interface StoredTeacherKey {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+// Short enough to read aloud in class: "3fa2 91c0 5b7e 0d14"
+const fingerprintOf = async (publicKey: JsonWebKey): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${publicKey.x}.${publicKey.y}`));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g)!.join(' ');
+};
+
+// Generated on first use and kept with the profile's settings
+const getTeacherKey = async (): Promise<StoredTeacherKey> => {
+  const saved = localStorage.getItem(profileKey(TEACHER_KEY));
+  if (saved) return JSON.parse(saved);
+  const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+  const stored: StoredTeacherKey = {
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey)
+  };
+  localStorage.setItem(profileKey(TEACHER_KEY), JSON.stringify(stored));
+  return stored;
+};
+
+export const getTeacherFingerprint = async (): Promise<string> => fingerprintOf((await getTeacherKey()).publicKey);
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '').trim() || 'faseeh';
+
+// Students start the cards fresh, without the teacher's review schedule
+const blankCard = ({ front, back, tags }: Flashcard): Flashcard => ({ front, back, tags });
+
+export const buildAssignment = (session: LessonSession | null, quiz: Quiz, flashcards: Flashcard[], teacherName: string): Assignment => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  title: quiz.title || session?.title || 'واجب',
+  teacherName,
+  createdAt: new Date().toISOString(),
+  lesson: session ? { title: session.title, content: session.content, summary: session.summary, subject: session.subject } : undefined,
+  quiz: { title: quiz.title, questions: quiz.questions, config: quiz.config }, // Not the teacher's lesson ids
+  flashcards: session ? flashcards.map(blankCard) : []
+});
+
+/** Signs the assignment with the teacher's key and returns the file to hand out, with the key fingerprint. */
+export const createAssignmentPackage = async (assignment: Assignment): Promise<{ blob: Blob; fileName: string; teacherKey: string }> => {
+  const key = await getTeacherKey();
+  const privateKey = await crypto.subtle.importKey('jwk', key.privateKey, KEY_ALGORITHM, false, ['sign']);
+  const payload = JSON.stringify(assignment);
+  const signature = await crypto.subtle.sign(SIGN_ALGORITHM, privateKey, new TextEncoder().encode(payload));
+
+  const pkg: AssignmentPackage = { format: ASSIGNMENT_FORMAT, version: FORMAT_VERSION, payload, publicKey: key.publicKey, signature: toBase64(signature) };
+  return {
+    blob: new Blob([JSON.stringify(pkg)], { type: 'application/json' }),
+    fileName: `${safeFileName(assignment.title)}.faseeh-assignment.json`,
+    teacherKey: await fingerprintOf(key.publicKey)
+  };
+};
+
+const readJsonFile = async (file: Blob): Promise<any> => {
+  try {
+    return JSON.parse(await file.text());
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Reads an assignment file, rejecting it unless the signature matches its content. */
+export const readAssignmentPackage = async (file: Blob): Promise<{ assignment: Assignment; teacherKey: string }> => {
+  const pkg = await readJsonFile(file) as AssignmentPackage | null;
+  if (!pkg || pkg.format !== ASSIGNMENT_FORMAT) throw new Error('الملف ليس واجباً من منصة فصيح');
+  if (typeof pkg.version !== 'number' || pkg.version > FORMAT_VERSION) {
+    throw new Error('هذا الواجب من إصدار أحدث من المنصة. يرجى تحديث التطبيق أولاً.');
+  }
+
+  let isValid = false;
+  try {
+    const publicKey = await crypto.subtle.importKey('jwk', pkg.publicKey, KEY_ALGORITHM, false, ['verify']);
+    isValid = await crypto.subtle.verify(SIGN_ALGORITHM, publicKey, fromBase64(pkg.signature), new TextEncoder().encode(pkg.payload));
+  } catch (e) {
+    console.error('Failed to verify the assignment signature', e);
+  }
+  if (!isValid) throw new Error('توقيع الواجب غير صحيح: ربما عُدّل الملف بعد أن أرسله المعلم');
+
+  const assignment = JSON.parse(pkg.payload) as Assignment;
+  if (!assignment.id || !Array.isArray(assignment.quiz?.questions)) throw new Error('بيانات الواجب غير مكتملة');
+  return { assignment, teacherKey: await fingerprintOf(pkg.publicKey) };
+};
+
+/** The file a student sends back after finishing the assignment's quiz. */
+export const createResultFile = (record: AssignmentRecord, studentName: string, result: QuizResult): { blob: Blob; fileName: string } => {
+  const pkg: ResultPackage = {
+    format: RESULT_FORMAT,
+    version: FORMAT_VERSION,
+    assignmentId: record.assignment.id,
+    assignmentTitle: record.assignment.title,
+    teacherKey: record.teacherKey,
+    studentName,
+    result
+  };
+  return {
+    blob: new Blob([JSON.stringify(pkg)], { type: 'application/json' }),
+    fileName: `${safeFileName(record.assignment.title)} - ${safeFileName(studentName)}.faseeh-result.json`
+  };
+};
+
+/**
+ * Reads a student's result file for the gradebook. Results for assignments signed with another
+ * teacher's key are rejected. Re-importing the same attempt gives the same id, so it replaces itself.
+ */
+export const readResultFile = async (file: Blob, teacherKey: string): Promise<ClassResult> => {
+  const pkg = await readJsonFile(file) as ResultPackage | null;
+  if (!pkg || pkg.format !== RESULT_FORMAT) throw new Error('الملف ليس نتيجة واجب من منصة فصيح');
+  if (typeof pkg.version !== 'number' || pkg.version > FORMAT_VERSION) {
+    throw new Error('هذه النتيجة من إصدار أحدث من المنصة. يرجى تحديث التطبيق أولاً.');
+  }
+  if (!pkg.result || !Array.isArray(pkg.result.details) || !pkg.studentName) throw new Error('بيانات النتيجة غير مكتملة');
+  if (pkg.teacherKey !== teacherKey) throw new Error(`نتيجة "${pkg.studentName}" لواجب لم يصدر من هذا الملف الشخصي`);
+
+  return {
+    id: `${pkg.assignmentId}:${pkg.studentName}:${pkg.result.id}`,
+    date: pkg.result.date,
+    assignmentId: pkg.assignmentId,
+    assignmentTitle: pkg.assignmentTitle,
+    studentName: pkg.studentName,
+    result: pkg.result
+  };
+};
+
+// The lesson a received assignment opens as on the student's device (null for a quiz-only assignment)
+export const sessionFromAssignment = ({ id, lesson, flashcards }: Assignment): LessonSession | null => lesson ? {
+  id: `assignment-${id}`,
+  date: new Date().toISOString(),
+  title: lesson.title,
+  content: lesson.content,
+  summary: lesson.summary || [],
+  flashcards: flashcards || [],
+  messages: [],
+  subject: lesson.subject
+} : null;
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CurriculumUnit, LessonSession } from '../types';
+import { buildCurriculumTree, outlineLesson, placeLesson, placeUnit, extractLessonTitle, UNSORTED_SUBJECT } from './curriculum';
+
+const lesson = (id: string, date: string, fields: Partial<LessonSession> = {}): LessonSession => ({
+  id, date, title: `درس ${id}`, content: '', summary: [], messages: [], ...fields
+});
+const unit = (id: string, order: number): CurriculumUnit => ({ id, subject: 'رياضيات', title: id, order, createdAt: '' });
+
+describe('extractLessonTitle', () => {
+  it('takes the first heading without its inline markdown', () => {
+    expect(extractLessonTitle('مقدمة\n## الدرس: **[الكسور](x)** ##\nنص')).toBe('الدرس: الكسور');
+    expect(extractLessonTitle('بلا عناوين')).toBeNull();
+  });
+});
+
+describe('buildCurriculumTree', () => {
+  const lessons = [
+    lesson('a', '2024-01-02', { subject: 'رياضيات', unitId: 'u1', summary: [{ point: 'x' }] as any }),
+    lesson('b', '2024-01-01', { subject: 'رياضيات', unitId: 'u1' }),
+    lesson('c', '2024-01-03'),
+    lesson('d', '2024-01-04', { subject: 'رياضيات', unitId: 'deleted' })
+  ].map(outlineLesson);
+  const tree = buildCurriculumTree(lessons, [unit('u2', 1), unit('u1', 0)], new Map([['a', 60]]));
+
+  it('groups lessons by subject and unit, unsorted last', () => {
+    expect(tree.map(s => s.subject)).toEqual(['رياضيات', UNSORTED_SUBJECT]);
+    expect(tree[0].units.map(u => [u.unit?.id, u.lessons.map(l => l.lesson.id)])).toEqual([['u1', ['b', 'a']], ['u2', []], [undefined, ['d']]]);
+  });
+
+  it('rolls progress up from summary, cards and best quiz score', () => {
+    expect(tree[0].units[0].lessons[1].progress).toBe(53); // (1 + 0 + 0.6) / 3
+    expect(tree[0].units[0].progress).toBe(27);
+  });
+
+  it('renumbers the target unit when a lesson is dropped in', () => {
+    expect(placeLesson(tree, 'd', { subject: 'رياضيات', unitId: 'u1', beforeId: 'a' }).map(p => [p.id, p.order])).toEqual([['b', 0], ['d', 1], ['a', 2]]);
+    expect(placeLesson(tree, 'a', { subject: UNSORTED_SUBJECT })).toEqual([
+      { id: 'c', subject: undefined, unitId: undefined, order: 0 },
+      { id: 'a', subject: undefined, unitId: undefined, order: 1 }
+    ]);
+  });
+
+  it('reorders units within their subject', () => {
+    expect(placeUnit([unit('u1', 0), unit('u2', 1)], 'u2', 'u1').map(u => [u.id, u.order])).toEqual([['u2', 0], ['u1', 1]]);
+  });
+});
@@ -0,0 +1,172 @@
+// Curriculum tree: lessons grouped Subject → Unit → Lesson. Subjects are just the lessons' (and units')
+// subject names; units are stored records; a lesson keeps its own position within its unit.
+// The tree is built from outlines (see getLessonOutlines in utils/db.ts), never from whole lessons
+import { CurriculumUnit, LessonSession, QuizResult } from '../types';
+
+export const DEFAULT_LESSON_TITLE = 'درس جديد';
+export const UNSORTED_SUBJECT = ''; // Lessons with no subject: anything not generated from the topic form
+export const UNSORTED_SUBJECT_LABEL = 'دروس بدون مادة';
+const MAX_TITLE_LENGTH = 80;
+
+// --- Titles ---
+
+// The first heading of the generated lesson, without its inline markdown
+export const extractLessonTitle = (markdown: string): string | null => {
+  const heading = markdown.match(/^#{1,3}\s+(.+?)\s*#*\s*$/m);
+  if (!heading) return null;
+  const title = heading[1].replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`~]/g, '').trim();
+  return title ? title.slice(0, MAX_TITLE_LENGTH) : null;
+};
+
+// Lessons saved before titles were extracted are all called "درس جديد"; their heading says more
+export const lessonTitle = (lesson: Pick<LessonSession, 'title' | 'content'>): string =>
+  (lesson.title && lesson.title !== DEFAULT_LESSON_TITLE ? lesson.title : extractLessonTitle(lesson.content || '')) || lesson.title || 'درس بدون عنوان';
+
+// --- Outlines ---
+
+// What the tree needs of a lesson: its place, title and the counts its progress is made of
+export interface LessonOutline extends Pick<LessonSession, 'id' | 'title' | 'date' | 'subject' | 'unitId' | 'order'> {
+  summaryPoints: number;
+  cardCount: number;
+  reviewedCards: number; // Cards reviewed at least once
+}
+
+export const outlineLesson = (lesson: LessonSession): LessonOutline => ({
+  id: lesson.id,
+  title: lessonTitle(lesson),
+  date: lesson.date,
+  subject: lesson.subject,
+  unitId: lesson.unitId,
+  order: lesson.order,
+  summaryPoints: lesson.summary?.length || 0,
+  cardCount: lesson.flashcards?.length || 0,
+  reviewedCards: (lesson.flashcards || []).filter(card => (card.schedule?.repetitions || 0) > 0).length
+});
+
+export type LessonPlacement = Pick<LessonSession, 'id' | 'subject' | 'unitId' | 'order'>;
+
+// --- Progress ---
+
+export interface QuizScore {
+  lessonId?: string;
+  score: number;
+  total: number;
+}
+
+export const quizScore = (result: QuizResult): QuizScore => ({ lessonId: result.quizSnapshot?.lessonId, score: result.score, total: result.total });
+
+// Best quiz percentage per lesson, from the results whose quiz was generated from that lesson
+export const bestQuizPercents = (scores: QuizScore[]): Map<string, number> => {
+  const best = new Map<string, number>();
+  scores.forEach(({ lessonId, score, total }) => {
+    if (!lessonId || !total) return;
+    const percent = Math.max(0, Math.round((score / total) * 100));
+    best.set(lessonId, Math.max(best.get(lessonId) || 0, percent));
+  });
+  return best;
+};
+
+/**
+ * A lesson is a third summarized, a third flashcards (the share reviewed at least once) and a third
+ * its best quiz score, so the number moves with every kind of study the app offers.
+ */
+export const lessonProgress = (lesson: LessonOutline, bestQuizPercent: number = 0): number => {
+  const reviewed = lesson.cardCount ? lesson.reviewedCards / lesson.cardCount : 0;
+  const summarized = lesson.summaryPoints ? 1 : 0;
+  return Math.round(((summarized + reviewed + bestQuizPercent / 100) / 3) * 100);
+};
+
+const average = (values: number[]) => values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+// --- Tree ---
+
+export interface LessonNode {
+  lesson: LessonOutline;
+  progress: number;
+}
+
+export interface UnitNode {
+  unit: CurriculumUnit | null; // null: the subject's lessons that are in no unit
+  lessons: LessonNode[];
+  progress: number;
+}
+
+export interface SubjectNode {
+  subject: string;
+  units: UnitNode[]; // Units in order, then the lessons in no unit (only if there are any)
+  lessonCount: number;
+  progress: number;
+}
+
+const subjectOf = (lesson: { subject?: string }) => lesson.subject?.trim() || UNSORTED_SUBJECT;
+
+// Reordered lessons first, by position; the rest oldest first, the order they were studied in
+const byPosition = (a: LessonOutline, b: LessonOutline) =>
+  (a.order ?? Infinity) - (b.order ?? Infinity) || a.date.localeCompare(b.date);
+
+export const buildCurriculumTree = (lessons: LessonOutline[], units: CurriculumUnit[], best: Map<string, number> = new Map()): SubjectNode[] => {
+  const subjects = Array.from(new Set([...units.map(subjectOf), ...lessons.map(subjectOf)]));
+
+  return subjects
+    .sort((a, b) => (a === UNSORTED_SUBJECT ? 1 : 0) - (b === UNSORTED_SUBJECT ? 1 : 0) || a.localeCompare(b, 'ar'))
+    .map(subject => {
+      const subjectUnits = units.filter(unit => subjectOf(unit) === subject).sort((a, b) => a.order - b.order);
+      const unitIds = new Set(subjectUnits.map(unit => unit.id));
+      const subjectLessons = lessons.filter(lesson => subjectOf(lesson) === subject).sort(byPosition);
+      const nodes = (unitLessons: LessonOutline[]) => unitLessons.map(lesson => ({ lesson, progress: lessonProgress(lesson, best.get(lesson.id)) }));
+
+      const unitNodes: UnitNode[] = subjectUnits.map(unit => {
+        const unitLessons = nodes(subjectLessons.filter(lesson => lesson.unitId === unit.id));
+        return { unit, lessons: unitLessons, progress: average(unitLessons.map(node => node.progress)) };
+      });
+      // A unit id from another subject, or from a deleted unit, counts as no unit
+      const loose = nodes(subjectLessons.filter(lesson => !lesson.unitId || !unitIds.has(lesson.unitId)));
+      if (loose.length) unitNodes.push({ unit: null, lessons: loose, progress: average(loose.map(node => node.progress)) });
+
+      const all = unitNodes.flatMap(node => node.lessons);
+      return { subject, units: unitNodes, lessonCount: all.length, progress: average(all.map(node => node.progress)) };
+    });
+};
+
+// --- Reordering ---
+
+export interface LessonTarget {
+  subject: string;
+  unitId?: string;
+  beforeId?: string; // Lesson to drop in front of; missing drops at the end of the unit
+}
+
+/** Where every lesson of the target unit ends up once `lessonId` is moved into it. */
+export const placeLesson = (tree: SubjectNode[], lessonId: string, target: LessonTarget): LessonPlacement[] => {
+  const moved = tree.flatMap(s => s.units.flatMap(u => u.lessons)).find(node => node.lesson.id === lessonId);
+  if (!moved) return [];
+  const unit = tree.find(s => s.subject === target.subject)?.units.find(u => (u.unit?.id || undefined) === target.unitId);
+  const siblings = (unit?.lessons || []).map(node => node.lesson).filter(lesson => lesson.id !== lessonId);
+  const index = target.beforeId ? siblings.findIndex(lesson => lesson.id === target.beforeId) : -1;
+  siblings.splice(index === -1 ? siblings.length : index, 0, moved.lesson);
+
+  return siblings.map((lesson, order) => ({
+    id: lesson.id,
+    subject: target.subject || undefined,
+    unitId: target.unitId,
+    order
+  }));
+};
+
+/** The subject's units renumbered with `unitId` moved in front of `beforeId` (or to the end). */
+export const placeUnit = (units: CurriculumUnit[], unitId: string, beforeId?: string): CurriculumUnit[] => {
+  const moved = units.find(unit => unit.id === unitId);
+  if (!moved) return [];
+  const siblings = units.filter(unit => unit.subject === moved.subject && unit.id !== unitId).sort((a, b) => a.order - b.order);
+  const index = beforeId ? siblings.findIndex(unit => unit.id === beforeId) : -1;
+  siblings.splice(index === -1 ? siblings.length : index, 0, moved);
+  return siblings.map((unit, order) => ({ ...unit, order }));
+};
+
+export const createUnit = (subject: string, title: string, units: CurriculumUnit[]): CurriculumUnit => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  subject,
+  title,
+  order: units.filter(unit => unit.subject === subject).reduce((max, unit) => Math.max(max, unit.order + 1), 0),
+  createdAt: new Date().toISOString()
+});
@@ -1,15 +1,41 @@
 
-import { Book, StoredBookFile, Folder } from '../types';
+import { Book, StoredBookFile, Folder, LessonSession, QuizResult, Question, BookPageText, BankQuestion, AssignmentRecord, ClassResult, XPEvent, Exam, CurriculumUnit } from '../types';
+import { profileDBName, getActiveProfileId, DEFAULT_PROFILE_ID } from './profiles';
+import { LessonOutline, LessonPlacement, outlineLesson, quizScore, bestQuizPercents } from './curriculum';
+import { isCardDue } from './spacedRepetition';
+import { AttemptRecord, attemptRecord, matchingQuestions } from './quizAnalytics';
 
-const DB_NAME = 'FaseehLibraryDB';
+const DB_NAME = 'FaseehLibraryDB'; // Base name: each student profile has its own database (see utils/profiles.ts)
 const STORE_FILES = 'bookFiles';
 const STORE_META = 'bookMetadata';
 const STORE_FOLDERS = 'folders';
-const DB_VERSION = 2; // Incremented for folders support
+const STORE_SESSIONS = 'sessions';
+const STORE_QUIZ_RESULTS = 'quizResults';
+const STORE_BOOK_PAGES = 'bookPages';
+const STORE_QUESTION_BANK = 'questionBank';
+const STORE_ASSIGNMENTS = 'assignments';
+const STORE_CLASS_RESULTS = 'classResults';
+const STORE_XP_LEDGER = 'xpLedger';
+const STORE_EXAMS = 'exams';
+const STORE_UNITS = 'units';
+const DB_VERSION = 9; // Incremented for the curriculum tree's units
+
+// Legacy localStorage keys, migrated once into IndexedDB
+const LEGACY_SESSIONS_KEY = 'faseeh_sessions';
+const LEGACY_QUIZ_HISTORY_KEY = 'faseeh_quiz_history';
+
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+// Bumped on every write that changes searchable content, so derived caches (the search index) know when to rebuild
+let dataVersion = 0;
+export const getDataVersion = (): number => dataVersion;
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = indexedDB.open(profileDBName(DB_NAME), DB_VERSION);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
@@ -28,6 +54,43 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_FOLDERS)) {
         db.createObjectStore(STORE_FOLDERS, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(STORE_SESSIONS)) {
+        const sessionsStore = db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+        sessionsStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_QUIZ_RESULTS)) {
+        const resultsStore = db.createObjectStore(STORE_QUIZ_RESULTS, { keyPath: 'id' });
+        resultsStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_BOOK_PAGES)) {
+        const pagesStore = db.createObjectStore(STORE_BOOK_PAGES, { keyPath: 'id' });
+        pagesStore.createIndex('bookId', 'bookId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_QUESTION_BANK)) {
+        const bankStore = db.createObjectStore(STORE_QUESTION_BANK, { keyPath: 'id' });
+        bankStore.createIndex('date', 'date', { unique: false });
+        bankStore.createIndex('lessonId', 'lessonId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_ASSIGNMENTS)) {
+        const assignmentsStore = db.createObjectStore(STORE_ASSIGNMENTS, { keyPath: 'id' });
+        assignmentsStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_CLASS_RESULTS)) {
+        const classResultsStore = db.createObjectStore(STORE_CLASS_RESULTS, { keyPath: 'id' });
+        classResultsStore.createIndex('date', 'date', { unique: false });
+        classResultsStore.createIndex('assignmentId', 'assignmentId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_XP_LEDGER)) {
+        const ledgerStore = db.createObjectStore(STORE_XP_LEDGER, { keyPath: 'id' });
+        ledgerStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_EXAMS)) {
+        const examsStore = db.createObjectStore(STORE_EXAMS, { keyPath: 'id' });
+        examsStore.createIndex('date', 'date', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_UNITS)) {
+        db.createObjectStore(STORE_UNITS, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -37,7 +100,10 @@ export const saveBook = async (book: Book, file: Blob): Promise<void> => {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_FILES, STORE_META], 'readwrite');
     
-    transaction.oncomplete = () => resolve();
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
     transaction.onerror = () => reject(transaction.error);
 
     const filesStore = transaction.objectStore(STORE_FILES);
@@ -98,12 +164,64 @@ export const getBookFile = async (id: string): Promise<Blob | null> => {
 export const deleteBook = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_FILES, STORE_META], 'readwrite');
-    transaction.oncomplete = () => resolve();
+    const transaction = db.transaction([STORE_FILES, STORE_META, STORE_BOOK_PAGES], 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
     transaction.onerror = () => reject(transaction.error);
 
     transaction.objectStore(STORE_FILES).delete(id);
     transaction.objectStore(STORE_META).delete(id);
+
+    // Drop the book's extracted page text along with it
+    const pagesRequest = transaction.objectStore(STORE_BOOK_PAGES).index('bookId').openKeyCursor(IDBKeyRange.only(id));
+    pagesRequest.onsuccess = () => {
+      const cursor = pagesRequest.result;
+      if (!cursor) return;
+      transaction.objectStore(STORE_BOOK_PAGES).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+};
+
+// --- Book Page Text (search) ---
+
+// `pages[i]` is the text of page i + 1
+export const saveBookPages = async (bookId: string, pages: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_BOOK_PAGES, 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+
+    const store = transaction.objectStore(STORE_BOOK_PAGES);
+    pages.forEach((text, i) => {
+      if (!text.trim()) return;
+      const record: BookPageText = { id: `${bookId}:${i + 1}`, bookId, page: i + 1, text };
+      store.put(record);
+    });
+  });
+};
+
+export const hasBookPages = async (bookId: string): Promise<boolean> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_BOOK_PAGES, 'readonly').objectStore(STORE_BOOK_PAGES).index('bookId').count(IDBKeyRange.only(bookId));
+    request.onsuccess = () => resolve(request.result > 0);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllBookPages = async (): Promise<BookPageText[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_BOOK_PAGES, 'readonly').objectStore(STORE_BOOK_PAGES).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
   });
 };
 
@@ -160,3 +278,474 @@ export const deleteFolder = async (folderId: string): Promise<void> => {
     transaction.onerror = () => reject(transaction.error);
   });
 };
+
+// --- Lesson Sessions & Quiz Results ---
+
+let migrationPromise: Promise<void> | null = null;
+
+// Moves sessions / quiz history saved by older versions from localStorage into IndexedDB (runs once per page load).
+// That data predates profiles, so it only ever goes into the default profile's database.
+export const migrateLegacyStorage = (): Promise<void> => {
+  if (getActiveProfileId() !== DEFAULT_PROFILE_ID) return Promise.resolve();
+  if (!migrationPromise) {
+    migrationPromise = (async () => {
+      const rawSessions = localStorage.getItem(LEGACY_SESSIONS_KEY);
+      const rawResults = localStorage.getItem(LEGACY_QUIZ_HISTORY_KEY);
+      if (rawSessions === null && rawResults === null) return;
+
+      const parse = <T>(raw: string | null): T[] => {
+        if (!raw) return [];
+        try {
+          const parsed = JSON.parse(raw);
+          return Array.isArray(parsed) ? parsed : [];
+        } catch (e) {
+          console.error('Failed to parse legacy storage', e);
+          return [];
+        }
+      };
+      const sessions = parse<LessonSession>(rawSessions);
+      const results = parse<QuizResult>(rawResults);
+
+      const db = await initDB();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([STORE_SESSIONS, STORE_QUIZ_RESULTS], 'readwrite');
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+
+        const sessionsStore = transaction.objectStore(STORE_SESSIONS);
+        const resultsStore = transaction.objectStore(STORE_QUIZ_RESULTS);
+        sessions.forEach(session => sessionsStore.put(session));
+        results.forEach(result => resultsStore.put(result));
+      });
+
+      // Only drop the legacy keys once the data is safely committed
+      localStorage.removeItem(LEGACY_SESSIONS_KEY);
+      localStorage.removeItem(LEGACY_QUIZ_HISTORY_KEY);
+    })().catch(err => {
+      migrationPromise = null;
+      throw err;
+    });
+  }
+  return migrationPromise;
+};
+
+const openDataDB = async (): Promise<IDBDatabase> => {
+  await migrateLegacyStorage();
+  return initDB();
+};
+
+// Walks the date index newest-first, skipping `offset` records and returning up to `limit`
+const getPageByDate = async <T>(storeName: string, offset: number, limit: number): Promise<Page<T>> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).index('date').openCursor(null, 'prev');
+    const items: T[] = [];
+    let skipped = false;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, hasMore: false });
+        return;
+      }
+      if (offset > 0 && !skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      if (items.length === limit) {
+        resolve({ items, hasMore: true });
+        return;
+      }
+      items.push(cursor.value as T);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getAllByDate = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).index('date').getAll();
+    request.onsuccess = () => resolve((request.result as T[]).reverse());
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(storeName).put(record);
+  });
+};
+
+const countRecords = async (storeName: string): Promise<number> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Walks a store with a cursor keeping only what `project` returns, so whole records are never held all at once
+const projectRecords = async <T, R>(storeName: string, project: (record: T) => R): Promise<R[]> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const items: R[] = [];
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(items);
+        return;
+      }
+      items.push(project(cursor.value as T));
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveSession = (session: LessonSession): Promise<void> => putRecord(STORE_SESSIONS, session);
+
+export const getSession = async (id: string): Promise<LessonSession | null> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_SESSIONS, 'readonly').objectStore(STORE_SESSIONS).get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getSessionsPage = (offset: number, limit: number): Promise<Page<LessonSession>> =>
+  getPageByDate<LessonSession>(STORE_SESSIONS, offset, limit);
+
+// Newest first
+export const getAllSessions = (): Promise<LessonSession[]> => getAllByDate<LessonSession>(STORE_SESSIONS);
+
+export const countSessions = (): Promise<number> => countRecords(STORE_SESSIONS);
+
+// Flashcards due for review across every lesson, counted one lesson at a time
+export const countDueCards = async (now: Date = new Date()): Promise<number> => {
+  const perLesson = await projectRecords<LessonSession, number>(STORE_SESSIONS, session =>
+    (session.flashcards || []).filter(card => isCardDue(card, now)).length);
+  return perLesson.reduce((sum, count) => sum + count, 0);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_SESSIONS, 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_SESSIONS).delete(id);
+  });
+};
+
+export const saveQuizResult = (result: QuizResult): Promise<void> => putRecord(STORE_QUIZ_RESULTS, result);
+
+export const getQuizResultsPage = (offset: number, limit: number): Promise<Page<QuizResult>> =>
+  getPageByDate<QuizResult>(STORE_QUIZ_RESULTS, offset, limit);
+
+// Score of every result for the progress chart, oldest first
+export const getQuizScoreHistory = async (): Promise<Pick<QuizResult, 'date' | 'score' | 'total'>[]> => {
+  const scores = await projectRecords<QuizResult, Pick<QuizResult, 'date' | 'score' | 'total'>>(STORE_QUIZ_RESULTS, ({ date, score, total }) => ({ date, score, total }));
+  return scores.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Every attempt of the history, reduced inside the cursor to what the question analytics read
+export const getQuizAttemptRecords = (): Promise<AttemptRecord[]> => projectRecords(STORE_QUIZ_RESULTS, attemptRecord);
+
+// Stored questions whose normalized text is in `keys`, oldest result first; loaded only when a practice quiz is started
+export const getStoredQuestions = async (keys: Set<string>): Promise<Question[]> => {
+  const found = await projectRecords<QuizResult, { date: string; questions: Question[] }>(STORE_QUIZ_RESULTS, result =>
+    ({ date: result.date, questions: matchingQuestions(result, keys) }));
+  return found.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).flatMap(entry => entry.questions);
+};
+
+// Aggregates over the whole history without holding every quiz snapshot in memory
+export const getQuizStats = async (): Promise<{ count: number; averagePercent: number }> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_QUIZ_RESULTS, 'readonly').objectStore(STORE_QUIZ_RESULTS).openCursor();
+    let count = 0;
+    let percentSum = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ count, averagePercent: count > 0 ? Math.round(percentSum / count) : 0 });
+        return;
+      }
+      const result = cursor.value as QuizResult;
+      count += 1;
+      percentSum += result.total > 0 ? (result.score / result.total) * 100 : 0;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Question Bank ---
+
+// Newest first
+export const getAllBankQuestions = (): Promise<BankQuestion[]> => getAllByDate<BankQuestion>(STORE_QUESTION_BANK);
+
+export const saveBankQuestions = async (questions: BankQuestion[]): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_QUESTION_BANK, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    const store = transaction.objectStore(STORE_QUESTION_BANK);
+    questions.forEach(question => store.put(question));
+  });
+};
+
+export const deleteBankQuestion = async (id: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_QUESTION_BANK, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_QUESTION_BANK).delete(id);
+  });
+};
+
+// --- Classroom ---
+
+// Issued (teacher) and received (student) assignments, newest first
+export const getAllAssignments = (): Promise<AssignmentRecord[]> => getAllByDate<AssignmentRecord>(STORE_ASSIGNMENTS);
+
+export const getAssignment = async (id: string): Promise<AssignmentRecord | null> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_ASSIGNMENTS, 'readonly').objectStore(STORE_ASSIGNMENTS).get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveAssignment = (record: AssignmentRecord): Promise<void> => putRecord(STORE_ASSIGNMENTS, record);
+
+export const deleteAssignment = async (id: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_ASSIGNMENTS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_ASSIGNMENTS).delete(id);
+  });
+};
+
+// The teacher's gradebook, newest submission first
+export const getAllClassResults = (): Promise<ClassResult[]> => getAllByDate<ClassResult>(STORE_CLASS_RESULTS);
+
+export const saveClassResults = async (results: ClassResult[]): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_CLASS_RESULTS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    const store = transaction.objectStore(STORE_CLASS_RESULTS);
+    results.forEach(result => store.put(result));
+  });
+};
+
+export const deleteClassResult = async (id: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_CLASS_RESULTS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_CLASS_RESULTS).delete(id);
+  });
+};
+
+// --- XP Ledger ---
+
+// Append-only: events are added, never updated or removed (outside a full backup restore)
+export const appendXPEvent = async (event: XPEvent): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_XP_LEDGER, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_XP_LEDGER).add(event);
+  });
+};
+
+export const getXPLedger = (): Promise<XPEvent[]> => getAllByDate<XPEvent>(STORE_XP_LEDGER);
+
+// --- Study Planner ---
+
+// Exams with their plans, soonest first
+export const getAllExams = async (): Promise<Exam[]> => (await getAllByDate<Exam>(STORE_EXAMS)).reverse();
+
+export const saveExam = (exam: Exam): Promise<void> => putRecord(STORE_EXAMS, exam);
+
+export const deleteExam = async (id: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_EXAMS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_EXAMS).delete(id);
+  });
+};
+
+// --- Curriculum Tree ---
+
+export const getLessonOutlines = (): Promise<LessonOutline[]> => projectRecords(STORE_SESSIONS, outlineLesson);
+
+// Best score per lesson, without loading the results' question snapshots into the caller
+export const getBestQuizPercents = async (): Promise<Map<string, number>> =>
+  bestQuizPercents(await projectRecords(STORE_QUIZ_RESULTS, quizScore));
+
+export const getAllUnits = async (): Promise<CurriculumUnit[]> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_UNITS, 'readonly').objectStore(STORE_UNITS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveUnits = async (units: CurriculumUnit[]): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_UNITS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    const store = transaction.objectStore(STORE_UNITS);
+    units.forEach(unit => store.put(unit));
+  });
+};
+
+// Moves lessons in the tree: only their subject, unit and order change, in one transaction
+export const saveLessonPlacements = async (placements: LessonPlacement[]): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_SESSIONS, 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+    const store = transaction.objectStore(STORE_SESSIONS);
+    placements.forEach(({ id, subject, unitId, order }) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, subject, unitId, order });
+      };
+    });
+  });
+};
+
+// Lessons still pointing at a deleted unit are shown directly under their subject (see utils/curriculum.ts)
+export const deleteUnit = async (unitId: string): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_UNITS, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.objectStore(STORE_UNITS).delete(unitId);
+  });
+};
+
+// --- Full Backup Snapshot ---
+
+export interface DataSnapshot {
+  books: Book[];
+  bookFiles: StoredBookFile[];
+  folders: Folder[];
+  sessions: LessonSession[];
+  quizResults: QuizResult[];
+  bookPages: BookPageText[];
+  questionBank: BankQuestion[];
+  assignments: AssignmentRecord[];
+  classResults: ClassResult[];
+  xpLedger: XPEvent[];
+  exams: Exam[];
+  units: CurriculumUnit[];
+}
+
+export type SnapshotCollection = keyof DataSnapshot;
+
+const SNAPSHOT_STORES: Record<SnapshotCollection, string> = {
+  books: STORE_META,
+  bookFiles: STORE_FILES,
+  folders: STORE_FOLDERS,
+  sessions: STORE_SESSIONS,
+  quizResults: STORE_QUIZ_RESULTS,
+  bookPages: STORE_BOOK_PAGES,
+  questionBank: STORE_QUESTION_BANK,
+  assignments: STORE_ASSIGNMENTS,
+  classResults: STORE_CLASS_RESULTS,
+  xpLedger: STORE_XP_LEDGER,
+  exams: STORE_EXAMS,
+  units: STORE_UNITS
+};
+
+// Every record of every store, read in a single transaction so the snapshot is consistent
+export const exportSnapshot = async (): Promise<DataSnapshot> => {
+  const db = await openDataDB();
+  const collections = Object.keys(SNAPSHOT_STORES) as SnapshotCollection[];
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(Object.values(SNAPSHOT_STORES), 'readonly');
+    const snapshot = {} as DataSnapshot;
+    collections.forEach(collection => {
+      const request = transaction.objectStore(SNAPSHOT_STORES[collection]).getAll();
+      request.onsuccess = () => { (snapshot as any)[collection] = request.result; };
+    });
+    transaction.oncomplete = () => resolve(snapshot);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Writes a snapshot back in one transaction. With `replace` every store in the snapshot is cleared first,
+ * otherwise records are upserted by id (the caller decides which ones to pass). Collections missing
+ * from the snapshot are left untouched either way.
+ */
+export const writeSnapshot = async (snapshot: Partial<DataSnapshot>, replace: boolean): Promise<void> => {
+  const db = await openDataDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(Object.values(SNAPSHOT_STORES), 'readwrite');
+    transaction.oncomplete = () => {
+      dataVersion++;
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+
+    (Object.keys(SNAPSHOT_STORES) as SnapshotCollection[]).forEach(collection => {
+      const records = snapshot[collection];
+      if (!records) return;
+      const store = transaction.objectStore(SNAPSHOT_STORES[collection]);
+      if (replace) store.clear();
+      records.forEach(record => store.put(record));
+    });
+  });
+};
+
+// Drops a deleted profile's whole database (books, lessons, quiz history, question bank)
+export const deleteProfileDatabase = (profileId: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(profileDBName(DB_NAME, profileId));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve(); // Completes once other tabs close their connection
+  });
+};
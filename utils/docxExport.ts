@@ -0,0 +1,352 @@
+// Editable Word (.docx) export: WordprocessingML written directly from the lesson markdown and quiz data
+import { marked, Token, Tokens } from 'marked';
+import { Quiz, Question, QuestionType, SummaryPoint } from '../types';
+import { getJSZip, escapeXml } from './zip';
+import { unescapeHtml } from './markdownText';
+import { QUESTION_TYPE_LABELS, optionLabel, formatAnswer } from './quizFormat';
+
+export type QuizExportMode = 'STUDENT' | 'TEACHER';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const FONT = 'Arial';
+const CODE_FONT = 'Courier New';
+const BORDER_COLOR = 'BFBFBF';
+const HEADER_FILL = 'E6F4F1';
+const ANSWER_LINE = '______________________________';
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  color?: string;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  numId?: number;
+  level?: number;
+  ltr?: boolean;
+  align?: 'center' | 'both';
+  keepNext?: boolean;
+}
+
+const run = (text: string, style: RunStyle = {}): string => {
+  const props = [
+    style.code ? `<w:rFonts w:ascii="${CODE_FONT}" w:hAnsi="${CODE_FONT}" w:cs="${CODE_FONT}"/>` : '',
+    style.bold ? '<w:b/><w:bCs/>' : '',
+    style.italic ? '<w:i/><w:iCs/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.code ? '' : '<w:rtl/>'
+  ].join('');
+  // Line breaks inside a run become explicit <w:br/> elements
+  return text
+    .split('\n')
+    .map(line => `<w:r><w:rPr>${props}</w:rPr><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('<w:r><w:br/></w:r>');
+};
+
+const paragraph = (runs: string, options: ParagraphOptions = {}): string => {
+  const props = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.keepNext ? '<w:keepNext/>' : '',
+    options.numId !== undefined ? `<w:numPr><w:ilvl w:val="${options.level || 0}"/><w:numId w:val="${options.numId}"/></w:numPr>` : '',
+    options.ltr ? '' : '<w:bidi/>',
+    options.align ? `<w:jc w:val="${options.align}"/>` : ''
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+const inlineRuns = (tokens: Token[] = [], style: RunStyle = {}): string =>
+  tokens.map(token => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em':
+        return inlineRuns((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del':
+        return inlineRuns((token as Tokens.Del).tokens, { ...style, strike: true });
+      case 'codespan':
+        return run(unescapeHtml((token as Tokens.Codespan).text), { ...style, code: true });
+      case 'link':
+        return inlineRuns((token as Tokens.Link).tokens, { ...style, color: '0F766E' });
+      case 'image':
+        return run(`[${(token as Tokens.Image).text || 'صورة'}]`, { ...style, italic: true });
+      case 'br':
+        return '<w:r><w:br/></w:r>';
+      case 'text': {
+        const text = token as Tokens.Text;
+        return text.tokens ? inlineRuns(text.tokens, style) : run(unescapeHtml(text.text), style);
+      }
+      case 'html':
+        return ''; // Raw HTML tags carry no text of their own
+      default:
+        return 'text' in token ? run(unescapeHtml(String(token.text)), style) : '';
+    }
+  }).join('');
+
+const cell = (content: string, header: boolean = false, width?: number): string =>
+  `<w:tc><w:tcPr>${width ? `<w:tcW w:w="${width}" w:type="pct"/>` : '<w:tcW w:w="0" w:type="auto"/>'}${
+    header ? `<w:shd w:val="clear" w:color="auto" w:fill="${HEADER_FILL}"/>` : ''
+  }</w:tcPr>${content}</w:tc>`;
+
+// Columns run right-to-left (bidiVisual) so the first markdown column sits on the right, as on screen
+const table = (header: string[], rows: string[][], widths?: number[]): string => {
+  const columnCount = Math.max(header.length, ...rows.map(r => r.length));
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${BORDER_COLOR}"/>`)
+    .join('');
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${Array.from({ length: columnCount }, (_, i) =>
+      cell(cells[i] || paragraph(''), isHeader, widths?.[i])
+    ).join('')}</w:tr>`;
+  return [
+    `<w:tbl><w:tblPr><w:bidiVisual/><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders>`,
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>',
+    `<w:tblGrid>${'<w:gridCol/>'.repeat(columnCount)}</w:tblGrid>`,
+    header.length ? row(header, true) : '',
+    rows.map(r => row(r, false)).join(''),
+    '</w:tbl>',
+    paragraph('') // Word merges adjacent tables; keep following content apart
+  ].join('');
+};
+
+/**
+ * Collects list numbering while the body is written: every ordered list gets its own
+ * w:num so numbering restarts, all bullet lists share one.
+ */
+class Numbering {
+  private orderedNums: number[] = [];
+  static readonly BULLET_NUM = 1;
+
+  nextOrdered(): number {
+    const numId = Numbering.BULLET_NUM + 1 + this.orderedNums.length;
+    this.orderedNums.push(numId);
+    return numId;
+  }
+
+  toXml(): string {
+    const levels = (ordered: boolean) => Array.from({ length: 6 }, (_, level) => {
+      const format = ordered ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>` : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${level % 2 ? '◦' : '•'}"/>`;
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/><w:pPr><w:bidi/><w:ind w:left="${360 * (level + 1) + 360}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join('');
+    return [
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:numbering xmlns:w="${W_NS}">`,
+      `<w:abstractNum w:abstractNumId="0">${levels(false)}</w:abstractNum>`,
+      `<w:abstractNum w:abstractNumId="1">${levels(true)}</w:abstractNum>`,
+      `<w:num w:numId="${Numbering.BULLET_NUM}"><w:abstractNumId w:val="0"/></w:num>`,
+      this.orderedNums.map(numId => `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`).join(''),
+      '</w:numbering>'
+    ].join('');
+  }
+}
+
+const blocks = (tokens: Token[], numbering: Numbering, quote: boolean = false, listLevel: number = 0): string =>
+  tokens.map(token => {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        return paragraph(inlineRuns(heading.tokens), { style: `Heading${Math.min(heading.depth, 3)}`, keepNext: true });
+      }
+      case 'paragraph':
+        return paragraph(inlineRuns((token as Tokens.Paragraph).tokens), { style: quote ? 'Quote' : undefined });
+      case 'text': {
+        const text = token as Tokens.Text;
+        return paragraph(text.tokens ? inlineRuns(text.tokens) : run(unescapeHtml(text.text)), { style: quote ? 'Quote' : undefined });
+      }
+      case 'blockquote':
+        return blocks((token as Tokens.Blockquote).tokens, numbering, true, listLevel);
+      case 'list': {
+        const list = token as Tokens.List;
+        const numId = list.ordered ? numbering.nextOrdered() : Numbering.BULLET_NUM;
+        return list.items.map(item => item.tokens.map(child => {
+          if (child.type === 'list') return blocks([child], numbering, quote, listLevel + 1);
+          const inline = child.type === 'text' || child.type === 'paragraph' ? (child as Tokens.Text).tokens : undefined;
+          const checkbox = item.task ? run(item.checked ? '☑ ' : '☐ ') : '';
+          return inline
+            ? paragraph(checkbox + inlineRuns(inline), { style: 'ListParagraph', numId, level: listLevel })
+            : blocks([child], numbering, quote, listLevel);
+        }).join('')).join('');
+      }
+      case 'table': {
+        const t = token as Tokens.Table;
+        return table(
+          t.header.map(c => paragraph(inlineRuns(c.tokens, { bold: true }))),
+          t.rows.map(r => r.map(c => paragraph(inlineRuns(c.tokens))))
+        );
+      }
+      case 'code':
+        return (token as Tokens.Code).text.split('\n').map(line => paragraph(run(line, { code: true }), { style: 'Code', ltr: true })).join('');
+      case 'hr':
+        return paragraph('', { style: 'Separator' });
+      default:
+        return ''; // space, html, def
+    }
+  }).join('');
+
+// --- Package ---
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+// pPr/rPr children must follow the schema order or Word reports the file as corrupted.
+// In bidi paragraphs Word reads jc "left" and ind left/right as logical (start/end) sides
+const paragraphStyle = (id: string, name: string, pPr: string, rPr: string = '') =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}<w:rtl/></w:rPr></w:style>`;
+
+// Real Word styles (not direct formatting) so teachers can restyle the whole document from the Styles pane
+const STYLES = [
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:styles xmlns:w="${W_NS}">`,
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${FONT}" w:hAnsi="${FONT}" w:cs="${FONT}"/><w:sz w:val="24"/><w:szCs w:val="26"/><w:lang w:val="en-US" w:bidi="ar-SA"/></w:rPr></w:rPrDefault>`,
+  '<w:pPrDefault><w:pPr><w:bidi/><w:spacing w:after="120" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:bidi/><w:jc w:val="both"/></w:pPr><w:rPr><w:rtl/></w:rPr></w:style>',
+  paragraphStyle('Title', 'Title', '<w:bidi/><w:spacing w:after="240"/><w:jc w:val="center"/>', '<w:b/><w:bCs/><w:color w:val="0F766E"/><w:sz w:val="44"/><w:szCs w:val="48"/>'),
+  paragraphStyle('Subtitle', 'Subtitle', '<w:bidi/><w:spacing w:after="360"/><w:jc w:val="center"/>', '<w:color w:val="808080"/><w:sz w:val="22"/><w:szCs w:val="22"/>'),
+  paragraphStyle('Heading1', 'heading 1', '<w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="14B8A6"/></w:pBdr><w:bidi/><w:spacing w:before="360" w:after="160"/><w:jc w:val="left"/><w:outlineLvl w:val="0"/>', '<w:b/><w:bCs/><w:color w:val="0F766E"/><w:sz w:val="36"/><w:szCs w:val="40"/>'),
+  paragraphStyle('Heading2', 'heading 2', '<w:keepNext/><w:bidi/><w:spacing w:before="280" w:after="120"/><w:jc w:val="left"/><w:outlineLvl w:val="1"/>', '<w:b/><w:bCs/><w:color w:val="1F2937"/><w:sz w:val="30"/><w:szCs w:val="34"/>'),
+  paragraphStyle('Heading3', 'heading 3', '<w:keepNext/><w:bidi/><w:spacing w:before="200" w:after="80"/><w:jc w:val="left"/><w:outlineLvl w:val="2"/>', '<w:b/><w:bCs/><w:color w:val="374151"/><w:sz w:val="26"/><w:szCs w:val="30"/>'),
+  paragraphStyle('Quote', 'Quote', '<w:pBdr><w:right w:val="single" w:sz="18" w:space="8" w:color="14B8A6"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:bidi/><w:ind w:left="284" w:right="284"/>', '<w:i/><w:iCs/><w:color w:val="4B5563"/>'),
+  paragraphStyle('ListParagraph', 'List Paragraph', '<w:bidi/><w:spacing w:after="60"/><w:contextualSpacing/><w:jc w:val="left"/>'),
+  paragraphStyle('Separator', 'Separator', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr><w:bidi/>'),
+  paragraphStyle('Answer', 'Answer Key', '<w:shd w:val="clear" w:color="auto" w:fill="ECFDF5"/><w:bidi/><w:jc w:val="left"/>', '<w:color w:val="166534"/>'),
+  `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:bidi w:val="0"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:jc w:val="left"/></w:pPr><w:rPr><w:rFonts w:ascii="${CODE_FONT}" w:hAnsi="${CODE_FONT}" w:cs="${CODE_FONT}"/><w:sz w:val="20"/></w:rPr></w:style>`,
+  '</w:styles>'
+].join('');
+
+const coreProperties = (title: string) => {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title><dc:creator>منصة فصيح</dc:creator><dc:language>ar</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`;
+};
+
+const packageDocx = (title: string, body: string, numbering: Numbering): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const document = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="${W_NS}"><w:body>`,
+    body,
+    // A4 with 2 cm margins; bidi section so page numbering and columns follow RTL
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/><w:bidi/></w:sectPr>',
+    '</w:body></w:document>'
+  ].join('');
+
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', ROOT_RELS);
+  zip.file('docProps/core.xml', coreProperties(title));
+  zip.file('word/document.xml', document);
+  zip.file('word/styles.xml', STYLES);
+  zip.file('word/numbering.xml', numbering.toXml());
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS);
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+const documentHeader = (title: string, subtitle: string): string =>
+  paragraph(run(title), { style: 'Title' }) +
+  paragraph(run(`${subtitle} · ${new Date().toLocaleDateString('ar-EG', { year: 'numeric', month: 'long', day: 'numeric' })}`), { style: 'Subtitle' });
+
+// --- Public builders ---
+
+export const createLessonDocx = (title: string, markdown: string): Promise<Blob> => {
+  const numbering = new Numbering();
+  const body = documentHeader(title, 'مذكرة دراسية') + blocks(marked.lexer(markdown), numbering);
+  return packageDocx(title, body, numbering);
+};
+
+export const createSummaryDocx = (title: string, summary: SummaryPoint[]): Promise<Blob> => {
+  const numbering = new Numbering();
+  const body = documentHeader(title, 'ملخص الدرس') + table(
+    ['#', 'النقطة', 'الشرح'].map(h => paragraph(run(h, { bold: true }), { align: 'center' })),
+    summary.map((item, i) => [
+      paragraph(run(String(i + 1)), { align: 'center' }),
+      paragraph(run(item.point, { bold: true })),
+      paragraph(run(item.explanation))
+    ]),
+    [500, 1500, 3000]
+  );
+  return packageDocx(title, body, numbering);
+};
+
+const questionBody = (question: Question, mode: QuizExportMode): string => {
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+      return (question.options || []).map((option, i) => paragraph(run(`○  ${optionLabel(i)}) ${option}`), { style: 'ListParagraph' })).join('');
+    case QuestionType.TRUE_FALSE:
+      return paragraph(run('○  صواب          ○  خطأ'), { style: 'ListParagraph' });
+    case QuestionType.ORDERING:
+      return (question.options || []).map(option => paragraph(run(`[    ]  ${option}`), { style: 'ListParagraph' })).join('');
+    case QuestionType.MATCHING: {
+      const matches = question.matches || [];
+      return table(
+        ['العمود الأول', 'العمود الثاني'].map(h => paragraph(run(h, { bold: true }), { align: 'center' })),
+        matches.map(m => [paragraph(run(m.left)), paragraph(run(mode === 'TEACHER' ? m.right : '..........'))])
+      ) + (mode === 'STUDENT' && question.options?.length
+        ? paragraph(run('الخيارات: ', { bold: true }) + run(question.options.join('  ·  ')))
+        : '');
+    }
+    default:
+      return paragraph(run(ANSWER_LINE, { color: '9CA3AF' }));
+  }
+};
+
+/**
+ * STUDENT: name/class fields and blank answer space.
+ * TEACHER: the same paper followed by an answer key table with explanations.
+ */
+export const createQuizDocx = (quiz: Quiz, mode: QuizExportMode): Promise<Blob> => {
+  const numbering = new Numbering();
+  const parts = [documentHeader(quiz.title, mode === 'TEACHER' ? 'نسخة المعلم (نموذج الإجابة)' : 'نسخة الطالب')];
+
+  if (mode === 'STUDENT') {
+    parts.push(table([], [[
+      paragraph(run('الاسم: ', { bold: true }) + run('____________________')),
+      paragraph(run('الصف: ', { bold: true }) + run('__________')),
+      paragraph(run('الدرجة: ', { bold: true }) + run(`____ / ${quiz.questions.length}`))
+    ]]));
+  }
+
+  quiz.questions.forEach((question, i) => {
+    parts.push(paragraph(
+      run(`${i + 1}. `, { bold: true }) + run(question.text, { bold: true }) + run(`  (${QUESTION_TYPE_LABELS[question.type] || 'سؤال'})`, { color: '9CA3AF' }),
+      { keepNext: true }
+    ));
+    parts.push(questionBody(question, mode));
+  });
+
+  if (mode === 'TEACHER') {
+    parts.push(paragraph(run('نموذج الإجابة'), { style: 'Heading1' }));
+    parts.push(table(
+      ['#', 'الإجابة', 'الشرح'].map(h => paragraph(run(h, { bold: true }), { align: 'center' })),
+      quiz.questions.map((question, i) => [
+        paragraph(run(String(i + 1)), { align: 'center' }),
+        paragraph(run(formatAnswer(question), { bold: true }), { style: 'Answer' }),
+        paragraph(run(question.explanation || ''))
+      ]),
+      [500, 2000, 2500]
+    ));
+  }
+
+  return packageDocx(quiz.title, parts.join(''), numbering);
+};
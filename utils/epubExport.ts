@@ -0,0 +1,112 @@
+// EPUB 3 export of a lesson: one RTL XHTML chapter per top-level section of the markdown
+import { marked, Token, Tokens } from 'marked';
+import { getJSZip, escapeXml } from './zip';
+
+interface Chapter {
+  title: string;
+  tokens: Token[];
+}
+
+const STYLESHEET = `
+html { direction: rtl; }
+body { font-family: "Amiri", "Traditional Arabic", "Arial", serif; line-height: 1.9; margin: 0 5%; text-align: justify; }
+h1, h2, h3 { color: #0f766e; line-height: 1.4; text-align: right; }
+h1 { border-bottom: 2px solid #14b8a6; padding-bottom: 0.3em; }
+blockquote { margin: 1em 0; padding: 0.5em 1em; border-right: 4px solid #14b8a6; background: #f3f4f6; color: #4b5563; }
+table { width: 100%; border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #bfbfbf; padding: 0.4em 0.6em; text-align: right; }
+th { background: #e6f4f1; }
+pre, code { direction: ltr; text-align: left; font-family: monospace; }
+pre { background: #f3f4f6; padding: 0.8em; white-space: pre-wrap; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { color: #808080; }
+`;
+
+// marked emits HTML; XHTML needs void elements closed and no named entities beyond the XML five
+const toXhtml = (html: string): string =>
+  html
+    .replace(/<(br|hr|img|input|col)(\s[^>]*?)?\s*\/?>/g, (_, tag, attrs = '') => `<${tag}${attrs} />`)
+    .replace(/&nbsp;/g, '&#160;');
+
+/**
+ * Splits the lesson at its highest heading level (usually h1 or h2) so the reader's table of
+ * contents lists the lesson sections. Raw HTML blocks are dropped: they are rarely well-formed XML.
+ */
+const splitChapters = (tokens: Token[], fallbackTitle: string): Chapter[] => {
+  const headings = tokens.filter((t): t is Tokens.Heading => t.type === 'heading');
+  const splitDepth = headings.length ? Math.min(...headings.map(h => h.depth)) : 0;
+  const chapters: Chapter[] = [];
+
+  tokens.filter(t => t.type !== 'html').forEach(token => {
+    if (token.type === 'heading' && (token as Tokens.Heading).depth === splitDepth) {
+      chapters.push({ title: (token as Tokens.Heading).text.replace(/[*_`]/g, ''), tokens: [token] });
+    } else if (chapters.length === 0) {
+      chapters.push({ title: fallbackTitle, tokens: [token] });
+    } else {
+      chapters[chapters.length - 1].tokens.push(token);
+    }
+  });
+  return chapters.length ? chapters : [{ title: fallbackTitle, tokens: [] }];
+};
+
+const xhtmlPage = (title: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="ar" lang="ar" dir="rtl">
+<head><meta charset="UTF-8" /><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css" /></head>
+<body dir="rtl">
+${body}
+</body>
+</html>`;
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+export const createLessonEpub = (title: string, markdown: string): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const chapters = splitChapters(marked.lexer(markdown), title);
+  const chapterFile = (i: number) => `chapter-${i + 1}.xhtml`;
+  const identifier = `urn:faseeh:${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const date = new Date().toLocaleDateString('ar-EG', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="ar" dir="rtl">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>ar</dc:language>
+<dc:creator>منصة فصيح</dc:creator>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="css" href="style.css" media-type="text/css"/>
+<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapters.map((_, i) => `<item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine page-progression-direction="rtl">
+<itemref idref="title-page"/>
+${chapters.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join('\n')}
+</spine>
+</package>`;
+
+  const nav = xhtmlPage('المحتويات', `<nav epub:type="toc" id="toc"><h1>المحتويات</h1><ol>
+${chapters.map((chapter, i) => `<li><a href="${chapterFile(i)}">${escapeXml(chapter.title)}</a></li>`).join('\n')}
+</ol></nav>`);
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER);
+  zip.file('OEBPS/content.opf', opf);
+  zip.file('OEBPS/nav.xhtml', nav);
+  zip.file('OEBPS/style.css', STYLESHEET);
+  zip.file('OEBPS/title.xhtml', xhtmlPage(title, `<section class="title-page"><h1>${escapeXml(title)}</h1><p>منصة فصيح · ${escapeXml(date)}</p></section>`));
+  chapters.forEach((chapter, i) => {
+    zip.file(`OEBPS/${chapterFile(i)}`, xhtmlPage(chapter.title, toXhtml(marked.parser(chapter.tokens))));
+  });
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+};
@@ -0,0 +1,133 @@
+// Flashcards as delimited text: CSV for spreadsheets, TSV in Anki's "Notes in Plain Text" layout
+import { Flashcard, FlashcardDeck } from '../types';
+import { cardTags } from './anki';
+import { unescapeHtml } from './markdownText';
+
+export type Delimiter = ',' | '\t' | ';';
+
+export interface ParsedFlashcardFile {
+  cards: Flashcard[];
+  skipped: number; // Rows without both a front and a back
+}
+
+const HEADER_NAMES = {
+  front: ['front', 'question', 'سؤال', 'السؤال', 'الوجه', 'الوجه الأمامي'],
+  back: ['back', 'answer', 'جواب', 'الجواب', 'الإجابة', 'الاجابة', 'الوجه الخلفي'],
+  tags: ['tags', 'tag', 'وسوم', 'الوسوم']
+};
+
+// Anki's "#separator:" values
+const SEPARATORS: Record<string, Delimiter> = { tab: '\t', comma: ',', semicolon: ';' };
+
+const quoteCell = (value: string, delimiter: Delimiter) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toRow = (cells: string[], delimiter: Delimiter) => cells.map(cell => quoteCell(cell, delimiter)).join(delimiter);
+
+/**
+ * CSV starts with a BOM and a header row so Excel opens Arabic text as UTF-8;
+ * TSV carries Anki's file headers instead, so it imports into Anki as-is (tags in column 3).
+ */
+export const flashcardsToDelimited = (decks: FlashcardDeck[], delimiter: Delimiter): string => {
+  const rows = decks.flatMap(({ title, cards }) =>
+    cards.map(card => toRow([card.front.trim(), card.back.trim(), cardTags(card, title).join(' ')], delimiter))
+  );
+  const header = delimiter === '\t'
+    ? ['#separator:tab', '#html:false', '#columns:Front\tBack\tTags', '#tags column:3']
+    : ['\uFEFF' + toRow(['front', 'back', 'tags'], delimiter)];
+  return [...header, ...rows].join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+// RFC 4180: quoted cells may contain the delimiter, doubled quotes and line breaks
+const parseRows = (source: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+};
+
+const detectDelimiter = (firstLine: string, fileName: string): Delimiter => {
+  if (/\.tsv$/i.test(fileName) || firstLine.includes('\t')) return '\t';
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+};
+
+const htmlToText = (value: string) =>
+  unescapeHtml(value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p)>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ')).trim();
+
+const columnOf = (header: string[], names: string[]) => header.findIndex(cell => names.includes(cell.trim().toLowerCase()));
+
+/** Reads CSV/TSV decks (our own exports, Anki's plain-text notes or a two-column spreadsheet). */
+export const parseFlashcardFile = (source: string, fileName: string): ParsedFlashcardFile => {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // Anki file headers ("#separator:tab", "#html:true", "#tags column:3") come before the data
+  const options: Record<string, string> = {};
+  let start = 0;
+  while (start < lines.length && lines[start].startsWith('#')) {
+    const match = lines[start].match(/^#([\w ]+):(.*)$/);
+    if (match) options[match[1].trim().toLowerCase()] = match[2].trim();
+    start++;
+  }
+
+  const body = lines.slice(start).join('\n');
+  const separator = options.separator?.toLowerCase();
+  const delimiter: Delimiter = separator
+    ? SEPARATORS[separator] || (separator as Delimiter)
+    : detectDelimiter(lines[start] || '', fileName);
+  const isHtml = options.html?.toLowerCase() === 'true';
+  const clean = (value: string = '') => (isHtml ? htmlToText(value) : value.trim());
+
+  let rows = parseRows(body, delimiter).filter(row => row.some(cell => cell.trim()));
+  // Anki puts its guid/notetype/deck columns (when exported) before the note fields
+  const fieldsStart = Math.max(0, ...['guid column', 'notetype column', 'deck column'].map(key => Number(options[key]) || 0));
+  let columns = { front: fieldsStart, back: fieldsStart + 1, tags: options['tags column'] ? Number(options['tags column']) - 1 : fieldsStart + 2 };
+
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) || [];
+  if (header.length >= 2 && columnOf(header, HEADER_NAMES.front) !== -1 && columnOf(header, HEADER_NAMES.back) !== -1) {
+    columns = { front: columnOf(header, HEADER_NAMES.front), back: columnOf(header, HEADER_NAMES.back), tags: columnOf(header, HEADER_NAMES.tags) };
+    rows = rows.slice(1);
+  }
+
+  const result: ParsedFlashcardFile = { cards: [], skipped: 0 };
+  rows.forEach(row => {
+    const front = clean(row[columns.front]);
+    const back = clean(row[columns.back]);
+    if (!front || !back) {
+      result.skipped++;
+      return;
+    }
+    const tags = columns.tags >= 0 ? (row[columns.tags] || '').split(/\s+/).filter(Boolean) : [];
+    result.cards.push(tags.length ? { front, back, tags } : { front, back });
+  });
+  return result;
+};
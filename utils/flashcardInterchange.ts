@@ -0,0 +1,51 @@
+// Flashcards leaving and entering the app: Anki packages and CSV/TSV decks
+import { Flashcard, FlashcardDeck } from '../types';
+import { createAnkiPackage } from './anki';
+import { flashcardsToDelimited, parseFlashcardFile } from './flashcardCsv';
+import { downloadBlob } from './zip';
+
+export type FlashcardFormat = 'apkg' | 'csv' | 'tsv';
+
+export const FLASHCARD_FORMATS: Record<FlashcardFormat, { label: string; hint: string }> = {
+  apkg: { label: 'Anki', hint: 'حزمة apkg جاهزة للاستيراد في Anki' },
+  csv: { label: 'CSV', hint: 'جدول بيانات (Excel / Google Sheets)' },
+  tsv: { label: 'TSV', hint: 'نص مفصول بعلامات الجدولة (Anki / Quizlet)' }
+};
+
+export const FLASHCARD_IMPORT_ACCEPT = '.csv,.tsv,.txt';
+
+// Several lessons go into one parent deck, one subdeck per lesson
+const PARENT_DECK = 'فصيح';
+
+export const exportFlashcards = async (decks: FlashcardDeck[], format: FlashcardFormat): Promise<Blob> => {
+  const withCards = decks.filter(deck => deck.cards.length > 0);
+  if (withCards.length === 0) throw new Error('لا توجد بطاقات للتصدير');
+  switch (format) {
+    case 'apkg':
+      return createAnkiPackage(withCards, withCards.length > 1 ? PARENT_DECK : undefined);
+    case 'csv':
+      return new Blob([flashcardsToDelimited(withCards, ',')], { type: 'text/csv;charset=utf-8' });
+    case 'tsv':
+      return new Blob([flashcardsToDelimited(withCards, '\t')], { type: 'text/tab-separated-values;charset=utf-8' });
+  }
+};
+
+export const downloadFlashcards = async (decks: FlashcardDeck[], format: FlashcardFormat, filename: string) => {
+  const blob = await exportFlashcards(decks, format);
+  downloadBlob(blob, `${filename}.${format}`);
+};
+
+export interface FlashcardImportResult {
+  cards: Flashcard[];
+  skipped: number;
+}
+
+/** Reads a CSV/TSV deck; imported cards start unscheduled, like freshly generated ones. */
+export const importFlashcardFile = async (file: File): Promise<FlashcardImportResult> => {
+  if (/\.apkg$/i.test(file.name)) throw new Error('استيراد حزم Anki غير مدعوم. صدّر المجموعة من Anki كنص (Notes in Plain Text) ثم استوردها');
+  if (!/\.(csv|tsv|txt)$/i.test(file.name)) throw new Error('صيغة الملف غير مدعومة. الصيغ المدعومة: CSV، TSV، TXT');
+
+  const parsed = parseFlashcardFile(await file.text(), file.name);
+  if (parsed.cards.length === 0) throw new Error('لم يتم العثور على بطاقات في الملف (يلزم عمود للسؤال وعمود للإجابة)');
+  return parsed;
+};
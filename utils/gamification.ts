@@ -0,0 +1,146 @@
+// Streaks, levels, achievements and weekly goals. Pure functions over UserStats and the XP ledger
+// (append-only, in IndexedDB); App owns the state and writes the ledger
+import { UserStats, XPEvent, XPSource } from '../types';
+import { dayKey, daysBetween, shiftDay } from './calendar';
+
+export const XP_PER_LEVEL = 1000;
+export const FREEZE_EVERY_DAYS = 7; // A streak freeze is earned every 7 days of streak
+export const MAX_STREAK_FREEZES = 2;
+export const DEFAULT_WEEKLY_XP_GOAL = 500;
+export const WEEKLY_XP_GOAL_OPTIONS = [250, 500, 1000, 2000];
+const WEEK_START_DAY = 6; // Saturday, the first day of the school week
+
+export const XP_SOURCE_LABELS: Record<XPSource, string> = {
+  LESSON: 'معالجة درس',
+  SUMMARY: 'إنشاء ملخص',
+  FLASHCARDS: 'إنشاء بطاقات',
+  QUIZ: 'اختبار',
+  REVIEW: 'مراجعة بطاقة'
+};
+
+export const levelForXP = (xp: number) => Math.floor(xp / XP_PER_LEVEL) + 1;
+
+// Older saves only know the last visit
+const lastActiveDay = (stats: UserStats): string | undefined => {
+  if (stats.lastActiveDate) return stats.lastActiveDate;
+  const legacy = stats.lastLoginDate ? new Date(stats.lastLoginDate) : null;
+  return legacy && !isNaN(legacy.getTime()) ? dayKey(legacy) : undefined;
+};
+
+export interface StreakCheck {
+  stats: UserStats;
+  freezesUsed: number;
+  lostStreak: number; // Length of the streak that was broken, 0 if it survived
+}
+
+/**
+ * Settles the days missed since the last day of study. If there are enough freezes (and they are
+ * switched on) every missed day spends one and the streak survives; otherwise it resets to 0.
+ * Today itself is only counted once the student earns XP (see applyXP).
+ */
+export const checkStreak = (stats: UserStats, today: string = dayKey()): StreakCheck => {
+  const last = lastActiveDay(stats);
+  const missed = last ? daysBetween(last, today) - 1 : 0;
+  if (missed <= 0 || stats.streak === 0) {
+    return { stats: { ...stats, lastActiveDate: last }, freezesUsed: 0, lostStreak: 0 };
+  }
+  const freezes = stats.streakFreezes || 0;
+  if (stats.useStreakFreezes !== false && freezes >= missed) {
+    return { stats: { ...stats, streakFreezes: freezes - missed, lastActiveDate: shiftDay(today, -1) }, freezesUsed: missed, lostStreak: 0 };
+  }
+  return { stats: { ...stats, streak: 0, lastActiveDate: last }, freezesUsed: 0, lostStreak: stats.streak };
+};
+
+/** Adds XP and levels up; the first award of the day also extends the streak. */
+export const applyXP = (stats: UserStats, amount: number, today: string = dayKey()): UserStats => {
+  const settled = checkStreak(stats, today).stats;
+  const xp = settled.xp + amount;
+  const next: UserStats = { ...settled, xp, level: Math.max(settled.level, levelForXP(xp)) };
+  if (settled.lastActiveDate === today) return next;
+
+  const streak = settled.streak + 1;
+  const freezes = (settled.streakFreezes || 0) + (streak % FREEZE_EVERY_DAYS === 0 ? 1 : 0);
+  return {
+    ...next,
+    streak,
+    bestStreak: Math.max(settled.bestStreak || 0, streak),
+    streakFreezes: Math.min(MAX_STREAK_FREEZES, freezes),
+    lastActiveDate: today
+  };
+};
+
+export const createXPEvent = (source: XPSource, amount: number, details: Pick<XPEvent, 'label' | 'percent'> = {}): XPEvent => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  date: new Date().toISOString(),
+  source,
+  amount,
+  ...details
+});
+
+// --- Achievements ---
+
+export interface LedgerSummary {
+  lessons: number;
+  quizzes: number;
+  perfectQuizzes: number;
+  cardsReviewed: number;
+}
+
+export const summarizeLedger = (events: XPEvent[]): LedgerSummary => ({
+  lessons: events.filter(e => e.source === 'LESSON').length,
+  quizzes: events.filter(e => e.source === 'QUIZ').length,
+  perfectQuizzes: events.filter(e => e.source === 'QUIZ' && e.percent === 100).length,
+  cardsReviewed: events.filter(e => e.source === 'REVIEW').length
+});
+
+export interface Achievement {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  isEarned: (summary: LedgerSummary, stats: UserStats) => boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'FIRST_LESSON', icon: '📘', title: 'البداية', description: 'عالج درسك الأول', isEarned: s => s.lessons >= 1 },
+  { id: 'LESSONS_10', icon: '📚', title: 'قارئ نهم', description: 'عالج 10 دروس', isEarned: s => s.lessons >= 10 },
+  { id: 'FIRST_QUIZ', icon: '📝', title: 'أول اختبار', description: 'أكمل اختبارك الأول', isEarned: s => s.quizzes >= 1 },
+  { id: 'QUIZZES_25', icon: '🎯', title: 'متمرس', description: 'أكمل 25 اختباراً', isEarned: s => s.quizzes >= 25 },
+  { id: 'PERFECT_QUIZ', icon: '💯', title: 'العلامة الكاملة', description: 'احصل على 100% في اختبار', isEarned: s => s.perfectQuizzes >= 1 },
+  { id: 'CARDS_100', icon: '🧠', title: 'ذاكرة حديدية', description: 'راجع 100 بطاقة', isEarned: s => s.cardsReviewed >= 100 },
+  { id: 'STREAK_7', icon: '🔥', title: 'أسبوع متواصل', description: 'ادرس 7 أيام متتالية', isEarned: (_, stats) => (stats.bestStreak || 0) >= 7 },
+  { id: 'STREAK_30', icon: '🏆', title: 'شهر من المثابرة', description: 'ادرس 30 يوماً متتالية', isEarned: (_, stats) => (stats.bestStreak || 0) >= 30 },
+  { id: 'LEVEL_5', icon: '⭐', title: 'المستوى الخامس', description: 'اجمع نقاطاً تكفي للمستوى 5', isEarned: (_, stats) => stats.level >= 5 }
+];
+
+// Achievements already unlocked are never re-checked, so one stays unlocked even if the ledger is later restored from an older backup
+export const findNewAchievements = (events: XPEvent[], stats: UserStats): Achievement[] => {
+  const summary = summarizeLedger(events);
+  return ACHIEVEMENTS.filter(a => !stats.achievements?.[a.id] && a.isEarned(summary, stats));
+};
+
+// --- Weekly Goals ---
+
+export interface WeeklyGoal {
+  id: 'XP' | 'DAYS' | 'QUIZZES' | 'CARDS';
+  label: string;
+  current: number;
+  target: number;
+}
+
+export const startOfWeek = (now: Date = new Date()): Date => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - ((start.getDay() - WEEK_START_DAY + 7) % 7));
+  return start;
+};
+
+export const weeklyGoals = (events: XPEvent[], xpGoal: number = DEFAULT_WEEKLY_XP_GOAL, now: Date = new Date()): WeeklyGoal[] => {
+  const since = startOfWeek(now).getTime();
+  const week = events.filter(e => Date.parse(e.date) >= since);
+  return [
+    { id: 'XP', label: 'نقاط الخبرة', current: week.reduce((sum, e) => sum + e.amount, 0), target: xpGoal },
+    { id: 'DAYS', label: 'أيام الدراسة', current: new Set(week.map(e => dayKey(new Date(e.date)))).size, target: 5 },
+    { id: 'QUIZZES', label: 'الاختبارات', current: week.filter(e => e.source === 'QUIZ').length, target: 3 },
+    { id: 'CARDS', label: 'البطاقات المراجعة', current: week.filter(e => e.source === 'REVIEW').length, target: 50 }
+  ];
+};
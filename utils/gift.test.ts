@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { Quiz, QuestionType } from '../types';
+import { quizToGift, giftToQuiz } from './gift';
+
+const roundTrip = (quiz: Quiz) => giftToQuiz(quizToGift(quiz)).questions;
+
+describe('GIFT round trip', () => {
+  it('keeps an arrow inside a matching pair', () => {
+    const [question] = roundTrip({
+      title: 'اختبار',
+      questions: [{
+        id: 1,
+        text: 'صل',
+        type: QuestionType.MATCHING,
+        matches: [{ left: 'أ -> ب', right: 'سهم' }, { left: 'ج', right: 'د -> هـ' }],
+        correctAnswer: '',
+        explanation: ''
+      }]
+    });
+    expect(question.matches).toEqual([{ left: 'أ -> ب', right: 'سهم' }, { left: 'ج', right: 'د -> هـ' }]);
+  });
+
+  it('keeps a backslash followed by "n" apart from a line break', () => {
+    const [question] = roundTrip({
+      title: 'اختبار',
+      questions: [{ id: 1, text: 'المسار C:\\new؟\nسطر ثانٍ', type: QuestionType.SHORT_ANSWER, correctAnswer: '\\n', explanation: '' }]
+    });
+    expect(question.text).toBe('المسار C:\\new؟\nسطر ثانٍ');
+    expect(question.correctAnswer).toBe('\\n');
+  });
+});
@@ -0,0 +1,180 @@
+// GIFT (Moodle's plain-text quiz format): export and import
+import { Quiz, Question, QuestionType } from '../types';
+import { QuestionDraft, ParsedQuizFile, BLANK_MARKER, BLANK_PATTERN, isTrueAnswer, correctSequence, correctOptionIndex } from './quizFormat';
+
+// GIFT has no ordering type: ordering questions travel as "item -> position" matching, tagged with this comment
+const ORDERING_TAG = '// [faseeh:ordering]';
+
+const escapeGift = (text: string): string =>
+  text.replace(/([\\~=#{}:])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+// Matching pairs split at the first unescaped "->", so an arrow inside a pair keeps its "-" escaped
+const escapePairSide = (text: string): string => escapeGift(text).replace(/->/g, '\\->');
+
+// One left-to-right pass, so an escaped backslash followed by "n" stays a backslash and an "n"
+const unescapeGift = (text: string): string =>
+  text.replace(/\\([\s\S])/g, (_, char) => char === 'n' ? '\n' : char).trim();
+
+const answerBlock = (question: Question): string => {
+  const entries = (lines: string[]) => `{\n${lines.join('\n')}${question.explanation ? `\n####${escapeGift(question.explanation)}` : ''}\n}`;
+  const written = () => entries([question.correctAnswer, ...(question.acceptedAnswers || [])].map(a => `=${escapeGift(String(a))}`));
+
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+      return entries((question.options || []).map((option, i) => `${i === correctOptionIndex(question) ? '=' : '~'}${escapeGift(option)}`));
+    case QuestionType.TRUE_FALSE:
+      return `{${isTrueAnswer(question) ? 'TRUE' : 'FALSE'}${question.explanation ? `####${escapeGift(question.explanation)}` : ''}}`;
+    case QuestionType.MATCHING:
+      return entries((question.matches || []).map(m => `=${escapePairSide(m.left)} -> ${escapePairSide(m.right)}`));
+    case QuestionType.ORDERING:
+      return entries(correctSequence(question).map((item, i) => `=${escapePairSide(item)} -> ${i + 1}`));
+    default:
+      return written();
+  }
+};
+
+const questionToGift = (question: Question, index: number): string => {
+  const name = `::Q${index + 1}::`;
+  const tag = question.type === QuestionType.ORDERING ? `${ORDERING_TAG}\n` : '';
+  // Missing-word format: the answer braces sit where the blank was
+  if (question.type === QuestionType.FILL_BLANKS && BLANK_PATTERN.test(question.text)) {
+    const [before, after] = question.text.split(BLANK_PATTERN);
+    return `${name}${escapeGift(before.trim())} ${answerBlock(question)} ${escapeGift((after || '').trim())}`.trim();
+  }
+  return `${tag}${name}${escapeGift(question.text)} ${answerBlock(question)}`;
+};
+
+export const quizToGift = (quiz: Quiz): string =>
+  [`$CATEGORY: ${quiz.title.replace(/\//g, '-')}`, ...quiz.questions.map(questionToGift)].join('\n\n') + '\n';
+
+// --- Import ---
+
+// Splits on unescaped marker characters, keeping each marker at the start of its piece
+const splitEntries = (body: string, markers: string): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\') {
+      current += char + (body[i + 1] || '');
+      i++;
+    } else if (markers.includes(char)) {
+      if (current.trim()) pieces.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+const indexOfUnescaped = (text: string, target: string, from: number = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text.startsWith(target, i)) return i;
+  }
+  return -1;
+};
+
+// "=answer#feedback" -> answer text without weight or feedback
+const entryText = (entry: string): string => {
+  const withoutMarker = entry.slice(1).replace(/^%-?\d+(\.\d+)?%/, '');
+  const feedbackAt = indexOfUnescaped(withoutMarker, '#');
+  return unescapeGift(feedbackAt === -1 ? withoutMarker : withoutMarker.slice(0, feedbackAt));
+};
+
+const entryWeight = (entry: string): number => {
+  if (entry[0] === '=') return 100;
+  const weight = entry.slice(1).match(/^%(-?\d+(\.\d+)?)%/);
+  return weight ? Number(weight[1]) : 0;
+};
+
+const parseAnswers = (stem: string, body: string, isMissingWord: boolean, isOrdering: boolean): QuestionDraft | null => {
+  let answers = body.trim();
+  let explanation = '';
+  const generalFeedbackAt = indexOfUnescaped(answers, '####');
+  if (generalFeedbackAt !== -1) {
+    explanation = unescapeGift(answers.slice(generalFeedbackAt + 4));
+    answers = answers.slice(0, generalFeedbackAt).trim();
+  }
+  const base = { text: stem, explanation };
+
+  if (!answers) return null; // Essay questions have nothing to grade
+  if (/^(T|TRUE|F|FALSE)(#|$)/i.test(answers)) {
+    return { ...base, type: QuestionType.TRUE_FALSE, correctAnswer: /^T/i.test(answers) };
+  }
+  if (answers.startsWith('#')) {
+    // Numerical: keep the first exact value ("#3.5", "#3.5:0.1" or "#=3.5")
+    const value = splitEntries(answers.slice(1), '=')[0].replace(/^=/, '').split(/[:#]/)[0].trim();
+    return value ? { ...base, type: QuestionType.SHORT_ANSWER, correctAnswer: value } : null;
+  }
+
+  const entries = splitEntries(answers, '=~');
+  if (entries.some(e => indexOfUnescaped(e, '->') !== -1)) {
+    const pairs = entries.map(e => {
+      const arrow = indexOfUnescaped(e, '->');
+      return { left: unescapeGift(e.slice(1, arrow)), right: unescapeGift(e.slice(arrow + 2)) };
+    });
+    const positions = pairs.map(p => Number(p.right));
+    const isSequence = positions.every(n => Number.isInteger(n)) && [...positions].sort((a, b) => a - b).every((n, i) => n === i + 1);
+    if (isOrdering && isSequence) {
+      const sequence = [...pairs].sort((a, b) => Number(a.right) - Number(b.right)).map(p => p.left);
+      return { ...base, type: QuestionType.ORDERING, correctAnswer: sequence };
+    }
+    return { ...base, type: QuestionType.MATCHING, matches: pairs.filter(p => p.left), correctAnswer: '' };
+  }
+
+  if (entries.some(e => e[0] === '~')) {
+    const options = entries.map(entryText);
+    const best = entries.reduce((bestIndex, e, i) => (entryWeight(e) > entryWeight(entries[bestIndex]) ? i : bestIndex), 0);
+    return { ...base, type: QuestionType.MULTIPLE_CHOICE, options, correctAnswer: options[best] };
+  }
+
+  const [correct, ...accepted] = entries.map(entryText).filter(Boolean);
+  if (!correct) return null;
+  return {
+    ...base,
+    type: isMissingWord ? QuestionType.FILL_BLANKS : QuestionType.SHORT_ANSWER,
+    correctAnswer: correct,
+    acceptedAnswers: accepted.length ? accepted : undefined
+  };
+};
+
+export const giftToQuiz = (source: string): ParsedQuizFile => {
+  const result: ParsedQuizFile = { questions: [], skipped: 0 };
+  // Questions are separated by blank lines; comments only matter for the ordering tag
+  const blocks = source.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/);
+
+  blocks.forEach(block => {
+    const lines = block.split(/\r?\n/);
+    const isOrdering = lines.some(line => line.trim() === ORDERING_TAG);
+    let text = lines.filter(line => !line.trim().startsWith('//')).join('\n').trim();
+    if (!text) return;
+
+    if (text.startsWith('$CATEGORY:')) {
+      const path = text.slice('$CATEGORY:'.length).split('\n')[0].trim();
+      result.title = path.split('/').pop()?.replace(/^\$\w+\$$/, '') || result.title;
+      text = text.split('\n').slice(1).join('\n').trim();
+      if (!text) return;
+    }
+
+    text = text.replace(/^::(.*?)::/s, '').replace(/^\[(html|moodle|plain|markdown)\]/, '').trim();
+    const open = indexOfUnescaped(text, '{');
+    const close = open === -1 ? -1 : indexOfUnescaped(text, '}', open);
+    if (open === -1 || close === -1) {
+      result.skipped++; // Description item with no answer
+      return;
+    }
+
+    const before = unescapeGift(text.slice(0, open).replace(/<[^>]+>/g, ''));
+    const after = unescapeGift(text.slice(close + 1).replace(/<[^>]+>/g, ''));
+    const isMissingWord = after.length > 0;
+    const stem = isMissingWord ? `${before} ${BLANK_MARKER} ${after}` : before;
+    const question = parseAnswers(stem, text.slice(open + 1, close), isMissingWord, isOrdering);
+    if (question) result.questions.push(question);
+    else result.skipped++;
+  });
+
+  return result;
+};
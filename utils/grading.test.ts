@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { Question, QuestionType } from '../types';
+import { normalizeAnswer, gradeTextAnswer, scoreQuestion, similarity, DEFAULT_SIMILARITY_THRESHOLD } from './grading';
+
+const question = (fields: Partial<Question>): Question => ({
+  id: 1,
+  text: 'سؤال',
+  type: QuestionType.SHORT_ANSWER,
+  correctAnswer: '',
+  explanation: '',
+  ...fields
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores the definite article', () => {
+    expect(normalizeAnswer('الماء')).toBe(normalizeAnswer('ماء'));
+  });
+
+  it('ignores hamza forms, alef maqsura, diacritics and tatweel', () => {
+    expect(normalizeAnswer('أَحْمَـــد')).toBe(normalizeAnswer('احمد'));
+    expect(normalizeAnswer('إلى')).toBe(normalizeAnswer('الي'));
+  });
+
+  it('reads Arabic-Indic digits', () => {
+    expect(normalizeAnswer('٣')).toBe('3');
+  });
+});
+
+describe('gradeTextAnswer', () => {
+  it('accepts a synonym from acceptedAnswers', () => {
+    const grade = gradeTextAnswer('المحيط الهادي', 'المحيط الهادئ', ['الباسيفيكي']);
+    expect(grade.isCorrect).toBe(true);
+    expect(gradeTextAnswer('الباسيفيكي', 'المحيط الهادئ', ['الباسيفيكي'])).toMatchObject({ isCorrect: true, matchedAnswer: 'الباسيفيكي' });
+  });
+
+  it('passes at the similarity cutoff and fails just below it', () => {
+    const score = similarity(normalizeAnswer('مستشفا'), normalizeAnswer('مستشفى'));
+    expect(gradeTextAnswer('مستشفا', 'مستشفى', [], score).isCorrect).toBe(true);
+    expect(gradeTextAnswer('مستشفا', 'مستشفى', [], score + 0.001).isCorrect).toBe(false);
+  });
+
+  it('uses the default threshold for small typos', () => {
+    // 1 edit in 7 letters is above 0.85, 1 in 6 is below
+    expect(similarity('مستشفيا', 'مستشفيه')).toBeGreaterThanOrEqual(DEFAULT_SIMILARITY_THRESHOLD);
+    expect(gradeTextAnswer('مستشفيا', 'مستشفيه').isCorrect).toBe(true);
+    expect(gradeTextAnswer('مستشفا', 'مستشفى').isCorrect).toBe(false);
+  });
+
+  it('requires numbers to match exactly', () => {
+    expect(gradeTextAnswer('١٢٤', '123').isCorrect).toBe(false);
+    expect(gradeTextAnswer('١٢٣', '123').isCorrect).toBe(true);
+  });
+});
+
+describe('scoreQuestion', () => {
+  const ordering = question({ type: QuestionType.ORDERING, correctAnswer: ['أ', 'ب', 'ج', 'د'] });
+
+  it('gives ordering credit for the longest subsequence by default', () => {
+    expect(scoreQuestion(ordering, ['ب', 'أ', 'ج', 'د'])).toEqual({ credit: 0.75, isCorrect: false });
+  });
+
+  it('gives ordering credit for concordant pairs with Kendall tau', () => {
+    const kendall = { ...ordering, scoring: { ordering: 'KENDALL_TAU' as const } };
+    expect(scoreQuestion(kendall, ['ب', 'أ', 'ج', 'د']).credit).toBe(0.83); // 5 of 6 pairs
+    expect(scoreQuestion(kendall, ['د', 'ج', 'ب', 'أ']).credit).toBe(0);
+  });
+
+  it('gives matching credit per correct pair unless all-or-nothing', () => {
+    const matching = question({
+      type: QuestionType.MATCHING,
+      matches: [{ left: '1', right: 'a' }, { left: '2', right: 'b' }, { left: '3', right: 'c' }, { left: '4', right: 'd' }]
+    });
+    const answer = { '1': 'a', '2': 'b', '3': 'd', '4': 'c' };
+    expect(scoreQuestion(matching, answer).credit).toBe(0.5);
+    expect(scoreQuestion(matching, answer, undefined, { matching: 'ALL_OR_NOTHING' }).credit).toBe(0);
+  });
+
+  it('takes off the negative marking for a wrong choice but not for a blank', () => {
+    const mcq = question({ type: QuestionType.MULTIPLE_CHOICE, options: ['أ', 'ب'], correctAnswer: 'أ' });
+    expect(scoreQuestion(mcq, 'ب', undefined, { negativeMarking: 0.25 })).toEqual({ credit: -0.25, isCorrect: false });
+    expect(scoreQuestion(mcq, '', undefined, { negativeMarking: 0.25 }).credit).toBe(0);
+    expect(scoreQuestion(mcq, 'أ', undefined, { negativeMarking: 0.25 })).toEqual({ credit: 1, isCorrect: true });
+  });
+
+  it('lets the question override the quiz rules', () => {
+    const mcq = question({ type: QuestionType.MULTIPLE_CHOICE, correctAnswer: 'أ', scoring: { negativeMarking: 0 } });
+    expect(scoreQuestion(mcq, 'ب', undefined, { negativeMarking: 0.5 }).credit).toBe(0);
+  });
+});
@@ -0,0 +1,205 @@
+// Deterministic grading of quiz answers: Arabic-aware normalization, accepted synonyms and fuzzy matching
+import { Question, QuestionType, ScoringRules } from '../types';
+import { normalizeArabic, stripDefiniteArticle } from './arabic';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+export const DEFAULT_SCORING: Required<ScoringRules> = {
+  matching: 'PROPORTIONAL',
+  ordering: 'LONGEST_SUBSEQUENCE',
+  negativeMarking: 0
+};
+
+const TRUE_WORDS = ['true', 'صواب', 'صح', 'صحيح', 'نعم'];
+const FALSE_WORDS = ['false', 'خطا', 'خاطي', 'غلط', 'لا'];
+const NUMBER_PATTERN = /^-?\d+(\s\d+)?$/; // "3 5" is "3.5" after punctuation folding
+
+/**
+ * Normal form used for comparing written answers: normalizeArabic() (diacritics, tatweel,
+ * hamza/alef forms, taa marbuta, alef maqsura, Arabic-Indic digits, punctuation) plus the
+ * definite article dropped from every word, so "الماءُ" and "ماء" compare equal.
+ */
+export const normalizeAnswer = (text: string): string =>
+  normalizeArabic(text).split(' ').filter(Boolean).map(stripDefiniteArticle).join(' ');
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for nothing in common (edit distance relative to the longer string)
+export const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+export interface TextGrade {
+  isCorrect: boolean;
+  similarity: number; // Best similarity against the correct answer or any accepted synonym
+  matchedAnswer?: string; // The reference answer that was matched
+}
+
+/**
+ * Grades a written answer against the reference and its accepted synonyms.
+ * Numbers must match exactly; other answers pass on an exact normalized match
+ * or when the closest reference is at least `threshold` similar (absorbs small typos).
+ */
+export const gradeTextAnswer = (
+  answer: string,
+  correctAnswer: string,
+  acceptedAnswers: string[] = [],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): TextGrade => {
+  const student = normalizeAnswer(answer);
+  if (!student) return { isCorrect: false, similarity: 0 };
+
+  let best: TextGrade = { isCorrect: false, similarity: 0 };
+  for (const reference of [correctAnswer, ...acceptedAnswers]) {
+    const normalized = normalizeAnswer(reference);
+    if (!normalized) continue;
+    if (student === normalized) return { isCorrect: true, similarity: 1, matchedAnswer: reference };
+    if (NUMBER_PATTERN.test(student) || NUMBER_PATTERN.test(normalized)) continue;
+
+    const score = similarity(student, normalized);
+    if (score > best.similarity) {
+      best = { isCorrect: score >= threshold, similarity: score, matchedAnswer: score >= threshold ? reference : undefined };
+    }
+  }
+  return best;
+};
+
+export const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const normalized = normalizeAnswer(String(value ?? ''));
+  if (TRUE_WORDS.includes(normalized)) return true;
+  if (FALSE_WORDS.includes(normalized)) return false;
+  return null;
+};
+
+// Ordering answers may arrive as a JSON-stringified array from the model
+export const toSequence = (value: unknown): string[] | null => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+  return null;
+};
+
+// Whether a student's answer to a question is correct, for every question type
+export const gradeQuestion = (question: Question, answer: unknown, threshold: number = DEFAULT_SIMILARITY_THRESHOLD): boolean => {
+  if (answer === undefined || answer === null || answer === '') return false;
+
+  switch (question.type) {
+    case QuestionType.ORDERING: {
+      const student = toSequence(answer);
+      const correct = toSequence(question.correctAnswer);
+      return !!student && !!correct && student.length === correct.length && student.every((item, i) => item === correct[i]);
+    }
+    case QuestionType.MATCHING: {
+      if (!question.matches || typeof answer !== 'object') return false;
+      const pairs = answer as Record<string, string>;
+      return question.matches.every(m => pairs[m.left] === m.right);
+    }
+    case QuestionType.TRUE_FALSE: {
+      const student = toBoolean(answer);
+      return student !== null && student === toBoolean(question.correctAnswer);
+    }
+    case QuestionType.MULTIPLE_CHOICE:
+      // Options are picked, not typed: normalize only so formatting differences in the key don't matter
+      return normalizeAnswer(String(answer)) === normalizeAnswer(String(question.correctAnswer));
+    default:
+      return gradeTextAnswer(String(answer), String(question.correctAnswer), question.acceptedAnswers, threshold).isCorrect;
+  }
+};
+
+// Length of the longest run of items the student placed in the right relative order (not necessarily adjacent)
+const longestCommonSubsequence = (a: string[], b: string[]): number => {
+  let previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [0];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Share of item pairs in the right relative order, i.e. Kendall's tau rescaled to 0-1 (a reversed list scores 0)
+const concordantShare = (student: string[], correct: string[]): number => {
+  if (correct.length < 2) return student[0] === correct[0] ? 1 : 0;
+  const position = new Map(student.map((item, i) => [item, i] as [string, number]));
+  let concordant = 0;
+  let pairs = 0;
+  for (let i = 0; i < correct.length; i++) {
+    for (let j = i + 1; j < correct.length; j++) {
+      pairs++;
+      const a = position.get(correct[i]);
+      const b = position.get(correct[j]);
+      if (a !== undefined && b !== undefined && a < b) concordant++;
+    }
+  }
+  return concordant / pairs;
+};
+
+export interface QuestionScore {
+  credit: number; // -negativeMarking to 1
+  isCorrect: boolean;
+}
+
+/**
+ * Points a student's answer earns under the question's scoring rules (falling back to the quiz's, then DEFAULT_SCORING):
+ * partial credit for matching pairs and orderings, and an optional penalty for wrong multiple-choice answers.
+ */
+export const scoreQuestion = (
+  question: Question,
+  answer: unknown,
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+  quizRules: ScoringRules = {}
+): QuestionScore => {
+  if (gradeQuestion(question, answer, threshold)) return { credit: 1, isCorrect: true };
+  if (answer === undefined || answer === null || answer === '') return { credit: 0, isCorrect: false };
+
+  const rules = question.scoring || {};
+  const matching = rules.matching ?? quizRules.matching ?? DEFAULT_SCORING.matching;
+  const ordering = rules.ordering ?? quizRules.ordering ?? DEFAULT_SCORING.ordering;
+  const penalty = rules.negativeMarking ?? quizRules.negativeMarking ?? DEFAULT_SCORING.negativeMarking;
+  let credit = 0;
+
+  switch (question.type) {
+    case QuestionType.ORDERING: {
+      const student = toSequence(answer);
+      const correct = toSequence(question.correctAnswer);
+      if (!student || !correct || correct.length === 0 || ordering === 'ALL_OR_NOTHING') break;
+      credit = ordering === 'KENDALL_TAU' ? concordantShare(student, correct) : longestCommonSubsequence(student, correct) / correct.length;
+      break;
+    }
+    case QuestionType.MATCHING: {
+      if (!question.matches?.length || typeof answer !== 'object' || matching === 'ALL_OR_NOTHING') break;
+      const pairs = answer as Record<string, string>;
+      credit = question.matches.filter(m => pairs[m.left] === m.right).length / question.matches.length;
+      break;
+    }
+    case QuestionType.MULTIPLE_CHOICE:
+      credit = penalty ? -penalty : 0; // Not -0, which would show as "-0" in the score
+      break;
+  }
+  return { credit: Math.round(credit * 100) / 100, isCorrect: false };
+};
@@ -0,0 +1,22 @@
+// Plain text out of marked tokens, for renderers that lay out text themselves (Word, PDF)
+import { Token, Tokens } from 'marked';
+
+// marked HTML-escapes inline text; documents need the literal characters back
+export const unescapeHtml = (text: string): string =>
+  text.replace(/&(amp|lt|gt|quot|#39);/g, (_, entity) => ({ amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'" } as Record<string, string>)[entity]);
+
+// Inline formatting is dropped; line breaks are kept as "\n"
+export const inlineText = (tokens: Token[] = []): string =>
+  tokens.map(token => {
+    switch (token.type) {
+      case 'br':
+        return '\n';
+      case 'image':
+        return `[${(token as Tokens.Image).text || 'صورة'}]`;
+      case 'html':
+        return '';
+      default:
+        if ('tokens' in token && token.tokens) return inlineText(token.tokens);
+        return 'text' in token ? unescapeHtml(String(token.text)) : '';
+    }
+  }).join('');
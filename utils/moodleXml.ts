@@ -0,0 +1,156 @@
+// Moodle XML question bank format: export and import
+import { Quiz, Question, QuestionType } from '../types';
+import { QuestionDraft, ParsedQuizFile, BLANK_MARKER, BLANK_PATTERN, isTrueAnswer, correctSequence, correctOptionIndex } from './quizFormat';
+import { escapeXml } from './zip';
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Question and feedback text go in as right-to-left HTML paragraphs
+const html = (text: string) => cdata(text.split('\n').map(line => `<p dir="rtl">${escapeXml(line)}</p>`).join(''));
+
+const textElement = (tag: string, text: string, format: 'html' | 'plain_text' = 'html') =>
+  `<${tag} format="${format}"><text>${format === 'html' ? html(text) : escapeXml(text)}</text></${tag}>`;
+
+const answer = (fraction: number, text: string, format: 'html' | 'plain_text' = 'plain_text') =>
+  `<answer fraction="${fraction}" format="${format}"><text>${format === 'html' ? html(text) : escapeXml(text)}</text><feedback format="html"><text></text></feedback></answer>`;
+
+const MOODLE_TYPES: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: 'multichoice',
+  [QuestionType.TRUE_FALSE]: 'truefalse',
+  [QuestionType.SHORT_ANSWER]: 'shortanswer',
+  [QuestionType.FILL_BLANKS]: 'shortanswer',
+  [QuestionType.MATCHING]: 'matching',
+  [QuestionType.ORDERING]: 'ordering' // qtype_ordering, standard since Moodle 4.4
+};
+
+const questionBody = (question: Question): string => {
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+      return [
+        '<single>true</single><shuffleanswers>true</shuffleanswers><answernumbering>abc</answernumbering>',
+        ...(question.options || []).map((option, i) => answer(i === correctOptionIndex(question) ? 100 : 0, option, 'html'))
+      ].join('\n');
+    case QuestionType.TRUE_FALSE: {
+      const isTrue = isTrueAnswer(question);
+      return answer(isTrue ? 100 : 0, 'true') + '\n' + answer(isTrue ? 0 : 100, 'false');
+    }
+    case QuestionType.MATCHING:
+      return [
+        '<shuffleanswers>true</shuffleanswers>',
+        ...(question.matches || []).map(m => `<subquestion format="html"><text>${html(m.left)}</text><answer><text>${escapeXml(m.right)}</text></answer></subquestion>`)
+      ].join('\n');
+    case QuestionType.ORDERING:
+      // Answers are listed in the correct order; Moodle shuffles them for the student
+      return [
+        '<layouttype>VERTICAL</layouttype><selecttype>ALL</selecttype><selectcount>0</selectcount><gradingtype>ABSOLUTE_POSITION</gradingtype>',
+        ...correctSequence(question).map(item => answer(1, item, 'html'))
+      ].join('\n');
+    default:
+      return [
+        '<usecase>0</usecase>',
+        ...[String(question.correctAnswer), ...(question.acceptedAnswers || [])].map(a => answer(100, a))
+      ].join('\n');
+  }
+};
+
+export const quizToMoodleXml = (quiz: Quiz): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<quiz>',
+  `<question type="category"><category><text>${escapeXml(`$course$/${quiz.title.replace(/\//g, '-')}`)}</text></category></question>`,
+  ...quiz.questions.map((question, i) => [
+    `<question type="${MOODLE_TYPES[question.type]}">`,
+    `<name><text>${escapeXml(`Q${i + 1}`)}</text></name>`,
+    textElement('questiontext', question.text),
+    textElement('generalfeedback', question.explanation || ''),
+    '<defaultgrade>1</defaultgrade><penalty>0</penalty><hidden>0</hidden>',
+    questionBody(question),
+    '</question>'
+  ].join('\n')),
+  '</quiz>',
+  ''
+].join('\n');
+
+// --- Import ---
+
+// Moodle stores rich text as (escaped or CDATA) HTML
+const htmlToText = (value: string): string => {
+  const doc = new DOMParser().parseFromString(value.replace(/<\/p>\s*<p[^>]*>/gi, '\n').replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+  return (doc.body.textContent || '').replace(/\u00A0/g, ' ').trim();
+};
+
+const child = (parent: Element, tag: string): Element | undefined =>
+  Array.from(parent.children).find(el => el.tagName === tag);
+
+const childText = (parent: Element | undefined, tag: string = 'text'): string => {
+  if (!parent) return '';
+  const element = child(parent, tag);
+  return element ? htmlToText(element.textContent || '') : '';
+};
+
+const children = (parent: Element, tag: string): Element[] =>
+  Array.from(parent.children).filter(el => el.tagName === tag);
+
+const parseQuestion = (el: Element): QuestionDraft | null => {
+  const type = el.getAttribute('type');
+  const text = childText(child(el, 'questiontext'));
+  const explanation = childText(child(el, 'generalfeedback'));
+  const answers = children(el, 'answer').map(a => ({ text: childText(a), fraction: Number(a.getAttribute('fraction') || 0) }));
+  const base = { text, explanation };
+
+  switch (type) {
+    case 'multichoice': {
+      if (answers.length === 0) return null;
+      const best = answers.reduce((b, a, i) => (a.fraction > answers[b].fraction ? i : b), 0);
+      return { ...base, type: QuestionType.MULTIPLE_CHOICE, options: answers.map(a => a.text), correctAnswer: answers[best].text };
+    }
+    case 'truefalse': {
+      const correct = answers.find(a => a.fraction > 0);
+      if (!correct) return null;
+      return { ...base, type: QuestionType.TRUE_FALSE, correctAnswer: /^(true|صواب|صح|صحيح)$/i.test(correct.text) };
+    }
+    case 'shortanswer':
+    case 'numerical': {
+      const [first, ...accepted] = answers.filter(a => a.fraction >= 100).map(a => a.text).filter(Boolean);
+      if (!first) return null;
+      const isBlank = BLANK_PATTERN.test(text);
+      return {
+        ...base,
+        text: isBlank ? text.replace(BLANK_PATTERN, BLANK_MARKER) : text,
+        type: isBlank ? QuestionType.FILL_BLANKS : QuestionType.SHORT_ANSWER,
+        correctAnswer: first,
+        acceptedAnswers: accepted.length ? accepted : undefined
+      };
+    }
+    case 'matching': {
+      // Subquestions without a stem are extra distractors on the right-hand side
+      const matches = children(el, 'subquestion')
+        .map(sub => ({ left: childText(sub), right: childText(child(sub, 'answer')) }))
+        .filter(m => m.left && m.right);
+      return matches.length ? { ...base, type: QuestionType.MATCHING, matches, correctAnswer: '' } : null;
+    }
+    case 'ordering':
+      return answers.length ? { ...base, type: QuestionType.ORDERING, correctAnswer: answers.map(a => a.text) } : null;
+    default:
+      return null; // essay, description, calculated, ddwtos...
+  }
+};
+
+export const moodleXmlToQuiz = (source: string): ParsedQuizFile => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'quiz') {
+    throw new Error('ملف Moodle XML غير صالح');
+  }
+
+  const result: ParsedQuizFile = { questions: [], skipped: 0 };
+  children(doc.documentElement, 'question').forEach(el => {
+    if (el.getAttribute('type') === 'category') {
+      const path = childText(child(el, 'category'));
+      result.title = path.split('/').pop()?.replace(/^\$\w+\$$/, '') || result.title;
+      return;
+    }
+    const question = parseQuestion(el);
+    if (question) result.questions.push(question);
+    else result.skipped++;
+  });
+  return result;
+};
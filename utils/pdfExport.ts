@@ -0,0 +1,494 @@
+// Vector PDF export: selectable, searchable Arabic text laid out with jsPDF and an embedded Amiri font
+import { marked, Token, Tokens } from 'marked';
+import { Quiz, Question, QuestionType, SummaryPoint } from '../types';
+import { inlineText } from './markdownText';
+import { QUESTION_TYPE_LABELS, optionLabel, formatAnswer } from './quizFormat';
+
+declare global {
+  interface Window {
+    jspdf: any;
+  }
+}
+
+export type PdfMode = 'STUDENT' | 'TEACHER' | 'STANDARD';
+
+export interface PdfDocumentInfo {
+  title: string;
+  mode: PdfMode;
+  studentName?: string;
+}
+
+// jsPDF shapes Arabic (presentation forms) and reorders bidi runs itself once the font has the glyphs
+const FONT_NAME = 'Amiri';
+const FONT_FILES: Record<'normal' | 'bold', string> = {
+  normal: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/amiri/Amiri-Regular.ttf',
+  bold: 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/amiri/Amiri-Bold.ttf'
+};
+
+// A4 in millimetres; the header and footer live outside [top, bottom]
+const PAGE = { width: 210, height: 297, margin: 18, top: 32, bottom: 278 };
+const RIGHT = PAGE.width - PAGE.margin;
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.65;
+const CELL_PADDING = 2;
+
+const SIZES = { h1: 18, h2: 15, h3: 13, body: 11.5, small: 9.5, table: 10.5 };
+const COLORS = {
+  text: '#1f2937',
+  muted: '#9ca3af',
+  brand: '#0f766e',
+  accent: '#14b8a6',
+  border: '#d1d5db',
+  fill: '#f3f4f6',
+  headerFill: '#e6f4f1',
+  answer: '#166534',
+  answerFill: '#ecfdf5'
+};
+
+const MODE_LABELS: Record<PdfMode, string> = {
+  STANDARD: 'مذكرة دراسية',
+  STUDENT: 'نسخة الطالب',
+  TEACHER: 'نسخة المعلم (نموذج الإجابة)'
+};
+
+// --- Font ---
+
+let fontData: Promise<Record<'normal' | 'bold', string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Fetched once per session; a failed download is retried on the next export
+const loadFont = (): Promise<Record<'normal' | 'bold', string>> => {
+  if (!fontData) {
+    fontData = Promise.all(
+      (['normal', 'bold'] as const).map(async style => {
+        const response = await fetch(FONT_FILES[style]);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return [style, toBase64(await response.arrayBuffer())] as const;
+      })
+    )
+      .then(entries => Object.fromEntries(entries) as Record<'normal' | 'bold', string>)
+      .catch(() => {
+        fontData = null;
+        throw new Error('تعذر تحميل الخط العربي. تحقق من الاتصال بالإنترنت.');
+      });
+  }
+  return fontData;
+};
+
+const createDoc = async () => {
+  if (!window.jspdf?.jsPDF) throw new Error('مكتبة PDF غير محملة. يرجى تحديث الصفحة.');
+  const font = await loadFont();
+  const doc = new window.jspdf.jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait', compress: true });
+  (['normal', 'bold'] as const).forEach(style => {
+    const file = `${FONT_NAME}-${style}.ttf`;
+    doc.addFileToVFS(file, font[style]);
+    doc.addFont(file, FONT_NAME, style);
+  });
+  doc.setFont(FONT_NAME, 'normal');
+  return doc;
+};
+
+// --- Layout ---
+
+// A measured piece of content; draw() renders it with its top edge at `top`
+interface Block {
+  height: number;
+  draw: (top: number) => void;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  indent?: number; // mm from the right margin
+  width?: number;
+}
+
+const stack = (blocks: Block[]): Block => ({
+  height: blocks.reduce((sum, b) => sum + b.height, 0),
+  draw: top => {
+    let y = top;
+    blocks.forEach(b => {
+      b.draw(y);
+      y += b.height;
+    });
+  }
+});
+
+const gap = (height: number): Block => ({ height, draw: () => {} });
+
+/**
+ * Flows blocks down the pages. Callers decide what may break: place() moves a block that
+ * doesn't fit to the next page, placeTogether() keeps a group on one page whenever the group
+ * fits on a page at all (tables, questions), otherwise it falls back to block-by-block.
+ */
+class PdfWriter {
+  y = PAGE.top;
+
+  constructor(private doc: any) {}
+
+  private setFont(size: number, bold: boolean = false, color: string = COLORS.text) {
+    this.doc.setFont(FONT_NAME, bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color);
+  }
+
+  lineHeight(size: number): number {
+    return size * PT_TO_MM * LINE_SPACING;
+  }
+
+  wrap(text: string, width: number, size: number, bold: boolean = false): string[] {
+    this.setFont(size, bold);
+    return text.split('\n').flatMap(line => (line.trim() ? this.doc.splitTextToSize(line, width) as string[] : ['']));
+  }
+
+  // One block per line, so long paragraphs can break between pages
+  textLines(text: string, options: TextOptions = {}): Block[] {
+    const { size = SIZES.body, bold = false, color = COLORS.text, indent = 0 } = options;
+    const width = options.width ?? CONTENT_WIDTH - indent;
+    const lineHeight = this.lineHeight(size);
+    return this.wrap(text, width, size, bold).map(line => ({
+      height: lineHeight,
+      draw: top => {
+        this.setFont(size, bold, color);
+        this.doc.text(line, RIGHT - indent, top, { align: 'right', baseline: 'top' });
+      }
+    }));
+  }
+
+  text(text: string, options: TextOptions = {}): Block {
+    return stack(this.textLines(text, options));
+  }
+
+  // Code stays left-to-right; the built-in Courier has no Arabic glyphs so mixed lines use the Arabic font
+  codeLines(code: string): Block[] {
+    const size = SIZES.small;
+    const lineHeight = this.lineHeight(size);
+    return code.split('\n').map(line => ({
+      height: lineHeight,
+      draw: top => {
+        this.doc.setFillColor(COLORS.fill);
+        this.doc.rect(PAGE.margin, top, CONTENT_WIDTH, lineHeight, 'F');
+        if (/^[\x20-\x7E]*$/.test(line)) this.doc.setFont('courier', 'normal');
+        else this.doc.setFont(FONT_NAME, 'normal');
+        this.doc.setFontSize(size);
+        this.doc.setTextColor(COLORS.text);
+        this.doc.text(line, PAGE.margin + CELL_PADDING, top + 0.5, { baseline: 'top' });
+      }
+    }));
+  }
+
+  // A shaded box with a coloured bar on the right (blockquotes, answer keys)
+  box(content: Block, fill: string, bar: string): Block {
+    return {
+      height: content.height + CELL_PADDING * 2,
+      draw: top => {
+        this.doc.setFillColor(fill);
+        this.doc.rect(PAGE.margin, top, CONTENT_WIDTH, content.height + CELL_PADDING * 2, 'F');
+        this.doc.setFillColor(bar);
+        this.doc.rect(RIGHT - 1.2, top, 1.2, content.height + CELL_PADDING * 2, 'F');
+        content.draw(top + CELL_PADDING);
+      }
+    };
+  }
+
+  rule(color: string = COLORS.border, width: number = 0.3): Block {
+    return {
+      height: 4,
+      draw: top => {
+        this.doc.setDrawColor(color);
+        this.doc.setLineWidth(width);
+        this.doc.line(PAGE.margin, top + 2, RIGHT, top + 2);
+      }
+    };
+  }
+
+  answerLine(indent: number): Block {
+    return {
+      height: 9,
+      draw: top => {
+        this.doc.setDrawColor(COLORS.border);
+        this.doc.setLineWidth(0.3);
+        this.doc.line(PAGE.margin, top + 7, RIGHT - indent, top + 7);
+      }
+    };
+  }
+
+  // Table rows; the first column sits on the right as on screen. Widths are fractions of the content width.
+  tableRows(header: string[], rows: string[][], fractions?: number[]): { header: Block | null; rows: Block[] } {
+    const columnCount = Math.max(header.length, ...rows.map(r => r.length));
+    const widths = Array.from({ length: columnCount }, (_, i) => (fractions?.[i] ?? 1 / columnCount) * CONTENT_WIDTH);
+    const size = SIZES.table;
+    const lineHeight = this.lineHeight(size);
+
+    const row = (cells: string[], isHeader: boolean): Block => {
+      const wrapped = widths.map((w, i) => this.wrap(cells[i] || '', w - CELL_PADDING * 2, size, isHeader));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+      return {
+        height,
+        draw: top => {
+          let right = RIGHT;
+          wrapped.forEach((lines, i) => {
+            this.doc.setDrawColor(COLORS.border);
+            this.doc.setLineWidth(0.2);
+            if (isHeader) this.doc.setFillColor(COLORS.headerFill);
+            this.doc.rect(right - widths[i], top, widths[i], height, isHeader ? 'FD' : 'S');
+            this.setFont(size, isHeader);
+            lines.forEach((line, l) => {
+              this.doc.text(line, right - CELL_PADDING, top + CELL_PADDING + l * lineHeight, { align: 'right', baseline: 'top' });
+            });
+            right -= widths[i];
+          });
+        }
+      };
+    };
+
+    return { header: header.length ? row(header, true) : null, rows: rows.map(r => row(r, false)) };
+  }
+
+  private newPage() {
+    this.doc.addPage();
+    this.y = PAGE.top;
+  }
+
+  private fits(height: number): boolean {
+    return this.y + height <= PAGE.bottom;
+  }
+
+  place(block: Block) {
+    if (!this.fits(block.height) && this.y > PAGE.top) this.newPage();
+    block.draw(this.y);
+    this.y += block.height;
+  }
+
+  placeAll(blocks: Block[]) {
+    blocks.forEach(b => this.place(b));
+  }
+
+  placeTogether(blocks: Block[]) {
+    const group = stack(blocks);
+    if (group.height <= PAGE.bottom - PAGE.top) this.place(group);
+    else this.placeAll(blocks);
+  }
+
+  // Keeps `block` on the same page as at least `following` mm of what comes next (headings)
+  placeWithNext(block: Block, following: number) {
+    if (!this.fits(block.height + following) && this.y > PAGE.top) this.newPage();
+    this.place(block);
+  }
+
+  // Whole table on one page when possible; otherwise breaks between rows and repeats the header
+  placeTable(table: { header: Block | null; rows: Block[] }) {
+    const all = table.header ? [table.header, ...table.rows] : table.rows;
+    if (stack(all).height <= PAGE.bottom - PAGE.top) {
+      this.placeTogether(all);
+    } else {
+      if (table.header) this.placeWithNext(table.header, table.rows[0]?.height || 0);
+      table.rows.forEach(row => {
+        if (!this.fits(row.height)) {
+          this.newPage();
+          if (table.header) this.place(table.header);
+        }
+        this.place(row);
+      });
+    }
+    this.place(gap(3));
+  }
+
+  // Running header and footer, drawn on every page once the content is laid out
+  decoratePages(info: PdfDocumentInfo) {
+    const total = this.doc.getNumberOfPages();
+    const date = new Date().toLocaleDateString('ar-EG', { year: 'numeric', month: 'long', day: 'numeric' });
+    const title = this.wrap(info.title, CONTENT_WIDTH * 0.6, SIZES.small)[0] || '';
+    const owner = info.mode === 'STANDARD' && info.studentName ? `الطالب: ${info.studentName}` : '';
+
+    for (let page = 1; page <= total; page++) {
+      this.doc.setPage(page);
+      this.setFont(SIZES.h3, true, COLORS.brand);
+      this.doc.text('منصة فصيح', RIGHT, 10, { align: 'right', baseline: 'top' });
+      this.setFont(SIZES.small, false, COLORS.muted);
+      this.doc.text(title, RIGHT, 17, { align: 'right', baseline: 'top' });
+      this.doc.text(date, PAGE.margin, 10, { baseline: 'top' });
+      this.doc.text(owner || MODE_LABELS[info.mode], PAGE.margin, 17, { baseline: 'top' });
+      this.doc.setDrawColor(COLORS.border);
+      this.doc.setLineWidth(0.3);
+      this.doc.line(PAGE.margin, 24, RIGHT, 24);
+
+      this.doc.line(PAGE.margin, PAGE.bottom + 6, RIGHT, PAGE.bottom + 6);
+      this.doc.text(`صفحة ${page} من ${total}`, RIGHT, PAGE.bottom + 8, { align: 'right', baseline: 'top' });
+      this.doc.text('Faseeh Smart Education Platform', PAGE.margin, PAGE.bottom + 8, { baseline: 'top' });
+    }
+  }
+}
+
+// --- Markdown ---
+
+const HEADING_SIZES = [SIZES.h1, SIZES.h2, SIZES.h3];
+
+const writeMarkdown = (writer: PdfWriter, tokens: Token[], indent: number = 0) => {
+  const bodyLine = writer.lineHeight(SIZES.body);
+
+  tokens.forEach(token => {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        const size = HEADING_SIZES[Math.min(heading.depth, 3) - 1];
+        const blocks = [gap(heading.depth === 1 ? 4 : 2), ...writer.textLines(inlineText(heading.tokens), { size, bold: true, color: heading.depth === 1 ? COLORS.brand : COLORS.text, indent })];
+        if (heading.depth === 1) blocks.push(writer.rule(COLORS.accent, 0.6));
+        writer.placeWithNext(stack(blocks), bodyLine * 2);
+        break;
+      }
+      case 'paragraph':
+      case 'text': {
+        const text = token as Tokens.Paragraph | Tokens.Text;
+        writer.placeAll(writer.textLines(text.tokens ? inlineText(text.tokens) : text.text, { indent }));
+        writer.place(gap(2));
+        break;
+      }
+      case 'list': {
+        const list = token as Tokens.List;
+        list.items.forEach((item, i) => {
+          const marker = list.ordered ? `${(Number(list.start) || 1) + i}.` : '•';
+          const [first, ...rest] = item.tokens;
+          const firstText = first && (first.type === 'text' || first.type === 'paragraph') ? inlineText((first as Tokens.Text).tokens) : '';
+          const lines = writer.textLines(`${item.task ? (item.checked ? '☑ ' : '☐ ') : ''}${firstText}`, { indent: indent + 6 });
+          const markerBlock = writer.text(marker, { indent, bold: list.ordered });
+          // Marker and first line share the same baseline
+          writer.place({ height: lines[0]?.height || bodyLine, draw: top => { markerBlock.draw(top); lines[0]?.draw(top); } });
+          writer.placeAll(lines.slice(1));
+          writeMarkdown(writer, firstText ? rest : item.tokens, indent + 6);
+        });
+        writer.place(gap(2));
+        break;
+      }
+      case 'blockquote': {
+        const text = (token as Tokens.Blockquote).tokens
+          .map(child => ('tokens' in child && child.tokens ? inlineText(child.tokens) : ''))
+          .filter(Boolean)
+          .join('\n');
+        writer.placeTogether([writer.box(writer.text(text, { indent: indent + 5, color: '#4b5563', width: CONTENT_WIDTH - indent - 9 }), COLORS.fill, COLORS.accent), gap(3)]);
+        break;
+      }
+      case 'table': {
+        const table = token as Tokens.Table;
+        writer.placeTable(writer.tableRows(
+          table.header.map(cell => inlineText(cell.tokens)),
+          table.rows.map(row => row.map(cell => inlineText(cell.tokens)))
+        ));
+        break;
+      }
+      case 'code':
+        writer.placeAll(writer.codeLines((token as Tokens.Code).text));
+        writer.place(gap(3));
+        break;
+      case 'hr':
+        writer.place(writer.rule());
+        break;
+      default:
+        break; // space, html, def
+    }
+  });
+};
+
+// --- Quiz ---
+
+const questionBlocks = (writer: PdfWriter, question: Question, index: number, mode: PdfMode): Block[] => {
+  const blocks: Block[] = [
+    writer.text(`${index + 1}. ${question.text}`, { bold: true, size: SIZES.body + 0.5 }),
+    writer.text(QUESTION_TYPE_LABELS[question.type] || 'سؤال', { size: SIZES.small, color: COLORS.muted, indent: 6 })
+  ];
+
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+      (question.options || []).forEach((option, i) => blocks.push(writer.text(`○  ${optionLabel(i)}) ${option}`, { indent: 6 })));
+      break;
+    case QuestionType.TRUE_FALSE:
+      blocks.push(writer.text('○  صواب          ○  خطأ', { indent: 6 }));
+      break;
+    case QuestionType.ORDERING:
+      (question.options || []).forEach(option => blocks.push(writer.text(`[    ]  ${option}`, { indent: 6 })));
+      break;
+    case QuestionType.MATCHING: {
+      const table = writer.tableRows(
+        ['العمود الأول', 'العمود الثاني'],
+        (question.matches || []).map(m => [m.left, mode === 'TEACHER' ? m.right : '..........'])
+      );
+      if (table.header) blocks.push(table.header);
+      blocks.push(...table.rows);
+      if (mode !== 'TEACHER' && question.options?.length) {
+        blocks.push(gap(1), writer.text(`الخيارات: ${question.options.join('  ·  ')}`, { size: SIZES.small }));
+      }
+      break;
+    }
+    default:
+      blocks.push(writer.answerLine(6));
+  }
+
+  if (mode === 'TEACHER') {
+    const key = stack([
+      writer.text(`الإجابة النموذجية: ${formatAnswer(question)}`, { bold: true, color: COLORS.answer, indent: 5, width: CONTENT_WIDTH - 9 }),
+      ...(question.explanation ? [writer.text(`الشرح: ${question.explanation}`, { size: SIZES.small, color: COLORS.answer, indent: 5, width: CONTENT_WIDTH - 9 })] : [])
+    ]);
+    blocks.push(gap(2), writer.box(key, COLORS.answerFill, COLORS.answer));
+  }
+  blocks.push(gap(2), writer.rule(), gap(2));
+  return blocks;
+};
+
+const studentInfoBlock = (writer: PdfWriter, questionCount: number): Block =>
+  writer.box(
+    stack([
+      writer.text('بيانات الطالب', { bold: true, indent: 5 }),
+      writer.text('الاسم: ______________________     الصف: ____________', { indent: 5 }),
+      writer.text(`الدرجة: ______ / ${questionCount}`, { indent: 5 })
+    ]),
+    COLORS.fill,
+    COLORS.brand
+  );
+
+// --- Public builders ---
+
+const titleBlock = (writer: PdfWriter, title: string): Block =>
+  stack([...writer.textLines(title, { size: 20, bold: true, color: COLORS.text }), gap(4)]);
+
+export const createLessonPdf = async (info: PdfDocumentInfo, markdown: string): Promise<Blob> => {
+  const doc = await createDoc();
+  const writer = new PdfWriter(doc);
+  writer.place(titleBlock(writer, info.title));
+  writeMarkdown(writer, marked.lexer(markdown));
+  writer.decoratePages(info);
+  return doc.output('blob');
+};
+
+export const createSummaryPdf = async (info: PdfDocumentInfo, summary: SummaryPoint[]): Promise<Blob> => {
+  const doc = await createDoc();
+  const writer = new PdfWriter(doc);
+  writer.place(titleBlock(writer, info.title));
+  writer.placeTable(writer.tableRows(
+    ['#', 'النقطة', 'الشرح'],
+    summary.map((item, i) => [String(i + 1), item.point, item.explanation]),
+    [0.08, 0.32, 0.6]
+  ));
+  writer.decoratePages(info);
+  return doc.output('blob');
+};
+
+// Questions are never split across pages unless a single question is taller than a page
+export const createQuizPdf = async (info: PdfDocumentInfo, quiz: Quiz): Promise<Blob> => {
+  const doc = await createDoc();
+  const writer = new PdfWriter(doc);
+  writer.place(titleBlock(writer, quiz.title));
+  if (info.mode !== 'TEACHER') writer.placeTogether([studentInfoBlock(writer, quiz.questions.length), gap(6)]);
+  quiz.questions.forEach((question, i) => writer.placeTogether(questionBlocks(writer, question, i, info.mode)));
+  writer.decoratePages(info);
+  return doc.output('blob');
+};
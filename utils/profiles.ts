@@ -0,0 +1,115 @@
+// Student profiles on a shared device: every profile gets its own localStorage keys and IndexedDB database
+import { AppSettings, StudentProfile } from '../types';
+
+const PROFILES_KEY = 'faseeh_profiles';
+// Per tab, so a reload keeps the student in while a fresh start on a shared device asks who is studying
+const SESSION_PROFILE_KEY = 'faseeh_session_profile';
+const SETTINGS_KEY = 'faseeh_settings';
+
+// Keys scoped to a profile; everything else in localStorage (API key health...) belongs to the device
+export const PROFILE_STORAGE_KEYS = [SETTINGS_KEY, 'faseeh_custom_prompts', 'faseeh_topic_prefs', 'faseeh_quiz_checkpoint', 'faseeh_teacher_key'];
+
+// The profile that keeps the data saved before profiles existed, under the original key and database names
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Provider settings a new profile starts with, so a sibling doesn't have to enter the API keys again
+const SHARED_SETTINGS: (keyof AppSettings)[] = ['theme', 'colorTheme', 'apiKeys', 'activeModel', 'customModels', 'taskModels', 'taskProviders', 'openAICompatible'];
+
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+export const getProfiles = (): StudentProfile[] => {
+  try {
+    const profiles = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    return Array.isArray(profiles) ? profiles : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveProfiles = (profiles: StudentProfile[]) => localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+
+const keyFor = (profileId: string, key: string) => (profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`);
+
+/** The localStorage key holding `key` for the active profile. */
+export const profileKey = (key: string): string => keyFor(activeProfileId, key);
+
+/** The IndexedDB database holding a profile's library, lessons and quiz history (the active profile's by default). */
+export const profileDBName = (baseName: string, profileId: string = activeProfileId): string =>
+  profileId === DEFAULT_PROFILE_ID ? baseName : `${baseName}_${profileId}`;
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+export const getActiveProfile = (): StudentProfile | undefined => getProfiles().find(p => p.id === activeProfileId);
+
+export const activateProfile = (profileId: string) => {
+  activeProfileId = profileId;
+  sessionStorage.setItem(SESSION_PROFILE_KEY, profileId);
+};
+
+/**
+ * The profile to open without asking: the one chosen earlier in this tab, or the only profile when it has no PIN.
+ * Returns null when the picker should be shown.
+ */
+export const resolveStartupProfile = (): StudentProfile | null => {
+  const profiles = getProfiles();
+  const chosen = sessionStorage.getItem(SESSION_PROFILE_KEY);
+  if (chosen !== null) return profiles.find(p => p.id === chosen) || null; // '' means "switch profile" was asked for
+  return profiles.length === 1 && !profiles[0].pinHash ? profiles[0] : null;
+};
+
+// Takes the student back to the picker on the next load
+export const leaveProfile = () => sessionStorage.setItem(SESSION_PROFILE_KEY, '');
+
+/**
+ * Installs from before profiles keep their data: the existing student becomes the default profile.
+ * Runs before the picker is shown, so returning students never see an empty list.
+ */
+export const migrateLegacyProfile = () => {
+  if (localStorage.getItem(PROFILES_KEY) !== null) return;
+  const raw = localStorage.getItem(SETTINGS_KEY);
+  if (!raw) return;
+  try {
+    const settings = JSON.parse(raw) as AppSettings;
+    saveProfiles([{ id: DEFAULT_PROFILE_ID, name: settings.studentName || 'الطالب', createdAt: new Date().toISOString() }]);
+  } catch (e) {
+    console.error('Failed to read the settings of the existing student', e);
+  }
+};
+
+// A PIN keeps siblings out of each other's profile; it is not meant to stand up to someone with the dev tools open
+const hashPin = async (profileId: string, pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (profile: StudentProfile, pin: string): Promise<boolean> =>
+  !profile.pinHash || profile.pinHash === (await hashPin(profile.id, pin));
+
+export const createProfile = async (name: string, pin?: string): Promise<StudentProfile> => {
+  const profiles = getProfiles();
+  if (profiles.some(p => p.name === name)) throw new Error('يوجد ملف شخصي بهذا الاسم بالفعل');
+
+  // The first profile on a fresh device takes the default slot
+  const id = profiles.some(p => p.id === DEFAULT_PROFILE_ID) ? Date.now().toString(36) : DEFAULT_PROFILE_ID;
+  const profile: StudentProfile = { id, name, createdAt: new Date().toISOString(), pinHash: pin ? await hashPin(id, pin) : undefined };
+
+  const source = profiles.map(p => localStorage.getItem(keyFor(p.id, SETTINGS_KEY))).find(Boolean);
+  if (source && localStorage.getItem(keyFor(id, SETTINGS_KEY)) === null) {
+    const shared = JSON.parse(source) as AppSettings;
+    const settings: Partial<AppSettings> = {
+      studentName: name,
+      userStats: { xp: 0, level: 1, streak: 0 }
+    };
+    SHARED_SETTINGS.forEach(key => { (settings as any)[key] = shared[key]; });
+    localStorage.setItem(keyFor(id, SETTINGS_KEY), JSON.stringify(settings));
+  }
+
+  saveProfiles([...profiles, profile]);
+  return profile;
+};
+
+/** Removes the profile and its localStorage keys; its database goes with DB.deleteProfileDatabase(). */
+export const deleteProfile = (profile: StudentProfile) => {
+  PROFILE_STORAGE_KEYS.forEach(key => localStorage.removeItem(keyFor(profile.id, key)));
+  saveProfiles(getProfiles().filter(p => p.id !== profile.id));
+};
@@ -0,0 +1,256 @@
+// IMS QTI 2.1: content package (manifest + assessmentTest + one assessmentItem per question), export and import
+import { Quiz, Question, QuestionType } from '../types';
+import { QuestionDraft, ParsedQuizFile, BLANK_MARKER, BLANK_PATTERN, isTrueAnswer, correctSequence, correctOptionIndex } from './quizFormat';
+import { getJSZip, escapeXml } from './zip';
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const MAP_RESPONSE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+// True/false is a two-choice interaction with these identifiers, which is how the importer recognizes it
+const TRUE_ID = 'TRUE';
+const FALSE_ID = 'FALSE';
+
+const itemId = (index: number) => `item-${index + 1}`;
+
+const paragraphs = (text: string) => text.split('\n').map(line => `<p>${escapeXml(line)}</p>`).join('');
+
+const responseDeclaration = (cardinality: string, baseType: string, values: string[], mapping: string = '') =>
+  `<responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}"><correctResponse>${values.map(v => `<value>${escapeXml(v)}</value>`).join('')}</correctResponse>${mapping}</responseDeclaration>`;
+
+const choice = (tag: string, id: string, text: string, extra: string = '') => `<${tag} identifier="${id}"${extra}>${escapeXml(text)}</${tag}>`;
+
+interface ItemParts {
+  declaration: string;
+  body: string;
+  template: string;
+}
+
+const itemParts = (question: Question): ItemParts => {
+  const prompt = `<prompt>${escapeXml(question.text)}</prompt>`;
+
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE: {
+      const options = question.options || [];
+      const correct = correctOptionIndex(question);
+      return {
+        declaration: responseDeclaration('single', 'identifier', correct === -1 ? [] : [`C${correct + 1}`]),
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="1">${prompt}${options.map((o, i) => choice('simpleChoice', `C${i + 1}`, o)).join('')}</choiceInteraction>`,
+        template: MATCH_CORRECT
+      };
+    }
+    case QuestionType.TRUE_FALSE:
+      return {
+        declaration: responseDeclaration('single', 'identifier', [isTrueAnswer(question) ? TRUE_ID : FALSE_ID]),
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}${choice('simpleChoice', TRUE_ID, 'صواب')}${choice('simpleChoice', FALSE_ID, 'خطأ')}</choiceInteraction>`,
+        template: MATCH_CORRECT
+      };
+    case QuestionType.MATCHING: {
+      const matches = question.matches || [];
+      const set = (prefix: string, side: 'left' | 'right') =>
+        `<simpleMatchSet>${matches.map((m, i) => choice('simpleAssociableChoice', `${prefix}${i + 1}`, m[side], ' matchMax="1"')).join('')}</simpleMatchSet>`;
+      return {
+        declaration: responseDeclaration('multiple', 'directedPair', matches.map((_, i) => `L${i + 1} R${i + 1}`)),
+        body: `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${matches.length}">${prompt}${set('L', 'left')}${set('R', 'right')}</matchInteraction>`,
+        template: MATCH_CORRECT
+      };
+    }
+    case QuestionType.ORDERING: {
+      const sequence = correctSequence(question);
+      return {
+        declaration: responseDeclaration('ordered', 'identifier', sequence.map((_, i) => `O${i + 1}`)),
+        body: `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">${prompt}${sequence.map((item, i) => choice('simpleChoice', `O${i + 1}`, item)).join('')}</orderInteraction>`,
+        template: MATCH_CORRECT
+      };
+    }
+    default: {
+      // Written answers: every accepted wording scores through the mapping
+      const answers = [String(question.correctAnswer), ...(question.acceptedAnswers || [])];
+      const mapping = `<mapping defaultValue="0">${answers.map(a => `<mapEntry mapKey="${escapeXml(a)}" mappedValue="1" caseSensitive="false"/>`).join('')}</mapping>`;
+      const entry = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(10, ...answers.map(a => a.length + 5))}"/>`;
+      let body: string;
+      if (question.type === QuestionType.FILL_BLANKS && BLANK_PATTERN.test(question.text)) {
+        const [before, after] = question.text.split(BLANK_PATTERN);
+        body = `<p>${escapeXml(before)}${entry}${escapeXml(after || '')}</p>`;
+      } else {
+        body = `${paragraphs(question.text)}<p>${entry}</p>`;
+      }
+      return { declaration: responseDeclaration('single', 'string', [answers[0]], mapping), body, template: MAP_RESPONSE };
+    }
+  }
+};
+
+const assessmentItem = (question: Question, index: number): string => {
+  const { declaration, body, template } = itemParts(question);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NS}" identifier="${itemId(index)}" title="${escapeXml(question.text.slice(0, 60))}" adaptive="false" timeDependent="false" xml:lang="ar">`,
+    declaration,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    `<itemBody>${body}${question.explanation ? `<rubricBlock view="scorer tutor">${paragraphs(question.explanation)}</rubricBlock>` : ''}</itemBody>`,
+    `<responseProcessing template="${template}"/>`,
+    '</assessmentItem>'
+  ].join('\n');
+};
+
+const assessmentTest = (quiz: Quiz): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<assessmentTest xmlns="${QTI_NS}" identifier="test" title="${escapeXml(quiz.title)}">`,
+  '<testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+  `<assessmentSection identifier="section-1" title="${escapeXml(quiz.title)}" visible="true">`,
+  ...quiz.questions.map((_, i) => `<assessmentItemRef identifier="${itemId(i)}" href="items/${itemId(i)}.xml"/>`),
+  '</assessmentSection></testPart></assessmentTest>'
+].join('\n');
+
+const manifest = (quiz: Quiz): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="faseeh-${Date.now()}">`,
+  '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+  '<organizations/>',
+  '<resources>',
+  `<resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml"><file href="assessment.xml"/>${quiz.questions.map((_, i) => `<dependency identifierref="${itemId(i)}"/>`).join('')}</resource>`,
+  ...quiz.questions.map((_, i) => `<resource identifier="${itemId(i)}" type="imsqti_item_xmlv2p1" href="items/${itemId(i)}.xml"><file href="items/${itemId(i)}.xml"/></resource>`),
+  '</resources>',
+  '</manifest>'
+].join('\n');
+
+export const createQtiPackage = (quiz: Quiz): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  zip.file('imsmanifest.xml', manifest(quiz));
+  zip.file('assessment.xml', assessmentTest(quiz));
+  quiz.questions.forEach((question, i) => zip.file(`items/${itemId(i)}.xml`, assessmentItem(question, i)));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+// --- Import ---
+
+const find = (parent: Element | Document, name: string): Element[] => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const parseXml = (source: string): Document | null => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const cleanText = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+// Text of the item body without interactions and scorer notes; used when the interaction has no <prompt>
+const bodyText = (itemBody: Element, replaceEntry?: string): string => {
+  const clone = itemBody.cloneNode(true) as Element;
+  find(clone, 'rubricBlock').forEach(el => el.remove());
+  ['choiceInteraction', 'matchInteraction', 'orderInteraction'].forEach(name => find(clone, name).forEach(el => el.remove()));
+  find(clone, 'textEntryInteraction').forEach(el => el.replaceWith(replaceEntry ?? ''));
+  const blocks = find(clone, 'p');
+  return blocks.length ? blocks.map(p => cleanText(p.textContent)).filter(Boolean).join('\n') : cleanText(clone.textContent);
+};
+
+const parseItem = (doc: Document): QuestionDraft | null => {
+  const itemBody = find(doc, 'itemBody')[0];
+  if (!itemBody) return null;
+  const declaration = find(doc, 'responseDeclaration')[0];
+  const correct = declaration ? find(declaration, 'correctResponse').flatMap(c => find(c, 'value')).map(v => cleanText(v.textContent)) : [];
+  const explanation = find(itemBody, 'rubricBlock').map(r => cleanText(r.textContent)).join('\n');
+  const promptOf = (interaction: Element) => cleanText(find(interaction, 'prompt')[0]?.textContent) || bodyText(itemBody);
+  const choices = (interaction: Element, tag: string) =>
+    find(interaction, tag).map(c => ({ id: c.getAttribute('identifier') || '', text: cleanText(c.textContent) }));
+
+  const choiceInteraction = find(itemBody, 'choiceInteraction')[0];
+  if (choiceInteraction) {
+    const options = choices(choiceInteraction, 'simpleChoice');
+    const ids = options.map(o => o.id).sort().join(',');
+    if (ids === [FALSE_ID, TRUE_ID].sort().join(',')) {
+      return { text: promptOf(choiceInteraction), explanation, type: QuestionType.TRUE_FALSE, correctAnswer: correct[0] === TRUE_ID };
+    }
+    const answer = options.find(o => o.id === correct[0]);
+    if (!answer) return null;
+    return { text: promptOf(choiceInteraction), explanation, type: QuestionType.MULTIPLE_CHOICE, options: options.map(o => o.text), correctAnswer: answer.text };
+  }
+
+  const matchInteraction = find(itemBody, 'matchInteraction')[0];
+  if (matchInteraction) {
+    const sets = find(matchInteraction, 'simpleMatchSet').map(set => choices(set, 'simpleAssociableChoice'));
+    const textById = new Map(sets.flat().map(c => [c.id, c.text]));
+    const matches = correct
+      .map(pair => pair.split(/\s+/))
+      .map(([left, right]) => ({ left: textById.get(left) || '', right: textById.get(right) || '' }))
+      .filter(m => m.left && m.right);
+    return matches.length ? { text: promptOf(matchInteraction), explanation, type: QuestionType.MATCHING, matches, correctAnswer: '' } : null;
+  }
+
+  const orderInteraction = find(itemBody, 'orderInteraction')[0];
+  if (orderInteraction) {
+    const textById = new Map(choices(orderInteraction, 'simpleChoice').map(c => [c.id, c.text]));
+    const sequence = correct.map(id => textById.get(id) || '').filter(Boolean);
+    return sequence.length ? { text: promptOf(orderInteraction), explanation, type: QuestionType.ORDERING, correctAnswer: sequence } : null;
+  }
+
+  const entry = find(itemBody, 'textEntryInteraction')[0];
+  if (entry && declaration) {
+    const mapped = find(declaration, 'mapEntry')
+      .filter(e => Number(e.getAttribute('mappedValue') || 0) > 0)
+      .map(e => e.getAttribute('mapKey') || '');
+    const [first, ...accepted] = Array.from(new Set([...correct, ...mapped].filter(Boolean)));
+    if (!first) return null;
+    // An entry box inside a sentence is a fill-in-the-blank; one on its own line is a short answer
+    const paragraph = entry.parentElement;
+    const isBlank = !!paragraph && cleanText(paragraph.textContent).length > 0;
+    return {
+      text: isBlank ? bodyText(itemBody, BLANK_MARKER) : bodyText(itemBody),
+      explanation,
+      type: isBlank ? QuestionType.FILL_BLANKS : QuestionType.SHORT_ANSWER,
+      correctAnswer: first,
+      acceptedAnswers: accepted.length ? accepted : undefined
+    };
+  }
+
+  return null; // extendedText, hotspot, gapMatch... have no equivalent here
+};
+
+/**
+ * Accepts a content package (zip) or a single assessmentItem XML file.
+ * Items follow the assessmentTest order when the package has one, otherwise file name order.
+ */
+export const readQtiPackage = async (file: Blob, fileName: string): Promise<ParsedQuizFile> => {
+  const result: ParsedQuizFile = { questions: [], skipped: 0 };
+
+  if (/\.xml$/i.test(fileName)) {
+    const doc = parseXml(await file.text());
+    if (!doc || doc.documentElement.localName !== 'assessmentItem') throw new Error('ملف QTI غير صالح: يجب أن يحتوي على سؤال (assessmentItem)');
+    const question = parseItem(doc);
+    if (question) result.questions.push(question);
+    else result.skipped++;
+    return result;
+  }
+
+  const JSZip = getJSZip();
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error('الملف ليس حزمة QTI صالحة (ZIP)');
+  }
+
+  const documents = new Map<string, Document>();
+  for (const path of Object.keys(zip.files).filter(p => /\.xml$/i.test(p) && !zip.files[p].dir)) {
+    const doc = parseXml(await zip.file(path).async('string'));
+    if (doc) documents.set(path, doc);
+  }
+
+  let itemPaths = Array.from(documents.keys()).filter(p => documents.get(p)!.documentElement.localName === 'assessmentItem').sort();
+  const test = Array.from(documents.entries()).find(([, doc]) => doc.documentElement.localName === 'assessmentTest');
+  if (test) {
+    const [testPath, testDoc] = test;
+    result.title = testDoc.documentElement.getAttribute('title') || undefined;
+    const base = testPath.includes('/') ? testPath.slice(0, testPath.lastIndexOf('/') + 1) : '';
+    const ordered = find(testDoc, 'assessmentItemRef').map(ref => base + (ref.getAttribute('href') || '')).filter(p => documents.has(p));
+    if (ordered.length) itemPaths = ordered;
+  }
+  if (itemPaths.length === 0) throw new Error('لم يتم العثور على أسئلة QTI داخل الملف');
+
+  itemPaths.forEach(path => {
+    const question = parseItem(documents.get(path)!);
+    if (question) result.questions.push(question);
+    else result.skipped++;
+  });
+  return result;
+};
@@ -0,0 +1,141 @@
+// Question bank: generated, manual and imported questions kept in IndexedDB and reassembled into new quizzes
+import { BankQuestion, DifficultyLevel, Question, QuestionType, Quiz } from '../types';
+import * as DB from './db';
+import { normalizeAnswer } from './grading';
+
+export interface BankContext {
+  lessonId?: string;
+  lessonTitle?: string;
+  subject?: string;
+  difficulty?: DifficultyLevel; // Used for questions that don't carry their own (adaptive questions do)
+}
+
+export interface BankFilter {
+  lessonId?: string;
+  subject?: string;
+  difficulty?: DifficultyLevel;
+  type?: QuestionType;
+  search?: string;
+}
+
+export interface BankAddReport {
+  added: number;
+  duplicates: number; // Skipped because a near-identical question is already in the bank
+}
+
+export const BANK_QUIZ_TITLE = 'اختبار من بنك الأسئلة';
+
+// Share of words two question texts must have in common to count as rewordings of each other
+const NEAR_DUPLICATE_OVERLAP = 0.8;
+
+interface Signature {
+  type: QuestionType;
+  text: string;
+  words: Set<string>;
+  answer: string;
+}
+
+const answerKey = (question: Question) =>
+  normalizeAnswer(typeof question.correctAnswer === 'object' ? JSON.stringify(question.correctAnswer) : String(question.correctAnswer));
+
+const signatureOf = (question: Question): Signature => {
+  const text = normalizeAnswer(question.text);
+  return { type: question.type, text, words: new Set(text.split(' ').filter(Boolean)), answer: answerKey(question) };
+};
+
+// Dice overlap of the normalized words ("ما عاصمة مصر" / "ما هي عاصمة مصر" = 0.86); cheap enough to compare
+// every new question against the whole bank
+const wordOverlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+// A reworded question only counts as a duplicate when it also has the same answer, so "X is true" and its negation both stay
+const isNearDuplicate = (a: Signature, b: Signature) =>
+  a.type === b.type && (a.text === b.text || (a.answer === b.answer && wordOverlap(a.words, b.words) >= NEAR_DUPLICATE_OVERLAP));
+
+/** Stores the questions that aren't already in the bank (or in the batch itself). */
+export const addToBank = async (questions: Question[], context: BankContext, source: BankQuestion['source']): Promise<BankAddReport> => {
+  const known = (await DB.getAllBankQuestions()).map(entry => signatureOf(entry.question));
+  const now = new Date();
+  const fresh: BankQuestion[] = [];
+
+  questions.forEach((question, i) => {
+    const signature = signatureOf(question);
+    if (!signature.text || known.some(other => isNearDuplicate(signature, other))) return;
+    known.push(signature);
+    fresh.push({
+      id: `${now.getTime()}-${i}`,
+      date: now.toISOString(),
+      question,
+      source,
+      type: question.type,
+      difficulty: question.difficulty || context.difficulty,
+      lessonId: context.lessonId,
+      lessonTitle: context.lessonTitle,
+      subject: context.subject,
+      timesUsed: 0
+    });
+  });
+
+  if (fresh.length > 0) await DB.saveBankQuestions(fresh);
+  return { added: fresh.length, duplicates: questions.length - fresh.length };
+};
+
+export const filterBank = (entries: BankQuestion[], filter: BankFilter): BankQuestion[] => {
+  const search = filter.search ? normalizeAnswer(filter.search) : '';
+  return entries.filter(entry =>
+    (!filter.lessonId || entry.lessonId === filter.lessonId) &&
+    (!filter.subject || entry.subject === filter.subject) &&
+    (!filter.difficulty || entry.difficulty === filter.difficulty) &&
+    (!filter.type || entry.type === filter.type) &&
+    (!search || normalizeAnswer(`${entry.question.text} ${entry.question.concept || ''}`).includes(search))
+  );
+};
+
+/** Lessons and subjects present in the bank, for the filter menus. */
+export const bankFacets = (entries: BankQuestion[]) => {
+  const lessons = new Map<string, { id: string; title: string; count: number }>();
+  const subjects = new Set<string>();
+  entries.forEach(entry => {
+    if (entry.lessonId) {
+      const lesson = lessons.get(entry.lessonId) || { id: entry.lessonId, title: entry.lessonTitle || 'درس بدون عنوان', count: 0 };
+      lesson.count++;
+      lessons.set(entry.lessonId, lesson);
+    }
+    if (entry.subject) subjects.add(entry.subject);
+  });
+  return { lessons: Array.from(lessons.values()), subjects: Array.from(subjects).sort() };
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * Draws up to `count` questions, least used first (ties broken at random), and records the use.
+ * Returns null when nothing matches.
+ */
+export const assembleQuizFromBank = async (entries: BankQuestion[], count: number): Promise<Quiz | null> => {
+  const picked = shuffle(entries).sort((a, b) => a.timesUsed - b.timesUsed).slice(0, count);
+  if (picked.length === 0) return null;
+
+  await DB.saveBankQuestions(picked.map(entry => ({ ...entry, timesUsed: entry.timesUsed + 1 })));
+
+  const lessons = new Set(picked.map(entry => entry.lessonId));
+  const baseId = Date.now();
+  return {
+    title: lessons.size === 1 && picked[0].lessonTitle ? `${picked[0].lessonTitle} - ${BANK_QUIZ_TITLE}` : BANK_QUIZ_TITLE,
+    // Each question keeps its own difficulty, so mixed-level quizzes are still analysed per level
+    questions: shuffle(picked).map((entry, i) => ({ ...entry.question, difficulty: entry.difficulty, id: baseId + i })),
+    lessonId: lessons.size === 1 ? picked[0].lessonId : undefined,
+    lessonTitle: lessons.size === 1 ? picked[0].lessonTitle : undefined
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Question, QuestionType, QuizResult } from '../types';
+import { analyzeQuizHistory, attemptRecord, buildPracticeQuiz, matchingQuestions, practiceQuizSize } from './quizAnalytics';
+
+const question = (text: string, concept: string, explanation = ''): Question => ({
+  id: 1, text, type: QuestionType.TRUE_FALSE, correctAnswer: true, explanation, concept
+});
+const result = (date: string, answers: [Question, boolean][]): QuizResult => ({
+  id: date, date, score: 0, total: answers.length,
+  details: answers.map(([q, isCorrect]) => ({ questionText: q.text, userAnswer: '', correctAnswer: '', isCorrect, explanation: q.explanation })),
+  quizSnapshot: { title: 'اختبار', lessonTitle: 'الكسور', questions: answers.map(([q]) => q) }
+});
+
+describe('attemptRecord', () => {
+  it('keeps only what the analytics group by', () => {
+    const record = attemptRecord(result('2024-01-01', [[question('س1', 'الجمع', 'شرح طويل'), true]]));
+    expect(record).toEqual({
+      date: '2024-01-01',
+      details: [{ questionText: 'س1', isCorrect: true, credit: undefined, timeSpent: undefined }],
+      lessonTitle: 'الكسور',
+      difficulty: undefined,
+      questions: [{ type: QuestionType.TRUE_FALSE, difficulty: undefined, concept: 'الجمع' }]
+    });
+  });
+});
+
+describe('weak-area practice', () => {
+  const results = [
+    result('2024-01-01', [[question('س1', 'الجمع', 'قديم'), false], [question('س2', 'الطرح'), true]]),
+    result('2024-01-02', [[question('س1', 'الجمع', 'جديد'), false]])
+  ];
+  const { weakAreas } = analyzeQuizHistory(results.map(attemptRecord));
+
+  it('sizes the quiz from the weak areas before loading their questions', () => {
+    expect(weakAreas.map(area => area.questionKeys)).toEqual([['س1']]);
+    expect(practiceQuizSize(weakAreas)).toBe(1);
+  });
+
+  it('builds the quiz from the latest stored version of each question', () => {
+    const keys = new Set(weakAreas.flatMap(area => area.questionKeys));
+    const stored = results.flatMap(r => matchingQuestions(r, keys));
+    const quiz = buildPracticeQuiz(weakAreas, stored);
+    expect(quiz?.questions.map(q => q.explanation)).toEqual(['جديد']);
+    expect(quiz?.lessonTitle).toBe('الكسور');
+    expect(buildPracticeQuiz(weakAreas, [])).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+// Per-question and per-concept performance across every stored quiz attempt
+import { Quiz, Question, QuizResult, QuestionType, DifficultyLevel } from '../types';
+import { normalizeArabic } from './arabic';
+import { QUESTION_TYPE_LABELS, DIFFICULTY_LABELS } from './quizFormat';
+
+export interface AccuracyStat {
+  key: string;
+  label: string;
+  correct: number;
+  total: number;
+  accuracy: number; // 0-100
+}
+
+export interface TrendPoint {
+  label: string; // Week start
+  accuracy: number;
+  answered: number;
+}
+
+export interface WeakArea {
+  key: string;
+  label: string; // The question's concept, or its text for questions generated before concepts were tagged
+  lessonTitle: string;
+  correct: number;
+  total: number;
+  accuracy: number;
+  lastCorrect: boolean;
+  questionKeys: string[]; // Normalized texts of the area's questions that have a stored version (none for legacy results)
+}
+
+export interface SlowQuestion {
+  text: string;
+  lessonTitle: string;
+  averageSeconds: number;
+  attempts: number;
+  accuracy: number;
+}
+
+export interface TimingAnalytics {
+  timed: number; // Answers with a recorded time (older results have none)
+  averageSeconds: number;
+  byTime: AccuracyStat[]; // Accuracy per answering-time band, fastest first
+  slowest: SlowQuestion[];
+}
+
+export interface QuizAnalytics {
+  answered: number;
+  accuracy: number;
+  byType: AccuracyStat[];
+  byDifficulty: AccuracyStat[];
+  byLesson: AccuracyStat[];
+  trend: TrendPoint[];
+  weakAreas: WeakArea[];
+  timing: TimingAnalytics;
+}
+
+// What the analytics read of a result: its answers and, per question, only what attempts are grouped by.
+// Built inside the IndexedDB cursor (see getQuizAttemptRecords in utils/db.ts) so whole results never reach the dashboard
+export interface AttemptRecord {
+  date: string;
+  details: Pick<QuizResult['details'][number], 'questionText' | 'isCorrect' | 'credit' | 'timeSpent'>[];
+  lessonTitle: string;
+  difficulty?: DifficultyLevel; // The quiz's level
+  questions: Pick<Question, 'type' | 'difficulty' | 'concept'>[]; // Empty when the snapshot doesn't line up with the details
+}
+
+export const PRACTICE_QUIZ_TITLE = 'تدريب على نقاط الضعف';
+export const PRACTICE_QUIZ_SIZE = 10;
+
+const TREND_WEEKS = 12;
+const MAX_WEAK_AREAS = 8;
+const MASTERED_ACCURACY = 80; // Areas at or above this whose last answer was right no longer count as weak
+const MAX_SLOW_QUESTIONS = 5;
+
+// Upper bounds in seconds
+const TIME_BANDS = [
+  { max: 15, label: 'أقل من 15 ث' },
+  { max: 30, label: '15-30 ث' },
+  { max: 60, label: '30-60 ث' },
+  { max: 120, label: '1-2 د' },
+  { max: Infinity, label: 'أكثر من دقيقتين' }
+];
+
+interface Attempt {
+  date: string;
+  text: string;
+  isCorrect: boolean;
+  credit: number; // 0-1: partial credit counts, a negative-marking penalty counts as 0
+  question?: AttemptRecord['questions'][number];
+  lessonTitle: string;
+  difficulty?: DifficultyLevel;
+  seconds?: number;
+}
+
+const percent = (correct: number, total: number) => (total ? Math.round((correct / total) * 100) : 0);
+
+// Details are written in question order (see QuizSystem.submitQuiz), so they line up with the snapshot by index
+export const attemptRecord = (result: QuizResult): AttemptRecord => {
+  const snapshot = result.quizSnapshot;
+  const questions = snapshot && snapshot.questions.length === result.details.length ? snapshot.questions : [];
+  return {
+    date: result.date,
+    details: result.details.map(({ questionText, isCorrect, credit, timeSpent }) => ({ questionText, isCorrect, credit, timeSpent })),
+    lessonTitle: snapshot?.lessonTitle || snapshot?.title || 'اختبار بدون عنوان',
+    difficulty: snapshot?.config?.difficulty,
+    questions: questions.map(({ type, difficulty, concept }) => ({ type, difficulty, concept }))
+  };
+};
+
+const attemptsOf = (record: AttemptRecord): Attempt[] =>
+  record.details.map((detail, i) => ({
+    date: record.date,
+    text: detail.questionText,
+    isCorrect: detail.isCorrect,
+    credit: Math.max(0, detail.credit ?? (detail.isCorrect ? 1 : 0)),
+    question: record.questions[i],
+    lessonTitle: record.lessonTitle,
+    // Adaptive quizzes tag each question with its own level
+    difficulty: record.questions[i]?.difficulty || record.difficulty,
+    seconds: detail.timeSpent
+  }));
+
+type Tally = Map<string, { label: string; correct: number; total: number }>;
+
+const count = (tally: Tally, key: string, label: string, credit: number) => {
+  const entry = tally.get(key) || { label, correct: 0, total: 0 };
+  entry.total += 1;
+  entry.correct += credit;
+  tally.set(key, entry);
+};
+
+const toStats = (tally: Tally): AccuracyStat[] =>
+  Array.from(tally, ([key, { label, correct, total }]) => ({ key, label, correct, total, accuracy: percent(correct, total) }));
+
+// Weeks start on Saturday, as in the school calendar
+const weekStart = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 1) % 7));
+  return start;
+};
+
+// Laplace-smoothed accuracy, so one wrong answer ranks below three, and a recent right answer eases the urgency
+const weakness = (area: WeakArea) => (area.correct + 1) / (area.total + 2) + (area.lastCorrect ? 0.15 : 0);
+
+const analyzeTiming = (attempts: Attempt[]): TimingAnalytics => {
+  const timed = attempts.filter((a): a is Attempt & { seconds: number } => a.seconds !== undefined);
+  const byTime: Tally = new Map();
+  const byQuestion = new Map<string, { text: string; lessonTitle: string; seconds: number; attempts: number; correct: number }>();
+
+  timed.forEach(attempt => {
+    const band = TIME_BANDS.findIndex(b => attempt.seconds < b.max);
+    count(byTime, String(band), TIME_BANDS[band].label, attempt.credit);
+
+    const key = normalizeArabic(attempt.text);
+    const entry = byQuestion.get(key) || { text: attempt.text, lessonTitle: attempt.lessonTitle, seconds: 0, attempts: 0, correct: 0 };
+    entry.seconds += attempt.seconds;
+    entry.attempts += 1;
+    entry.correct += attempt.credit;
+    byQuestion.set(key, entry);
+  });
+
+  return {
+    timed: timed.length,
+    averageSeconds: timed.length ? Math.round(timed.reduce((sum, a) => sum + a.seconds, 0) / timed.length) : 0,
+    byTime: toStats(byTime).sort((a, b) => Number(a.key) - Number(b.key)),
+    slowest: Array.from(byQuestion.values())
+      .map(({ text, lessonTitle, seconds, attempts, correct }) => ({
+        text,
+        lessonTitle,
+        averageSeconds: Math.round(seconds / attempts),
+        attempts,
+        accuracy: percent(correct, attempts)
+      }))
+      .sort((a, b) => b.averageSeconds - a.averageSeconds)
+      .slice(0, MAX_SLOW_QUESTIONS)
+  };
+};
+
+export const analyzeQuizHistory = (records: AttemptRecord[]): QuizAnalytics => {
+  const attempts = [...records]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .flatMap(attemptsOf);
+
+  const byType: Tally = new Map();
+  const byDifficulty: Tally = new Map();
+  const byLesson: Tally = new Map();
+  const byWeek: Tally = new Map();
+  const areas = new Map<string, WeakArea & { stored: Set<string> }>();
+
+  attempts.forEach(attempt => {
+    const { question, isCorrect, credit, lessonTitle, difficulty } = attempt;
+    if (question) count(byType, question.type, QUESTION_TYPE_LABELS[question.type], credit);
+    if (difficulty) count(byDifficulty, difficulty, DIFFICULTY_LABELS[difficulty], credit);
+    count(byLesson, lessonTitle, lessonTitle, credit);
+    const week = weekStart(new Date(attempt.date));
+    count(byWeek, week.toISOString(), week.toLocaleDateString('ar-EG', { day: 'numeric', month: 'short' }), credit);
+
+    const concept = question?.concept?.trim();
+    const textKey = normalizeArabic(attempt.text);
+    const key = concept ? `concept:${lessonTitle}:${normalizeArabic(concept)}` : `question:${textKey}`;
+    const area = areas.get(key) || {
+      key,
+      label: concept || attempt.text,
+      lessonTitle,
+      correct: 0,
+      total: 0,
+      accuracy: 0,
+      lastCorrect: isCorrect,
+      questionKeys: [],
+      stored: new Set<string>()
+    };
+    area.total += 1;
+    area.correct += credit;
+    area.lastCorrect = isCorrect; // Attempts are in date order
+    if (question) area.stored.add(textKey);
+    areas.set(key, area);
+  });
+
+  const weakAreas = Array.from(areas.values())
+    .map(({ stored, ...area }) => ({ ...area, accuracy: percent(area.correct, area.total), questionKeys: Array.from(stored) }))
+    .filter(area => area.correct < area.total && (!area.lastCorrect || area.accuracy < MASTERED_ACCURACY))
+    .sort((a, b) => weakness(a) - weakness(b) || b.total - a.total)
+    .slice(0, MAX_WEAK_AREAS);
+
+  const timing = analyzeTiming(attempts);
+  const typeOrder = Object.values(QuestionType) as string[];
+  const difficultyOrder = Object.values(DifficultyLevel) as string[];
+  const correct = attempts.reduce((sum, a) => sum + a.credit, 0);
+
+  return {
+    answered: attempts.length,
+    accuracy: percent(correct, attempts.length),
+    byType: toStats(byType).sort((a, b) => typeOrder.indexOf(a.key) - typeOrder.indexOf(b.key)),
+    byDifficulty: toStats(byDifficulty).sort((a, b) => difficultyOrder.indexOf(a.key) - difficultyOrder.indexOf(b.key)),
+    byLesson: toStats(byLesson).sort((a, b) => a.accuracy - b.accuracy),
+    trend: toStats(byWeek)
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .slice(-TREND_WEEKS)
+      .map(({ label, accuracy, total }) => ({ label, accuracy, answered: total })),
+    weakAreas,
+    timing
+  };
+};
+
+// How many questions the practice quiz will have, before its questions are loaded
+export const practiceQuizSize = (weakAreas: WeakArea[]): number =>
+  Math.min(PRACTICE_QUIZ_SIZE, weakAreas.reduce((sum, area) => sum + area.questionKeys.length, 0));
+
+// The questions of a result's snapshot whose normalized text is in `keys`, read inside the cursor that loads practice questions
+export const matchingQuestions = (result: QuizResult, keys: Set<string>): Question[] =>
+  (result.quizSnapshot?.questions || []).filter(question => keys.has(normalizeArabic(question.text)));
+
+/**
+ * A quiz of the stored questions from the weakest areas, taken in turns so one concept doesn't fill it.
+ * `stored` is oldest first, so the latest version of a question wins.
+ */
+export const buildPracticeQuiz = (weakAreas: WeakArea[], stored: Question[], maxQuestions: number = PRACTICE_QUIZ_SIZE): Quiz | null => {
+  const latest = new Map(stored.map(question => [normalizeArabic(question.text), question]));
+  const queues = weakAreas.map(area => area.questionKeys.flatMap(key => latest.get(key) || []));
+  const picked: Question[] = [];
+  while (picked.length < maxQuestions && queues.some(queue => queue.length > 0)) {
+    queues.forEach(queue => {
+      const next = queue.shift();
+      if (next && picked.length < maxQuestions) picked.push(next);
+    });
+  }
+  if (picked.length === 0) return null;
+
+  const lessons = new Set(weakAreas.filter(area => area.questionKeys.some(key => latest.has(key))).map(area => area.lessonTitle));
+  const baseId = Date.now();
+  return {
+    title: PRACTICE_QUIZ_TITLE,
+    questions: picked.map((question, i) => ({ ...question, id: baseId + i })),
+    // Keeps single-lesson practice counted under its lesson
+    lessonTitle: lessons.size === 1 ? Array.from(lessons)[0] : undefined
+  };
+};
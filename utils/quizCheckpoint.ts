@@ -0,0 +1,54 @@
+// The quiz being taken, checkpointed to localStorage so a reload (or a closed tab) can pick it up where it stopped
+import { Quiz, ScoringRules } from '../types';
+import { AdaptiveState } from './adaptiveTesting';
+import { profileKey } from './profiles';
+
+const CHECKPOINT_KEY = 'faseeh_quiz_checkpoint';
+const CHECKPOINT_VERSION = 1;
+
+export interface QuizCheckpoint {
+  version: number;
+  savedAt: string;
+  quiz: Quiz; // For adaptive attempts this is the whole generated pool
+  answers: Record<number, any>;
+  currentQuestionIndex: number;
+  adaptive: AdaptiveState | null;
+  timer: {
+    enabled: boolean;
+    mode: 'TOTAL' | 'PER_QUESTION';
+    duration: number; // minutes
+    questionTimeLimit: number; // seconds
+    timeLeft: number; // seconds remaining when saved
+  };
+  instantFeedback: boolean;
+  similarityThreshold: number;
+  scoring?: ScoringRules; // Missing in checkpoints written before partial credit
+  pauses: number;
+  spent: Record<number, number>; // Milliseconds per question
+  timedOut: number[];
+}
+
+// Writes are synchronous so the pagehide handler can still save on the way out
+export const saveQuizCheckpoint = (checkpoint: Omit<QuizCheckpoint, 'version' | 'savedAt'>) => {
+  try {
+    localStorage.setItem(profileKey(CHECKPOINT_KEY), JSON.stringify({ ...checkpoint, version: CHECKPOINT_VERSION, savedAt: new Date().toISOString() }));
+  } catch (e) {
+    console.error('Failed to checkpoint the quiz', e); // Storage full: the attempt simply can't be resumed
+  }
+};
+
+export const loadQuizCheckpoint = (): QuizCheckpoint | null => {
+  const raw = localStorage.getItem(profileKey(CHECKPOINT_KEY));
+  if (!raw) return null;
+  try {
+    const checkpoint = JSON.parse(raw) as QuizCheckpoint;
+    if (checkpoint.version !== CHECKPOINT_VERSION || !Array.isArray(checkpoint.quiz?.questions)) throw new Error('Unknown checkpoint');
+    return checkpoint;
+  } catch (e) {
+    console.error('Discarding an unreadable quiz checkpoint', e);
+    localStorage.removeItem(profileKey(CHECKPOINT_KEY));
+    return null;
+  }
+};
+
+export const clearQuizCheckpoint = () => localStorage.removeItem(profileKey(CHECKPOINT_KEY));
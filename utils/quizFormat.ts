@@ -0,0 +1,81 @@
+// Shared wording for quizzes written to documents (Word, PDF) and exchange formats
+import { Question, QuestionType, DifficultyLevel, MatchingScoring, OrderingScoring } from '../types';
+import { toBoolean, toSequence, normalizeAnswer } from './grading';
+
+// A question parsed from an exchange file, before it gets an id in the app
+export type QuestionDraft = Omit<Question, 'id'>;
+
+// FILL_BLANKS questions mark the missing word with "[____]" (see the quiz prompt); files may use bare underscores or dots
+export const BLANK_MARKER = '[____]';
+export const BLANK_PATTERN = /\[?_{3,}\]?|\.{4,}|…+/;
+
+export interface ParsedQuizFile {
+  title?: string;
+  questions: QuestionDraft[];
+  skipped: number; // Questions of types the app can't run (essays, descriptions...)
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: 'اختيار من متعدد',
+  [QuestionType.TRUE_FALSE]: 'صح أم خطأ',
+  [QuestionType.SHORT_ANSWER]: 'إجابة قصيرة',
+  [QuestionType.FILL_BLANKS]: 'أكمل الفراغ',
+  [QuestionType.MATCHING]: 'توصيل',
+  [QuestionType.ORDERING]: 'ترتيب'
+};
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  [DifficultyLevel.EASY]: 'سهل',
+  [DifficultyLevel.MEDIUM]: 'متوسط',
+  [DifficultyLevel.HARD]: 'صعب'
+};
+
+export const MATCHING_SCORING_LABELS: Record<MatchingScoring, string> = {
+  PROPORTIONAL: 'درجة لكل زوج صحيح',
+  ALL_OR_NOTHING: 'الكل أو لا شيء'
+};
+
+export const ORDERING_SCORING_LABELS: Record<OrderingScoring, string> = {
+  LONGEST_SUBSEQUENCE: 'أطول تسلسل صحيح',
+  KENDALL_TAU: 'الأزواج المرتبة صحيحاً (كندال)',
+  ALL_OR_NOTHING: 'الكل أو لا شيء'
+};
+
+export const NEGATIVE_MARKING_OPTIONS = [0, 0.25, 0.33, 0.5];
+
+// Scores can be fractional with partial credit: "3.5", never "3.50000001"
+export const formatScore = (score: number): string => String(Math.round(score * 100) / 100);
+
+const OPTION_LETTERS = ['أ', 'ب', 'ج', 'د', 'هـ', 'و', 'ز', 'ح'];
+
+export const optionLabel = (index: number): string => OPTION_LETTERS[index] || String(index + 1);
+
+export const isTrueAnswer = (question: Question | QuestionDraft): boolean => toBoolean(question.correctAnswer) === true;
+
+// The model stores the ordering key as a JSON string; manual and imported questions use an array
+export const correctSequence = (question: Question | QuestionDraft): string[] =>
+  toSequence(question.correctAnswer) || question.options || [];
+
+// Compared like gradeQuestion() does, so a key that differs from its option only in spelling still matches
+export const correctOptionIndex = (question: Question | QuestionDraft): number =>
+  (question.options || []).findIndex(option => normalizeAnswer(option) === normalizeAnswer(String(question.correctAnswer)));
+
+// The reference answer as a teacher would read it in the answer key
+export const formatAnswer = (question: Question): string => {
+  const { correctAnswer } = question;
+  let answer: string;
+  if (question.type === QuestionType.MATCHING && question.matches?.length) {
+    answer = question.matches.map(m => `${m.left} ← ${m.right}`).join('\n');
+  } else if (question.type === QuestionType.TRUE_FALSE) {
+    answer = isTrueAnswer(question) ? 'صواب' : 'خطأ';
+  } else if (question.type === QuestionType.ORDERING) {
+    answer = correctSequence(question).map((item, i) => `${i + 1}. ${item}`).join('\n');
+  } else if (question.type === QuestionType.MULTIPLE_CHOICE && question.options) {
+    const index = correctOptionIndex(question);
+    answer = index === -1 ? String(correctAnswer) : `${optionLabel(index)}) ${correctAnswer}`;
+  } else {
+    answer = String(correctAnswer);
+  }
+  return question.acceptedAnswers?.length ? `${answer}\n(تُقبل أيضاً: ${question.acceptedAnswers.join('، ')})` : answer;
+};
+
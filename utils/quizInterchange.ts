@@ -0,0 +1,94 @@
+// Quiz exchange with learning management systems: QTI 2.1, Moodle XML and GIFT
+import { Quiz, Question, QuestionType } from '../types';
+import { QuestionDraft, ParsedQuizFile, correctSequence } from './quizFormat';
+import { quizToGift, giftToQuiz } from './gift';
+import { quizToMoodleXml, moodleXmlToQuiz } from './moodleXml';
+import { createQtiPackage, readQtiPackage } from './qti';
+import { downloadBlob } from './zip';
+
+export type QuizFormat = 'qti' | 'moodle' | 'gift';
+
+export const QUIZ_FORMATS: Record<QuizFormat, { label: string; extension: string }> = {
+  qti: { label: 'QTI 2.1', extension: 'zip' },
+  moodle: { label: 'Moodle XML', extension: 'xml' },
+  gift: { label: 'GIFT', extension: 'txt' }
+};
+
+export const isQuizFormat = (value: string): value is QuizFormat => value in QUIZ_FORMATS;
+
+export const QUIZ_IMPORT_ACCEPT = '.zip,.xml,.txt,.gift';
+
+export interface QuizImportResult {
+  quiz: Quiz;
+  format: QuizFormat;
+  skipped: number;
+}
+
+export const exportQuiz = async (quiz: Quiz, format: QuizFormat): Promise<Blob> => {
+  switch (format) {
+    case 'qti':
+      return createQtiPackage(quiz);
+    case 'moodle':
+      return new Blob([quizToMoodleXml(quiz)], { type: 'application/xml;charset=utf-8' });
+    case 'gift':
+      return new Blob([quizToGift(quiz)], { type: 'text/plain;charset=utf-8' });
+  }
+};
+
+export const downloadQuiz = async (quiz: Quiz, format: QuizFormat, filename: string) => {
+  const blob = await exportQuiz(quiz, format);
+  downloadBlob(blob, `${filename}_${format}.${QUIZ_FORMATS[format].extension}`);
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Imported questions get ids and the shuffled option lists QuizSystem renders for matching and ordering
+const toQuestion = (draft: QuestionDraft, index: number, baseId: number): Question => {
+  const question: Question = { ...draft, id: baseId + index, explanation: draft.explanation || '' };
+  if (question.type === QuestionType.MATCHING) {
+    question.options = shuffle((question.matches || []).map(m => m.right));
+  } else if (question.type === QuestionType.ORDERING) {
+    question.options = shuffle(correctSequence(question));
+  }
+  return question;
+};
+
+const detectFormat = (fileName: string, source: string): QuizFormat | null => {
+  if (/\.zip$/i.test(fileName)) return 'qti';
+  if (/\.(txt|gift)$/i.test(fileName)) return 'gift';
+  if (/\.xml$/i.test(fileName)) return /<quiz[\s>]/.test(source) ? 'moodle' : 'qti';
+  return null;
+};
+
+/** Reads a QTI package/item, Moodle XML or GIFT file into a quiz QuizSystem can preview, edit and run. */
+export const importQuizFile = async (file: File): Promise<QuizImportResult> => {
+  const source = /\.zip$/i.test(file.name) ? '' : await file.text();
+  const format = detectFormat(file.name, source);
+  if (!format) throw new Error('صيغة الملف غير مدعومة. الصيغ المدعومة: QTI (zip/xml)، Moodle XML، GIFT (txt)');
+
+  let parsed: ParsedQuizFile;
+  if (format === 'qti') parsed = await readQtiPackage(file, file.name);
+  else if (format === 'moodle') parsed = moodleXmlToQuiz(source);
+  else parsed = giftToQuiz(source);
+
+  if (parsed.questions.length === 0) {
+    throw new Error(parsed.skipped > 0 ? 'أسئلة هذا الملف من أنواع غير مدعومة (مثل المقالية)' : 'لم يتم العثور على أسئلة في الملف');
+  }
+
+  const baseId = Date.now();
+  return {
+    quiz: {
+      title: parsed.title || file.name.replace(/\.[^.]+$/, ''),
+      questions: parsed.questions.map((draft, i) => toQuestion(draft, i, baseId))
+    },
+    format,
+    skipped: parsed.skipped
+  };
+};
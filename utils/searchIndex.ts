@@ -0,0 +1,172 @@
+// Local full-text search over lessons (content, summaries, flashcards, chat) and extracted book pages
+import { LessonSession, Book, BookPageText } from '../types';
+import * as DB from './db';
+import { normalizeArabic, stripDefiniteArticle } from './arabic';
+import { getSessionThreads } from './chatThreads';
+
+export type SearchResultKind = 'lesson' | 'summary' | 'flashcard' | 'chat' | 'book';
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchResultKind;
+  title: string; // Lesson or book title
+  text: string;
+  sessionId?: string;
+  bookId?: string;
+  page?: number; // 1-based, book pages only
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+const SNIPPET_RADIUS = 12; // words on each side of the first hit
+const TITLE_BOOST = 3;
+
+// The definite article is dropped so "والكتاب" and "كتاب" match
+export const tokenize = (text: string): string[] =>
+  normalizeArabic(text).split(' ').filter(Boolean).map(stripDefiniteArticle);
+
+const MARKDOWN_NOISE = /[#*_>`|]+/g;
+
+// A window of the original text around the first word matching any query token
+const buildSnippet = (text: string, queryTokens: string[]): string => {
+  const words = text.replace(MARKDOWN_NOISE, ' ').split(/\s+/).filter(Boolean);
+  const hit = words.findIndex(word => tokenize(word).some(t => queryTokens.some(q => t.startsWith(q))));
+  const center = hit === -1 ? 0 : hit;
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(words.length, center + SNIPPET_RADIUS + 1);
+  return `${start > 0 ? '… ' : ''}${words.slice(start, end).join(' ')}${end < words.length ? ' …' : ''}`;
+};
+
+/**
+ * Inverted index: normalized token -> (document -> term frequency).
+ * Every query token must match (as a prefix, so results update while typing);
+ * ranking is tf-idf with a boost for tokens that appear in the title.
+ */
+export class SearchIndex {
+  private docs: SearchDocument[] = [];
+  private postings = new Map<string, Map<number, number>>();
+  private titleTokens: Set<string>[] = [];
+
+  add(doc: SearchDocument) {
+    const docIndex = this.docs.length;
+    this.docs.push(doc);
+    this.titleTokens.push(new Set(tokenize(doc.title)));
+    tokenize(doc.text).forEach(token => {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(token, posting);
+      }
+      posting.set(docIndex, (posting.get(docIndex) || 0) + 1);
+    });
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  search(query: string, limit: number = 30): SearchResult[] {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    let scores: Map<number, number> | null = null;
+    for (const queryToken of queryTokens) {
+      const tokenScores = new Map<number, number>();
+      this.postings.forEach((posting, token) => {
+        if (!token.startsWith(queryToken)) return;
+        const idf = Math.log(1 + this.docs.length / posting.size);
+        const exactBonus = token === queryToken ? 2 : 1;
+        posting.forEach((tf, docIndex) => {
+          tokenScores.set(docIndex, (tokenScores.get(docIndex) || 0) + tf * idf * exactBonus);
+        });
+      });
+
+      // Intersect with the documents matched by the previous tokens
+      const previous: Map<number, number> | null = scores;
+      const next = new Map<number, number>();
+      tokenScores.forEach((score, docIndex) => {
+        if (previous === null) next.set(docIndex, score);
+        else if (previous.has(docIndex)) next.set(docIndex, previous.get(docIndex)! + score);
+      });
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      .map(([docIndex, score]) => {
+        const titleHits = queryTokens.filter(q => Array.from(this.titleTokens[docIndex]).some(t => t.startsWith(q))).length;
+        return { docIndex, score: score + titleHits * TITLE_BOOST };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ docIndex, score }) => ({
+        doc: this.docs[docIndex],
+        score,
+        snippet: buildSnippet(this.docs[docIndex].text, queryTokens)
+      }));
+  }
+}
+
+const sessionDocuments = (session: LessonSession): SearchDocument[] => {
+  const docs: SearchDocument[] = [
+    { id: `lesson:${session.id}`, kind: 'lesson', title: session.title, text: session.content, sessionId: session.id }
+  ];
+  if (session.summary?.length) {
+    docs.push({
+      id: `summary:${session.id}`,
+      kind: 'summary',
+      title: session.title,
+      text: session.summary.map(p => `${p.point} ${p.explanation}`).join('\n'),
+      sessionId: session.id
+    });
+  }
+  (session.flashcards || []).forEach((card, i) => {
+    docs.push({ id: `card:${session.id}:${i}`, kind: 'flashcard', title: session.title, text: `${card.front}\n${card.back}`, sessionId: session.id });
+  });
+  getSessionThreads(session).forEach(thread => {
+    thread.messages.forEach(message => {
+      if (!message.text) return;
+      docs.push({ id: `chat:${session.id}:${thread.id}:${message.id}`, kind: 'chat', title: `${session.title} · ${thread.title}`, text: message.text, sessionId: session.id });
+    });
+  });
+  return docs;
+};
+
+const bookPageDocument = (page: BookPageText, book: Book): SearchDocument => ({
+  id: `book:${page.id}`,
+  kind: 'book',
+  title: book.title,
+  text: page.text,
+  bookId: book.id,
+  page: page.page
+});
+
+let cached: { version: number; index: SearchIndex } | null = null;
+
+// Builds the index from IndexedDB, reusing the previous build until a searchable record changes
+export const getSearchIndex = async (): Promise<SearchIndex> => {
+  const version = DB.getDataVersion();
+  if (cached && cached.version === version) return cached.index;
+
+  const [sessions, books, pages] = await Promise.all([
+    DB.getAllSessions(),
+    DB.getAllBooks(),
+    DB.getAllBookPages()
+  ]);
+
+  const index = new SearchIndex();
+  sessions.forEach(session => sessionDocuments(session).forEach(doc => index.add(doc)));
+
+  const booksById = new Map(books.map(book => [book.id, book]));
+  pages.forEach(page => {
+    const book = booksById.get(page.bookId);
+    if (book) index.add(bookPageDocument(page, book));
+  });
+
+  cached = { version, index };
+  return index;
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { Flashcard } from '../types';
+import { gradeCardIn, withCardIds } from './spacedRepetition';
+
+const now = new Date('2024-03-01T10:00:00Z');
+
+describe('gradeCardIn', () => {
+  it('grades the card with the same id wherever it now sits in the deck', () => {
+    const deck: Flashcard[] = [{ id: 'a', front: 'س', back: '1' }, { id: 'b', front: 'ص', back: '2' }];
+    const graded = gradeCardIn([{ id: 'new', front: 'ع', back: '3' }, ...deck], deck[1], 'GOOD', now);
+    expect(graded.map(card => card.schedule?.repetitions)).toEqual([undefined, undefined, 1]);
+  });
+
+  it('matches legacy cards by front text, grading only the first, and gives the deck ids', () => {
+    const graded = gradeCardIn([{ front: 'س', back: '1' }, { front: 'س', back: '2' }], { front: 'س', back: '1' }, 'GOOD', now);
+    expect(graded.map(card => card.schedule?.repetitions)).toEqual([1, undefined]);
+    expect(graded.every(card => card.id)).toBe(true);
+  });
+});
+
+describe('withCardIds', () => {
+  it('keeps existing ids and assigns distinct new ones', () => {
+    const cards = withCardIds([{ id: 'a', front: 'س', back: '1' }, { front: 'ص', back: '2' }, { front: 'ع', back: '3' }]);
+    expect(cards[0].id).toBe('a');
+    expect(new Set(cards.map(card => card.id)).size).toBe(3);
+  });
+});
@@ -0,0 +1,134 @@
+import { Flashcard, CardSchedule, ReviewGrade, LessonSession } from '../types';
+
+// SM-2 style scheduler (close to Anki's variant of the algorithm)
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" cards come back after 10 minutes
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 'AGAIN', label: 'مرة أخرى' },
+  { grade: 'HARD', label: 'صعبة' },
+  { grade: 'GOOD', label: 'جيدة' },
+  { grade: 'EASY', label: 'سهلة' }
+];
+
+export interface DueCard {
+  sessionId: string;
+  sessionTitle: string;
+  card: Flashcard;
+}
+
+export const createSchedule = (now: Date = new Date()): CardSchedule => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueDate: now.toISOString()
+});
+
+export const isCardDue = (card: Flashcard, now: Date = new Date()): boolean => {
+  if (!card.schedule) return true; // New cards are always available
+  return new Date(card.schedule.dueDate).getTime() <= now.getTime();
+};
+
+const nextSchedule = (current: CardSchedule, grade: ReviewGrade, now: Date): CardSchedule => {
+  let { ease, interval, repetitions, lapses } = current;
+  let dueTime: number;
+
+  switch (grade) {
+    case 'AGAIN':
+      if (repetitions > 0) lapses += 1;
+      repetitions = 0;
+      interval = 0;
+      ease = Math.max(MIN_EASE, ease - 0.2);
+      dueTime = now.getTime() + RELEARN_DELAY_MS;
+      break;
+    case 'HARD':
+      interval = repetitions === 0 ? 1 : Math.max(1, Math.round(interval * 1.2));
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      repetitions += 1;
+      dueTime = now.getTime() + interval * DAY_MS;
+      break;
+    case 'GOOD':
+      interval = repetitions === 0 ? 1 : repetitions === 1 ? 3 : Math.round(interval * ease);
+      repetitions += 1;
+      dueTime = now.getTime() + interval * DAY_MS;
+      break;
+    case 'EASY':
+      interval = repetitions === 0 ? 4 : Math.round(Math.max(interval, 1) * ease * 1.3);
+      ease += 0.15;
+      repetitions += 1;
+      dueTime = now.getTime() + interval * DAY_MS;
+      break;
+  }
+
+  return {
+    ease: Number(ease.toFixed(2)),
+    interval,
+    repetitions,
+    lapses,
+    dueDate: new Date(dueTime).toISOString(),
+    lastReviewed: now.toISOString()
+  };
+};
+
+export const gradeCard = (card: Flashcard, grade: ReviewGrade, now: Date = new Date()): Flashcard => ({
+  ...card,
+  schedule: nextSchedule(card.schedule || createSchedule(now), grade, now)
+});
+
+// --- Card identity ---
+
+// Grades find their card by id rather than by position, since decks are regenerated and imported decks are appended
+const newCardId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const withCardIds = (cards: Flashcard[]): Flashcard[] =>
+  cards.map(card => card.id ? card : { ...card, id: newCardId() });
+
+const isSameCard = (card: Flashcard, target: Flashcard) =>
+  card.id && target.id ? card.id === target.id : card.front === target.front;
+
+/** The deck with `target` graded (only the first match, for legacy cards matched by text) and every card given an id. */
+export const gradeCardIn = (cards: Flashcard[], target: Flashcard, grade: ReviewGrade, now: Date = new Date()): Flashcard[] => {
+  const index = cards.findIndex(card => isSameCard(card, target));
+  return withCardIds(cards.map((card, i) => i === index ? gradeCard(card, grade, now) : card));
+};
+
+// Time until the card would be due again for each grade (used to label the grading buttons)
+export const previewIntervals = (card: Flashcard, now: Date = new Date()): Record<ReviewGrade, number> => {
+  const current = card.schedule || createSchedule(now);
+  return REVIEW_GRADES.reduce((acc, { grade }) => {
+    acc[grade] = new Date(nextSchedule(current, grade, now).dueDate).getTime() - now.getTime();
+    return acc;
+  }, {} as Record<ReviewGrade, number>);
+};
+
+export const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${Math.max(1, minutes)} د`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${Math.max(1, days)} يوم`;
+  const months = Math.round(days / 30);
+  if (months < 12) return `${months} شهر`;
+  return `${(days / 365).toFixed(1)} سنة`;
+};
+
+// Builds the cross-lesson review queue: overdue cards first (oldest due date), then new cards
+export const collectDueCards = (sessions: LessonSession[], now: Date = new Date()): DueCard[] => {
+  const due: DueCard[] = [];
+  sessions.forEach(session => {
+    (session.flashcards || []).forEach(card => {
+      if (isCardDue(card, now)) {
+        due.push({ sessionId: session.id, sessionTitle: session.title, card });
+      }
+    });
+  });
+
+  return due.sort((a, b) => {
+    if (!a.card.schedule && !b.card.schedule) return 0;
+    if (!a.card.schedule) return 1;
+    if (!b.card.schedule) return -1;
+    return new Date(a.card.schedule.dueDate).getTime() - new Date(b.card.schedule.dueDate).getTime();
+  });
+};
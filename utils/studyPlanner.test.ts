@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { PlanTask } from '../types';
+import { buildPlan } from './studyPlanner';
+
+const material = { lessons: [{ id: 'a', title: 'الكسور' }], books: [] };
+const reviewDates = (plan: PlanTask[]) => plan.filter(task => task.kind === 'REVIEW').map(task => task.date);
+
+describe('buildPlan', () => {
+  it('schedules reviews after the day a lesson is studied', () => {
+    expect(reviewDates(buildPlan('2024-03-30', material, [], '2024-03-10'))).toEqual(['2024-03-11', '2024-03-13', '2024-03-17']);
+  });
+
+  it('counts reviews of an already studied lesson from the day it was studied, not the re-plan day', () => {
+    const studied: PlanTask = {
+      id: 'STUDY_LESSON:a', kind: 'STUDY_LESSON', title: 'الكسور', lessonId: 'a', date: '2024-03-07',
+      completedAt: new Date(2024, 2, 8, 12).toISOString()
+    };
+    // Studied two days ago: the missed first review moves to today
+    expect(reviewDates(buildPlan('2024-03-30', material, [studied], '2024-03-10'))).toEqual(['2024-03-10', '2024-03-11', '2024-03-15']);
+    // Studied ten days ago: only the last review is left, due today
+    const longAgo = { ...studied, completedAt: new Date(2024, 1, 29, 12).toISOString() };
+    expect(reviewDates(buildPlan('2024-03-30', material, [longAgo], '2024-03-10'))).toEqual(['2024-03-10']);
+  });
+});
@@ -0,0 +1,154 @@
+// Study planner: spreads an exam's lessons and book pages over the days left, then adds spaced flashcard
+// reviews and practice quizzes. The plan is stored with the exam and only rebuilt when the student re-plans
+import { Book, Exam, LessonSession, PlanTask, PlanTaskKind } from '../types';
+import { dayKey, daysBetween, shiftDay } from './calendar';
+
+const STUDY_SHARE = 0.6; // New material fills the first 60% of the days; the rest is practice
+const REVIEW_OFFSETS = [1, 3, 7]; // Days after a lesson is studied, widening like the flashcard intervals
+export const PAGES_PER_SESSION = 15;
+
+export const PLAN_TASK_LABELS: Record<PlanTaskKind, string> = {
+  STUDY_LESSON: 'مذاكرة درس',
+  READ_BOOK: 'قراءة',
+  REVIEW: 'مراجعة بطاقات',
+  QUIZ: 'اختبار تدريبي'
+};
+
+const KIND_ORDER: PlanTaskKind[] = ['STUDY_LESSON', 'READ_BOOK', 'REVIEW', 'QUIZ'];
+
+export interface PlanMaterial {
+  lessons: Pick<LessonSession, 'id' | 'title'>[];
+  books: Pick<Book, 'id' | 'title' | 'totalPages'>[];
+}
+
+type DraftTask = Omit<PlanTask, 'date'>;
+
+// Every lesson is one sitting; books are read PAGES_PER_SESSION pages at a time
+const newMaterial = ({ lessons, books }: PlanMaterial): DraftTask[] => [
+  ...lessons.map((lesson): DraftTask => ({ id: `STUDY_LESSON:${lesson.id}`, kind: 'STUDY_LESSON', title: lesson.title, lessonId: lesson.id })),
+  ...books.flatMap(book => {
+    const chunks = Math.max(1, Math.ceil(book.totalPages / PAGES_PER_SESSION));
+    return Array.from({ length: chunks }, (_, i): DraftTask => {
+      const first = i * PAGES_PER_SESSION + 1;
+      const last = Math.max(first, Math.min(book.totalPages, first + PAGES_PER_SESSION - 1));
+      return {
+        id: `READ_BOOK:${book.id}:${first}`,
+        kind: 'READ_BOOK',
+        title: chunks > 1 ? `${book.title} (ص ${first}-${last})` : book.title,
+        bookId: book.id,
+        pages: [first, last]
+      };
+    });
+  })
+];
+
+// Item i of n lands on day offset + floor(i * days / n), so the load is even and the order kept
+const spread = <T>(items: T[], offset: number, days: number) =>
+  items.map((item, i) => ({ item, day: offset + Math.floor((i * days) / items.length) }));
+
+const byDate = (a: PlanTask, b: PlanTask) => a.date.localeCompare(b.date) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind);
+
+/**
+ * Lays out the days from today up to the day before the exam. Tasks completed in `previous` are kept
+ * as they were and not planned again (their ids are stable); everything still open is rescheduled.
+ */
+export const buildPlan = (examDate: string, material: PlanMaterial, previous: PlanTask[] = [], today: string = dayKey()): PlanTask[] => {
+  const dayCount = daysBetween(today, examDate);
+  if (dayCount < 1) throw new Error('يجب أن يكون موعد الامتحان بعد اليوم');
+
+  const done = previous.filter(task => task.completedAt);
+  const doneIds = new Set(done.map(task => task.id));
+  const planned: PlanTask[] = [];
+  const add = (draft: DraftTask, day: number) => {
+    if (!doneIds.has(draft.id)) planned.push({ ...draft, date: shiftDay(today, day) });
+  };
+
+  const studyDays = Math.max(1, Math.floor(dayCount * STUDY_SHARE));
+  // Lesson id -> day it is (or was) studied, relative to today; a lesson studied earlier keeps its real day
+  const studiedOn = new Map<string, number>();
+  done.forEach(task => {
+    if (task.kind === 'STUDY_LESSON' && task.lessonId) {
+      studiedOn.set(task.lessonId, Math.min(0, daysBetween(today, task.completedAt ? dayKey(new Date(task.completedAt)) : task.date)));
+    }
+  });
+  spread(newMaterial(material).filter(task => !doneIds.has(task.id)), 0, studyDays).forEach(({ item, day }) => {
+    add(item, day);
+    if (item.lessonId) studiedOn.set(item.lessonId, day);
+  });
+
+  material.lessons.forEach(lesson => {
+    const studied = studiedOn.get(lesson.id) ?? -1;
+    REVIEW_OFFSETS.forEach((offset, i) => {
+      const day = studied + offset;
+      // Reviews missed while the plan was open move to today, unless a later one is already due
+      const superseded = i + 1 < REVIEW_OFFSETS.length && studied + REVIEW_OFFSETS[i + 1] <= 0;
+      if (day < dayCount && !superseded) add({ id: `REVIEW:${lesson.id}:${i}`, kind: 'REVIEW', title: lesson.title, lessonId: lesson.id }, Math.max(0, day));
+    });
+  });
+
+  // One practice quiz per lesson over the remaining days, then one on everything the day before the exam
+  const practiceStart = Math.min(studyDays, dayCount - 1);
+  spread(material.lessons, practiceStart, dayCount - practiceStart).forEach(({ item, day }) => {
+    add({ id: `QUIZ:${item.id}`, kind: 'QUIZ', title: item.title, lessonId: item.id }, Math.max(day, studiedOn.get(item.id) ?? 0));
+  });
+  if (material.lessons.length > 1) add({ id: 'QUIZ:ALL', kind: 'QUIZ', title: 'اختبار شامل على كل الدروس' }, dayCount - 1);
+
+  return [...done, ...planned].sort(byDate);
+};
+
+export const createExam = (title: string, date: string, material: PlanMaterial): Exam => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  title,
+  date,
+  lessonIds: material.lessons.map(lesson => lesson.id),
+  bookIds: material.books.map(book => book.id),
+  createdAt: new Date().toISOString(),
+  plan: buildPlan(date, material)
+});
+
+// --- Tracking ---
+
+export interface PlanProgress {
+  total: number;
+  completed: number;
+  overdue: number; // Open tasks from days that have passed
+  percent: number;
+}
+
+export const planProgress = (plan: PlanTask[], today: string = dayKey()): PlanProgress => {
+  const completed = plan.filter(task => task.completedAt).length;
+  return {
+    total: plan.length,
+    completed,
+    overdue: plan.filter(task => !task.completedAt && task.date < today).length,
+    percent: plan.length ? Math.round((completed / plan.length) * 100) : 0
+  };
+};
+
+export const daysUntilExam = (exam: Exam, today: string = dayKey()): number => daysBetween(today, exam.date);
+
+export interface DueTask {
+  exam: Exam;
+  task: PlanTask;
+}
+
+// Today's tasks (done or not) and anything left open from earlier days, for every exam still ahead
+export const tasksDue = (exams: Exam[], today: string = dayKey()): DueTask[] =>
+  exams
+    .filter(exam => exam.date >= today)
+    .flatMap(exam => exam.plan.filter(task => task.date === today || (task.date < today && !task.completedAt)).map(task => ({ exam, task })));
+
+export const setTaskDone = (exam: Exam, taskId: string, done: boolean): Exam => ({
+  ...exam,
+  plan: exam.plan.map(task => task.id === taskId ? { ...task, completedAt: done ? new Date().toISOString() : undefined } : task)
+});
+
+/**
+ * Ticks off the earliest open task due by today that `match` accepts, in each exam. Returns only the
+ * exams that changed. Later tasks stay open: reviewing early doesn't replace a spaced review.
+ */
+export const completeMatchingTask = (exams: Exam[], match: (task: PlanTask, exam: Exam) => boolean, today: string = dayKey()): Exam[] =>
+  exams.flatMap(exam => {
+    const task = exam.plan.find(t => !t.completedAt && t.date <= today && match(t, exam));
+    return task ? [setTaskDone(exam, task.id, true)] : [];
+  });
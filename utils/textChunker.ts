@@ -0,0 +1,99 @@
+// Splits long lessons into model-sized pieces and runs work over them with bounded concurrency
+
+export const DEFAULT_CHUNK_SIZE = 20000; // characters, matches the old single-request truncation limit
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Hard-split a single oversized block, preferring sentence ends, then whitespace
+const splitOversizedBlock = (block: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let rest = block;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'), window.lastIndexOf('؟ '), window.lastIndexOf('! '));
+    if (cut < maxChars * 0.5) cut = window.lastIndexOf(' ');
+    if (cut < maxChars * 0.5) cut = maxChars - 1;
+    pieces.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1);
+  }
+  if (rest.trim()) pieces.push(rest.trim());
+  return pieces;
+};
+
+/**
+ * Splits markdown/plain text into chunks no longer than `maxChars`.
+ * Headings start a new section where possible so each chunk stays topically coherent;
+ * sections are packed together until the limit, falling back to paragraph and sentence boundaries.
+ */
+export const splitIntoChunks = (text: string, maxChars: number = DEFAULT_CHUNK_SIZE): string[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.length <= maxChars) return [trimmed];
+
+  // Sections begin at markdown headings
+  const sections = trimmed.split(/\n(?=#{1,6}\s)/);
+
+  // Break sections that are themselves too long into paragraphs (and paragraphs into sentences)
+  const blocks: string[] = [];
+  sections.forEach(section => {
+    if (section.length <= maxChars) {
+      blocks.push(section);
+      return;
+    }
+    section.split(/\n\s*\n/).forEach(paragraph => {
+      if (paragraph.length <= maxChars) blocks.push(paragraph);
+      else blocks.push(...splitOversizedBlock(paragraph, maxChars));
+    });
+  });
+
+  // Greedily pack blocks into chunks
+  const chunks: string[] = [];
+  let current = '';
+  blocks.forEach(block => {
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (candidate.length > maxChars && current) {
+      chunks.push(current.trim());
+      current = block;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current.trim()) chunks.push(current.trim());
+
+  return chunks;
+};
+
+/**
+ * Like Promise.all(items.map(fn)) but with at most `limit` calls in flight.
+ * Results keep the input order; `onProgress` fires after each item settles.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  onProgress?: ProgressCallback
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let done = 0;
+  onProgress?.(0, items.length);
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+      done += 1;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Spreads `total` across `parts` buckets as evenly as possible (earlier buckets get the remainder)
+export const distributeCount = (total: number, parts: number): number[] => {
+  const base = Math.floor(total / parts);
+  const remainder = total % parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < remainder ? 1 : 0));
+};
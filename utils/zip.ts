@@ -0,0 +1,27 @@
+// JSZip is loaded from the CDN in index.html; shared by backups and the DOCX/EPUB exporters
+
+declare global {
+  interface Window {
+    JSZip: any;
+  }
+}
+
+export const getJSZip = () => {
+  if (!window.JSZip) throw new Error('مكتبة الضغط غير محملة. يرجى تحديث الصفحة.');
+  return window.JSZip;
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+};